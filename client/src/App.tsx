@@ -17,6 +17,9 @@ import Admin from "@/pages/admin";
 import RegisterWithInvite from "@/pages/register-invite";
 import PasswordlessLogin from "@/pages/passwordless-login";
 import MagicLinkLogin from "@/pages/magic-link-login";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import TwoFactorSetupRequired from "@/pages/two-factor-setup";
 import ProfilePage from "@/pages/profile";
 import NotFound from "@/pages/not-found";
 
@@ -74,6 +77,10 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
       // Redirect from magic link login
       const redirectPath = isAdminRole(user.role) ? "/admin" : "/";
       setLocation(redirectPath);
+    } else if (user && location === "/forgot-password") {
+      // Redirect from forgot password
+      const redirectPath = isAdminRole(user.role) ? "/admin" : "/";
+      setLocation(redirectPath);
     }
   }, [user, location, setLocation]);
 
@@ -85,11 +92,16 @@ function AuthProvider({ children }: { children: React.ReactNode }) {
     );
   }
 
-  // Allow access to register and passwordless-login pages without authentication
-  if (!user && location !== "/login" && location !== "/register" && !location.startsWith("/passwordless-login") && !location.startsWith("/login/magic")) {
+  // Allow access to register, passwordless-login and password reset pages without authentication
+  if (!user && location !== "/login" && location !== "/register" && !location.startsWith("/passwordless-login") && !location.startsWith("/login/magic") && location !== "/forgot-password" && location !== "/reset-password") {
     return <Login />;
   }
 
+  // Admin roles must pass 2FA; until then the API only allows enabling it
+  if (user?.twoFactorSetupRequired) {
+    return <TwoFactorSetupRequired />;
+  }
+
   return (
     <div className={user ? "with-header-container min-h-screen bg-white" : ""}>
       {user && <Navigation user={user} />}
@@ -108,6 +120,8 @@ function Router() {
       <Route path="/register" component={RegisterWithInvite} />
       <Route path="/passwordless-login" component={PasswordlessLogin} />
       <Route path="/login/magic" component={MagicLinkLogin} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
       <Route path="/" component={Dashboard} />
       <Route path="/deals" component={Deals} />
       <Route path="/rewards" component={Rewards} />
@@ -0,0 +1,164 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { UserSessionInfo } from "@shared/schema";
+
+const SESSIONS_QUERY_KEY = ["/api/user/sessions"];
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Nombre legible del dispositivo a partir del user-agent ("Chrome · Windows")
+function describeUserAgent(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return [browser, os].filter(Boolean).join(" · ") || null;
+}
+
+/**
+ * Dispositivos con la cuenta iniciada; el usuario puede cerrar cualquiera salvo la sesión actual
+ */
+export function ActiveSessions() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<UserSessionInfo[]>({
+    queryKey: SESSIONS_QUERY_KEY,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: t("profile.sessionRevoked") });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/user/sessions");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      toast({ title: t("profile.otherSessionsRevoked") });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Monitor className="w-5 h-5 mr-2" />
+          {t("profile.activeSessions")}
+        </CardTitle>
+        <CardDescription>{t("profile.activeSessionsDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !sessions ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <ul className="divide-y rounded-md border">
+              {sessions.map((session) => {
+                const isMobile = !!session.userAgent && /Mobile|Android|iPhone|iPad/.test(session.userAgent);
+                const DeviceIcon = isMobile ? Smartphone : Monitor;
+                return (
+                  <li
+                    key={session.id}
+                    className="flex items-center justify-between gap-4 p-4"
+                    data-testid={`session-${session.id}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <DeviceIcon className="h-5 w-5 mt-0.5 text-gray-500" />
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 font-medium">
+                          {describeUserAgent(session.userAgent) ?? t("profile.unknownDevice")}
+                          {session.current && <Badge variant="secondary">{t("profile.thisDevice")}</Badge>}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {session.ipAddress && <span>{session.ipAddress} · </span>}
+                          {session.lastSeenAt
+                            ? t("profile.sessionLastActive").replace("{date}", new Date(session.lastSeenAt).toLocaleString())
+                            : t("profile.sessionSignedIn").replace(
+                                "{date}",
+                                session.loginAt ? new Date(session.loginAt).toLocaleString() : "—",
+                              )}
+                        </div>
+                      </div>
+                    </div>
+                    {!session.current && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(session.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-session-${session.id}`}
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        {t("profile.revokeSession")}
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+
+            {hasOtherSessions ? (
+              <Button
+                variant="outline"
+                onClick={() => revokeOthersMutation.mutate()}
+                disabled={revokeOthersMutation.isPending}
+                data-testid="button-revoke-other-sessions"
+              >
+                {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("profile.revokeOtherSessions")}
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-500">{t("profile.noOtherSessions")}</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
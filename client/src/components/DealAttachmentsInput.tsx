@@ -0,0 +1,173 @@
+import { useRef, useState } from "react";
+import { FileText, Image as ImageIcon, Loader2, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertDealAttachment } from "@shared/schema";
+import {
+  DEAL_ATTACHMENT_CONTENT_TYPES,
+  DEAL_ATTACHMENT_MAX_BYTES,
+  DEAL_ATTACHMENT_MAX_FILES,
+} from "@/../../shared/constants";
+
+interface DealAttachmentsInputProps {
+  value: InsertDealAttachment[];
+  onChange: (attachments: InsertDealAttachment[]) => void;
+  existingCount?: number; // Comprobantes ya guardados en el deal (al reenviarlo)
+  onUploadingChange?: (uploading: boolean) => void;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Selector de comprobantes de venta (factura u orden de compra) para un deal.
+ * Cada archivo se sube al object storage con una URL firmada en cuanto se elige;
+ * el formulario solo envía las rutas resultantes junto con el deal.
+ */
+export default function DealAttachmentsInput({
+  value,
+  onChange,
+  existingCount = 0,
+  onUploadingChange,
+}: DealAttachmentsInputProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const remaining = DEAL_ATTACHMENT_MAX_FILES - existingCount - value.length;
+
+  const setUploadingState = (next: boolean) => {
+    setUploading(next);
+    onUploadingChange?.(next);
+  };
+
+  const uploadFile = async (file: File): Promise<InsertDealAttachment> => {
+    const attachment = {
+      fileName: file.name,
+      contentType: file.type as InsertDealAttachment["contentType"],
+      sizeBytes: file.size,
+    };
+    const response = await apiRequest("POST", "/api/deals/attachments/upload-url", attachment);
+    const { uploadURL, objectPath } = await response.json();
+
+    const upload = await fetch(uploadURL, {
+      method: "PUT",
+      headers: { "Content-Type": file.type },
+      body: file,
+    });
+    if (!upload.ok) {
+      throw new Error(`Upload failed (${upload.status})`);
+    }
+    return { ...attachment, objectPath };
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files);
+    const invalid = selected.find(
+      (file) =>
+        !(DEAL_ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(file.type) ||
+        file.size > DEAL_ATTACHMENT_MAX_BYTES,
+    );
+    if (invalid) {
+      toast({
+        title: t("common.error"),
+        description: t("deals.attachmentInvalidFile").replace("{file}", invalid.name),
+        variant: "destructive",
+      });
+      return;
+    }
+    if (selected.length > remaining) {
+      toast({
+        title: t("common.error"),
+        description: t("deals.attachmentLimitReached").replace("{max}", String(DEAL_ATTACHMENT_MAX_FILES)),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploadingState(true);
+    try {
+      const uploaded: InsertDealAttachment[] = [];
+      for (const file of selected) {
+        uploaded.push(await uploadFile(file));
+      }
+      onChange([...value, ...uploaded]);
+    } catch (error: any) {
+      toast({
+        title: t("common.error"),
+        description: error.message || t("deals.attachmentUploadFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingState(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  const removeAttachment = (objectPath: string) => {
+    onChange(value.filter((attachment) => attachment.objectPath !== objectPath));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={DEAL_ATTACHMENT_CONTENT_TYPES.join(",")}
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+        data-testid="input-deal-attachments"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading || remaining <= 0}
+        data-testid="button-add-deal-attachment"
+      >
+        {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Paperclip className="w-4 h-4 mr-2" />}
+        {uploading ? t("deals.attachmentUploading") : t("deals.addAttachment")}
+      </Button>
+      <div className="text-sm text-gray-500">{t("deals.attachmentsHint")}</div>
+
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map((attachment) => (
+            <li
+              key={attachment.objectPath}
+              className="flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+              data-testid={`deal-attachment-${attachment.fileName}`}
+            >
+              <span className="flex items-center gap-2 truncate">
+                {attachment.contentType === "application/pdf" ? (
+                  <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                ) : (
+                  <ImageIcon className="w-4 h-4 text-gray-500 shrink-0" />
+                )}
+                <span className="truncate">{attachment.fileName}</span>
+                <span className="text-gray-400 shrink-0">{formatFileSize(attachment.sizeBytes)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment.objectPath)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={t("deals.removeAttachment")}
+                data-testid={`button-remove-attachment-${attachment.fileName}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -74,11 +74,11 @@ export function NotificationBell({ userId }: { userId: string }) {
       }
     };
 
-    // Escuchar notificaciones para este usuario
-    socket.on(`notification:${userId}`, handleNotification);
+    // El servidor solo emite a la room del usuario autenticado
+    socket.on('notification', handleNotification);
 
     return () => {
-      socket.off(`notification:${userId}`, handleNotification);
+      socket.off('notification', handleNotification);
     };
   }, [socket, userId]);
 
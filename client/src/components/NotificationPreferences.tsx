@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { NotificationPreferenceSetting } from "@shared/schema";
+import { NOTIFICATION_CHANNELS, type NotificationChannel, type NotificationEvent } from "@/../../shared/constants";
+
+const PREFERENCES_QUERY_KEY = ["/api/user/notification-preferences"];
+
+/**
+ * Canales (in-app, email, resumen) por los que el usuario recibe cada tipo de aviso.
+ * Cada cambio se guarda al momento.
+ */
+export function NotificationPreferences() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreferenceSetting[]>({
+    queryKey: PREFERENCES_QUERY_KEY,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (preference: NotificationPreferenceSetting) => {
+      const response = await apiRequest("PUT", "/api/user/notification-preferences", [preference]);
+      return (await response.json()) as NotificationPreferenceSetting[];
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const channelLabels: Record<NotificationChannel, string> = {
+    inApp: t("profile.channelInApp"),
+    email: t("profile.channelEmail"),
+    digest: t("profile.channelDigest"),
+  };
+
+  const eventLabels: Record<NotificationEvent, string> = {
+    deal_approved: t("profile.eventDealApproved"),
+    deal_rejected: t("profile.eventDealRejected"),
+    redemption_status: t("profile.eventRedemptionStatus"),
+    ticket_reply: t("profile.eventTicketReply"),
+    prize_won: t("profile.eventPrizeWon"),
+    points_expiring: t("profile.eventPointsExpiring"),
+  };
+
+  const handleToggle = (preference: NotificationPreferenceSetting, channel: NotificationChannel, enabled: boolean) => {
+    updateMutation.mutate({ ...preference, [channel]: enabled });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bell className="w-5 h-5 mr-2" />
+          {t("profile.notificationPreferences")}
+        </CardTitle>
+        <CardDescription>{t("profile.notificationPreferencesDescription")}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preferences ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("profile.notificationEvent")}</TableHead>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <TableHead key={channel} className="text-center">
+                    {channelLabels[channel]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preferences.map((preference) => (
+                <TableRow key={preference.eventType} data-testid={`row-notification-${preference.eventType}`}>
+                  <TableCell className="font-medium">
+                    {eventLabels[preference.eventType]}
+                  </TableCell>
+                  {NOTIFICATION_CHANNELS.map((channel) => (
+                    <TableCell key={channel} className="text-center">
+                      <Switch
+                        checked={preference[channel]}
+                        onCheckedChange={(enabled) => handleToggle(preference, channel, enabled)}
+                        disabled={updateMutation.isPending}
+                        aria-label={`${eventLabels[preference.eventType]} - ${channelLabels[channel]}`}
+                        data-testid={`switch-notification-${preference.eventType}-${channel}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
-import { MessageCircle, HelpCircle, X, Send } from "lucide-react";
+import { MessageCircle, HelpCircle, X, Send, Inbox, ChevronLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -35,9 +36,11 @@ import {
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import SupportTicketThread from "@/components/SupportTicketThread";
+import type { SupportTicket } from "@shared/schema";
 
 const supportTicketSchema = z.object({
   subject: z.string().min(5, "El asunto debe tener al menos 5 caracteres"),
@@ -87,7 +90,16 @@ export default function SupportButton() {
   ];
   const [ticketDialogOpen, setTicketDialogOpen] = useState(false);
   const [faqDialogOpen, setFaqDialogOpen] = useState(false);
+  const [ticketsDialogOpen, setTicketsDialogOpen] = useState(false);
+  const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: myTickets = [], isLoading: myTicketsLoading } = useQuery<SupportTicket[]>({
+    queryKey: ["/api/support-tickets"],
+    enabled: ticketsDialogOpen,
+  });
+  const selectedTicket = myTickets.find((ticket) => ticket.id === selectedTicketId);
 
   const form = useForm<SupportTicketForm>({
     resolver: zodResolver(supportTicketSchema),
@@ -111,6 +123,7 @@ export default function SupportButton() {
       setTicketDialogOpen(false);
       setMenuOpen(false);
       form.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/support-tickets"] });
     },
     onError: (error: Error) => {
       toast({
@@ -141,6 +154,18 @@ export default function SupportButton() {
               <MessageCircle className="h-4 w-4" />
               <span className="text-sm">Enviar Solicitud</span>
             </button>
+            <button
+              onClick={() => {
+                setSelectedTicketId(null);
+                setTicketsDialogOpen(true);
+                setMenuOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-4 py-2 text-left hover:bg-gray-100 rounded-md transition-colors"
+              data-testid="button-open-my-tickets"
+            >
+              <Inbox className="h-4 w-4" />
+              <span className="text-sm">{t("support.myTickets")}</span>
+            </button>
             <button
               onClick={() => {
                 setFaqDialogOpen(true);
@@ -271,6 +296,56 @@ export default function SupportButton() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={ticketsDialogOpen} onOpenChange={setTicketsDialogOpen}>
+        <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto" data-testid="dialog-my-tickets">
+          <DialogHeader>
+            <DialogTitle>{selectedTicket ? selectedTicket.subject : t("support.myTickets")}</DialogTitle>
+            <DialogDescription>
+              {selectedTicket ? t(`support.status_${selectedTicket.status}`) : t("support.myTicketsDescription")}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedTicket ? (
+            <div className="space-y-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedTicketId(null)}
+                data-testid="button-back-to-tickets"
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                {t("support.backToTickets")}
+              </Button>
+              <SupportTicketThread ticket={selectedTicket} />
+            </div>
+          ) : myTicketsLoading ? (
+            <p className="text-sm text-gray-500">{t("common.loading")}</p>
+          ) : myTickets.length === 0 ? (
+            <p className="text-sm text-gray-500">{t("support.noTickets")}</p>
+          ) : (
+            <ul className="space-y-2">
+              {myTickets.map((ticket) => (
+                <li key={ticket.id}>
+                  <button
+                    onClick={() => setSelectedTicketId(ticket.id)}
+                    className="w-full rounded-md border p-3 text-left hover:bg-gray-50 transition-colors"
+                    data-testid={`button-my-ticket-${ticket.id}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm truncate">{ticket.subject}</span>
+                      <Badge variant="outline">{t(`support.status_${ticket.status}`)}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {new Date(ticket.updatedAt).toLocaleDateString("es-ES")}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={faqDialogOpen} onOpenChange={setFaqDialogOpen}>
         <DialogContent className="sm:max-w-[600px] max-h-[80vh] overflow-y-auto" data-testid="dialog-faq">
           <DialogHeader>
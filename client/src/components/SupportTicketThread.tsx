@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Lock, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useSocket } from "@/hooks/useSocket";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import { isAdminRole } from "@/lib/roles";
+import type { SupportTicket, SupportTicketMessageWithAuthor } from "@shared/schema";
+
+interface SupportTicketThreadProps {
+  ticket: Pick<SupportTicket, "id" | "message" | "status" | "createdAt" | "adminResponse" | "respondedAt">;
+  asAdmin?: boolean; // Panel de admin: ve y puede escribir notas internas
+}
+
+/**
+ * Conversación de un ticket de soporte: el mensaje original, las respuestas de ambos lados
+ * y, para admins, las notas internas. Se refresca en vivo con "support:ticket-message".
+ */
+export default function SupportTicketThread({ ticket, asAdmin = false }: SupportTicketThreadProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const socket = useSocket();
+  const [body, setBody] = useState("");
+  const [isInternal, setIsInternal] = useState(false);
+
+  const messagesKey = [`/api/support-tickets/${ticket.id}/messages`];
+  const { data: messages = [], isLoading } = useQuery<SupportTicketMessageWithAuthor[]>({
+    queryKey: messagesKey,
+  });
+
+  useEffect(() => {
+    if (!socket) return;
+    const handleMessage = ({ ticketId }: { ticketId: string }) => {
+      if (ticketId === ticket.id) {
+        queryClient.invalidateQueries({ queryKey: [`/api/support-tickets/${ticket.id}/messages`] });
+      }
+    };
+    socket.on("support:ticket-message", handleMessage);
+    return () => {
+      socket.off("support:ticket-message", handleMessage);
+    };
+  }, [socket, ticket.id, queryClient]);
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const url = asAdmin
+        ? `/api/admin/support-tickets/${ticket.id}/messages`
+        : `/api/support-tickets/${ticket.id}/messages`;
+      return apiRequest("POST", url, { body, isInternal: asAdmin && isInternal });
+    },
+    onSuccess: () => {
+      setBody("");
+      setIsInternal(false);
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      queryClient.invalidateQueries({ queryKey: [asAdmin ? "/api/admin/support-tickets" : "/api/support-tickets"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message || t("support.couldNotSendReply"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Tickets previos al hilo solo tienen la respuesta guardada en el propio ticket
+  const hasTeamReply = messages.some((message) => isAdminRole(message.authorRole ?? undefined) && !message.isInternal);
+  const legacyResponse = !isLoading && !hasTeamReply ? ticket.adminResponse : null;
+
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleString("es-ES", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const authorName = (message: SupportTicketMessageWithAuthor) =>
+    message.authorFirstName || message.authorLastName
+      ? `${message.authorFirstName ?? ""} ${message.authorLastName ?? ""}`.trim()
+      : message.authorUsername || "";
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-80 overflow-y-auto space-y-2 pr-1" data-testid={`ticket-thread-${ticket.id}`}>
+        <div className="rounded-md bg-gray-50 p-3 text-sm">
+          <div className="text-xs text-gray-500 mb-1">{formatDate(ticket.createdAt)}</div>
+          <p className="whitespace-pre-line">{ticket.message}</p>
+        </div>
+
+        {legacyResponse && (
+          <div className="rounded-md bg-blue-50 p-3 text-sm ml-6">
+            <div className="text-xs text-blue-700 mb-1">
+              {t("support.supportTeam")}
+              {ticket.respondedAt && ` • ${formatDate(ticket.respondedAt)}`}
+            </div>
+            <p className="whitespace-pre-line text-blue-900">{legacyResponse}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : (
+          messages.map((message) => {
+            const fromTeam = isAdminRole(message.authorRole ?? undefined);
+            return (
+              <div
+                key={message.id}
+                className={`rounded-md p-3 text-sm ${
+                  message.isInternal
+                    ? "bg-amber-50 border border-dashed border-amber-300 ml-6"
+                    : fromTeam
+                    ? "bg-blue-50 ml-6"
+                    : "bg-gray-50 mr-6"
+                }`}
+                data-testid={`ticket-message-${message.id}`}
+              >
+                <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                  {message.isInternal && <Lock className="h-3 w-3 text-amber-600" />}
+                  <span>
+                    {message.isInternal
+                      ? `${t("support.internalNote")} • ${authorName(message)}`
+                      : fromTeam && !asAdmin
+                      ? t("support.supportTeam")
+                      : authorName(message)}
+                  </span>
+                  <span>• {formatDate(message.createdAt)}</span>
+                </div>
+                <p className="whitespace-pre-line">{message.body}</p>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {ticket.status === "closed" ? (
+        <p className="text-sm text-gray-500">{t("support.ticketClosedNoReplies")}</p>
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={isInternal ? t("support.internalNotePlaceholder") : t("support.replyPlaceholder")}
+            className="min-h-[80px]"
+            data-testid="textarea-ticket-reply"
+          />
+          {ticket.status === "resolved" && !isInternal && (
+            <p className="text-xs text-gray-500">{t("support.replyReopensTicket")}</p>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            {asAdmin ? (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={isInternal}
+                  onCheckedChange={(checked) => setIsInternal(checked === true)}
+                  data-testid="checkbox-internal-note"
+                />
+                {t("support.markAsInternalNote")}
+              </label>
+            ) : (
+              <span />
+            )}
+            <Button
+              size="sm"
+              onClick={() => replyMutation.mutate()}
+              disabled={!body.trim() || replyMutation.isPending}
+              data-testid="button-send-reply"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {isInternal ? t("support.addInternalNote") : t("support.sendReply")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
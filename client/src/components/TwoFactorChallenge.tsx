@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useTranslation } from "@/hooks/useTranslation";
+import { verifyTwoFactorLogin, type AuthUser } from "@/lib/auth";
+
+interface TwoFactorChallengeProps {
+  onVerified: (user: AuthUser) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Segundo paso del login: código de la app autenticadora o, si se perdió el dispositivo, uno de recuperación
+ */
+export function TwoFactorChallenge({ onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { t } = useTranslation();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: (value: string) => verifyTwoFactorLogin(value),
+    onSuccess: onVerified,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      verifyMutation.mutate(code.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center gap-2 text-gray-700">
+        <ShieldCheck className="h-5 w-5 text-primary-600" />
+        <span className="font-medium">{t("auth.twoFactorTitle")}</span>
+      </div>
+      <p className="text-sm text-gray-600">
+        {useRecoveryCode ? t("auth.twoFactorRecoveryDescription") : t("auth.twoFactorDescription")}
+      </p>
+
+      {verifyMutation.isError && (
+        <Alert variant="destructive">
+          <AlertDescription>{verifyMutation.error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">
+          {useRecoveryCode ? t("auth.recoveryCode") : t("auth.verificationCode")}
+        </Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          autoFocus
+          data-testid="input-two-factor-code"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!code.trim() || verifyMutation.isPending}
+        data-testid="button-verify-two-factor"
+      >
+        {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {t("auth.verify")}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          className="text-primary-600 hover:text-primary-700"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+          data-testid="button-toggle-recovery-code"
+        >
+          {useRecoveryCode ? t("auth.useAuthenticatorCode") : t("auth.useRecoveryCode")}
+        </button>
+        <button type="button" className="text-gray-500 hover:text-gray-700" onClick={onCancel}>
+          {t("auth.backToLogin")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+const TWO_FACTOR_QUERY_KEY = ["/api/user/2fa"];
+
+type CodeAction = "regenerate" | "disable";
+
+interface TwoFactorSettingsProps {
+  // Se llama al terminar el alta (p. ej. para liberar a un admin de la pantalla de alta obligatoria)
+  onEnabled?: () => void;
+}
+
+/**
+ * Alta del segundo factor con QR, códigos de recuperación y, si no es obligatorio, desactivación
+ */
+export function TwoFactorSettings({ onEnabled }: TwoFactorSettingsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: TWO_FACTOR_QUERY_KEY,
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t("common.error"),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const resetCodeForm = () => {
+    setCode("");
+    setCodeAction(null);
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/2fa/setup");
+      return (await response.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/user/2fa/enable", { code: value });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+      toast({ title: t("profile.twoFactorEnabledToast") });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code: value });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      resetCodeForm();
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("POST", "/api/user/2fa/disable", { code: value });
+    },
+    onSuccess: () => {
+      resetCodeForm();
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({ title: t("profile.twoFactorDisabledToast") });
+    },
+    onError: showError,
+  });
+
+  const handleCodeActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    if (codeAction === "regenerate") {
+      regenerateMutation.mutate(code.trim());
+    } else if (codeAction === "disable") {
+      disableMutation.mutate(code.trim());
+    }
+  };
+
+  const handleRecoveryCodesSaved = () => {
+    setRecoveryCodes(null);
+    onEnabled?.();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          {t("profile.twoFactor")}
+          {status?.enabled && (
+            <Badge className="ml-2" variant="secondary" data-testid="badge-two-factor-enabled">
+              {t("profile.twoFactorOn")}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {status?.required ? t("profile.twoFactorRequiredDescription") : t("profile.twoFactorDescription")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recoveryCodes ? (
+          // Los códigos solo se muestran una vez: en la BD se guardan sus hashes
+          <div className="space-y-4" data-testid="two-factor-recovery-codes">
+            <Alert>
+              <KeyRound className="h-4 w-4" />
+              <AlertDescription>{t("profile.recoveryCodesDescription")}</AlertDescription>
+            </Alert>
+            <div className="grid grid-cols-2 gap-2 rounded-md border bg-gray-50 p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                  toast({ title: t("profile.recoveryCodesCopied") });
+                }}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                {t("profile.copyRecoveryCodes")}
+              </Button>
+              <Button onClick={handleRecoveryCodesSaved} data-testid="button-recovery-codes-saved">
+                {t("profile.recoveryCodesSaved")}
+              </Button>
+            </div>
+          </div>
+        ) : !status.enabled ? (
+          setup ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (code.trim()) enableMutation.mutate(code.trim());
+              }}
+              className="space-y-4"
+            >
+              <p className="text-sm text-gray-600">{t("profile.twoFactorScanQr")}</p>
+              <div className="flex flex-col items-center gap-2">
+                <img src={setup.qrCodeDataUrl} alt={t("profile.twoFactorQrAlt")} className="h-52 w-52" />
+                <p className="text-xs text-gray-500">{t("profile.twoFactorManualEntry")}</p>
+                <code className="rounded bg-gray-100 px-2 py-1 text-sm break-all" data-testid="text-two-factor-secret">
+                  {setup.secret}
+                </code>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-setup-code">{t("auth.verificationCode")}</Label>
+                <Input
+                  id="two-factor-setup-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  data-testid="input-two-factor-setup-code"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" disabled={!code.trim() || enableMutation.isPending} data-testid="button-enable-two-factor">
+                  {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("profile.enableTwoFactor")}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                  {t("common.cancel")}
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t("profile.setUpTwoFactor")}
+            </Button>
+          )
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {t("profile.recoveryCodesRemaining").replace("{count}", String(status.recoveryCodesRemaining))}
+            </p>
+
+            {codeAction ? (
+              <form onSubmit={handleCodeActionSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="two-factor-action-code">
+                    {codeAction === "disable" ? t("profile.twoFactorCodeOrRecovery") : t("auth.verificationCode")}
+                  </Label>
+                  <Input
+                    id="two-factor-action-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    data-testid="input-two-factor-action-code"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    variant={codeAction === "disable" ? "destructive" : "default"}
+                    disabled={!code.trim() || regenerateMutation.isPending || disableMutation.isPending}
+                    data-testid="button-confirm-two-factor-action"
+                  >
+                    {codeAction === "disable" ? t("profile.disableTwoFactor") : t("profile.regenerateRecoveryCodes")}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={resetCodeForm}>
+                    {t("common.cancel")}
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => setCodeAction("regenerate")} data-testid="button-regenerate-recovery-codes">
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {t("profile.regenerateRecoveryCodes")}
+                </Button>
+                {!status.required && (
+                  <Button
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => setCodeAction("disable")}
+                    data-testid="button-disable-two-factor"
+                  >
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    {t("profile.disableTwoFactor")}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ExternalLink, FileText, Image as ImageIcon, Paperclip } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatFileSize } from "@/components/DealAttachmentsInput";
+import { useTranslation } from "@/hooks/useTranslation";
+import type { DealAttachment } from "@shared/schema";
+
+interface DealAttachmentsPreviewProps {
+  dealId: string;
+  count: number;
+}
+
+/**
+ * Badge con el número de comprobantes de venta de un deal; al abrirlo el admin
+ * los previsualiza (imágenes en línea, PDFs en un visor embebido) antes de aprobar
+ */
+export default function DealAttachmentsPreview({ dealId, count }: DealAttachmentsPreviewProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: attachments = [], isLoading } = useQuery<DealAttachment[]>({
+    queryKey: [`/api/deals/${dealId}/attachments`],
+    enabled: open,
+  });
+
+  const selected = attachments.find((attachment) => attachment.id === selectedId) ?? attachments[0];
+  const fileUrl = (attachment: DealAttachment) => `/api/deals/${dealId}/attachments/${attachment.id}/file`;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button type="button" data-testid={`button-deal-attachments-${dealId}`}>
+          <Badge variant="outline" className="border-blue-300 bg-blue-50 text-blue-700 cursor-pointer">
+            <Paperclip className="w-3 h-3 mr-1" />
+            {t("admin.attachmentsBadge").replace("{count}", String(count))}
+          </Badge>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{t("admin.proofOfSaleTitle")}</DialogTitle>
+          <DialogDescription>{t("admin.proofOfSaleDescription")}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        ) : attachments.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("admin.noAttachments")}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+            <ul className="space-y-1">
+              {attachments.map((attachment) => (
+                <li key={attachment.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(attachment.id)}
+                    className={`w-full flex items-center gap-2 rounded-md border px-3 py-2 text-left text-sm ${
+                      selected?.id === attachment.id ? "border-blue-400 bg-blue-50" : "hover:bg-gray-50"
+                    }`}
+                    data-testid={`button-preview-attachment-${attachment.id}`}
+                  >
+                    {attachment.contentType === "application/pdf" ? (
+                      <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                    ) : (
+                      <ImageIcon className="w-4 h-4 text-gray-500 shrink-0" />
+                    )}
+                    <span className="truncate">{attachment.fileName}</span>
+                  </button>
+                  <div className="px-3 text-xs text-gray-400">{formatFileSize(attachment.sizeBytes)}</div>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="space-y-2">
+                <div className="h-[60vh] rounded-md border bg-gray-50 overflow-auto flex items-center justify-center">
+                  {selected.contentType === "application/pdf" ? (
+                    <iframe
+                      src={fileUrl(selected)}
+                      title={selected.fileName}
+                      className="w-full h-full"
+                      data-testid="iframe-attachment-preview"
+                    />
+                  ) : (
+                    <img
+                      src={fileUrl(selected)}
+                      alt={selected.fileName}
+                      className="max-w-full max-h-full object-contain"
+                      data-testid="img-attachment-preview"
+                    />
+                  )}
+                </div>
+                <a
+                  href={fileUrl(selected)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-sm text-blue-600 hover:underline"
+                  data-testid="link-open-attachment"
+                >
+                  <ExternalLink className="w-4 h-4 mr-1" />
+                  {t("admin.openAttachment")}
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
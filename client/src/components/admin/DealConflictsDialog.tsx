@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { DealConflictWithDeal } from "@shared/schema";
+
+interface DealConflictsDialogProps {
+  dealId: string;
+  conflicts: DealConflictWithDeal[];
+}
+
+/**
+ * Conflictos de posible duplicado de un deal pendiente. El admin decide si no es un duplicado
+ * (se puede aprobar) o si lo es (el deal se rechaza con el motivo indicado).
+ */
+export default function DealConflictsDialog({ dealId, conflicts }: DealConflictsDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+
+  const resolveMutation = useMutation({
+    mutationFn: async (resolution: "not_duplicate" | "duplicate") => {
+      return apiRequest("POST", `/api/admin/deals/${dealId}/conflicts/resolve`, {
+        resolution,
+        note: note.trim() || undefined,
+      });
+    },
+    onSuccess: (_data, resolution) => {
+      toast({
+        title: t("common.success"),
+        description: resolution === "duplicate" ? t("admin.dealRejectedAsDuplicate") : t("admin.conflictsDismissed"),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/pending"] });
+      setNote("");
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("common.error"),
+        description: error.message || "Failed to resolve conflicts",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(Number(value));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button type="button" data-testid={`button-deal-conflicts-${dealId}`}>
+          <Badge variant="destructive" className="cursor-pointer">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {t("admin.possibleDuplicate")}
+          </Badge>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("admin.possibleDuplicateTitle")}</DialogTitle>
+          <DialogDescription>{t("admin.possibleDuplicateDescription")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-72 overflow-y-auto">
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="rounded-md border p-3 text-sm" data-testid={`conflict-${conflict.id}`}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium">{conflict.conflictingDeal.productName}</span>
+                <Badge variant="outline">{t(`admin.conflictReason_${conflict.reason}`)}</Badge>
+              </div>
+              <div className="text-gray-600">
+                {conflict.conflictingDeal.userFirstName || conflict.conflictingDeal.userLastName
+                  ? `${conflict.conflictingDeal.userFirstName ?? ""} ${conflict.conflictingDeal.userLastName ?? ""}`.trim()
+                  : conflict.conflictingDeal.userName}
+                {" • "}
+                {formatCurrency(conflict.conflictingDeal.dealValue)}
+                {" • "}
+                {new Date(conflict.conflictingDeal.closeDate).toLocaleDateString()}
+                {" • "}
+                {conflict.conflictingDeal.status}
+              </div>
+              {conflict.conflictingDeal.licenseAgreementNumber && (
+                <div className="text-gray-600">
+                  {t("deals.licenseAgreementNumber")}: {conflict.conflictingDeal.licenseAgreementNumber}
+                </div>
+              )}
+              {conflict.conflictingDeal.clientInfo && (
+                <div className="text-gray-500 line-clamp-2">{conflict.conflictingDeal.clientInfo}</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t("admin.conflictResolutionNotePlaceholder")}
+          className="h-20"
+          data-testid="textarea-conflict-note"
+        />
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => resolveMutation.mutate("not_duplicate")}
+            disabled={resolveMutation.isPending}
+            data-testid="button-dismiss-conflicts"
+          >
+            {t("admin.notADuplicate")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => resolveMutation.mutate("duplicate")}
+            disabled={resolveMutation.isPending}
+            data-testid="button-confirm-duplicate"
+          >
+            {t("admin.rejectAsDuplicate")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTranslation } from "@/hooks/useTranslation";
+import type { DealEventWithActor } from "@shared/schema";
+
+interface DealResubmissionDiffProps {
+  dealId: string;
+  revision: number;
+}
+
+/**
+ * Badge para la cola de pendientes que marca un deal reenviado por el partner;
+ * al abrirlo muestra la nota del reenvío, el motivo del rechazo anterior y el diff de campos
+ */
+export default function DealResubmissionDiff({ dealId, revision }: DealResubmissionDiffProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+
+  const { data: events, isLoading } = useQuery<DealEventWithActor[]>({
+    queryKey: [`/api/admin/deals/${dealId}/events`],
+    enabled: open,
+  });
+
+  // El último reenvío y el rechazo que lo motivó
+  const resubmission = events?.filter((event) => event.eventType === "resubmitted").at(-1);
+  const rejection = resubmission
+    ? events
+        ?.filter((event) => event.eventType === "rejected" && new Date(event.createdAt) <= new Date(resubmission.createdAt))
+        .at(-1)
+    : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" data-testid={`button-resubmission-${dealId}`}>
+          <Badge variant="outline" className="border-orange-300 bg-orange-50 text-orange-700 cursor-pointer">
+            <RotateCcw className="w-3 h-3 mr-1" />
+            {t("admin.resubmissionBadge").replace("{revision}", String(revision))}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96" align="start">
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-3/4" />
+          </div>
+        ) : !resubmission ? (
+          <p className="text-sm text-gray-500">{t("admin.resubmissionNotFound")}</p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            {rejection?.comment && (
+              <div>
+                <div className="font-medium text-gray-900">{t("admin.previousRejectionReason")}</div>
+                <p className="text-gray-600 whitespace-pre-line">{rejection.comment}</p>
+              </div>
+            )}
+            {resubmission.comment && (
+              <div>
+                <div className="font-medium text-gray-900">{t("admin.partnerNote")}</div>
+                <p className="text-gray-600 whitespace-pre-line">{resubmission.comment}</p>
+              </div>
+            )}
+            <div>
+              <div className="font-medium text-gray-900 mb-1">{t("admin.changesSincePreviousVersion")}</div>
+              {resubmission.changes.length === 0 ? (
+                <p className="text-gray-500">{t("admin.noFieldChanges")}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-2">{t("admin.field")}</th>
+                      <th className="py-1 pr-2">{t("admin.previousValue")}</th>
+                      <th className="py-1">{t("admin.newValue")}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {resubmission.changes.map((change) => (
+                      <tr key={change.field} className="border-t" data-testid={`diff-${dealId}-${change.field}`}>
+                        <td className="py-1 pr-2 font-medium">{change.field}</td>
+                        <td className="py-1 pr-2 text-red-600 line-through">{String(change.before ?? "-")}</td>
+                        <td className="py-1 text-green-700">{String(change.after ?? "-")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle, Clock, Mail, RotateCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailOutboxCounts, EmailOutboxStatus, EmailOutboxSummary } from "@shared/schema";
+
+interface EmailOutboxResponse {
+  emails: EmailOutboxSummary[];
+  counts: EmailOutboxCounts;
+}
+
+/**
+ * Estado del outbox de emails: contadores por estado y la lista de envíos,
+ * por defecto los fallidos definitivamente, con la opción de reenviarlos
+ */
+export default function EmailOutboxTab() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<EmailOutboxStatus>("dead");
+
+  const { data, isLoading } = useQuery<EmailOutboxResponse>({
+    queryKey: ["/api/admin/email-outbox", status],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/email-outbox?status=${status}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch email outbox");
+      return res.json();
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/admin/email-outbox/${id}/resend`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-outbox"] });
+      toast({
+        title: t("common.success"),
+        description: t("admin.emailResendQueued"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (dateString: string | Date) => {
+    return new Date(dateString).toLocaleDateString("es-ES", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const statusLabels: Record<EmailOutboxStatus, string> = {
+    pending: t("admin.emailStatusPending"),
+    sending: t("admin.emailStatusSending"),
+    sent: t("admin.emailStatusSent"),
+    dead: t("admin.emailStatusDead"),
+  };
+
+  const statusColors: Record<EmailOutboxStatus, string> = {
+    pending: "bg-yellow-100 text-yellow-800",
+    sending: "bg-blue-100 text-blue-800",
+    sent: "bg-green-100 text-green-800",
+    dead: "bg-red-100 text-red-800",
+  };
+
+  const counts = data?.counts;
+  const emails = data?.emails ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.emailsInQueue")}</p>
+                <p className="text-2xl font-bold" data-testid="text-emails-pending">
+                  {counts ? counts.pending + counts.sending : "—"}
+                </p>
+              </div>
+              <Clock className="h-8 w-8 text-yellow-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.emailStatusSent")}</p>
+                <p className="text-2xl font-bold" data-testid="text-emails-sent">
+                  {counts?.sent ?? "—"}
+                </p>
+              </div>
+              <CheckCircle className="h-8 w-8 text-green-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.emailStatusDead")}</p>
+                <p className="text-2xl font-bold" data-testid="text-emails-dead">
+                  {counts?.dead ?? "—"}
+                </p>
+              </div>
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <Mail className="h-5 w-5 mr-2" />
+              {t("admin.emailDelivery")}
+            </CardTitle>
+            <Select value={status} onValueChange={(value) => setStatus(value as EmailOutboxStatus)}>
+              <SelectTrigger className="w-48" data-testid="select-email-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dead">{statusLabels.dead}</SelectItem>
+                <SelectItem value="pending">{statusLabels.pending}</SelectItem>
+                <SelectItem value="sending">{statusLabels.sending}</SelectItem>
+                <SelectItem value="sent">{statusLabels.sent}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : emails.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{t("admin.noEmailsInStatus")}</p>
+          ) : (
+            <div className="space-y-3">
+              {emails.map((email) => (
+                <div key={email.id} className="border rounded-lg p-4" data-testid={`email-outbox-${email.id}`}>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold truncate">{email.subject}</h3>
+                        <Badge className={statusColors[email.status]}>{statusLabels[email.status]}</Badge>
+                        <Badge variant="outline">{email.category}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {email.toName ? `${email.toName} <${email.toEmail}>` : email.toEmail}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {t("admin.emailAttempts").replace("{count}", String(email.attempts))}
+                        {" • "}
+                        {formatDate(email.sentAt ?? email.updatedAt)}
+                        {email.transport && ` • ${email.transport}`}
+                      </p>
+                      {email.lastError && email.status !== "sent" && (
+                        <p className="text-xs text-red-600 break-words" data-testid={`email-error-${email.id}`}>
+                          {email.lastError}
+                        </p>
+                      )}
+                    </div>
+                    {email.status === "dead" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resendMutation.mutate(email.id)}
+                        disabled={resendMutation.isPending}
+                        data-testid={`button-resend-email-${email.id}`}
+                      >
+                        <RotateCw className="h-4 w-4 mr-2" />
+                        {t("admin.resendEmail")}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
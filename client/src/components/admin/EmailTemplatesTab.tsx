@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Eye, FileText, RotateCcw, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailTemplateOverride, EmailTemplateSummary, RenderedEmailPreview } from "@shared/schema";
+import { EMAIL_LANGUAGES, REGIONS, type EmailLanguage, type Region } from "@/../../shared/constants";
+
+interface EmailTemplatesResponse {
+  templates: EmailTemplateSummary[];
+  overrides: EmailTemplateOverride[];
+}
+
+const LANGUAGE_LABELS: Record<EmailLanguage, string> = {
+  en: "English",
+  es: "Español",
+  pt: "Português",
+};
+
+/**
+ * Editor de plantillas de email para super-admins: por plantilla, idioma y región
+ * permite reemplazar asunto y cuerpo, previsualizar con datos de ejemplo y volver al texto original
+ */
+export default function EmailTemplatesTab() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [templateKey, setTemplateKey] = useState<string>("invite");
+  const [language, setLanguage] = useState<EmailLanguage>("es");
+  const [region, setRegion] = useState<Region>("NOLA");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState<RenderedEmailPreview | null>(null);
+
+  const { data, isLoading } = useQuery<EmailTemplatesResponse>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+
+  const template = data?.templates.find((item) => item.key === templateKey);
+  const override = data?.overrides.find(
+    (item) => item.templateKey === templateKey && item.language === language && item.region === region,
+  );
+
+  // Al cambiar de plantilla, idioma o región se carga el texto vigente en el editor
+  useEffect(() => {
+    const content = override ?? template?.defaults[language];
+    setSubject(content?.subject ?? "");
+    setBody(content?.body ?? "");
+    setPreview(null);
+  }, [template, override, language]);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/email-templates/preview", {
+        templateKey,
+        language,
+        region,
+        subject,
+        body,
+      });
+      return (await response.json()) as RenderedEmailPreview;
+    },
+    onSuccess: (rendered) => setPreview(rendered),
+    onError: (error: Error) => {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/admin/email-templates/overrides", {
+        templateKey,
+        language,
+        region,
+        subject,
+        body,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({ title: t("common.success"), description: t("admin.emailTemplateSaved") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/email-templates/overrides/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-templates"] });
+      toast({ title: t("common.success"), description: t("admin.emailTemplateReset") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="h-5 w-5 mr-2" />
+            {t("admin.emailTemplates")}
+          </CardTitle>
+          <CardDescription>{t("admin.emailTemplatesDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>{t("admin.emailTemplate")}</Label>
+              <Select value={templateKey} onValueChange={setTemplateKey}>
+                <SelectTrigger data-testid="select-email-template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {data?.templates.map((item) => (
+                    <SelectItem key={item.key} value={item.key}>
+                      {item.key}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{t("admin.emailLanguage")}</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(value as EmailLanguage)}>
+                <SelectTrigger data-testid="select-email-template-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_LANGUAGES.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {LANGUAGE_LABELS[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{t("admin.region")}</Label>
+              <Select value={region} onValueChange={(value) => setRegion(value as Region)}>
+                <SelectTrigger data-testid="select-email-template-region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REGIONS.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {override ? (
+              <Badge className="bg-blue-100 text-blue-800" data-testid="badge-template-custom">
+                {t("admin.emailTemplateCustom")}
+              </Badge>
+            ) : (
+              <Badge variant="outline" data-testid="badge-template-default">
+                {t("admin.emailTemplateDefault")}
+              </Badge>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="email-template-subject">{t("admin.emailSubject")}</Label>
+            <Input
+              id="email-template-subject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              data-testid="input-email-template-subject"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="email-template-body">{t("admin.emailBody")}</Label>
+            <Textarea
+              id="email-template-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="min-h-[280px] font-mono text-xs"
+              data-testid="textarea-email-template-body"
+            />
+            <p className="text-xs text-gray-500">
+              {t("admin.emailTemplateVariables")}{" "}
+              {template?.variables.map((variable) => (
+                <code key={variable} className="mr-1 rounded bg-gray-100 px-1">{`{{${variable}}}`}</code>
+              ))}
+            </p>
+            <p className="text-xs text-gray-500">{t("admin.emailTemplateSyntaxHint")}</p>
+          </div>
+
+          <div className="flex flex-wrap justify-end gap-2">
+            {override && (
+              <Button
+                variant="outline"
+                onClick={() => resetMutation.mutate(override.id)}
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-email-template"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {t("admin.emailTemplateRestoreDefault")}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending}
+              data-testid="button-preview-email-template"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              {t("admin.emailTemplatePreview")}
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !subject.trim() || !body.trim()}
+              data-testid="button-save-email-template"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? t("common.saving") : t("admin.emailTemplateSaveForRegion").replace("{region}", region)}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base" data-testid="text-email-preview-subject">
+              {preview.subject}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <iframe
+              srcDoc={preview.html}
+              title={preview.subject}
+              sandbox=""
+              className="w-full h-[600px] rounded-md border bg-white"
+              data-testid="iframe-email-preview"
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
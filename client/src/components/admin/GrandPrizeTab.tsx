@@ -6,13 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
-import { Trophy, Users, TrendingUp, Calendar, Award, Save, Edit, Trash2, Plus } from "lucide-react";
+import { Trophy, Users, TrendingUp, Calendar, Award, Save, Edit, Trash2, Plus, Lock } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import type { User } from "@shared/schema";
+import type { User, GrandPrizeWinnerWithUser } from "@shared/schema";
 
 interface GrandPrizeCriteria {
   id?: string;
@@ -26,6 +27,7 @@ interface GrandPrizeCriteria {
   pointsWeight?: number; // Para criterio combinado
   dealsWeight?: number; // Para criterio combinado
   isActive: boolean;
+  isLocked?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -44,6 +46,8 @@ export default function GrandPrizeTab() {
   const queryClient = useQueryClient();
   const [selectedRegion, setSelectedRegion] = useState<string>("");
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [winnersCount, setWinnersCount] = useState<number>(3);
+  const [awardNotes, setAwardNotes] = useState<string>("");
 
   const [criteria, setCriteria] = useState<GrandPrizeCriteria>({
     name: "",
@@ -115,6 +119,53 @@ export default function GrandPrizeTab() {
     enabled: !!currentCriteria?.id && !!selectedRegion,
   });
 
+  // Fetch winners already awarded in the selected region
+  const { data: winners } = useQuery<GrandPrizeWinnerWithUser[]>({
+    queryKey: ["/api/grand-prize/winners", selectedRegion],
+    queryFn: async () => {
+      const res = await fetch(`/api/grand-prize/winners?region=${selectedRegion}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch grand prize winners");
+      return res.json();
+    },
+    enabled: !!selectedRegion,
+  });
+
+  // Award winners mutation
+  const awardWinnersMutation = useMutation({
+    mutationFn: async (criteriaId: string) => {
+      const response = await fetch(`/api/admin/grand-prize/criteria/${criteriaId}/award`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ topN: winnersCount, notes: awardNotes || undefined }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || t("admin.couldNotAwardWinners"));
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/grand-prize/criteria", selectedRegion] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/grand-prize/criteria/all", selectedRegion] });
+      queryClient.invalidateQueries({ queryKey: ["/api/grand-prize/winners", selectedRegion] });
+      setAwardNotes("");
+      toast({
+        title: t("admin.winnersAwarded"),
+        description: t("admin.winnersAwardedDescription"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message || t("admin.couldNotAwardWinners"),
+        variant: "destructive",
+      });
+    },
+  });
+
   // Save/Update criteria mutation
   const saveCriteriaMutation = useMutation({
     mutationFn: async (data: GrandPrizeCriteria) => {
@@ -501,6 +552,12 @@ export default function GrandPrizeTab() {
                       {crit.isActive && (
                         <Badge variant="default" className="bg-green-600">Activo</Badge>
                       )}
+                      {crit.isLocked && (
+                        <Badge variant="outline" className="border-gray-400 text-gray-600">
+                          <Lock className="w-3 h-3 mr-1" />
+                          {t("admin.criteriaLocked")}
+                        </Badge>
+                      )}
                     </div>
                     <div className="text-sm text-muted-foreground space-y-1">
                       <p>Tipo: {
@@ -524,43 +581,45 @@ export default function GrandPrizeTab() {
                       )}
                     </div>
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleEditCriteria(crit)}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>{t("admin.deleteCriteria")}</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            {t("admin.deleteCriteriaConfirmation")}
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDeleteCriteria(crit.id!)}
-                            className="bg-red-600 hover:bg-red-700"
+                  {!crit.isLocked && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEditCriteria(crit)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700"
                           >
-                            {t("common.delete")}
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{t("admin.deleteCriteria")}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {t("admin.deleteCriteriaConfirmation")}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteCriteria(crit.id!)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              {t("common.delete")}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -628,9 +687,124 @@ export default function GrandPrizeTab() {
                 No hay usuarios que cumplan con los criterios actuales
               </div>
             )}
+
+            {/* Premiar ganadores */}
+            {ranking && ranking.length > 0 && !currentCriteria.isLocked && (
+              <>
+                <Separator className="my-6" />
+                <div className="space-y-4">
+                  <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                      <Award className="w-4 h-4" />
+                      {t("admin.awardWinners")}
+                    </h4>
+                    <p className="text-sm text-muted-foreground">
+                      {t("admin.awardWinnersDescription")}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="winners-count">{t("admin.numberOfWinners")}</Label>
+                      <Input
+                        id="winners-count"
+                        type="number"
+                        min="1"
+                        max={ranking.length}
+                        value={winnersCount}
+                        onChange={(e) => setWinnersCount(Math.max(1, parseInt(e.target.value) || 1))}
+                      />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="award-notes">{t("admin.awardNotes")}</Label>
+                      <Textarea
+                        id="award-notes"
+                        value={awardNotes}
+                        onChange={(e) => setAwardNotes(e.target.value)}
+                        placeholder={t("admin.awardNotesPlaceholder")}
+                        rows={2}
+                      />
+                    </div>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button disabled={awardWinnersMutation.isPending} data-testid="button-award-winners">
+                        <Trophy className="w-4 h-4 mr-2" />
+                        {awardWinnersMutation.isPending ? t("admin.awarding") : t("admin.awardWinners")}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>{t("admin.awardWinnersConfirmTitle")}</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {t("admin.awardWinnersConfirmation")}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => awardWinnersMutation.mutate(currentCriteria.id!)}>
+                          {t("common.confirm")}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
+
+      {/* Ganadores premiados */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5" />
+            {t("admin.awardedWinners")}
+          </CardTitle>
+          <CardDescription>
+            {t("admin.awardedWinnersDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {winners && winners.length > 0 ? (
+            <div className="space-y-3">
+              {winners.map((winner) => (
+                <div
+                  key={winner.id}
+                  className="flex items-center justify-between p-4 rounded-lg border bg-gray-50"
+                >
+                  <div className="flex items-center gap-4">
+                    <span className="font-semibold text-gray-500">#{winner.rank}</span>
+                    <div>
+                      <p className="font-medium">
+                        {winner.userFirstName} {winner.userLastName}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {winner.criteriaName} • {new Date(winner.awardedAt).toLocaleDateString()}
+                      </p>
+                      {winner.notes && (
+                        <p className="text-sm text-muted-foreground">{winner.notes}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold">{Number(winner.score).toFixed(2)} pts</p>
+                    <div className="flex gap-2 text-sm text-muted-foreground">
+                      <span>{winner.points} puntos</span>
+                      <span>•</span>
+                      <span>{winner.deals} deals</span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              {t("admin.noWinnersYet")}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,117 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Lock, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { LockedAccount } from "@shared/schema";
+
+const LOCKED_ACCOUNTS_QUERY_KEY = ["/api/admin/locked-accounts"];
+
+/**
+ * Cuentas bloqueadas temporalmente por intentos de acceso fallidos, con la opción de desbloquearlas
+ * antes de que venza el bloqueo
+ */
+export default function LockedAccountsTab() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Los bloqueos vencen solos: se refresca la lista cada minuto
+  const { data: accounts = [], isLoading } = useQuery<LockedAccount[]>({
+    queryKey: LOCKED_ACCOUNTS_QUERY_KEY,
+    refetchInterval: 60 * 1000,
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest("POST", `/api/admin/locked-accounts/${userId}/unlock`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCKED_ACCOUNTS_QUERY_KEY });
+      toast({
+        title: t("common.success"),
+        description: t("admin.accountUnlocked"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (dateString: string | Date) => {
+    return new Date(dateString).toLocaleDateString("es-ES", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-600">{t("admin.lockedAccountsDescription")}</div>
+
+      {accounts.length === 0 ? (
+        <p className="text-gray-500 text-center py-8" data-testid="text-no-locked-accounts">
+          {t("admin.noLockedAccounts")}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <div key={account.userId} className="border rounded-lg p-4" data-testid={`locked-account-${account.userId}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Lock className="h-4 w-4 text-red-500" />
+                    <h3 className="font-semibold truncate">
+                      {account.firstName} {account.lastName}
+                    </h3>
+                    {account.region && <Badge variant="outline">{account.region}</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {account.username} • {account.email}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {t("admin.failedAttempts").replace("{count}", String(account.failures))}
+                    {account.lastIpAddress && ` • ${t("admin.lastAttemptFrom").replace("{ip}", account.lastIpAddress)}`}
+                    {" • "}
+                    {t("admin.lockedUntil").replace("{date}", formatDate(account.lockedUntil))}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => unlockMutation.mutate(account.userId)}
+                  disabled={unlockMutation.isPending}
+                  data-testid={`button-unlock-${account.userId}`}
+                >
+                  <Unlock className="h-4 w-4 mr-2" />
+                  {t("admin.unlockAccount")}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
-import { Trophy, Calendar, Edit, Trash2, Plus } from "lucide-react";
+import { Trophy, Calendar, Edit, Trash2, Plus, Dices, Lock } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
@@ -22,9 +22,44 @@ interface Prize {
   prizeDescription?: string;
   prizeValue?: number;
   goalTarget: number;
+  selectionMethod: "draw" | "ranking";
   createdAt?: Date;
 }
 
+interface Qualifier {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  goals: number;
+}
+
+interface PrizeDrawWinner {
+  id: string;
+  prizeId: string;
+  userId: string;
+  rank: number;
+  goals: string;
+  goalTarget: number;
+  selectionMethod: "draw" | "ranking";
+  qualifiedCount: number;
+  userFirstName: string;
+  userLastName: string;
+  userName: string;
+  prizeName: string;
+}
+
+interface PrizeDraw {
+  id: string;
+  regionConfigId: string;
+  month: number;
+  year: number;
+  seed: string;
+  participants: { userId: string; goals: number }[];
+  executedAt: string;
+  winners: PrizeDrawWinner[];
+}
+
 interface RegionConfig {
   id: string;
   region: string;
@@ -79,11 +114,14 @@ export default function MonthlyPrizesTab() {
     prizeDescription: "",
     prizeValue: undefined,
     goalTarget: 0,
+    selectionMethod: "draw",
   });
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [filterMonth, setFilterMonth] = useState<number>(new Date().getMonth() + 1);
   const [filterYear, setFilterYear] = useState<number>(currentYear);
+  const [closeConfigId, setCloseConfigId] = useState<string>("");
+  const [drawSeed, setDrawSeed] = useState<string>("");
 
   const { data: currentUser } = useQuery({
     queryKey: ["/api/auth/me"],
@@ -118,6 +156,11 @@ export default function MonthlyPrizesTab() {
     enabled: !!selectedRegion,
   });
 
+  // La categoría a cerrar depende de la región seleccionada
+  useEffect(() => {
+    setCloseConfigId("");
+  }, [selectedRegion]);
+
   // Sincronizar regionConfigId basado en selectedRegion
   useEffect(() => {
     if (selectedRegion && regionConfigs && regionConfigs.length > 0) {
@@ -161,6 +204,34 @@ export default function MonthlyPrizesTab() {
     },
   });
 
+  // Fetch monthly close results for the filtered month
+  const { data: draws } = useQuery<PrizeDraw[]>({
+    queryKey: ["/api/admin/monthly-prizes/draws", filterMonth, filterYear, selectedRegion],
+    enabled: !!selectedRegion,
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/monthly-prizes/draws?month=${filterMonth}&year=${filterYear}&region=${selectedRegion}`,
+        { credentials: "include" }
+      );
+      if (!response.ok) throw new Error("Failed to fetch draws");
+      return response.json();
+    },
+  });
+
+  // Fetch goals per user for the category being closed
+  const { data: qualifiers } = useQuery<Qualifier[]>({
+    queryKey: ["/api/admin/monthly-prizes/qualifiers", closeConfigId, filterMonth, filterYear],
+    enabled: !!closeConfigId,
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/admin/monthly-prizes/qualifiers?regionConfigId=${closeConfigId}&month=${filterMonth}&year=${filterYear}`,
+        { credentials: "include" }
+      );
+      if (!response.ok) throw new Error("Failed to fetch qualifiers");
+      return response.json();
+    },
+  });
+
   // Create/Update prize mutation
   const savePrizeMutation = useMutation({
     mutationFn: async (data: Prize) => {
@@ -195,6 +266,7 @@ export default function MonthlyPrizesTab() {
         prizeDescription: "",
         prizeValue: undefined,
         goalTarget: 0,
+        selectionMethod: "draw",
       });
       toast({
         title: t("admin.prizeSaved"),
@@ -241,6 +313,45 @@ export default function MonthlyPrizesTab() {
     },
   });
 
+  // Monthly close mutation
+  const closeMonthMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/admin/monthly-prizes/close", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          regionConfigId: closeConfigId,
+          month: filterMonth,
+          year: filterYear,
+          seed: drawSeed.trim() || undefined,
+        }),
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || t("admin.couldNotCloseMonth"));
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/monthly-prizes/draws", filterMonth, filterYear, selectedRegion] });
+      setDrawSeed("");
+      toast({
+        title: t("admin.monthClosed"),
+        description: t("admin.monthClosedDescription"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message || t("admin.couldNotCloseMonth"),
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSavePrize = () => {
     if (!prize.regionConfigId || !prize.prizeName || prize.goalTarget === undefined) {
       toast({
@@ -264,6 +375,7 @@ export default function MonthlyPrizesTab() {
       prizeDescription: prizeToEdit.prizeDescription || "",
       prizeValue: prizeToEdit.prizeValue,
       goalTarget: prizeToEdit.goalTarget,
+      selectionMethod: prizeToEdit.selectionMethod,
     });
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
@@ -279,6 +391,7 @@ export default function MonthlyPrizesTab() {
       prizeDescription: "",
       prizeValue: undefined,
       goalTarget: 0,
+      selectionMethod: "draw",
     });
   };
 
@@ -286,6 +399,11 @@ export default function MonthlyPrizesTab() {
     deletePrizeMutation.mutate(id);
   };
 
+  const isMonthClosed = (regionConfigId: string, month: number, year: number) =>
+    month === filterMonth &&
+    year === filterYear &&
+    !!draws?.some((d) => d.regionConfigId === regionConfigId);
+
   const getRegionName = (regionConfigId: string) => {
     const config = regionConfigs?.find((c) => c.id === regionConfigId);
     if (!config) return "Desconocido";
@@ -478,6 +596,22 @@ export default function MonthlyPrizesTab() {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="selectionMethod">{t("admin.selectionMethod")}</Label>
+            <Select
+              value={prize.selectionMethod}
+              onValueChange={(value) => setPrize({ ...prize, selectionMethod: value as Prize["selectionMethod"] })}
+            >
+              <SelectTrigger id="selectionMethod">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="draw">{t("admin.selectionMethodDraw")}</SelectItem>
+                <SelectItem value="ranking">{t("admin.selectionMethodRanking")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <Separator />
 
           {/* Botones */}
@@ -545,6 +679,9 @@ export default function MonthlyPrizesTab() {
                     <div className="flex items-center gap-2 mb-1">
                       <Badge variant="outline">Top {p.rank}</Badge>
                       <p className="font-medium">{p.prizeName}</p>
+                      <Badge variant="outline">
+                        {p.selectionMethod === "ranking" ? t("admin.selectionMethodRanking") : t("admin.selectionMethodDraw")}
+                      </Badge>
                       {p.prizeValue && (
                         <Badge variant="secondary">${p.prizeValue.toLocaleString()}</Badge>
                       )}
@@ -561,35 +698,42 @@ export default function MonthlyPrizesTab() {
                       )}
                     </div>
                   </div>
-                  <div className="flex gap-2">
-                    <Button variant="outline" size="sm" onClick={() => handleEditPrize(p)}>
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent>
-                        <AlertDialogHeader>
-                          <AlertDialogTitle>{t("admin.deletePrize")}</AlertDialogTitle>
-                          <AlertDialogDescription>
-                            {t("admin.deletePrizeConfirmation")}
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
-                          <AlertDialogAction
-                            onClick={() => handleDeletePrize(p.id!)}
-                            className="bg-red-600 hover:bg-red-700"
-                          >
-                            {t("common.delete")}
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
-                  </div>
+                  {isMonthClosed(p.regionConfigId, p.month, p.year) ? (
+                    <Badge variant="secondary" className="flex items-center gap-1">
+                      <Lock className="w-3 h-3" />
+                      {t("admin.monthClosedBadge")}
+                    </Badge>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleEditPrize(p)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="text-red-600 hover:text-red-700">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>{t("admin.deletePrize")}</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {t("admin.deletePrizeConfirmation")}
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeletePrize(p.id!)}
+                              className="bg-red-600 hover:bg-red-700"
+                            >
+                              {t("common.delete")}
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -600,6 +744,143 @@ export default function MonthlyPrizesTab() {
           )}
         </CardContent>
       </Card>
+
+      {/* Cierre mensual */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Dices className="w-5 h-5" />
+            {t("admin.monthlyClose")} - {MONTHS.find((m) => m.value === filterMonth)?.label} {filterYear}
+          </CardTitle>
+          <CardDescription>{t("admin.monthlyCloseDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="close-config">{t("admin.category")}</Label>
+              <Select value={closeConfigId} onValueChange={setCloseConfigId}>
+                <SelectTrigger id="close-config">
+                  <SelectValue placeholder={t("admin.selectCategory")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {regionConfigs?.map((config) => (
+                    <SelectItem key={config.id} value={config.id}>
+                      {config.category}
+                      {(config as any).subcategory && ` - ${(config as any).subcategory}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="draw-seed">{t("admin.drawSeedOptional")}</Label>
+              <Input
+                id="draw-seed"
+                value={drawSeed}
+                onChange={(e) => setDrawSeed(e.target.value)}
+                placeholder={t("admin.drawSeedPlaceholder")}
+                maxLength={128}
+              />
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  disabled={
+                    !closeConfigId ||
+                    closeMonthMutation.isPending ||
+                    isMonthClosed(closeConfigId, filterMonth, filterYear)
+                  }
+                >
+                  <Dices className="w-4 h-4 mr-2" />
+                  {closeMonthMutation.isPending ? t("admin.closingMonth") : t("admin.closeMonth")}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("admin.closeMonthConfirmTitle")}</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {t("admin.closeMonthConfirmation")}
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => closeMonthMutation.mutate()}>
+                    {t("admin.closeMonth")}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+
+          {closeConfigId && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">{t("admin.qualifiers")}</h4>
+              {qualifiers && qualifiers.length > 0 ? (
+                <div className="space-y-1">
+                  {qualifiers.map((q) => (
+                    <div key={q.userId} className="flex items-center justify-between text-sm p-2 rounded border">
+                      <span>{q.firstName} {q.lastName} (@{q.username})</span>
+                      <Badge variant="outline">{q.goals.toFixed(2)} goles</Badge>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t("admin.noQualifiersYet")}</p>
+              )}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium">{t("admin.drawResults")}</h4>
+            {draws && draws.length > 0 ? (
+              draws.map((draw) => (
+                <div key={draw.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-medium">{getRegionName(draw.regionConfigId)}</p>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(draw.executedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <p>
+                      {t("admin.drawSeed")}: <code className="bg-gray-100 px-1 rounded">{draw.seed}</code>
+                    </p>
+                    <p>{t("admin.participants")}: {draw.participants.length}</p>
+                  </div>
+                  {draw.winners.length > 0 ? (
+                    <div className="space-y-2">
+                      {draw.winners.map((w) => (
+                        <div key={w.id} className="flex items-center justify-between p-2 rounded bg-gray-50">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">Top {w.rank}</Badge>
+                            <span className="font-medium">{w.prizeName}</span>
+                            <span className="text-sm text-muted-foreground">
+                              {w.userFirstName} {w.userLastName} (@{w.userName})
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <span>{Number(w.goals).toFixed(2)} / {w.goalTarget} goles</span>
+                            <Badge variant="secondary">
+                              {w.selectionMethod === "ranking" ? t("admin.selectionMethodRanking") : t("admin.selectionMethodDraw")}
+                            </Badge>
+                            <span>{t("admin.qualifiedCount")}: {w.qualifiedCount}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">{t("admin.noMonthlyWinners")}</p>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">{t("admin.noDrawsYet")}</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
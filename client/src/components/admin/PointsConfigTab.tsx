@@ -25,11 +25,12 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Settings, DollarSign, Trophy, Calendar, Target, Info } from "lucide-react";
+import { Settings, DollarSign, Trophy, Calendar, Target, Info, Hourglass } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { apiRequest } from "@/lib/queryClient";
 import type { PointsConfig } from "@shared/schema";
+import PointsRecalculationCard from "@/components/admin/PointsRecalculationCard";
 
 const pointsConfigFormSchema = z.object({
   region: z.string().min(1, { message: "validation.regionRequired" }),
@@ -41,6 +42,8 @@ const pointsConfigFormSchema = z.object({
   defaultRenewalGoalRate: z.number().min(1, "Debe ser al menos 1").max(1000000, "Valor muy alto"),
   redemptionStartDate: z.string().optional(),
   redemptionEndDate: z.string().optional(),
+  pointsExpirationMonths: z.number().int().min(1, "Debe ser al menos 1").max(120, "Valor muy alto").nullable(),
+  expirationWarningDays: z.number().int().min(1, "Debe ser al menos 1").max(365, "Valor muy alto"),
 });
 
 type PointsConfigForm = z.infer<typeof pointsConfigFormSchema>;
@@ -99,6 +102,8 @@ export default function PointsConfigTab() {
       defaultRenewalGoalRate: 2000,
       redemptionStartDate: "",
       redemptionEndDate: "",
+      pointsExpirationMonths: null,
+      expirationWarningDays: 30,
     },
   });
 
@@ -118,6 +123,8 @@ export default function PointsConfigTab() {
         redemptionEndDate: config.redemptionEndDate 
           ? new Date(config.redemptionEndDate).toISOString().split('T')[0] 
           : "",
+        pointsExpirationMonths: config.pointsExpirationMonths ?? null,
+        expirationWarningDays: config.expirationWarningDays ?? 30,
       });
     } else if (selectedRegion) {
       // Si no hay config pero hay región seleccionada, establecer la región en el formulario
@@ -137,6 +144,8 @@ export default function PointsConfigTab() {
         defaultRenewalGoalRate: data.defaultRenewalGoalRate,
         redemptionStartDate: data.redemptionStartDate ? new Date(data.redemptionStartDate).toISOString() : null,
         redemptionEndDate: data.redemptionEndDate ? new Date(data.redemptionEndDate).toISOString() : null,
+        pointsExpirationMonths: data.pointsExpirationMonths,
+        expirationWarningDays: data.expirationWarningDays,
       };
       const response = await apiRequest("PATCH", "/api/admin/points-config", payload);
       return response.json();
@@ -158,6 +167,28 @@ export default function PointsConfigTab() {
     },
   });
 
+  const runExpirationMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/points-expiration/run", { region: selectedRegion });
+      return response.json();
+    },
+    onSuccess: (result: { pointsExpired: number; warningsSent: number }) => {
+      toast({
+        title: t("admin.pointsExpirationRun"),
+        description: t("admin.pointsExpirationRunResult")
+          .replace("{points}", result.pointsExpired.toLocaleString())
+          .replace("{warnings}", result.warningsSent.toString()),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || t("admin.couldNotRunPointsExpiration"),
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: PointsConfigForm) => {
     updateConfigMutation.mutate(data);
   };
@@ -469,6 +500,80 @@ export default function PointsConfigTab() {
                 </Card>
               </div>
 
+              <div className="border-t pt-6">
+                <Card className="bg-gradient-to-r from-amber-50 to-orange-50 border-amber-200">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Hourglass className="h-5 w-5 text-amber-600" />
+                      {t('admin.pointsExpiration')}
+                    </CardTitle>
+                    <CardDescription>
+                      {t('admin.pointsExpirationDesc')}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid gap-6 md:grid-cols-2">
+                      <FormField
+                        control={form.control}
+                        name="pointsExpirationMonths"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('admin.pointsExpirationMonths')}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder={t("admin.pointsNeverExpire")}
+                                data-testid="input-points-expiration-months"
+                                {...field}
+                                value={field.value ?? ""}
+                                onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : null)}
+                              />
+                            </FormControl>
+                            <FormDescription>{t('admin.pointsExpirationMonthsDesc')}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="expirationWarningDays"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('admin.expirationWarningDays')}</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                placeholder="30"
+                                data-testid="input-expiration-warning-days"
+                                {...field}
+                                onChange={(e) => field.onChange(Number(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>{t('admin.expirationWarningDaysDesc')}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    {config?.pointsExpirationMonths && (
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => runExpirationMutation.mutate()}
+                          disabled={runExpirationMutation.isPending}
+                          data-testid="button-run-points-expiration"
+                        >
+                          {runExpirationMutation.isPending ? t('admin.running') : t('admin.runPointsExpiration')}
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
               <div className="flex justify-end gap-4">
                 <Button
                   type="button"
@@ -492,6 +597,13 @@ export default function PointsConfigTab() {
         </CardContent>
       </Card>
 
+      {selectedRegion && (
+        <PointsRecalculationCard
+          region={selectedRegion}
+          regionLocked={(currentUser as any)?.role === "regional-admin"}
+        />
+      )}
+
       {config?.updatedAt && (
         <div className="text-sm text-muted-foreground text-center">
           Última actualización: {new Date(config.updatedAt).toLocaleString("es-ES")}
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Calculator, CheckCircle, Eye, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobRun, PointsRecalculationResult } from "@shared/schema";
+import { REGIONS } from "@/../../shared/constants";
+
+const ALL_REGIONS = "all";
+const RUN_REFETCH_MS = 1500;
+
+interface PointsRecalculationCardProps {
+  region: string;
+  // Regional-admin solo recalcula su región
+  regionLocked: boolean;
+}
+
+const formatDelta = (value: number) => (value > 0 ? `+${value.toLocaleString()}` : value.toLocaleString());
+
+/**
+ * Recalcula puntos y goles con las reglas vigentes: primero una simulación con las diferencias
+ * por usuario y, si se confirma, los asientos de ajuste. Corre en segundo plano mostrando el avance.
+ */
+export default function PointsRecalculationCard({ region, regionLocked }: PointsRecalculationCardProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState<string>(ALL_REGIONS);
+  const [runId, setRunId] = useState<string | null>(null);
+
+  const targetRegion = regionLocked ? region : scope === ALL_REGIONS ? undefined : scope;
+
+  const { data: run } = useQuery<JobRun>({
+    queryKey: ["/api/admin/recalculate-points", runId],
+    enabled: !!runId,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? RUN_REFETCH_MS : false),
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/admin/recalculate-points", { region: targetRegion, dryRun });
+      return (await response.json()) as JobRun;
+    },
+    onSuccess: (started) => {
+      queryClient.setQueryData(["/api/admin/recalculate-points", started.id], started);
+      setRunId(started.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = run?.status === "succeeded" ? (run.result as PointsRecalculationResult | null) : null;
+  const isRunning = startMutation.isPending || run?.status === "running";
+  const progress = run?.progress;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          {t("admin.pointsRecalculation")}
+        </CardTitle>
+        <CardDescription>{t("admin.pointsRecalculationDesc")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-1">
+            <Label>{t("admin.region")}</Label>
+            {regionLocked ? (
+              <p className="text-sm font-medium">{region}</p>
+            ) : (
+              <Select
+                value={scope}
+                onValueChange={(value) => {
+                  setScope(value);
+                  setRunId(null);
+                }}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="w-48" data-testid="select-recalculation-region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_REGIONS}>{t("admin.allRegions")}</SelectItem>
+                  {REGIONS.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => startMutation.mutate(true)}
+            disabled={isRunning}
+            data-testid="button-preview-recalculation"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {t("admin.previewRecalculation")}
+          </Button>
+        </div>
+
+        {run?.status === "running" && (
+          <div className="space-y-2" data-testid="recalculation-progress">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress
+                ? t("admin.recalculationProgress")
+                    .replace("{processed}", progress.processed.toLocaleString())
+                    .replace("{total}", progress.total.toLocaleString())
+                : t("admin.running")}
+            </div>
+            <Progress value={progress && progress.total > 0 ? (progress.processed / progress.total) * 100 : 0} />
+          </div>
+        )}
+
+        {run?.status === "failed" && (
+          <Alert variant="destructive">
+            <AlertDescription>{run.error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <div className="space-y-4" data-testid="recalculation-result">
+            {!result.dryRun && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>{t("admin.recalculationApplied")}</AlertDescription>
+              </Alert>
+            )}
+            <p className="text-sm text-gray-700">
+              {t("admin.recalculationSummary")
+                .replace("{changed}", result.dealsChanged.toLocaleString())
+                .replace("{scanned}", result.dealsScanned.toLocaleString())
+                .replace("{points}", formatDelta(result.pointsDelta))
+                .replace("{goals}", formatDelta(result.goalsDelta))}
+            </p>
+            {result.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  {result.errors.slice(0, 5).map((error) => (
+                    <div key={error}>{error}</div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {result.users.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">{t("admin.recalculationNoChanges")}</p>
+            ) : (
+              <div className="max-h-96 overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t("admin.user")}</TableHead>
+                      <TableHead className="text-right">{t("admin.deals")}</TableHead>
+                      <TableHead className="text-right">{t("admin.pointsDelta")}</TableHead>
+                      <TableHead className="text-right">{t("admin.goalsDelta")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.users.map((user) => (
+                      <TableRow key={user.userId} data-testid={`row-recalculation-${user.userId}`}>
+                        <TableCell>
+                          <div className="font-medium">{`${user.firstName} ${user.lastName}`.trim() || user.username}</div>
+                          <div className="text-xs text-gray-500">{user.username}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{user.dealsChanged}</TableCell>
+                        <TableCell className={`text-right ${user.pointsDelta < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {formatDelta(user.pointsDelta)}
+                        </TableCell>
+                        <TableCell className={`text-right ${user.goalsDelta < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {formatDelta(user.goalsDelta)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {result.dryRun && result.dealsChanged > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  onClick={() => startMutation.mutate(false)}
+                  disabled={isRunning}
+                  data-testid="button-apply-recalculation"
+                >
+                  {t("admin.applyRecalculation")}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -53,6 +53,7 @@ interface RegionConfig {
   monthlyGoalTarget: number;
   isActive: boolean;
   expirationDate: string | null;
+  attachmentRequiredAboveValue: string | null;
 }
 
 export default function RegionsManagementTab() {
@@ -131,6 +132,7 @@ export default function RegionsManagementTab() {
     isActive: true,
     expirationDate: null as string | null,
     isPermanent: true, // Nuevo campo para controlar si es permanente
+    attachmentRequiredAboveValue: "", // Vacío = comprobante opcional
   });
 
   // Estados para manejar las opciones dinámicas
@@ -377,6 +379,7 @@ export default function RegionsManagementTab() {
         expirationDate: updateData.expirationDate 
           ? new Date(updateData.expirationDate).toISOString() 
           : null,
+        attachmentRequiredAboveValue: updateData.attachmentRequiredAboveValue || null,
       };
       updateRegionMutation.mutate({ id: editingRegion.id, updates: payload });
     }
@@ -448,6 +451,7 @@ export default function RegionsManagementTab() {
       expirationDate: newRegion.isPermanent 
         ? null 
         : (newRegion.expirationDate ? new Date(newRegion.expirationDate).toISOString() : null),
+      attachmentRequiredAboveValue: newRegion.attachmentRequiredAboveValue || null,
     };
     
     console.log("Creating region with payload:", payload);
@@ -473,6 +477,7 @@ export default function RegionsManagementTab() {
       isActive: true,
       expirationDate: null,
       isPermanent: true,
+      attachmentRequiredAboveValue: "",
     });
     setAvailableCountries([]);
     setAvailableCities([]);
@@ -1154,6 +1159,27 @@ export default function RegionsManagementTab() {
               </div>
             </div>
 
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="new-attachmentRequiredAboveValue" className="text-right">
+                {t('admin.attachmentRequiredAbove')}
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <span className="text-sm">US$</span>
+                <Input
+                  id="new-attachmentRequiredAboveValue"
+                  type="number"
+                  min="0"
+                  value={newRegion.attachmentRequiredAboveValue}
+                  onChange={(e) => setNewRegion({ 
+                    ...newRegion, 
+                    attachmentRequiredAboveValue: e.target.value 
+                  })}
+                  placeholder={t('admin.attachmentOptionalPlaceholder')}
+                  className="flex-1"
+                />
+              </div>
+            </div>
+
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="new-isActive" className="text-right">
                 {t('admin.state')}
@@ -1400,6 +1426,27 @@ export default function RegionsManagementTab() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="attachmentRequiredAboveValue" className="text-right">
+                  {t('admin.attachmentRequiredAbove')}
+                </Label>
+                <div className="col-span-3 flex items-center gap-2">
+                  <span className="text-sm">US$</span>
+                  <Input
+                    id="attachmentRequiredAboveValue"
+                    type="number"
+                    min="0"
+                    value={editingRegion.attachmentRequiredAboveValue ?? ""}
+                    onChange={(e) => setEditingRegion({ 
+                      ...editingRegion, 
+                      attachmentRequiredAboveValue: e.target.value || null 
+                    })}
+                    placeholder={t('admin.attachmentOptionalPlaceholder')}
+                    className="flex-1"
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-4 items-center gap-4">
                 <Label htmlFor="isActive" className="text-right">
                   Estado
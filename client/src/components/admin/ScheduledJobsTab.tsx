@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, History, Loader2, Play, Save } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { JobRun, JobRunStatus, ScheduledJobWithRuns, UpdateScheduledJob } from "@shared/schema";
+
+const JOBS_QUERY_KEY = ["/api/admin/jobs"];
+// Mientras alguna tarea corre, la lista se refresca para mostrar el resultado al terminar
+const RUNNING_REFETCH_MS = 5000;
+
+const statusColors: Record<JobRunStatus, string> = {
+  running: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const formatDate = (date: string | Date | null) => {
+  if (!date) return "—";
+  return new Date(date).toLocaleDateString("es-ES", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const formatDuration = (run: JobRun) => {
+  if (!run.finishedAt) return "—";
+  const seconds = (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)} s` : `${Math.round(seconds / 60)} min`;
+};
+
+/**
+ * Tareas programadas del servidor para super-admins: horario cron, activación,
+ * estado de la última ejecución, ejecución manual e historial reciente
+ */
+export default function ScheduledJobsTab() {
+  const { t } = useTranslation();
+
+  const { data: jobs, isLoading } = useQuery<ScheduledJobWithRuns[]>({
+    queryKey: JOBS_QUERY_KEY,
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.running) ? RUNNING_REFETCH_MS : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            {t("admin.scheduledJobs")}
+          </CardTitle>
+          <CardDescription>{t("admin.scheduledJobsDescription")}</CardDescription>
+        </CardHeader>
+      </Card>
+
+      {jobs?.map((job) => (
+        <ScheduledJobCard key={job.name} job={job} />
+      ))}
+    </div>
+  );
+}
+
+function ScheduledJobCard({ job }: { job: ScheduledJobWithRuns }) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [schedule, setSchedule] = useState(job.schedule);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    setSchedule(job.schedule);
+  }, [job.schedule]);
+
+  const jobLabels: Record<string, { title: string; description: string }> = {
+    "points-expiration": {
+      title: t("admin.jobPointsExpiration"),
+      description: t("admin.jobPointsExpirationDescription"),
+    },
+    "support-sla-escalation": {
+      title: t("admin.jobSupportSlaEscalation"),
+      description: t("admin.jobSupportSlaEscalationDescription"),
+    },
+    "weekly-digest": {
+      title: t("admin.jobWeeklyDigest"),
+      description: t("admin.jobWeeklyDigestDescription"),
+    },
+    "region-config-expiration": {
+      title: t("admin.jobRegionConfigExpiration"),
+      description: t("admin.jobRegionConfigExpirationDescription"),
+    },
+    "login-throttle-cleanup": {
+      title: t("admin.jobLoginThrottleCleanup"),
+      description: t("admin.jobLoginThrottleCleanupDescription"),
+    },
+    "monthly-close": {
+      title: t("admin.jobMonthlyClose"),
+      description: t("admin.jobMonthlyCloseDescription"),
+    },
+    "points-recalculation": {
+      title: t("admin.jobPointsRecalculation"),
+      description: t("admin.jobPointsRecalculationDescription"),
+    },
+  };
+
+  const statusLabels: Record<JobRunStatus, string> = {
+    running: t("admin.jobStatusRunning"),
+    succeeded: t("admin.jobStatusSucceeded"),
+    failed: t("admin.jobStatusFailed"),
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateScheduledJob) => {
+      const response = await apiRequest("PATCH", `/api/admin/jobs/${job.name}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: JOBS_QUERY_KEY });
+      toast({ title: t("common.success"), description: t("admin.jobUpdated") });
+    },
+    onError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/jobs/${job.name}/run`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: JOBS_QUERY_KEY });
+      toast({ title: t("common.success"), description: t("admin.jobRunStarted") });
+    },
+    onError,
+  });
+
+  const label = jobLabels[job.name] ?? { title: job.name, description: job.description };
+  const lastStatus = job.running ? "running" : (job.lastStatus as JobRunStatus | null);
+
+  return (
+    <Card data-testid={`job-${job.name}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base">
+              {label.title}
+              {lastStatus && <Badge className={statusColors[lastStatus]}>{statusLabels[lastStatus]}</Badge>}
+            </CardTitle>
+            <CardDescription>{label.description}</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`job-enabled-${job.name}`} className="text-sm">
+              {t("admin.jobEnabled")}
+            </Label>
+            <Switch
+              id={`job-enabled-${job.name}`}
+              checked={job.enabled}
+              onCheckedChange={(enabled) => updateMutation.mutate({ enabled })}
+              disabled={updateMutation.isPending}
+              data-testid={`switch-job-enabled-${job.name}`}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-1">
+            <Label htmlFor={`job-schedule-${job.name}`}>{t("admin.jobSchedule")}</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`job-schedule-${job.name}`}
+                value={schedule}
+                onChange={(e) => setSchedule(e.target.value)}
+                className="font-mono"
+                data-testid={`input-job-schedule-${job.name}`}
+              />
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={() => updateMutation.mutate({ schedule })}
+                disabled={updateMutation.isPending || schedule.trim() === job.schedule}
+                aria-label={t("common.save")}
+                data-testid={`button-save-job-schedule-${job.name}`}
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="text-sm text-gray-600">
+            <p>{t("admin.jobLastRun")}: {formatDate(job.lastRunAt)}</p>
+            <p>{t("admin.jobNextRun")}: {job.enabled ? formatDate(job.nextRunAt) : "—"}</p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setShowHistory(!showHistory)}
+              data-testid={`button-job-history-${job.name}`}
+            >
+              <History className="h-4 w-4 mr-2" />
+              {t("admin.jobHistory")}
+            </Button>
+            <Button
+              onClick={() => runMutation.mutate()}
+              disabled={job.running || runMutation.isPending}
+              data-testid={`button-run-job-${job.name}`}
+            >
+              {job.running ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              {t("admin.jobRunNow")}
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">{t("admin.jobScheduleHint")}</p>
+
+        {showHistory && (
+          job.recentRuns.length === 0 ? (
+            <p className="text-center text-gray-500 py-4">{t("admin.jobNoRuns")}</p>
+          ) : (
+            <div className="space-y-2">
+              {job.recentRuns.map((run) => (
+                <div key={run.id} className="border rounded-lg p-3 text-sm" data-testid={`job-run-${run.id}`}>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={statusColors[run.status]}>{statusLabels[run.status]}</Badge>
+                    <Badge variant="outline">
+                      {run.trigger === "manual" ? t("admin.jobTriggerManual") : t("admin.jobTriggerSchedule")}
+                    </Badge>
+                    <span className="text-gray-600">{formatDate(run.startedAt)}</span>
+                    <span className="text-gray-500">• {formatDuration(run)}</span>
+                  </div>
+                  {run.error && <p className="mt-2 text-xs text-red-600 break-words">{run.error}</p>}
+                  {run.result != null && (
+                    <pre className="mt-2 max-h-40 overflow-auto rounded bg-gray-50 p-2 text-xs">
+                      {JSON.stringify(run.result, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
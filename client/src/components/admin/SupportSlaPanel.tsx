@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Timer, CheckCircle, Siren } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { apiRequest } from "@/lib/queryClient";
+import type { SupportSlaMetrics, SupportSlaTarget } from "@shared/schema";
+
+interface SupportSlaPanelProps {
+  region: string;
+  canEditTargets: boolean; // Solo super-admin: los objetivos aplican a todas las regiones
+}
+
+export function formatSlaDuration(minutes: number | null): string {
+  if (minutes === null) return "—";
+  if (Math.abs(minutes) < 60) return `${Math.round(minutes)} min`;
+  if (Math.abs(minutes) < 48 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / (24 * 60)).toFixed(1)} d`;
+}
+
+/**
+ * Métricas de SLA de soporte (tiempo a primera respuesta y a resolución, incumplimientos
+ * y tickets escalados) y, para super-admins, el editor de objetivos por prioridad
+ */
+export default function SupportSlaPanel({ region, canEditTargets }: SupportSlaPanelProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draftTargets, setDraftTargets] = useState<SupportSlaTarget[]>([]);
+
+  const { data: metrics } = useQuery<SupportSlaMetrics>({
+    queryKey: ["/api/admin/support-tickets/sla-metrics", region],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/support-tickets/sla-metrics?region=${region}&days=30`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch SLA metrics");
+      return res.json();
+    },
+    enabled: !!region,
+  });
+
+  const { data: targets } = useQuery<SupportSlaTarget[]>({
+    queryKey: ["/api/admin/support-sla"],
+  });
+
+  useEffect(() => {
+    if (targets) setDraftTargets(targets);
+  }, [targets]);
+
+  const updateTargetsMutation = useMutation({
+    mutationFn: async (updated: SupportSlaTarget[]) => {
+      const response = await apiRequest("PUT", "/api/admin/support-sla", updated);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/support-sla"] });
+      toast({
+        title: t("common.success"),
+        description: t("admin.slaTargetsUpdated"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (priority: string, field: "firstResponseMinutes" | "resolutionMinutes", hours: string) => {
+    setDraftTargets((current) =>
+      current.map((target) =>
+        target.priority === priority ? { ...target, [field]: Math.round(Number(hours) * 60) } : target,
+      ),
+    );
+  };
+
+  const formatPriority = (priority: string) =>
+    priority === "high" ? t("admin.priorityHigh") : priority === "low" ? t("admin.priorityLow") : t("admin.priorityMedium");
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.slaAvgFirstResponse")}</p>
+                <p className="text-2xl font-bold" data-testid="text-sla-first-response">
+                  {formatSlaDuration(metrics?.avgFirstResponseMinutes ?? null)}
+                </p>
+              </div>
+              <Timer className="h-8 w-8 text-blue-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.slaAvgResolution")}</p>
+                <p className="text-2xl font-bold" data-testid="text-sla-resolution">
+                  {formatSlaDuration(metrics?.avgResolutionMinutes ?? null)}
+                </p>
+              </div>
+              <CheckCircle className="h-8 w-8 text-green-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.slaBreaches")}</p>
+                <p className="text-2xl font-bold" data-testid="text-sla-breaches">
+                  {metrics ? `${metrics.firstResponseBreaches} / ${metrics.resolutionBreaches}` : "—"}
+                </p>
+                <p className="text-xs text-gray-500">{t("admin.slaBreachesHint")}</p>
+              </div>
+              <AlertTriangle className="h-8 w-8 text-orange-500" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">{t("admin.slaEscalatedOpen")}</p>
+                <p className="text-2xl font-bold" data-testid="text-sla-escalated">
+                  {metrics?.escalatedOpen ?? "—"}
+                </p>
+              </div>
+              <Siren className="h-8 w-8 text-red-500" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t("admin.slaByPriority")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 pr-2">{t("support.priority")}</th>
+                <th className="py-1 pr-2">{t("admin.slaTargetFirstResponse")}</th>
+                <th className="py-1 pr-2">{t("admin.slaTargetResolution")}</th>
+                <th className="py-1 pr-2">{t("admin.slaAvgFirstResponse")}</th>
+                <th className="py-1 pr-2">{t("admin.slaAvgResolution")}</th>
+                <th className="py-1">{t("admin.slaBreaches")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draftTargets.map((target) => {
+                const priorityMetrics = metrics?.byPriority.find((m) => m.priority === target.priority);
+                return (
+                  <tr key={target.priority} className="border-t" data-testid={`sla-row-${target.priority}`}>
+                    <td className="py-2 pr-2 font-medium">{formatPriority(target.priority)}</td>
+                    <td className="py-2 pr-2">
+                      {canEditTargets ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min="0.1"
+                            step="0.5"
+                            value={target.firstResponseMinutes / 60}
+                            onChange={(e) => updateDraft(target.priority, "firstResponseMinutes", e.target.value)}
+                            className="w-20 h-8"
+                            data-testid={`input-sla-first-response-${target.priority}`}
+                          />
+                          <span className="text-gray-500">h</span>
+                        </div>
+                      ) : (
+                        formatSlaDuration(target.firstResponseMinutes)
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {canEditTargets ? (
+                        <div className="flex items-center gap-1">
+                          <Input
+                            type="number"
+                            min="0.1"
+                            step="1"
+                            value={target.resolutionMinutes / 60}
+                            onChange={(e) => updateDraft(target.priority, "resolutionMinutes", e.target.value)}
+                            className="w-20 h-8"
+                            data-testid={`input-sla-resolution-${target.priority}`}
+                          />
+                          <span className="text-gray-500">h</span>
+                        </div>
+                      ) : (
+                        formatSlaDuration(target.resolutionMinutes)
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">{formatSlaDuration(priorityMetrics?.avgFirstResponseMinutes ?? null)}</td>
+                    <td className="py-2 pr-2">{formatSlaDuration(priorityMetrics?.avgResolutionMinutes ?? null)}</td>
+                    <td className="py-2">
+                      {priorityMetrics ? `${priorityMetrics.firstResponseBreaches} / ${priorityMetrics.resolutionBreaches}` : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between mt-3">
+            <p className="text-xs text-gray-500">{t("admin.slaMetricsPeriod")}</p>
+            {canEditTargets && (
+              <Button
+                size="sm"
+                onClick={() => updateTargetsMutation.mutate(draftTargets)}
+                disabled={updateTargetsMutation.isPending}
+                data-testid="button-save-sla-targets"
+              >
+                {updateTargetsMutation.isPending ? t("common.saving") : t("admin.saveSlaTargets")}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,7 +4,6 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -23,6 +22,9 @@ import { MessageCircle, Clock, CheckCircle, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { apiRequest } from "@/lib/queryClient";
+import { useSocket } from "@/hooks/useSocket";
+import SupportTicketThread from "@/components/SupportTicketThread";
+import SupportSlaPanel, { formatSlaDuration } from "@/components/admin/SupportSlaPanel";
 import type { SupportTicketWithUser } from "@shared/schema";
 
 export default function SupportTicketsTab() {
@@ -30,11 +32,11 @@ export default function SupportTicketsTab() {
   const [selectedRegion, setSelectedRegion] = useState<string>("");
   const [selectedTicket, setSelectedTicket] = useState<SupportTicketWithUser | null>(null);
   const [isResponseDialogOpen, setIsResponseDialogOpen] = useState(false);
-  const [adminResponse, setAdminResponse] = useState("");
   const [newStatus, setNewStatus] = useState<string>("");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const socket = useSocket();
 
   const { data: currentUser } = useQuery({
     queryKey: ["/api/auth/me"],
@@ -61,6 +63,25 @@ export default function SupportTicketsTab() {
     enabled: !!selectedRegion,
   });
 
+  // Respuestas de los usuarios llegan en vivo: refrescar la lista y avisar al admin
+  useEffect(() => {
+    if (!socket) return;
+    const handleTicketMessage = ({ ticketId, authorId }: { ticketId: string; authorId: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/support-tickets"] });
+      const ticket = tickets?.find((item) => item.id === ticketId);
+      if (ticket && ticket.userId === authorId) {
+        toast({
+          title: t("support.newUserReply"),
+          description: ticket.subject,
+        });
+      }
+    };
+    socket.on("support:ticket-message", handleTicketMessage);
+    return () => {
+      socket.off("support:ticket-message", handleTicketMessage);
+    };
+  }, [socket, tickets, queryClient, toast, t]);
+
   const updateTicketMutation = useMutation({
     mutationFn: async ({
       id,
@@ -83,7 +104,6 @@ export default function SupportTicketsTab() {
         description: t("admin.ticketUpdatedSuccessfully"),
       });
       setIsResponseDialogOpen(false);
-      setAdminResponse("");
       setSelectedTicket(null);
     },
     onError: (error: Error) => {
@@ -97,7 +117,6 @@ export default function SupportTicketsTab() {
 
   const handleOpenResponseDialog = (ticket: SupportTicketWithUser) => {
     setSelectedTicket(ticket);
-    setAdminResponse(ticket.adminResponse || "");
     setNewStatus(ticket.status);
     setIsResponseDialogOpen(true);
   };
@@ -109,7 +128,6 @@ export default function SupportTicketsTab() {
       id: selectedTicket.id,
       updates: {
         status: newStatus,
-        adminResponse: adminResponse || undefined,
       },
     });
   };
@@ -164,6 +182,27 @@ export default function SupportTicketsTab() {
     }
   };
 
+  // Estado del SLA de primera respuesta de un ticket activo
+  const getSlaBadge = (ticket: SupportTicketWithUser) => {
+    if (ticket.escalatedAt) {
+      return { label: t("admin.slaEscalated"), className: "bg-red-100 text-red-800" };
+    }
+    if (ticket.firstResponseAt || !ticket.firstResponseDueAt || ticket.status === "resolved" || ticket.status === "closed") {
+      return null;
+    }
+    const minutesLeft = (new Date(ticket.firstResponseDueAt).getTime() - Date.now()) / 60000;
+    if (minutesLeft < 0) {
+      return {
+        label: t("admin.slaOverdue").replace("{time}", formatSlaDuration(-minutesLeft)),
+        className: "bg-red-100 text-red-800",
+      };
+    }
+    return {
+      label: t("admin.slaDueIn").replace("{time}", formatSlaDuration(minutesLeft)),
+      className: minutesLeft < 60 ? "bg-orange-100 text-orange-800" : "bg-gray-100 text-gray-700",
+    };
+  };
+
   const formatDate = (dateString: string | Date) => {
     return new Date(dateString).toLocaleDateString("es-ES", {
       year: "numeric",
@@ -314,6 +353,11 @@ export default function SupportTicketsTab() {
           </Card>
         </div>
 
+        <SupportSlaPanel
+          region={selectedRegion}
+          canEditTargets={(currentUser as any)?.role === "super-admin"}
+        />
+
         <Card>
           <CardHeader>
             <CardTitle>{t("admin.supportTickets")}</CardTitle>
@@ -352,6 +396,14 @@ export default function SupportTicketsTab() {
                             <Badge className={getPriorityColor(ticket.priority)} data-testid={`ticket-priority-${ticket.id}`}>
                               {formatPriority(ticket.priority)}
                             </Badge>
+                            {(() => {
+                              const slaBadge = getSlaBadge(ticket);
+                              return slaBadge ? (
+                                <Badge className={slaBadge.className} data-testid={`ticket-sla-${ticket.id}`}>
+                                  {slaBadge.label}
+                                </Badge>
+                              ) : null;
+                            })()}
                           </div>
 
                           <div className="text-sm text-gray-500 space-y-1">
@@ -362,6 +414,12 @@ export default function SupportTicketsTab() {
                             <p>
                               <span className="font-medium">Email:</span> {ticket.userEmail}
                             </p>
+                            <p data-testid={`ticket-assignee-${ticket.id}`}>
+                              <span className="font-medium">{t("admin.assignedTo")}:</span>{" "}
+                              {ticket.assignedTo
+                                ? `${ticket.assigneeFirstName ?? ""} ${ticket.assigneeLastName ?? ""}`.trim()
+                                : t("admin.unassigned")}
+                            </p>
                             <p>
                               <span className="font-medium">Creado:</span>{" "}
                               {formatDate(ticket.createdAt)}
@@ -424,7 +482,7 @@ export default function SupportTicketsTab() {
       </div>
 
       <Dialog open={isResponseDialogOpen} onOpenChange={setIsResponseDialogOpen}>
-        <DialogContent className="sm:max-w-[600px]" data-testid="dialog-ticket-response">
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto" data-testid="dialog-ticket-response">
           <DialogHeader>
             <DialogTitle>{t("support.respondToTicket")}</DialogTitle>
             <DialogDescription>
@@ -434,15 +492,19 @@ export default function SupportTicketsTab() {
 
           {selectedTicket && (
             <div className="space-y-4">
-              <div className="p-4 bg-gray-50 rounded-md">
-                <h4 className="font-semibold mb-2">{selectedTicket.subject}</h4>
-                <p className="text-sm text-gray-600 mb-2">{selectedTicket.message}</p>
+              <div>
+                <h4 className="font-semibold">{selectedTicket.subject}</h4>
                 <p className="text-xs text-gray-500">
                   {t("admin.ticketUser")}: {selectedTicket.userFirstName} {selectedTicket.userLastName} (
                   {selectedTicket.userEmail})
                 </p>
               </div>
 
+              <SupportTicketThread
+                ticket={tickets?.find((ticket) => ticket.id === selectedTicket.id) ?? selectedTicket}
+                asAdmin
+              />
+
               <div>
                 <label className="block text-sm font-medium mb-2">{t("admin.ticketStatus")}</label>
                 <Select value={newStatus} onValueChange={setNewStatus}>
@@ -458,19 +520,6 @@ export default function SupportTicketsTab() {
                 </Select>
               </div>
 
-              <div>
-                <label className="block text-sm font-medium mb-2">
-                  {t("common.response")} ({t("common.optional")})
-                </label>
-                <Textarea
-                  placeholder={t("admin.writeResponse")}
-                  value={adminResponse}
-                  onChange={(e) => setAdminResponse(e.target.value)}
-                  className="min-h-[120px]"
-                  data-testid="textarea-admin-response"
-                />
-              </div>
-
               <div className="flex justify-end gap-2">
                 <Button
                   variant="outline"
@@ -484,7 +533,7 @@ export default function SupportTicketsTab() {
                   disabled={updateTicketMutation.isPending}
                   data-testid="button-submit-response"
                 >
-                  {updateTicketMutation.isPending ? t("common.saving") : t("common.save")}
+                  {updateTicketMutation.isPending ? t("common.saving") : t("support.updateStatus")}
                 </Button>
               </div>
             </div>
@@ -8,12 +8,14 @@ import { Badge } from "@/components/ui/badge";
 import { Bell, ChevronDown, Menu, X } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { logout } from "@/lib/auth";
+import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import type { AuthUser } from "@/lib/auth";
 import logo from "@assets/LOGO-FINAL-LOYALTY_1758720440342.png";
 import { NotificationBell } from "@/components/NotificationBell";
 import { isAdminRole } from "@/lib/roles";
+import { useAdminQueues } from "@/hooks/useAdminQueues";
 
 interface NavigationProps {
   user: AuthUser;
@@ -25,7 +27,7 @@ export default function Navigation({ user }: NavigationProps) {
   const { t, currentLanguage, changeLanguage } = useTranslation();
   const queryClient = useQueryClient();
   const { toast } = useToast();
-
+  const { total: pendingAdminItems } = useAdminQueues(user?.role);
 
   // Improved safety check - show loading state instead of null
   if (!user || !user.id) {
@@ -71,7 +73,13 @@ export default function Navigation({ user }: NavigationProps) {
     },
   });
 
-  const handleLanguageChange = (lang: string) => {
+  const handleLanguageChange = async (lang: string) => {
+    // El idioma elegido también se usa para los emails; se guarda antes de que changeLanguage recargue la página
+    try {
+      await apiRequest("PATCH", "/api/user/profile", { preferredLanguage: lang });
+    } catch (error) {
+      console.error("Error saving preferred language:", error);
+    }
     changeLanguage(lang as any);
   };
 
@@ -81,7 +89,7 @@ export default function Navigation({ user }: NavigationProps) {
 
   const navItems = isAdminRole(user.role) 
     ? [
-        { href: "/admin", label: t("admin.panel"), current: location === "/admin" },
+        { href: "/admin", label: t("admin.panel"), current: location === "/admin", count: pendingAdminItems },
       ]
     : [
         { href: "/", label: t("common.dashboard"), current: location === "/" },
@@ -122,6 +130,16 @@ export default function Navigation({ user }: NavigationProps) {
                       data-testid={`nav-${item.label.toLowerCase().replace(" ", "-")}`}
                     >
                       {item.label}
+                      {"count" in item && item.count > 0 && (
+                        <Badge
+                          variant="destructive"
+                          className="ml-2"
+                          title={t("admin.pendingItemsBadge")}
+                          data-testid="badge-admin-pending"
+                        >
+                          {item.count}
+                        </Badge>
+                      )}
                     </button>
                   </Link>
                 ))}
@@ -205,6 +223,11 @@ export default function Navigation({ user }: NavigationProps) {
                     data-testid={`mobile-nav-${item.label.toLowerCase().replace(" ", "-")}`}
                   >
                     {item.label}
+                    {"count" in item && item.count > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        {item.count}
+                      </Badge>
+                    )}
                   </button>
                 </Link>
               ))}
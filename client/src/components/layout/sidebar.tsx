@@ -18,6 +18,8 @@ import {
 import { useState } from "react";
 import { useTranslation } from "@/hooks/useTranslation";
 import { useQuery } from "@tanstack/react-query";
+import type { AdminQueueCounts } from "@shared/schema";
+import { useAdminQueues } from "@/hooks/useAdminQueues";
 
 interface SidebarProps {
   className?: string;
@@ -43,6 +45,7 @@ interface NavItem {
   labelKey: string;
   icon: React.ComponentType<{ className?: string }>;
   descriptionKey?: string;
+  countKey?: keyof AdminQueueCounts;
 }
 
 const adminNavItems: NavItem[] = [
@@ -56,19 +59,22 @@ const adminNavItems: NavItem[] = [
     href: "/admin/users",
     labelKey: "admin.users",
     icon: Users,
-    descriptionKey: "admin.manageUserAccounts"
+    descriptionKey: "admin.manageUserAccounts",
+    countKey: "pendingUsers"
   },
   {
     href: "/admin/deals",
     labelKey: "admin.deals",
     icon: ClipboardCheck,
-    descriptionKey: "admin.approveDeals"
+    descriptionKey: "admin.approveDeals",
+    countKey: "pendingDeals"
   },
   {
     href: "/admin/rewards",
     labelKey: "admin.rewards",
     icon: Gift,
-    descriptionKey: "admin.manageRewardCatalog"
+    descriptionKey: "admin.manageRewardCatalog",
+    countKey: "pendingRedemptions"
   },
   {
     href: "/admin/reports",
@@ -88,6 +94,9 @@ export default function Sidebar({ className }: SidebarProps) {
     queryKey: ["/api/auth/me"],
   });
 
+  // Pendientes por cola, actualizados en tiempo real vía Socket.IO
+  const { counts } = useAdminQueues(currentUser?.role);
+
   return (
     <div
       className={cn(
@@ -155,6 +164,7 @@ export default function Sidebar({ className }: SidebarProps) {
           const Icon = item.icon;
           const isActive = location === item.href || 
             (item.href !== "/admin" && location.startsWith(item.href));
+          const pendingCount = item.countKey ? counts?.[item.countKey] || 0 : 0;
 
           return (
             <Link key={item.href} href={item.href}>
@@ -168,7 +178,12 @@ export default function Sidebar({ className }: SidebarProps) {
                 )}
                 data-testid={`nav-${t(item.labelKey).toLowerCase().replace(/\s+/g, '-')}`}
               >
-                <Icon className={cn("h-5 w-5", isCollapsed ? "" : "mr-3")} />
+                <div className="relative">
+                  <Icon className={cn("h-5 w-5", isCollapsed ? "" : "mr-3")} />
+                  {isCollapsed && pendingCount > 0 && (
+                    <span className="absolute -top-1 -right-1 h-2 w-2 rounded-full bg-red-500" />
+                  )}
+                </div>
                 {!isCollapsed && (
                   <div className="text-left">
                     <div className="font-medium">{t(item.labelKey)}</div>
@@ -177,6 +192,15 @@ export default function Sidebar({ className }: SidebarProps) {
                     )}
                   </div>
                 )}
+                {!isCollapsed && pendingCount > 0 && (
+                  <Badge
+                    variant="destructive"
+                    className="ml-auto"
+                    data-testid={`badge-pending-${item.countKey}`}
+                  >
+                    {pendingCount}
+                  </Badge>
+                )}
               </Button>
             </Link>
           );
@@ -202,6 +226,17 @@ export default function Sidebar({ className }: SidebarProps) {
                 <div className="text-xs opacity-75">{t('admin.systemConfiguration')}</div>
               </div>
             )}
+            {/* Los tickets de soporte se atienden desde la configuración */}
+            {!isCollapsed && (counts?.openTickets || 0) > 0 && (
+              <Badge
+                variant="destructive"
+                className="ml-auto"
+                title={t('admin.openTicketsBadge')}
+                data-testid="badge-pending-openTickets"
+              >
+                {counts?.openTickets}
+              </Badge>
+            )}
           </Button>
         </Link>
       </div>
@@ -6,13 +6,15 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { Deal } from "@shared/schema";
+import DealAttachmentsInput from "@/components/DealAttachmentsInput";
+import type { Deal, DealAttachment, DealEventWithActor, InsertDealAttachment } from "@shared/schema";
 
 const dealSchema = z.object({
   productType: z.enum(["software", "hardware", "equipment"], {
@@ -25,7 +27,7 @@ const dealSchema = z.object({
   licenseAgreementNumber: z.string().optional(),
   region: z.string().optional(), // New field for region
   clientInfo: z.string().optional(),
-  status: z.enum(["pending", "approved", "rejected"]).optional(),
+  comment: z.string().optional(), // Motivo de la edición o nota del reenvío, queda en el historial del deal
 });
 
 type DealForm = z.infer<typeof dealSchema>;
@@ -34,13 +36,17 @@ interface DealModalProps {
   isOpen: boolean;
   onClose: () => void;
   deal?: Deal | null;
+  resubmit?: boolean; // El partner corrige un deal rechazado y lo reenvía a revisión
 }
 
-export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
+export default function DealModal({ isOpen, onClose, deal, resubmit = false }: DealModalProps) {
   const { t } = useTranslation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const isEditing = !!deal;
+  const isResubmitting = !!deal && resubmit;
+  const isEditing = !!deal && !resubmit;
+  const [attachments, setAttachments] = useState<InsertDealAttachment[]>([]);
+  const [isUploadingAttachments, setIsUploadingAttachments] = useState(false);
 
   // Get current user information to pre-fill region
   const { data: currentUser } = useQuery<{
@@ -54,7 +60,7 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
     role: string;
   }>({
     queryKey: ["/api/auth/me"],
-    enabled: isOpen && !isEditing, // Only fetch when creating new deal
+    enabled: isOpen && !isEditing, // Only fetch when creating or resubmitting a deal
   });
 
   const form = useForm<DealForm>({
@@ -68,11 +74,24 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
       licenseAgreementNumber: "",
       region: "",
       clientInfo: "",
-      status: "pending",
+      comment: "",
     },
   });
 
+  // Historial de auditoría del deal (solo al editar desde el panel de admin)
+  const { data: dealEvents = [] } = useQuery<DealEventWithActor[]>({
+    queryKey: [`/api/admin/deals/${deal?.id}/events`],
+    enabled: isOpen && isEditing,
+  });
+
+  // Comprobantes que el deal ya tiene; al reenviarlo el partner puede añadir más
+  const { data: existingAttachments = [] } = useQuery<DealAttachment[]>({
+    queryKey: [`/api/deals/${deal?.id}/attachments`],
+    enabled: isOpen && isResubmitting,
+  });
+
   useEffect(() => {
+    setAttachments([]);
     if (deal) {
       const closeDate = deal.closeDate ? new Date(deal.closeDate).toISOString().split('T')[0] : "";
       form.reset({
@@ -84,7 +103,7 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
         licenseAgreementNumber: deal.licenseAgreementNumber || "",
         region: currentUser?.region || "", // Use current user's region for existing deals too
         clientInfo: deal.clientInfo || "",
-        status: deal.status,
+        comment: "",
       });
     } else {
       // Pre-fill region with user's region for new deals
@@ -97,7 +116,7 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
         licenseAgreementNumber: "",
         region: currentUser?.region || "",
         clientInfo: "",
-        status: "pending",
+        comment: "",
       });
     }
   }, [deal, form, currentUser]);
@@ -111,17 +130,25 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
         closeDate: data.closeDate,
       };
       
-      if (isEditing) {
-        return apiRequest("PATCH", `/api/admin/deals/${deal?.id}`, dealData);
+      let response: Response;
+      if (isResubmitting) {
+        response = await apiRequest("POST", `/api/deals/${deal?.id}/resubmit`, { ...dealData, note: data.comment, attachments });
+      } else if (isEditing) {
+        response = await apiRequest("PATCH", `/api/admin/deals/${deal?.id}`, dealData);
       } else {
-        return apiRequest("POST", "/api/deals", dealData);
+        response = await apiRequest("POST", "/api/deals", { ...dealData, attachments });
       }
+      return response.json() as Promise<Deal & { duplicateConflicts?: number }>;
     },
-    onSuccess: () => {
+    onSuccess: (savedDeal) => {
       toast({
         title: t("common.success"),
-        description: isEditing 
+        description: isResubmitting
+          ? "Deal resubmitted and pending approval"
+          : isEditing 
           ? "Deal updated successfully" 
+          : savedDeal.duplicateConflicts
+          ? t('deals.registeredAsPossibleDuplicate')
           : "Deal registered successfully and is pending approval",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/deals"] });
@@ -130,24 +157,36 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      if (isEditing) {
+        queryClient.invalidateQueries({ queryKey: [`/api/admin/deals/${deal?.id}/events`] });
+      }
+      if (deal) {
+        queryClient.invalidateQueries({ queryKey: [`/api/deals/${deal.id}/attachments`] });
+      }
       form.reset();
+      setAttachments([]);
       onClose();
     },
     onError: (error: any) => {
       toast({
         title: "Error",
-        description: error.message || `Failed to ${isEditing ? "update" : "register"} deal`,
+        description: error.message || `Failed to ${isResubmitting ? "resubmit" : isEditing ? "update" : "register"} deal`,
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: DealForm) => {
+    if (isResubmitting && !data.comment?.trim()) {
+      form.setError("comment", { message: t('deals.resubmitNoteRequired') });
+      return;
+    }
     createDealMutation.mutate(data);
   };
 
   const handleClose = () => {
     form.reset();
+    setAttachments([]);
     onClose();
   };
 
@@ -156,9 +195,16 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold text-gray-900">
-            {isEditing ? t('deals.editDeal') : t('deals.registerNewDeal')}
+            {isResubmitting ? t('deals.resubmitDeal') : isEditing ? t('deals.editDeal') : t('deals.registerNewDeal')}
           </DialogTitle>
         </DialogHeader>
+
+        {isResubmitting && deal?.rejectionReason && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3" data-testid="text-previous-rejection-reason">
+            <div className="text-sm font-medium text-red-700">{t('deals.previousRejectionReason')}</div>
+            <div className="text-sm text-red-600 mt-1 whitespace-pre-line">{deal.rejectionReason}</div>
+          </div>
+        )}
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -263,31 +309,6 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
               />
             </div>
 
-            {isEditing && (
-              <FormField
-                control={form.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>{t('deals.status')}</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl>
-                        <SelectTrigger data-testid="select-status">
-                          <SelectValue placeholder={t('deals.selectStatus')} />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="pending">{t('deals.pending')}</SelectItem>
-                        <SelectItem value="approved">{t('deals.approved')}</SelectItem>
-                        <SelectItem value="rejected">{t('deals.rejected')}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            )}
-
             <FormField
               control={form.control}
               name="licenseAgreementNumber"
@@ -349,18 +370,98 @@ export default function DealModal({ isOpen, onClose, deal }: DealModalProps) {
               )}
             />
 
+            {!isEditing && (
+              <div className="space-y-2">
+                <Label>{t('deals.proofOfSale')}</Label>
+                {existingAttachments.length > 0 && (
+                  <div className="text-sm text-gray-600" data-testid="text-existing-attachments">
+                    {t('deals.existingAttachments')}: {existingAttachments.map((attachment) => attachment.fileName).join(", ")}
+                  </div>
+                )}
+                <DealAttachmentsInput
+                  value={attachments}
+                  onChange={setAttachments}
+                  existingCount={existingAttachments.length}
+                  onUploadingChange={setIsUploadingAttachments}
+                />
+              </div>
+            )}
+
+            {(isEditing || isResubmitting) && (
+              <FormField
+                control={form.control}
+                name="comment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{isResubmitting ? t('deals.resubmitNote') : t('deals.editComment')}</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder={isResubmitting ? t('deals.resubmitNotePlaceholder') : t('deals.editCommentPlaceholder')}
+                        className="h-20"
+                        data-testid="textarea-edit-comment"
+                      />
+                    </FormControl>
+                    {isEditing && deal?.status === "approved" && (
+                      <div className="text-sm text-gray-500 mt-1">
+                        {t('deals.approvedEditRecalculates')}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {isEditing && (
+              <div className="space-y-2" data-testid="deal-history">
+                <h4 className="text-sm font-medium text-gray-900">{t('deals.history')}</h4>
+                {dealEvents.length === 0 ? (
+                  <p className="text-sm text-gray-500">{t('deals.historyEmpty')}</p>
+                ) : (
+                  <ul className="space-y-2 max-h-56 overflow-y-auto">
+                    {dealEvents.map((event) => (
+                      <li key={event.id} className="rounded-md border p-3 text-sm" data-testid={`deal-event-${event.id}`}>
+                        <div className="flex justify-between gap-2">
+                          <span className="font-medium">{t(`deals.event_${event.eventType}`)}</span>
+                          <span className="text-gray-500">{new Date(event.createdAt).toLocaleString()}</span>
+                        </div>
+                        <div className="text-gray-600">
+                          {event.actorFirstName || event.actorLastName
+                            ? `${event.actorFirstName ?? ""} ${event.actorLastName ?? ""}`.trim()
+                            : event.actorUsername || t('deals.systemActor')}
+                        </div>
+                        {event.changes.length > 0 && (
+                          <ul className="mt-1 text-gray-600">
+                            {event.changes.map((change) => (
+                              <li key={change.field}>
+                                {change.field}: {String(change.before ?? "-")} → {String(change.after ?? "-")}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {event.comment && (
+                          <p className="mt-1 italic text-gray-700 whitespace-pre-line">"{event.comment}"</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button type="button" variant="outline" onClick={handleClose} data-testid="button-cancel">
                 {t('common.cancel')}
               </Button>
               <Button 
                 type="submit" 
-                disabled={createDealMutation.isPending}
+                disabled={createDealMutation.isPending || isUploadingAttachments}
                 data-testid="button-submit-deal"
               >
                 {createDealMutation.isPending 
                   ? (isEditing ? t('deals.updating') : t('deals.submitting')) 
-                  : (isEditing ? t('deals.updateDeal') : t('deals.submitDeal'))
+                  : (isResubmitting ? t('deals.resubmitDeal') : isEditing ? t('deals.updateDeal') : t('deals.submitDeal'))
                 }
               </Button>
             </div>
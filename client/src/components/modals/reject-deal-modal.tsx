@@ -0,0 +1,119 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Deal } from "@shared/schema";
+
+const rejectDealSchema = z.object({
+  reason: z.string().trim().min(1, "A rejection reason is required").max(1000),
+});
+
+type RejectDealForm = z.infer<typeof rejectDealSchema>;
+
+interface RejectDealModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  deal: Pick<Deal, "id" | "productName"> | null;
+}
+
+export default function RejectDealModal({ isOpen, onClose, deal }: RejectDealModalProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<RejectDealForm>({
+    resolver: zodResolver(rejectDealSchema),
+    defaultValues: { reason: "" },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({ reason: "" });
+    }
+  }, [isOpen, form]);
+
+  const rejectDealMutation = useMutation({
+    mutationFn: async (data: RejectDealForm) => {
+      return apiRequest("POST", `/api/deals/${deal?.id}/reject`, data);
+    },
+    onSuccess: () => {
+      toast({
+        title: t("common.success"),
+        description: "Deal rejected",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("common.error"),
+        description: error.message || "Failed to reject deal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: RejectDealForm) => {
+    rejectDealMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("admin.rejectDealTitle")}</DialogTitle>
+          <DialogDescription>
+            {t("admin.rejectDealDescription").replace("{product}", deal?.productName || "")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("admin.rejectionReason")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder={t("admin.rejectionReasonPlaceholder")}
+                      className="h-28"
+                      data-testid="textarea-rejection-reason"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={onClose} data-testid="button-cancel-reject">
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={rejectDealMutation.isPending}
+                data-testid="button-confirm-reject"
+              >
+                {t("admin.rejectDeal")}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
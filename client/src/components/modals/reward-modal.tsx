@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -8,12 +8,15 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Plus, X } from "lucide-react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { Reward } from "@shared/schema";
+import type { RegionConfig, Reward, RewardAssignmentInput, RewardRegionAssignment } from "@shared/schema";
 
 const rewardSchema = z.object({
   name: z.string().min(1, "Reward name is required"),
@@ -35,6 +38,11 @@ interface RewardModalProps {
   reward?: Reward | null;
 }
 
+// Valor del Select para "sin filtro" (Radix no admite items con value vacío)
+const ANY_VALUE = "any";
+
+const emptyAssignment: RewardAssignmentInput = { region: null, country: null, regionConfigId: null };
+
 const categories = [
   "Gift Cards",
   "Electronics",
@@ -57,6 +65,46 @@ export default function RewardModal({ isOpen, onClose, reward }: RewardModalProp
     queryKey: ["/api/auth/me"],
   });
 
+  // Audiencia del reward: sin asignaciones lo ve toda su región
+  const [assignments, setAssignments] = useState<RewardAssignmentInput[]>([]);
+  const [newAssignment, setNewAssignment] = useState<RewardAssignmentInput>(emptyAssignment);
+
+  const { data: regionConfigs = [] } = useQuery<RegionConfig[]>({
+    queryKey: ["/api/admin/regions"],
+    enabled: isOpen,
+  });
+
+  const { data: savedAssignments } = useQuery<RewardRegionAssignment[]>({
+    queryKey: ["/api/admin/rewards", reward?.id, "assignments"],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/rewards/${reward!.id}/assignments`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch reward assignments");
+      return res.json();
+    },
+    enabled: isOpen && !!reward,
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setNewAssignment(emptyAssignment);
+    setAssignments(
+      reward && savedAssignments
+        ? savedAssignments
+            .filter((assignment) => assignment.isActive)
+            .map(({ region, country, regionConfigId }) => ({ region, country, regionConfigId }))
+        : [],
+    );
+  }, [reward, savedAssignments, isOpen]);
+
+  const configName = (id: string | null) => regionConfigs.find((config) => config.id === id)?.name ?? id;
+
+  const handleAddAssignment = () => {
+    const assignment = { ...newAssignment, country: newAssignment.country?.trim() || null };
+    if (!assignment.region && !assignment.country && !assignment.regionConfigId) return;
+    setAssignments([...assignments, assignment]);
+    setNewAssignment(emptyAssignment);
+  };
+
   const form = useForm<RewardForm>({
     resolver: zodResolver(rewardSchema),
     defaultValues: {
@@ -126,11 +174,15 @@ export default function RewardModal({ isOpen, onClose, reward }: RewardModalProp
         estimatedDeliveryDays: data.estimatedDeliveryDays ? parseInt(data.estimatedDeliveryDays) : null,
       };
       
-      if (isEditing) {
-        return apiRequest("PATCH", `/api/admin/rewards/${reward.id}`, rewardData);
-      } else {
-        return apiRequest("POST", "/api/admin/rewards", rewardData);
+      const response = isEditing
+        ? await apiRequest("PATCH", `/api/admin/rewards/${reward.id}`, rewardData)
+        : await apiRequest("POST", "/api/admin/rewards", rewardData);
+      const saved: Reward = await response.json();
+
+      if (isEditing || assignments.length > 0) {
+        await apiRequest("PUT", `/api/admin/rewards/${saved.id}/assignments`, { assignments });
       }
+      return saved;
     },
     onSuccess: () => {
       toast({
@@ -348,6 +400,100 @@ export default function RewardModal({ isOpen, onClose, reward }: RewardModalProp
               )}
             />
 
+            <div className="space-y-3 rounded-lg border p-4" data-testid="reward-assignments">
+              <div className="space-y-0.5">
+                <Label className="text-base">{t("rewards.audience")}</Label>
+                <div className="text-sm text-gray-500">{t("rewards.audienceDescription")}</div>
+              </div>
+
+              {assignments.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  {t("rewards.audienceWholeRegion").replace("{region}", form.watch("region") || "—")}
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {assignments.map((assignment, index) => (
+                    <Badge
+                      key={index}
+                      variant="secondary"
+                      className="flex items-center gap-1"
+                      data-testid={`badge-assignment-${index}`}
+                    >
+                      {[assignment.region, assignment.country, assignment.regionConfigId && configName(assignment.regionConfigId)]
+                        .filter(Boolean)
+                        .join(" · ")}
+                      <button
+                        type="button"
+                        onClick={() => setAssignments(assignments.filter((_, i) => i !== index))}
+                        aria-label={t("rewards.removeAssignment")}
+                        data-testid={`button-remove-assignment-${index}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1.5fr_auto] gap-2">
+                <Select
+                  value={newAssignment.region ?? ANY_VALUE}
+                  onValueChange={(value) =>
+                    setNewAssignment({ ...newAssignment, region: value === ANY_VALUE ? null : (value as RewardAssignmentInput["region"]) })
+                  }
+                  disabled={currentUser?.role === "regional-admin"}
+                >
+                  <SelectTrigger data-testid="select-assignment-region">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>{t("rewards.anyRegion")}</SelectItem>
+                    <SelectItem value="NOLA">NOLA</SelectItem>
+                    <SelectItem value="SOLA">SOLA</SelectItem>
+                    <SelectItem value="BRASIL">BRASIL</SelectItem>
+                    <SelectItem value="MEXICO">MEXICO</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={newAssignment.country ?? ""}
+                  onChange={(e) => setNewAssignment({ ...newAssignment, country: e.target.value })}
+                  placeholder={t("rewards.countryPlaceholder")}
+                  data-testid="input-assignment-country"
+                />
+                <Select
+                  value={newAssignment.regionConfigId ?? ANY_VALUE}
+                  onValueChange={(value) =>
+                    setNewAssignment({ ...newAssignment, regionConfigId: value === ANY_VALUE ? null : value })
+                  }
+                >
+                  <SelectTrigger data-testid="select-assignment-config">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_VALUE}>{t("rewards.anyRegionConfig")}</SelectItem>
+                    {regionConfigs
+                      .filter((config) => !newAssignment.region || config.region === newAssignment.region)
+                      .filter((config) => currentUser?.role !== "regional-admin" || config.region === currentUser.region)
+                      .map((config) => (
+                        <SelectItem key={config.id} value={config.id}>
+                          {config.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddAssignment}
+                  disabled={!newAssignment.region && !newAssignment.country?.trim() && !newAssignment.regionConfigId}
+                  data-testid="button-add-assignment"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t("rewards.addAssignment")}
+                </Button>
+              </div>
+            </div>
+
             <FormField
               control={form.control}
               name="isActive"
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { AdminQueueCounts } from '@shared/schema';
+import { useSocket } from '@/hooks/useSocket';
+import { queryClient } from '@/lib/queryClient';
+import { isAdminRole, type UserRole } from '@/lib/roles';
+
+type AdminQueue = 'deals' | 'rewards' | 'users' | 'tickets';
+
+// Listas del panel de admin que dependen de cada cola
+const queueQueryKeys: Record<AdminQueue, string[]> = {
+  deals: ['/api/admin/deals/pending', '/api/admin/deals', '/api/admin/deals/conflicts'],
+  rewards: ['/api/admin/rewards/pending', '/api/admin/rewards/redemptions'],
+  users: ['/api/admin/users/pending', '/api/admin/users'],
+  tickets: ['/api/admin/support-tickets', '/api/admin/support-tickets/sla-metrics'],
+};
+
+// Agrupa ráfagas de eventos (p. ej. una carga CSV de deals) en un solo refetch
+const INVALIDATE_DELAY_MS = 300;
+
+/**
+ * Contadores de las colas de revisión del admin, actualizados en tiempo real:
+ * el servidor emite "admin:queue-updated" a los admins de la región afectada
+ * y aquí se invalidan los contadores y las listas de esa cola.
+ */
+export function useAdminQueues(role: UserRole | undefined) {
+  const isAdmin = isAdminRole(role);
+  const socket = useSocket();
+
+  const { data: counts } = useQuery<AdminQueueCounts>({
+    queryKey: ['/api/admin/queue-counts'],
+    enabled: isAdmin,
+  });
+
+  useEffect(() => {
+    if (!socket || !isAdmin) return;
+
+    const pending = new Set<AdminQueue>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/queue-counts'] });
+      pending.forEach((queue) => {
+        queueQueryKeys[queue].forEach((key) => {
+          queryClient.invalidateQueries({ queryKey: [key] });
+        });
+      });
+      pending.clear();
+    };
+
+    const handleQueueUpdated = ({ queue }: { queue: AdminQueue }) => {
+      if (!queueQueryKeys[queue]) return;
+      pending.add(queue);
+      if (!timer) {
+        timer = setTimeout(flush, INVALIDATE_DELAY_MS);
+      }
+    };
+
+    socket.on('admin:queue-updated', handleQueueUpdated);
+
+    return () => {
+      socket.off('admin:queue-updated', handleQueueUpdated);
+      if (timer) clearTimeout(timer);
+    };
+  }, [socket, isAdmin]);
+
+  const total = counts
+    ? counts.pendingDeals + counts.pendingRedemptions + counts.pendingUsers + counts.openTickets
+    : 0;
+
+  return { counts, total };
+}
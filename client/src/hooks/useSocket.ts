@@ -1,28 +1,57 @@
 import { useEffect, useState } from 'react';
 import { io, Socket } from 'socket.io-client';
 
-export function useSocket() {
-  const [socket, setSocket] = useState<Socket | null>(null);
+// Una sola conexión compartida por todos los componentes que la usan;
+// se cierra cuando se desmonta el último
+let sharedSocket: Socket | null = null;
+let subscribers = 0;
 
-  useEffect(() => {
-    // Conectar a Socket.IO
+function acquireSocket(): Socket {
+  if (!sharedSocket) {
+    // Conectar a Socket.IO; el servidor autentica con la cookie de sesión
+    // y une el socket a las rooms de usuario, rol y región
     const newSocket = io(window.location.origin, {
       transports: ['websocket', 'polling'],
+      withCredentials: true,
     });
 
     newSocket.on('connect', () => {
       console.log('🟢 Socket conectado:', newSocket.id);
     });
 
+    newSocket.on('connect_error', (error) => {
+      console.warn('Socket no autorizado:', error.message);
+    });
+
     newSocket.on('disconnect', () => {
       console.log('🔴 Socket desconectado');
     });
 
-    setSocket(newSocket);
+    sharedSocket = newSocket;
+  }
+
+  subscribers++;
+  return sharedSocket;
+}
+
+function releaseSocket() {
+  subscribers--;
+  if (subscribers <= 0 && sharedSocket) {
+    sharedSocket.disconnect();
+    sharedSocket = null;
+    subscribers = 0;
+  }
+}
+
+export function useSocket() {
+  const [socket, setSocket] = useState<Socket | null>(null);
+
+  useEffect(() => {
+    setSocket(acquireSocket());
 
     // Cleanup al desmontar
     return () => {
-      newSocket.disconnect();
+      releaseSocket();
     };
   }, []);
 
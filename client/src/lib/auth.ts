@@ -9,6 +9,9 @@ export interface AuthUser {
   role: "user" | "admin" | "regional-admin" | "super-admin";
   country: string;
   adminRegionId?: string | null;
+  twoFactorEnabled?: boolean;
+  // Admin whose session has not passed 2FA: must enable it before using the app
+  twoFactorSetupRequired?: boolean;
   regionInfo?: {
     id: string;
     name: string;
@@ -18,11 +21,19 @@ export interface AuthUser {
   } | null;
 }
 
-export const login = async (username: string, password: string): Promise<AuthUser> => {
+// With 2FA enabled the password step only opens the challenge; the session starts after verifyTwoFactorLogin
+export type LoginResult = AuthUser | { twoFactorRequired: true };
+
+export const login = async (username: string, password: string): Promise<LoginResult> => {
   const response = await apiRequest("POST", "/api/auth/login", { username, password });
   return response.json();
 };
 
+export const verifyTwoFactorLogin = async (code: string): Promise<AuthUser> => {
+  const response = await apiRequest("POST", "/api/auth/login/2fa", { code });
+  return response.json();
+};
+
 export const register = async (userData: {
   username: string;
   email: string;
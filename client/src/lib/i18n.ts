@@ -124,6 +124,34 @@ const translations = {
       assignedRegionNotModifiable: "Assigned region (not modifiable)",
       onlySuperAdminCanChange: "Only super-admin can change the assigned region",
       regionNotAssigned: "Region not assigned",
+      forgotPassword: "Forgot your password?",
+      forgotPasswordTitle: "Reset your password",
+      forgotPasswordDescription: "Enter the email of your account and we'll send you a link to choose a new password.",
+      sendResetLink: "Send reset link",
+      sending: "Sending...",
+      resetLinkSent: "If the email exists in our system, you will receive a link to reset your password. Check your inbox.",
+      backToLogin: "Back to sign in",
+      newPasswordTitle: "Choose a new password",
+      newPasswordDescription: "After the change, every open session of your account is closed.",
+      newPassword: "New password",
+      passwordTooShort: "Password must be at least 6 characters",
+      passwordsDoNotMatch: "Passwords do not match",
+      updatePassword: "Update password",
+      updatingPassword: "Updating...",
+      passwordUpdatedTitle: "Password updated",
+      passwordUpdatedDescription: "You can now sign in with your new password.",
+      requestNewResetLink: "Request a new link",
+      twoFactorTitle: "Two-factor authentication",
+      twoFactorDescription: "Enter the 6-digit code from your authenticator app.",
+      twoFactorRecoveryDescription: "Enter one of the recovery codes you saved when you enabled two-factor authentication. Each code works only once.",
+      verificationCode: "Verification code",
+      recoveryCode: "Recovery code",
+      verify: "Verify",
+      useRecoveryCode: "Use a recovery code",
+      useAuthenticatorCode: "Use the authenticator app",
+      twoFactorSetupRequiredTitle: "Two-factor authentication required",
+      twoFactorSetupRequiredDescription: "Admin accounts must use two-factor authentication. Set it up to continue. If you already enabled it, sign out and sign in again with your code.",
+      signOut: "Sign out",
     },
     profile: {
       myProfile: "My Profile",
@@ -136,6 +164,49 @@ const translations = {
       profileUpdated: "Profile updated successfully",
       passwordUpdated: "Password updated successfully",
       updateFailed: "Update failed",
+      notifications: "Notifications",
+      notificationPreferences: "Notification preferences",
+      notificationPreferencesDescription: "Choose how you want to hear about each event. The digest is a weekly summary email; turn it off for every event to stop receiving it.",
+      notificationEvent: "Event",
+      channelInApp: "In-app",
+      channelEmail: "Email",
+      channelDigest: "Digest",
+      eventDealApproved: "Deal approved",
+      eventDealRejected: "Deal rejected",
+      eventRedemptionStatus: "Redemption status",
+      eventTicketReply: "Support ticket reply",
+      eventPrizeWon: "Prize won",
+      eventPointsExpiring: "Points expiring",
+      activeSessions: "Where you're signed in",
+      activeSessionsDescription: "Devices with an open session on your account. Close any session you don't recognize.",
+      thisDevice: "This device",
+      unknownDevice: "Unknown device",
+      sessionLastActive: "Last active {date}",
+      sessionSignedIn: "Signed in {date}",
+      revokeSession: "Sign out",
+      revokeOtherSessions: "Sign out of all other sessions",
+      sessionRevoked: "Session closed",
+      otherSessionsRevoked: "All other sessions were closed",
+      noOtherSessions: "You're not signed in on any other device.",
+      twoFactor: "Two-factor authentication",
+      twoFactorOn: "On",
+      twoFactorDescription: "Protect your account with a code from an authenticator app (Google Authenticator, Authy, 1Password...) in addition to your password.",
+      twoFactorRequiredDescription: "Two-factor authentication is mandatory for admin accounts. Each sign-in asks for a code from your authenticator app.",
+      setUpTwoFactor: "Set up two-factor authentication",
+      twoFactorScanQr: "Scan this QR code with your authenticator app, then enter the 6-digit code it shows.",
+      twoFactorQrAlt: "QR code for the authenticator app",
+      twoFactorManualEntry: "Can't scan it? Enter this key manually:",
+      enableTwoFactor: "Verify and enable",
+      twoFactorEnabledToast: "Two-factor authentication enabled",
+      twoFactorDisabledToast: "Two-factor authentication disabled",
+      recoveryCodesDescription: "Save these recovery codes somewhere safe. Each one lets you sign in once if you lose access to your authenticator app. They won't be shown again.",
+      copyRecoveryCodes: "Copy codes",
+      recoveryCodesCopied: "Recovery codes copied",
+      recoveryCodesSaved: "I've saved them",
+      recoveryCodesRemaining: "Recovery codes left: {count}",
+      regenerateRecoveryCodes: "Generate new recovery codes",
+      disableTwoFactor: "Disable two-factor authentication",
+      twoFactorCodeOrRecovery: "Authenticator or recovery code",
     },
     support: {
       supportRequest: "Support Request",
@@ -192,7 +263,27 @@ const translations = {
           question: "How can I track my reward shipment?",
           answer: "Once your reward request is approved and shipped, you'll receive an email with tracking information. You can also check the status in the 'My Rewards' section where you'll see the current status (Pending, Approved, Shipped, Delivered)."
         }
-      }
+      },
+      myTickets: "My requests",
+      myTicketsDescription: "Follow up on your support requests and reply to the team",
+      noTickets: "You have no support requests yet",
+      backToTickets: "Back to my requests",
+      status_open: "Open",
+      status_in_progress: "In progress",
+      status_resolved: "Resolved",
+      status_closed: "Closed",
+      supportTeam: "Support team",
+      internalNote: "Internal note",
+      markAsInternalNote: "Internal note (not visible to the user)",
+      internalNotePlaceholder: "Write a note for other admins...",
+      replyPlaceholder: "Write a reply...",
+      replyReopensTicket: "This ticket is resolved; replying will reopen it.",
+      ticketClosedNoReplies: "This ticket is closed and no longer accepts replies.",
+      sendReply: "Send reply",
+      addInternalNote: "Add note",
+      couldNotSendReply: "Could not send the reply",
+      newUserReply: "New reply on a support ticket",
+      updateStatus: "Update status",
     },
     dashboard: {
       welcome: "Welcome back",
@@ -220,6 +311,9 @@ const translations = {
       software: "Software",
       hardware: "Hardware",
       equipment: "Equipment",
+      pastWinners: "Grand Prize Winners",
+      pastWinnersDescription: "Past winners in your region",
+      pointsExpiringSoon: "{points} points expire on {date}",
     },
     deals: {
       newDeal: "New Deal",
@@ -250,6 +344,33 @@ const translations = {
       updateDeal: "Update Deal",
       submitDeal: "Submit Deal",
       status: "Status",
+      editComment: "Reason for the change (optional)",
+      editCommentPlaceholder: "Explain why this deal is being edited",
+      approvedEditRecalculates: "This deal is approved: changing its value, product, type, close date or region recalculates points and goals with adjusting entries.",
+      history: "History",
+      historyEmpty: "No recorded changes yet.",
+      event_created: "Submitted",
+      event_approved: "Approved",
+      event_rejected: "Rejected",
+      event_updated: "Edited",
+      systemActor: "System",
+      resubmitDeal: "Resubmit deal",
+      resubmitNote: "Note for the reviewer",
+      resubmitNotePlaceholder: "Explain what you corrected",
+      resubmitNoteRequired: "A note for the reviewer is required",
+      previousRejectionReason: "Why it was rejected",
+      event_resubmitted: "Resubmitted",
+      registeredAsPossibleDuplicate: "Deal registered. It matches a deal already on file, so an administrator will review it as a possible duplicate before approval.",
+      event_conflicts_resolved: "Duplicate check resolved",
+      proofOfSale: "Proof of sale (invoice or purchase order)",
+      existingAttachments: "Already attached",
+      addAttachment: "Attach file",
+      attachmentUploading: "Uploading...",
+      attachmentsHint: "PDF or image (JPG, PNG, WEBP), up to 10 MB each. Your region may require it above a deal value.",
+      removeAttachment: "Remove attachment",
+      attachmentInvalidFile: "{file} must be a PDF or image of 10 MB or less",
+      attachmentLimitReached: "A deal can have at most {max} attachments",
+      attachmentUploadFailed: "Failed to upload the file",
     },
     rewards: {
       catalog: "Rewards Catalog",
@@ -301,6 +422,14 @@ const translations = {
       pending: "Pending",
       approved: "Approved",
       rejected: "Rejected",
+      audience: "Who can see this reward",
+      audienceDescription: "Limit the reward to a region, a country or a region configuration (category and subcategory). Users who match any entry can see and redeem it.",
+      audienceWholeRegion: "No restrictions: every user in {region} can see it.",
+      anyRegion: "Any region",
+      anyRegionConfig: "Any category",
+      countryPlaceholder: "Country (optional)",
+      addAssignment: "Add",
+      removeAssignment: "Remove",
     },
     admin: {
       panel: "Admin Panel",
@@ -749,6 +878,189 @@ const translations = {
           duplicateConfig: "A configuration already exists for this region, category, and subcategory combination",
         },
       },
+      awardWinners: "Award Winners",
+      awardWinnersDescription: "Freeze the top of the current ranking as the official winners. The criteria will be locked afterwards.",
+      numberOfWinners: "Number of winners",
+      awardNotes: "Notes",
+      awardNotesPlaceholder: "Prize details, delivery notes...",
+      awardWinnersConfirmTitle: "Award winners?",
+      awardWinnersConfirmation: "The top users of the ranking will be recorded as winners and notified. This criteria can no longer be edited or deleted.",
+      awarding: "Awarding...",
+      winnersAwarded: "Winners awarded",
+      winnersAwardedDescription: "The winners have been recorded and notified.",
+      couldNotAwardWinners: "Could not award winners",
+      criteriaLocked: "Locked",
+      awardedWinners: "Awarded Winners",
+      awardedWinnersDescription: "Winners recorded for this region",
+      noWinnersYet: "No winners have been awarded yet",
+      selectionMethod: "Winner selection",
+      selectionMethodDraw: "Random draw",
+      selectionMethodRanking: "Goals ranking",
+      monthlyClose: "Monthly close",
+      monthlyCloseDescription: "Sum each user's goals for the month, find who reached each prize's goal target and select the winners. The seed is stored so the draw can be reproduced.",
+      drawSeedOptional: "Draw seed (optional)",
+      drawSeedPlaceholder: "Leave empty to generate one",
+      closeMonth: "Close month",
+      closingMonth: "Closing...",
+      closeMonthConfirmTitle: "Close this month?",
+      closeMonthConfirmation: "Winners will be selected and notified. The prizes of this month will be locked and the close cannot be undone.",
+      monthClosed: "Month closed",
+      monthClosedDescription: "The winners have been selected and notified.",
+      monthClosedBadge: "Closed",
+      couldNotCloseMonth: "Could not close the month",
+      qualifiers: "Goals per user this month",
+      noQualifiersYet: "No goals recorded for this category in the selected month.",
+      drawResults: "Results",
+      drawSeed: "Seed",
+      participants: "Participants",
+      qualifiedCount: "Qualified",
+      noMonthlyWinners: "Nobody reached the goal target for any prize.",
+      noDrawsYet: "No month closes for the selected month yet.",
+      pointsExpiration: "Points expiration",
+      pointsExpirationDesc: "Each batch of earned points expires after the configured number of months. The oldest points are used and expired first.",
+      pointsExpirationMonths: "Validity (months)",
+      pointsExpirationMonthsDesc: "Leave empty so points never expire",
+      pointsNeverExpire: "Never expire",
+      expirationWarningDays: "Warning period (days)",
+      expirationWarningDaysDesc: "Users are notified by email and in the app this many days before their points expire",
+      runPointsExpiration: "Run expiration now",
+      running: "Running...",
+      pointsExpirationRun: "Expiration processed",
+      pointsExpirationRunResult: "{points} points expired, {warnings} warnings sent",
+      couldNotRunPointsExpiration: "Could not run the points expiration",
+      lowStockAlert: "Low stock",
+      outOfStock: "out of stock",
+      unitsLeft: "{count} left",
+      stock: "Stock",
+      openTicketsBadge: "Open support tickets",
+      pendingItemsBadge: "Items pending review",
+      rejectDealTitle: "Reject deal",
+      rejectDealDescription: "The reason will be shown to the partner who submitted \"{product}\".",
+      rejectionReason: "Rejection reason",
+      rejectionReasonPlaceholder: "Explain what is wrong with this deal",
+      rejectDeal: "Reject deal",
+      resubmissionBadge: "Resubmission (rev. {revision})",
+      resubmissionNotFound: "No resubmission details found.",
+      previousRejectionReason: "Previous rejection reason",
+      partnerNote: "Partner note",
+      changesSincePreviousVersion: "Changes since the previous version",
+      noFieldChanges: "No fields were changed.",
+      field: "Field",
+      previousValue: "Before",
+      newValue: "After",
+      possibleDuplicate: "Possible duplicate",
+      possibleDuplicateTitle: "Possible duplicate deal",
+      possibleDuplicateDescription: "This deal matches the deals below. Resolve the conflict before approving it.",
+      conflictReason_license_agreement: "Same license agreement",
+      conflictReason_client_value_date: "Same client, value and close date",
+      conflictResolutionNotePlaceholder: "Optional note (shown to the partner if the deal is rejected)",
+      notADuplicate: "Not a duplicate",
+      rejectAsDuplicate: "Reject as duplicate",
+      dealRejectedAsDuplicate: "Deal rejected as a duplicate",
+      conflictsDismissed: "Conflicts dismissed, the deal can now be approved",
+      csvDuplicatesFlagged: "{count} deals flagged as possible duplicates",
+      attachmentsBadge: "{count} attachment(s)",
+      proofOfSaleTitle: "Proof of sale",
+      proofOfSaleDescription: "Invoices or purchase orders the partner attached to this deal",
+      noAttachments: "This deal has no attachments",
+      openAttachment: "Open in a new tab",
+      attachmentRequiredAbove: "Proof of sale required above",
+      attachmentOptionalPlaceholder: "Empty = optional",
+      slaTargetsUpdated: "SLA targets updated",
+      slaAvgFirstResponse: "Avg. first response",
+      slaAvgResolution: "Avg. resolution",
+      slaBreaches: "SLA breaches",
+      slaBreachesHint: "First response / resolution",
+      slaEscalatedOpen: "Escalated (open)",
+      slaByPriority: "SLA by priority",
+      slaTargetFirstResponse: "First response target",
+      slaTargetResolution: "Resolution target",
+      slaMetricsPeriod: "Metrics cover tickets created in the last 30 days",
+      saveSlaTargets: "Save SLA targets",
+      slaEscalated: "Escalated",
+      slaOverdue: "Response overdue by {time}",
+      slaDueIn: "Respond within {time}",
+      assignedTo: "Assigned to",
+      emailDelivery: "Email delivery",
+      emailsInQueue: "In queue",
+      emailStatusPending: "Pending retry",
+      emailStatusSending: "Sending",
+      emailStatusSent: "Sent",
+      emailStatusDead: "Failed",
+      noEmailsInStatus: "No emails in this status",
+      emailAttempts: "{count} attempts",
+      resendEmail: "Resend",
+      emailResendQueued: "The email was queued to be sent again",
+      emailTemplates: "Email templates",
+      emailTemplatesDescription: "Customize the subject and content of each email by language and region. Blank regions use the default text.",
+      emailTemplate: "Template",
+      emailLanguage: "Language",
+      emailSubject: "Subject",
+      emailBody: "Body (HTML)",
+      emailTemplateVariables: "Available variables:",
+      emailTemplateSyntaxHint: "Use {{#if variable}}...{{/if}} for optional blocks and {{> button url=variable label=\"Text\"}} for buttons.",
+      emailTemplateCustom: "Customized",
+      emailTemplateDefault: "Default",
+      emailTemplatePreview: "Preview",
+      emailTemplateSaveForRegion: "Save for {region}",
+      emailTemplateRestoreDefault: "Restore default",
+      emailTemplateSaved: "Email template saved",
+      emailTemplateReset: "Default template restored",
+      scheduledJobs: "Scheduled Jobs",
+      scheduledJobsDescription: "Recurring server work. Schedules are 5-field cron expressions in UTC; only one server instance runs each job at a time.",
+      jobPointsExpiration: "Points expiration",
+      jobPointsExpirationDescription: "Expires matured point lots and warns users about points close to expiring.",
+      jobSupportSlaEscalation: "Support SLA escalation",
+      jobSupportSlaEscalationDescription: "Escalates support tickets that missed their first-response SLA.",
+      jobWeeklyDigest: "Weekly digest",
+      jobWeeklyDigestDescription: "Sends the weekly summary email to partners and admins. Each user receives it once per week.",
+      jobRegionConfigExpiration: "Region configuration expiration",
+      jobRegionConfigExpirationDescription: "Deactivates region configurations whose expiration date has passed.",
+      jobMonthlyClose: "Monthly close",
+      jobMonthlyCloseDescription: "Closes the previous month and draws the monthly prizes for every region configuration that has not been closed yet.",
+      jobPointsRecalculation: "Points recalculation",
+      jobPointsRecalculationDescription: "Recalculates points and goals of every deal in all regions with the current rules and posts adjustment entries.",
+      jobStatusRunning: "Running",
+      jobStatusSucceeded: "Succeeded",
+      jobStatusFailed: "Failed",
+      jobEnabled: "Enabled",
+      jobSchedule: "Schedule (cron, UTC)",
+      jobScheduleHint: "Format: minute hour day-of-month month day-of-week. Example: \"0 6 * * *\" runs every day at 06:00 UTC.",
+      jobLastRun: "Last run",
+      jobNextRun: "Next run",
+      jobHistory: "History",
+      jobRunNow: "Run now",
+      jobNoRuns: "This job has not run yet",
+      jobTriggerManual: "Manual",
+      jobTriggerSchedule: "Scheduled",
+      jobUpdated: "Job updated",
+      jobRunStarted: "The job has started",
+      pointsRecalculation: "Recalculate points and goals",
+      pointsRecalculationDesc: "Applies the current rules to existing deals. Preview the per-user differences first; applying them posts adjustment entries and keeps the original history.",
+      previewRecalculation: "Preview changes",
+      applyRecalculation: "Apply adjustments",
+      recalculationProgress: "Processed {processed} of {total} deals",
+      recalculationSummary: "{changed} of {scanned} deals change: {points} points and {goals} goals in total.",
+      recalculationApplied: "Adjustments applied.",
+      recalculationNoChanges: "Points and goals are already up to date",
+      pointsDelta: "Points change",
+      goalsDelta: "Goals change",
+      forceLogout: "Force logout",
+      forceLogoutConfirmation: "This user will be signed out of every device and will have to log in again.",
+      userLoggedOut: "The user was signed out of all sessions",
+      resetTwoFactor: "Reset two-factor authentication",
+      resetTwoFactorConfirmation: "The user's authenticator and recovery codes will stop working and all their sessions will be closed. Admins will have to set it up again on their next sign-in.",
+      twoFactorReset: "Two-factor authentication was reset",
+      lockedAccounts: "Locked accounts",
+      lockedAccountsDescription: "Accounts temporarily locked after repeated failed sign-in attempts. They unlock automatically when the lock expires.",
+      noLockedAccounts: "No accounts are locked",
+      failedAttempts: "{count} failed attempts",
+      lastAttemptFrom: "last attempt from {ip}",
+      lockedUntil: "locked until {date}",
+      unlockAccount: "Unlock",
+      accountUnlocked: "The account was unlocked",
+      jobLoginThrottleCleanup: "Failed sign-in cleanup",
+      jobLoginThrottleCleanupDescription: "Deletes expired failed sign-in counters and lockouts",
     },
   },
   es: {
@@ -876,6 +1188,34 @@ const translations = {
       assignedRegionNotModifiable: "Región asignada (no modificable)",
       onlySuperAdminCanChange: "Solo super-admin puede cambiar la región asignada",
       regionNotAssigned: "Región no asignada",
+      forgotPassword: "¿Olvidaste tu contraseña?",
+      forgotPasswordTitle: "Restablece tu contraseña",
+      forgotPasswordDescription: "Ingresa el email de tu cuenta y te enviaremos un enlace para elegir una nueva contraseña.",
+      sendResetLink: "Enviar enlace",
+      sending: "Enviando...",
+      resetLinkSent: "Si el email existe en nuestro sistema, recibirás un enlace para restablecer tu contraseña. Revisa tu bandeja de entrada.",
+      backToLogin: "Volver a iniciar sesión",
+      newPasswordTitle: "Elige una nueva contraseña",
+      newPasswordDescription: "Tras el cambio se cerrarán todas las sesiones abiertas de tu cuenta.",
+      newPassword: "Nueva contraseña",
+      passwordTooShort: "La contraseña debe tener al menos 6 caracteres",
+      passwordsDoNotMatch: "Las contraseñas no coinciden",
+      updatePassword: "Actualizar contraseña",
+      updatingPassword: "Actualizando...",
+      passwordUpdatedTitle: "Contraseña actualizada",
+      passwordUpdatedDescription: "Ya puedes iniciar sesión con tu nueva contraseña.",
+      requestNewResetLink: "Solicitar un nuevo enlace",
+      twoFactorTitle: "Verificación en dos pasos",
+      twoFactorDescription: "Introduce el código de 6 dígitos de tu app autenticadora.",
+      twoFactorRecoveryDescription: "Introduce uno de los códigos de recuperación que guardaste al activar la verificación en dos pasos. Cada código sirve una sola vez.",
+      verificationCode: "Código de verificación",
+      recoveryCode: "Código de recuperación",
+      verify: "Verificar",
+      useRecoveryCode: "Usar un código de recuperación",
+      useAuthenticatorCode: "Usar la app autenticadora",
+      twoFactorSetupRequiredTitle: "Verificación en dos pasos obligatoria",
+      twoFactorSetupRequiredDescription: "Las cuentas de administrador deben usar verificación en dos pasos. Actívala para continuar. Si ya la tenías activada, cierra sesión y vuelve a entrar con tu código.",
+      signOut: "Cerrar sesión",
     },
     profile: {
       myProfile: "Mi Perfil",
@@ -888,6 +1228,49 @@ const translations = {
       profileUpdated: "Perfil actualizado exitosamente",
       passwordUpdated: "Contraseña actualizada exitosamente",
       updateFailed: "Error al actualizar",
+      notifications: "Notificaciones",
+      notificationPreferences: "Preferencias de notificación",
+      notificationPreferencesDescription: "Elige cómo quieres enterarte de cada evento. El resumen es un email semanal; desactívalo en todos los eventos para dejar de recibirlo.",
+      notificationEvent: "Evento",
+      channelInApp: "En la app",
+      channelEmail: "Email",
+      channelDigest: "Resumen",
+      eventDealApproved: "Deal aprobado",
+      eventDealRejected: "Deal rechazado",
+      eventRedemptionStatus: "Estado de mis canjes",
+      eventTicketReply: "Respuesta a ticket de soporte",
+      eventPrizeWon: "Premio ganado",
+      eventPointsExpiring: "Puntos por vencer",
+      activeSessions: "Dónde has iniciado sesión",
+      activeSessionsDescription: "Dispositivos con una sesión abierta en tu cuenta. Cierra cualquier sesión que no reconozcas.",
+      thisDevice: "Este dispositivo",
+      unknownDevice: "Dispositivo desconocido",
+      sessionLastActive: "Última actividad {date}",
+      sessionSignedIn: "Sesión iniciada {date}",
+      revokeSession: "Cerrar sesión",
+      revokeOtherSessions: "Cerrar todas las demás sesiones",
+      sessionRevoked: "Sesión cerrada",
+      otherSessionsRevoked: "Se cerraron todas las demás sesiones",
+      noOtherSessions: "No tienes sesión iniciada en ningún otro dispositivo.",
+      twoFactor: "Verificación en dos pasos",
+      twoFactorOn: "Activada",
+      twoFactorDescription: "Protege tu cuenta con un código de una app autenticadora (Google Authenticator, Authy, 1Password...) además de tu contraseña.",
+      twoFactorRequiredDescription: "La verificación en dos pasos es obligatoria para las cuentas de administrador. Cada inicio de sesión pide un código de tu app autenticadora.",
+      setUpTwoFactor: "Activar verificación en dos pasos",
+      twoFactorScanQr: "Escanea este código QR con tu app autenticadora e introduce el código de 6 dígitos que muestra.",
+      twoFactorQrAlt: "Código QR para la app autenticadora",
+      twoFactorManualEntry: "¿No puedes escanearlo? Introduce esta clave manualmente:",
+      enableTwoFactor: "Verificar y activar",
+      twoFactorEnabledToast: "Verificación en dos pasos activada",
+      twoFactorDisabledToast: "Verificación en dos pasos desactivada",
+      recoveryCodesDescription: "Guarda estos códigos de recuperación en un lugar seguro. Cada uno te permite entrar una vez si pierdes acceso a tu app autenticadora. No se volverán a mostrar.",
+      copyRecoveryCodes: "Copiar códigos",
+      recoveryCodesCopied: "Códigos de recuperación copiados",
+      recoveryCodesSaved: "Ya los guardé",
+      recoveryCodesRemaining: "Códigos de recuperación disponibles: {count}",
+      regenerateRecoveryCodes: "Generar nuevos códigos de recuperación",
+      disableTwoFactor: "Desactivar verificación en dos pasos",
+      twoFactorCodeOrRecovery: "Código de la app o de recuperación",
     },
     support: {
       supportRequest: "Solicitud de Soporte",
@@ -944,7 +1327,27 @@ const translations = {
           question: "¿Cómo puedo rastrear el envío de mi recompensa?",
           answer: "Una vez que tu solicitud de recompensa sea aprobada y enviada, recibirás un correo con la información de seguimiento. También puedes verificar el estado en la sección 'Mis Recompensas' donde verás el estado actual (Pendiente, Aprobado, Enviado, Entregado)."
         }
-      }
+      },
+      myTickets: "Mis solicitudes",
+      myTicketsDescription: "Da seguimiento a tus solicitudes y responde al equipo de soporte",
+      noTickets: "Aún no tienes solicitudes de soporte",
+      backToTickets: "Volver a mis solicitudes",
+      status_open: "Abierto",
+      status_in_progress: "En progreso",
+      status_resolved: "Resuelto",
+      status_closed: "Cerrado",
+      supportTeam: "Equipo de soporte",
+      internalNote: "Nota interna",
+      markAsInternalNote: "Nota interna (el usuario no la ve)",
+      internalNotePlaceholder: "Escribe una nota para otros admins...",
+      replyPlaceholder: "Escribe una respuesta...",
+      replyReopensTicket: "Este ticket está resuelto; al responder se volverá a abrir.",
+      ticketClosedNoReplies: "Este ticket está cerrado y ya no admite respuestas.",
+      sendReply: "Enviar respuesta",
+      addInternalNote: "Agregar nota",
+      couldNotSendReply: "No se pudo enviar la respuesta",
+      newUserReply: "Nueva respuesta en un ticket de soporte",
+      updateStatus: "Actualizar estado",
     },
     dashboard: {
       welcome: "Bienvenido de vuelta",
@@ -972,6 +1375,9 @@ const translations = {
       software: "Software",
       hardware: "Hardware",
       equipment: "Equipo",
+      pastWinners: "Ganadores del Gran Premio",
+      pastWinnersDescription: "Ganadores anteriores de tu región",
+      pointsExpiringSoon: "{points} puntos vencen el {date}",
     },
     deals: {
       newDeal: "Nuevo Trato",
@@ -1002,6 +1408,33 @@ const translations = {
       updateDeal: "Actualizar Trato",
       submitDeal: "Enviar Trato",
       status: "Estado",
+      editComment: "Motivo del cambio (opcional)",
+      editCommentPlaceholder: "Explica por qué se edita este deal",
+      approvedEditRecalculates: "Este deal está aprobado: cambiar su valor, producto, tipo, fecha de cierre o región recalcula puntos y goles con asientos de ajuste.",
+      history: "Historial",
+      historyEmpty: "Aún no hay cambios registrados.",
+      event_created: "Registrado",
+      event_approved: "Aprobado",
+      event_rejected: "Rechazado",
+      event_updated: "Editado",
+      systemActor: "Sistema",
+      resubmitDeal: "Reenviar deal",
+      resubmitNote: "Nota para el revisor",
+      resubmitNotePlaceholder: "Explica qué corregiste",
+      resubmitNoteRequired: "La nota para el revisor es obligatoria",
+      previousRejectionReason: "Motivo del rechazo",
+      event_resubmitted: "Reenviado",
+      registeredAsPossibleDuplicate: "Deal registrado. Coincide con un deal ya existente, por lo que un administrador lo revisará como posible duplicado antes de aprobarlo.",
+      event_conflicts_resolved: "Revisión de duplicado resuelta",
+      proofOfSale: "Comprobante de venta (factura u orden de compra)",
+      existingAttachments: "Ya adjuntos",
+      addAttachment: "Adjuntar archivo",
+      attachmentUploading: "Subiendo...",
+      attachmentsHint: "PDF o imagen (JPG, PNG, WEBP), hasta 10 MB cada uno. Tu región puede exigirlo a partir de cierto valor del deal.",
+      removeAttachment: "Quitar adjunto",
+      attachmentInvalidFile: "{file} debe ser un PDF o una imagen de 10 MB o menos",
+      attachmentLimitReached: "Un deal puede tener como máximo {max} adjuntos",
+      attachmentUploadFailed: "No se pudo subir el archivo",
     },
     rewards: {
       catalog: "Catálogo de Recompensas",
@@ -1053,6 +1486,14 @@ const translations = {
       pending: "Pendiente",
       approved: "Aprobado",
       rejected: "Rechazado",
+      audience: "Quién puede ver esta recompensa",
+      audienceDescription: "Limita la recompensa a una región, un país o una configuración regional (categoría y subcategoría). La ven y la pueden canjear los usuarios que coincidan con alguna entrada.",
+      audienceWholeRegion: "Sin restricciones: la ven todos los usuarios de {region}.",
+      anyRegion: "Cualquier región",
+      anyRegionConfig: "Cualquier categoría",
+      countryPlaceholder: "País (opcional)",
+      addAssignment: "Agregar",
+      removeAssignment: "Quitar",
     },
     admin: {
       panel: "Panel de Administrador",
@@ -1501,6 +1942,189 @@ const translations = {
           duplicateConfig: "Ya existe una configuración para esta combinación de región, categoría y subcategoría",
         },
       },
+      awardWinners: "Premiar Ganadores",
+      awardWinnersDescription: "Congela los primeros del ranking actual como ganadores oficiales. El criterio quedará bloqueado después.",
+      numberOfWinners: "Número de ganadores",
+      awardNotes: "Notas",
+      awardNotesPlaceholder: "Detalles del premio, notas de entrega...",
+      awardWinnersConfirmTitle: "¿Premiar ganadores?",
+      awardWinnersConfirmation: "Los primeros usuarios del ranking se registrarán como ganadores y serán notificados. Este criterio ya no podrá editarse ni eliminarse.",
+      awarding: "Premiando...",
+      winnersAwarded: "Ganadores premiados",
+      winnersAwardedDescription: "Los ganadores fueron registrados y notificados.",
+      couldNotAwardWinners: "No se pudieron premiar los ganadores",
+      criteriaLocked: "Bloqueado",
+      awardedWinners: "Ganadores Premiados",
+      awardedWinnersDescription: "Ganadores registrados para esta región",
+      noWinnersYet: "Aún no se han premiado ganadores",
+      selectionMethod: "Selección del ganador",
+      selectionMethodDraw: "Sorteo aleatorio",
+      selectionMethodRanking: "Ranking por goles",
+      monthlyClose: "Cierre mensual",
+      monthlyCloseDescription: "Suma los goles de cada usuario en el mes, identifica quién alcanzó la meta de cada premio y selecciona a los ganadores. La semilla queda registrada para poder reproducir el sorteo.",
+      drawSeedOptional: "Semilla del sorteo (opcional)",
+      drawSeedPlaceholder: "Déjalo vacío para generarla",
+      closeMonth: "Cerrar mes",
+      closingMonth: "Cerrando...",
+      closeMonthConfirmTitle: "¿Cerrar este mes?",
+      closeMonthConfirmation: "Se seleccionarán y notificarán los ganadores. Los premios de este mes quedarán bloqueados y el cierre no se puede deshacer.",
+      monthClosed: "Mes cerrado",
+      monthClosedDescription: "Los ganadores fueron seleccionados y notificados.",
+      monthClosedBadge: "Cerrado",
+      couldNotCloseMonth: "No se pudo cerrar el mes",
+      qualifiers: "Goles por usuario en el mes",
+      noQualifiersYet: "No hay goles registrados para esta categoría en el mes seleccionado.",
+      drawResults: "Resultados",
+      drawSeed: "Semilla",
+      participants: "Participantes",
+      qualifiedCount: "Calificados",
+      noMonthlyWinners: "Nadie alcanzó la meta de ningún premio.",
+      noDrawsYet: "Aún no hay cierres para el mes seleccionado.",
+      pointsExpiration: "Vencimiento de puntos",
+      pointsExpirationDesc: "Cada lote de puntos ganados vence tras la cantidad de meses configurada. Los puntos más antiguos se usan y vencen primero.",
+      pointsExpirationMonths: "Vigencia (meses)",
+      pointsExpirationMonthsDesc: "Déjalo vacío para que los puntos no venzan",
+      pointsNeverExpire: "No vencen",
+      expirationWarningDays: "Aviso previo (días)",
+      expirationWarningDaysDesc: "Los usuarios reciben un aviso por email y en la app esta cantidad de días antes del vencimiento",
+      runPointsExpiration: "Ejecutar vencimiento ahora",
+      running: "Ejecutando...",
+      pointsExpirationRun: "Vencimiento procesado",
+      pointsExpirationRunResult: "{points} puntos vencidos, {warnings} avisos enviados",
+      couldNotRunPointsExpiration: "No se pudo ejecutar el vencimiento de puntos",
+      lowStockAlert: "Stock bajo",
+      outOfStock: "sin stock",
+      unitsLeft: "quedan {count}",
+      stock: "Stock",
+      openTicketsBadge: "Tickets de soporte abiertos",
+      pendingItemsBadge: "Elementos pendientes de revisión",
+      rejectDealTitle: "Rechazar deal",
+      rejectDealDescription: "El motivo se mostrará al partner que registró \"{product}\".",
+      rejectionReason: "Motivo del rechazo",
+      rejectionReasonPlaceholder: "Explica qué está mal en este deal",
+      rejectDeal: "Rechazar deal",
+      resubmissionBadge: "Reenvío (rev. {revision})",
+      resubmissionNotFound: "No se encontraron detalles del reenvío.",
+      previousRejectionReason: "Motivo del rechazo anterior",
+      partnerNote: "Nota del partner",
+      changesSincePreviousVersion: "Cambios respecto a la versión anterior",
+      noFieldChanges: "No se modificó ningún campo.",
+      field: "Campo",
+      previousValue: "Antes",
+      newValue: "Después",
+      possibleDuplicate: "Posible duplicado",
+      possibleDuplicateTitle: "Posible deal duplicado",
+      possibleDuplicateDescription: "Este deal coincide con los deals siguientes. Resuelve el conflicto antes de aprobarlo.",
+      conflictReason_license_agreement: "Mismo acuerdo de licencia",
+      conflictReason_client_value_date: "Mismo cliente, valor y fecha de cierre",
+      conflictResolutionNotePlaceholder: "Nota opcional (se muestra al partner si el deal se rechaza)",
+      notADuplicate: "No es duplicado",
+      rejectAsDuplicate: "Rechazar por duplicado",
+      dealRejectedAsDuplicate: "Deal rechazado por duplicado",
+      conflictsDismissed: "Conflictos descartados, el deal ya se puede aprobar",
+      csvDuplicatesFlagged: "{count} deals marcados como posibles duplicados",
+      attachmentsBadge: "{count} adjunto(s)",
+      proofOfSaleTitle: "Comprobante de venta",
+      proofOfSaleDescription: "Facturas u órdenes de compra que el partner adjuntó a este deal",
+      noAttachments: "Este deal no tiene adjuntos",
+      openAttachment: "Abrir en otra pestaña",
+      attachmentRequiredAbove: "Comprobante obligatorio desde",
+      attachmentOptionalPlaceholder: "Vacío = opcional",
+      slaTargetsUpdated: "Objetivos de SLA actualizados",
+      slaAvgFirstResponse: "Prom. primera respuesta",
+      slaAvgResolution: "Prom. resolución",
+      slaBreaches: "Incumplimientos de SLA",
+      slaBreachesHint: "Primera respuesta / resolución",
+      slaEscalatedOpen: "Escalados (abiertos)",
+      slaByPriority: "SLA por prioridad",
+      slaTargetFirstResponse: "Objetivo primera respuesta",
+      slaTargetResolution: "Objetivo de resolución",
+      slaMetricsPeriod: "Las métricas cubren los tickets creados en los últimos 30 días",
+      saveSlaTargets: "Guardar objetivos de SLA",
+      slaEscalated: "Escalado",
+      slaOverdue: "Respuesta vencida hace {time}",
+      slaDueIn: "Responder en {time}",
+      assignedTo: "Asignado a",
+      emailDelivery: "Envío de emails",
+      emailsInQueue: "En cola",
+      emailStatusPending: "Pendiente de reintento",
+      emailStatusSending: "Enviando",
+      emailStatusSent: "Enviados",
+      emailStatusDead: "Fallidos",
+      noEmailsInStatus: "No hay emails en este estado",
+      emailAttempts: "{count} intentos",
+      resendEmail: "Reenviar",
+      emailResendQueued: "El email se puso en cola para reenviarse",
+      emailTemplates: "Plantillas de email",
+      emailTemplatesDescription: "Personaliza el asunto y el contenido de cada email por idioma y región. Las regiones sin personalizar usan el texto por defecto.",
+      emailTemplate: "Plantilla",
+      emailLanguage: "Idioma",
+      emailSubject: "Asunto",
+      emailBody: "Cuerpo (HTML)",
+      emailTemplateVariables: "Variables disponibles:",
+      emailTemplateSyntaxHint: "Usa {{#if variable}}...{{/if}} para bloques opcionales y {{> button url=variable label=\"Texto\"}} para botones.",
+      emailTemplateCustom: "Personalizada",
+      emailTemplateDefault: "Por defecto",
+      emailTemplatePreview: "Vista previa",
+      emailTemplateSaveForRegion: "Guardar para {region}",
+      emailTemplateRestoreDefault: "Restaurar por defecto",
+      emailTemplateSaved: "Plantilla de email guardada",
+      emailTemplateReset: "Plantilla por defecto restaurada",
+      scheduledJobs: "Tareas programadas",
+      scheduledJobsDescription: "Trabajo recurrente del servidor. Los horarios son expresiones cron de 5 campos en UTC; cada tarea se ejecuta en una sola instancia del servidor a la vez.",
+      jobPointsExpiration: "Vencimiento de puntos",
+      jobPointsExpirationDescription: "Vence los lotes de puntos cumplidos y avisa a los usuarios de los puntos por vencer.",
+      jobSupportSlaEscalation: "Escalado de SLA de soporte",
+      jobSupportSlaEscalationDescription: "Escala los tickets de soporte que superaron el plazo de primera respuesta.",
+      jobWeeklyDigest: "Resumen semanal",
+      jobWeeklyDigestDescription: "Envía el email de resumen semanal a partners y admins. Cada usuario lo recibe una vez por semana.",
+      jobRegionConfigExpiration: "Caducidad de configuraciones de región",
+      jobRegionConfigExpirationDescription: "Desactiva las configuraciones de región cuya fecha de caducidad ya pasó.",
+      jobMonthlyClose: "Cierre mensual",
+      jobMonthlyCloseDescription: "Cierra el mes anterior y sortea los premios mensuales en cada configuración de región que aún no se cerró.",
+      jobPointsRecalculation: "Recálculo de puntos",
+      jobPointsRecalculationDescription: "Recalcula puntos y goles de todos los deals de todas las regiones con las reglas vigentes y registra asientos de ajuste.",
+      jobStatusRunning: "En ejecución",
+      jobStatusSucceeded: "Correcta",
+      jobStatusFailed: "Fallida",
+      jobEnabled: "Activa",
+      jobSchedule: "Horario (cron, UTC)",
+      jobScheduleHint: "Formato: minuto hora día-del-mes mes día-de-semana. Ejemplo: \"0 6 * * *\" se ejecuta todos los días a las 06:00 UTC.",
+      jobLastRun: "Última ejecución",
+      jobNextRun: "Próxima ejecución",
+      jobHistory: "Historial",
+      jobRunNow: "Ejecutar ahora",
+      jobNoRuns: "Esta tarea aún no se ejecutó",
+      jobTriggerManual: "Manual",
+      jobTriggerSchedule: "Programada",
+      jobUpdated: "Tarea actualizada",
+      jobRunStarted: "La tarea se inició",
+      pointsRecalculation: "Recalcular puntos y goles",
+      pointsRecalculationDesc: "Aplica las reglas vigentes a los deals existentes. Primero revise las diferencias por usuario; al aplicarlas se registran asientos de ajuste y se conserva el historial original.",
+      previewRecalculation: "Ver cambios",
+      applyRecalculation: "Aplicar ajustes",
+      recalculationProgress: "Procesados {processed} de {total} deals",
+      recalculationSummary: "Cambian {changed} de {scanned} deals: {points} puntos y {goals} goles en total.",
+      recalculationApplied: "Ajustes aplicados.",
+      recalculationNoChanges: "Los puntos y goles ya están al día",
+      pointsDelta: "Cambio de puntos",
+      goalsDelta: "Cambio de goles",
+      forceLogout: "Forzar cierre de sesión",
+      forceLogoutConfirmation: "Se cerrará la sesión de este usuario en todos sus dispositivos y tendrá que volver a iniciar sesión.",
+      userLoggedOut: "Se cerraron todas las sesiones del usuario",
+      resetTwoFactor: "Restablecer verificación en dos pasos",
+      resetTwoFactorConfirmation: "La app autenticadora y los códigos de recuperación del usuario dejarán de funcionar y se cerrarán todas sus sesiones. Los administradores tendrán que activarla de nuevo al volver a entrar.",
+      twoFactorReset: "Se restableció la verificación en dos pasos",
+      lockedAccounts: "Cuentas bloqueadas",
+      lockedAccountsDescription: "Cuentas bloqueadas temporalmente tras varios intentos de acceso fallidos. Se desbloquean solas cuando vence el bloqueo.",
+      noLockedAccounts: "No hay cuentas bloqueadas",
+      failedAttempts: "{count} intentos fallidos",
+      lastAttemptFrom: "último intento desde {ip}",
+      lockedUntil: "bloqueada hasta {date}",
+      unlockAccount: "Desbloquear",
+      accountUnlocked: "La cuenta se desbloqueó",
+      jobLoginThrottleCleanup: "Limpieza de accesos fallidos",
+      jobLoginThrottleCleanupDescription: "Elimina los contadores de accesos fallidos y los bloqueos vencidos",
     },
   },
   pt: {
@@ -1625,6 +2249,34 @@ const translations = {
       magicLinkDescription: "Digite seu email e enviaremos um link mágico para acessar sua conta.",
       yourEmail: "Seu email",
       sendMagicLink: "Enviar Link Mágico",
+      forgotPassword: "Esqueceu sua senha?",
+      forgotPasswordTitle: "Redefina sua senha",
+      forgotPasswordDescription: "Informe o e-mail da sua conta e enviaremos um link para escolher uma nova senha.",
+      sendResetLink: "Enviar link",
+      sending: "Enviando...",
+      resetLinkSent: "Se o e-mail existir em nosso sistema, você receberá um link para redefinir sua senha. Verifique sua caixa de entrada.",
+      backToLogin: "Voltar para o login",
+      newPasswordTitle: "Escolha uma nova senha",
+      newPasswordDescription: "Após a alteração, todas as sessões abertas da sua conta serão encerradas.",
+      newPassword: "Nova senha",
+      passwordTooShort: "A senha deve ter pelo menos 6 caracteres",
+      passwordsDoNotMatch: "As senhas não coincidem",
+      updatePassword: "Atualizar senha",
+      updatingPassword: "Atualizando...",
+      passwordUpdatedTitle: "Senha atualizada",
+      passwordUpdatedDescription: "Agora você pode entrar com sua nova senha.",
+      requestNewResetLink: "Solicitar um novo link",
+      twoFactorTitle: "Verificação em duas etapas",
+      twoFactorDescription: "Digite o código de 6 dígitos do seu aplicativo autenticador.",
+      twoFactorRecoveryDescription: "Digite um dos códigos de recuperação que você salvou ao ativar a verificação em duas etapas. Cada código funciona apenas uma vez.",
+      verificationCode: "Código de verificação",
+      recoveryCode: "Código de recuperação",
+      verify: "Verificar",
+      useRecoveryCode: "Usar um código de recuperação",
+      useAuthenticatorCode: "Usar o aplicativo autenticador",
+      twoFactorSetupRequiredTitle: "Verificação em duas etapas obrigatória",
+      twoFactorSetupRequiredDescription: "Contas de administrador devem usar a verificação em duas etapas. Ative-a para continuar. Se você já a ativou, saia e entre novamente com seu código.",
+      signOut: "Sair",
     },
     profile: {
       myProfile: "Meu Perfil",
@@ -1637,6 +2289,49 @@ const translations = {
       profileUpdated: "Perfil atualizado com sucesso",
       passwordUpdated: "Senha atualizada com sucesso",
       updateFailed: "Falha na atualização",
+      notifications: "Notificações",
+      notificationPreferences: "Preferências de notificação",
+      notificationPreferencesDescription: "Escolha como deseja ser avisado sobre cada evento. O resumo é um e-mail semanal; desative-o em todos os eventos para deixar de recebê-lo.",
+      notificationEvent: "Evento",
+      channelInApp: "No app",
+      channelEmail: "E-mail",
+      channelDigest: "Resumo",
+      eventDealApproved: "Deal aprovado",
+      eventDealRejected: "Deal rejeitado",
+      eventRedemptionStatus: "Status dos resgates",
+      eventTicketReply: "Resposta a ticket de suporte",
+      eventPrizeWon: "Prêmio ganho",
+      eventPointsExpiring: "Pontos a vencer",
+      activeSessions: "Onde você está conectado",
+      activeSessionsDescription: "Dispositivos com uma sessão aberta na sua conta. Encerre qualquer sessão que você não reconheça.",
+      thisDevice: "Este dispositivo",
+      unknownDevice: "Dispositivo desconhecido",
+      sessionLastActive: "Última atividade {date}",
+      sessionSignedIn: "Conectado em {date}",
+      revokeSession: "Sair",
+      revokeOtherSessions: "Sair de todas as outras sessões",
+      sessionRevoked: "Sessão encerrada",
+      otherSessionsRevoked: "Todas as outras sessões foram encerradas",
+      noOtherSessions: "Você não está conectado em nenhum outro dispositivo.",
+      twoFactor: "Verificação em duas etapas",
+      twoFactorOn: "Ativada",
+      twoFactorDescription: "Proteja sua conta com um código de um aplicativo autenticador (Google Authenticator, Authy, 1Password...) além da sua senha.",
+      twoFactorRequiredDescription: "A verificação em duas etapas é obrigatória para contas de administrador. Cada login pede um código do seu aplicativo autenticador.",
+      setUpTwoFactor: "Ativar verificação em duas etapas",
+      twoFactorScanQr: "Escaneie este QR code com seu aplicativo autenticador e digite o código de 6 dígitos exibido.",
+      twoFactorQrAlt: "QR code para o aplicativo autenticador",
+      twoFactorManualEntry: "Não consegue escanear? Digite esta chave manualmente:",
+      enableTwoFactor: "Verificar e ativar",
+      twoFactorEnabledToast: "Verificação em duas etapas ativada",
+      twoFactorDisabledToast: "Verificação em duas etapas desativada",
+      recoveryCodesDescription: "Guarde estes códigos de recuperação em um lugar seguro. Cada um permite entrar uma vez se você perder o acesso ao aplicativo autenticador. Eles não serão exibidos novamente.",
+      copyRecoveryCodes: "Copiar códigos",
+      recoveryCodesCopied: "Códigos de recuperação copiados",
+      recoveryCodesSaved: "Já os salvei",
+      recoveryCodesRemaining: "Códigos de recuperação restantes: {count}",
+      regenerateRecoveryCodes: "Gerar novos códigos de recuperação",
+      disableTwoFactor: "Desativar verificação em duas etapas",
+      twoFactorCodeOrRecovery: "Código do aplicativo ou de recuperação",
     },
     support: {
       supportRequest: "Solicitação de Suporte",
@@ -1693,7 +2388,27 @@ const translations = {
           question: "Como posso rastrear o envio da minha recompensa?",
           answer: "Depois que sua solicitação de recompensa for aprovada e enviada, você receberá um e-mail com as informações de rastreamento. Você também pode verificar o status na seção 'Minhas Recompensas' onde verá o status atual (Pendente, Aprovado, Enviado, Entregue)."
         }
-      }
+      },
+      myTickets: "Minhas solicitações",
+      myTicketsDescription: "Acompanhe suas solicitações e responda à equipe de suporte",
+      noTickets: "Você ainda não tem solicitações de suporte",
+      backToTickets: "Voltar às minhas solicitações",
+      status_open: "Aberto",
+      status_in_progress: "Em andamento",
+      status_resolved: "Resolvido",
+      status_closed: "Fechado",
+      supportTeam: "Equipe de suporte",
+      internalNote: "Nota interna",
+      markAsInternalNote: "Nota interna (não visível para o usuário)",
+      internalNotePlaceholder: "Escreva uma nota para outros admins...",
+      replyPlaceholder: "Escreva uma resposta...",
+      replyReopensTicket: "Este ticket está resolvido; responder irá reabri-lo.",
+      ticketClosedNoReplies: "Este ticket está fechado e não aceita mais respostas.",
+      sendReply: "Enviar resposta",
+      addInternalNote: "Adicionar nota",
+      couldNotSendReply: "Não foi possível enviar a resposta",
+      newUserReply: "Nova resposta em um ticket de suporte",
+      updateStatus: "Atualizar status",
     },
     dashboard: {
       welcome: "Bem-vindo de volta",
@@ -1721,6 +2436,9 @@ const translations = {
       software: "Software",
       hardware: "Hardware",
       equipment: "Equipamento",
+      pastWinners: "Vencedores do Grande Prêmio",
+      pastWinnersDescription: "Vencedores anteriores da sua região",
+      pointsExpiringSoon: "{points} pontos vencem em {date}",
     },
     deals: {
       newDeal: "Novo Negócio",
@@ -1751,6 +2469,33 @@ const translations = {
       updateDeal: "Atualizar Negócio",
       submitDeal: "Enviar Negócio",
       status: "Status",
+      editComment: "Motivo da alteração (opcional)",
+      editCommentPlaceholder: "Explique por que este deal está sendo editado",
+      approvedEditRecalculates: "Este deal está aprovado: alterar valor, produto, tipo, data de fechamento ou região recalcula pontos e gols com lançamentos de ajuste.",
+      history: "Histórico",
+      historyEmpty: "Ainda não há alterações registradas.",
+      event_created: "Registrado",
+      event_approved: "Aprovado",
+      event_rejected: "Rejeitado",
+      event_updated: "Editado",
+      systemActor: "Sistema",
+      resubmitDeal: "Reenviar deal",
+      resubmitNote: "Nota para o revisor",
+      resubmitNotePlaceholder: "Explique o que você corrigiu",
+      resubmitNoteRequired: "A nota para o revisor é obrigatória",
+      previousRejectionReason: "Motivo da rejeição",
+      event_resubmitted: "Reenviado",
+      registeredAsPossibleDuplicate: "Deal registrado. Ele coincide com um deal já existente, então um administrador o revisará como possível duplicado antes da aprovação.",
+      event_conflicts_resolved: "Verificação de duplicado resolvida",
+      proofOfSale: "Comprovante de venda (nota fiscal ou pedido de compra)",
+      existingAttachments: "Já anexados",
+      addAttachment: "Anexar arquivo",
+      attachmentUploading: "Enviando...",
+      attachmentsHint: "PDF ou imagem (JPG, PNG, WEBP), até 10 MB cada. Sua região pode exigi-lo acima de um valor de negócio.",
+      removeAttachment: "Remover anexo",
+      attachmentInvalidFile: "{file} deve ser um PDF ou imagem de até 10 MB",
+      attachmentLimitReached: "Um negócio pode ter no máximo {max} anexos",
+      attachmentUploadFailed: "Falha ao enviar o arquivo",
     },
     rewards: {
       catalog: "Catálogo de Recompensas",
@@ -1802,6 +2547,14 @@ const translations = {
       pending: "Pendente",
       approved: "Aprovado",
       rejected: "Rejeitado",
+      audience: "Quem pode ver esta recompensa",
+      audienceDescription: "Limite a recompensa a uma região, um país ou uma configuração regional (categoria e subcategoria). Os usuários que corresponderem a alguma entrada podem vê-la e resgatá-la.",
+      audienceWholeRegion: "Sem restrições: todos os usuários de {region} podem vê-la.",
+      anyRegion: "Qualquer região",
+      anyRegionConfig: "Qualquer categoria",
+      countryPlaceholder: "País (opcional)",
+      addAssignment: "Adicionar",
+      removeAssignment: "Remover",
     },
     admin: {
       panel: "Painel do Administrador",
@@ -2218,6 +2971,189 @@ const translations = {
           duplicateConfig: "Já existe uma configuração para esta combinação de região, categoria e subcategoria",
         },
       },
+      awardWinners: "Premiar Vencedores",
+      awardWinnersDescription: "Congela os primeiros do ranking atual como vencedores oficiais. O critério ficará bloqueado depois.",
+      numberOfWinners: "Número de vencedores",
+      awardNotes: "Notas",
+      awardNotesPlaceholder: "Detalhes do prêmio, notas de entrega...",
+      awardWinnersConfirmTitle: "Premiar vencedores?",
+      awardWinnersConfirmation: "Os primeiros usuários do ranking serão registrados como vencedores e notificados. Este critério não poderá mais ser editado nem excluído.",
+      awarding: "Premiando...",
+      winnersAwarded: "Vencedores premiados",
+      winnersAwardedDescription: "Os vencedores foram registrados e notificados.",
+      couldNotAwardWinners: "Não foi possível premiar os vencedores",
+      criteriaLocked: "Bloqueado",
+      awardedWinners: "Vencedores Premiados",
+      awardedWinnersDescription: "Vencedores registrados para esta região",
+      noWinnersYet: "Ainda não há vencedores premiados",
+      selectionMethod: "Seleção do vencedor",
+      selectionMethodDraw: "Sorteio aleatório",
+      selectionMethodRanking: "Ranking por gols",
+      monthlyClose: "Fechamento mensal",
+      monthlyCloseDescription: "Soma os gols de cada usuário no mês, identifica quem atingiu a meta de cada prêmio e seleciona os vencedores. A semente fica registrada para que o sorteio possa ser reproduzido.",
+      drawSeedOptional: "Semente do sorteio (opcional)",
+      drawSeedPlaceholder: "Deixe vazio para gerá-la",
+      closeMonth: "Fechar mês",
+      closingMonth: "Fechando...",
+      closeMonthConfirmTitle: "Fechar este mês?",
+      closeMonthConfirmation: "Os vencedores serão selecionados e notificados. Os prêmios deste mês ficarão bloqueados e o fechamento não pode ser desfeito.",
+      monthClosed: "Mês fechado",
+      monthClosedDescription: "Os vencedores foram selecionados e notificados.",
+      monthClosedBadge: "Fechado",
+      couldNotCloseMonth: "Não foi possível fechar o mês",
+      qualifiers: "Gols por usuário no mês",
+      noQualifiersYet: "Não há gols registrados para esta categoria no mês selecionado.",
+      drawResults: "Resultados",
+      drawSeed: "Semente",
+      participants: "Participantes",
+      qualifiedCount: "Qualificados",
+      noMonthlyWinners: "Ninguém atingiu a meta de nenhum prêmio.",
+      noDrawsYet: "Ainda não há fechamentos para o mês selecionado.",
+      pointsExpiration: "Vencimento de pontos",
+      pointsExpirationDesc: "Cada lote de pontos ganhos vence após a quantidade de meses configurada. Os pontos mais antigos são usados e vencem primeiro.",
+      pointsExpirationMonths: "Validade (meses)",
+      pointsExpirationMonthsDesc: "Deixe vazio para que os pontos não vençam",
+      pointsNeverExpire: "Não vencem",
+      expirationWarningDays: "Aviso prévio (dias)",
+      expirationWarningDaysDesc: "Os usuários recebem um aviso por e-mail e no app esta quantidade de dias antes do vencimento",
+      runPointsExpiration: "Executar vencimento agora",
+      running: "Executando...",
+      pointsExpirationRun: "Vencimento processado",
+      pointsExpirationRunResult: "{points} pontos vencidos, {warnings} avisos enviados",
+      couldNotRunPointsExpiration: "Não foi possível executar o vencimento de pontos",
+      lowStockAlert: "Estoque baixo",
+      outOfStock: "sem estoque",
+      unitsLeft: "restam {count}",
+      stock: "Estoque",
+      openTicketsBadge: "Tickets de suporte abertos",
+      pendingItemsBadge: "Itens pendentes de revisão",
+      rejectDealTitle: "Rejeitar deal",
+      rejectDealDescription: "O motivo será exibido ao parceiro que registrou \"{product}\".",
+      rejectionReason: "Motivo da rejeição",
+      rejectionReasonPlaceholder: "Explique o que está errado neste deal",
+      rejectDeal: "Rejeitar deal",
+      resubmissionBadge: "Reenvio (rev. {revision})",
+      resubmissionNotFound: "Nenhum detalhe do reenvio encontrado.",
+      previousRejectionReason: "Motivo da rejeição anterior",
+      partnerNote: "Nota do parceiro",
+      changesSincePreviousVersion: "Alterações em relação à versão anterior",
+      noFieldChanges: "Nenhum campo foi alterado.",
+      field: "Campo",
+      previousValue: "Antes",
+      newValue: "Depois",
+      possibleDuplicate: "Possível duplicado",
+      possibleDuplicateTitle: "Possível deal duplicado",
+      possibleDuplicateDescription: "Este deal coincide com os deals abaixo. Resolva o conflito antes de aprová-lo.",
+      conflictReason_license_agreement: "Mesmo acordo de licença",
+      conflictReason_client_value_date: "Mesmo cliente, valor e data de fechamento",
+      conflictResolutionNotePlaceholder: "Nota opcional (exibida ao parceiro se o deal for rejeitado)",
+      notADuplicate: "Não é duplicado",
+      rejectAsDuplicate: "Rejeitar como duplicado",
+      dealRejectedAsDuplicate: "Deal rejeitado como duplicado",
+      conflictsDismissed: "Conflitos descartados, o deal já pode ser aprovado",
+      csvDuplicatesFlagged: "{count} deals marcados como possíveis duplicados",
+      attachmentsBadge: "{count} anexo(s)",
+      proofOfSaleTitle: "Comprovante de venda",
+      proofOfSaleDescription: "Notas fiscais ou pedidos de compra que o parceiro anexou a este negócio",
+      noAttachments: "Este negócio não tem anexos",
+      openAttachment: "Abrir em outra aba",
+      attachmentRequiredAbove: "Comprovante obrigatório acima de",
+      attachmentOptionalPlaceholder: "Vazio = opcional",
+      slaTargetsUpdated: "Metas de SLA atualizadas",
+      slaAvgFirstResponse: "Média da primeira resposta",
+      slaAvgResolution: "Média de resolução",
+      slaBreaches: "Violações de SLA",
+      slaBreachesHint: "Primeira resposta / resolução",
+      slaEscalatedOpen: "Escalados (abertos)",
+      slaByPriority: "SLA por prioridade",
+      slaTargetFirstResponse: "Meta de primeira resposta",
+      slaTargetResolution: "Meta de resolução",
+      slaMetricsPeriod: "As métricas cobrem os tickets criados nos últimos 30 dias",
+      saveSlaTargets: "Salvar metas de SLA",
+      slaEscalated: "Escalado",
+      slaOverdue: "Resposta atrasada há {time}",
+      slaDueIn: "Responder em {time}",
+      assignedTo: "Atribuído a",
+      emailDelivery: "Envio de e-mails",
+      emailsInQueue: "Na fila",
+      emailStatusPending: "Aguardando nova tentativa",
+      emailStatusSending: "Enviando",
+      emailStatusSent: "Enviados",
+      emailStatusDead: "Com falha",
+      noEmailsInStatus: "Não há e-mails neste status",
+      emailAttempts: "{count} tentativas",
+      resendEmail: "Reenviar",
+      emailResendQueued: "O e-mail foi colocado na fila para ser reenviado",
+      emailTemplates: "Modelos de email",
+      emailTemplatesDescription: "Personalize o assunto e o conteúdo de cada email por idioma e região. Regiões sem personalização usam o texto padrão.",
+      emailTemplate: "Modelo",
+      emailLanguage: "Idioma",
+      emailSubject: "Assunto",
+      emailBody: "Corpo (HTML)",
+      emailTemplateVariables: "Variáveis disponíveis:",
+      emailTemplateSyntaxHint: "Use {{#if variable}}...{{/if}} para blocos opcionais e {{> button url=variable label=\"Texto\"}} para botões.",
+      emailTemplateCustom: "Personalizado",
+      emailTemplateDefault: "Padrão",
+      emailTemplatePreview: "Pré-visualizar",
+      emailTemplateSaveForRegion: "Salvar para {region}",
+      emailTemplateRestoreDefault: "Restaurar padrão",
+      emailTemplateSaved: "Modelo de email salvo",
+      emailTemplateReset: "Modelo padrão restaurado",
+      scheduledJobs: "Tarefas agendadas",
+      scheduledJobsDescription: "Trabalho recorrente do servidor. Os horários são expressões cron de 5 campos em UTC; cada tarefa é executada em uma única instância do servidor por vez.",
+      jobPointsExpiration: "Expiração de pontos",
+      jobPointsExpirationDescription: "Expira os lotes de pontos vencidos e avisa os usuários sobre pontos prestes a expirar.",
+      jobSupportSlaEscalation: "Escalonamento de SLA de suporte",
+      jobSupportSlaEscalationDescription: "Escala os tickets de suporte que ultrapassaram o prazo de primeira resposta.",
+      jobWeeklyDigest: "Resumo semanal",
+      jobWeeklyDigestDescription: "Envia o email de resumo semanal para parceiros e admins. Cada usuário o recebe uma vez por semana.",
+      jobRegionConfigExpiration: "Expiração de configurações de região",
+      jobRegionConfigExpirationDescription: "Desativa as configurações de região cuja data de expiração já passou.",
+      jobMonthlyClose: "Fechamento mensal",
+      jobMonthlyCloseDescription: "Fecha o mês anterior e sorteia os prêmios mensais em cada configuração de região ainda não fechada.",
+      jobPointsRecalculation: "Recálculo de pontos",
+      jobPointsRecalculationDescription: "Recalcula pontos e gols de todos os deals de todas as regiões com as regras vigentes e registra lançamentos de ajuste.",
+      jobStatusRunning: "Em execução",
+      jobStatusSucceeded: "Concluída",
+      jobStatusFailed: "Falhou",
+      jobEnabled: "Ativa",
+      jobSchedule: "Horário (cron, UTC)",
+      jobScheduleHint: "Formato: minuto hora dia-do-mês mês dia-da-semana. Exemplo: \"0 6 * * *\" executa todos os dias às 06:00 UTC.",
+      jobLastRun: "Última execução",
+      jobNextRun: "Próxima execução",
+      jobHistory: "Histórico",
+      jobRunNow: "Executar agora",
+      jobNoRuns: "Esta tarefa ainda não foi executada",
+      jobTriggerManual: "Manual",
+      jobTriggerSchedule: "Agendada",
+      jobUpdated: "Tarefa atualizada",
+      jobRunStarted: "A tarefa foi iniciada",
+      pointsRecalculation: "Recalcular pontos e gols",
+      pointsRecalculationDesc: "Aplica as regras vigentes aos deals existentes. Primeiro revise as diferenças por usuário; ao aplicá-las são registrados lançamentos de ajuste e o histórico original é mantido.",
+      previewRecalculation: "Ver alterações",
+      applyRecalculation: "Aplicar ajustes",
+      recalculationProgress: "Processados {processed} de {total} deals",
+      recalculationSummary: "Mudam {changed} de {scanned} deals: {points} pontos e {goals} gols no total.",
+      recalculationApplied: "Ajustes aplicados.",
+      recalculationNoChanges: "Os pontos e gols já estão atualizados",
+      pointsDelta: "Variação de pontos",
+      goalsDelta: "Variação de gols",
+      forceLogout: "Forçar saída",
+      forceLogoutConfirmation: "Este usuário será desconectado de todos os dispositivos e precisará entrar novamente.",
+      userLoggedOut: "Todas as sessões do usuário foram encerradas",
+      resetTwoFactor: "Redefinir verificação em duas etapas",
+      resetTwoFactorConfirmation: "O autenticador e os códigos de recuperação do usuário deixarão de funcionar e todas as suas sessões serão encerradas. Administradores terão que ativá-la novamente no próximo login.",
+      twoFactorReset: "A verificação em duas etapas foi redefinida",
+      lockedAccounts: "Contas bloqueadas",
+      lockedAccountsDescription: "Contas bloqueadas temporariamente após várias tentativas de login malsucedidas. Elas são desbloqueadas automaticamente quando o bloqueio expira.",
+      noLockedAccounts: "Nenhuma conta bloqueada",
+      failedAttempts: "{count} tentativas malsucedidas",
+      lastAttemptFrom: "última tentativa de {ip}",
+      lockedUntil: "bloqueada até {date}",
+      unlockAccount: "Desbloquear",
+      accountUnlocked: "A conta foi desbloqueada",
+      jobLoginThrottleCleanup: "Limpeza de logins malsucedidos",
+      jobLoginThrottleCleanupDescription: "Exclui os contadores de logins malsucedidos e os bloqueios expirados",
     },
   },
 };
@@ -11,6 +11,7 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -31,12 +32,16 @@ import {
   Trash2,
   Edit,
   Settings,
-  Globe
+  Globe,
+  AlertTriangle,
+  LogOut,
+  ShieldOff
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import RewardModal from "@/components/modals/reward-modal";
 import DealModal from "@/components/modals/deal-modal";
+import RejectDealModal from "@/components/modals/reject-deal-modal";
 import { CSVUploader } from "@/components/CSVUploader";
 import SupportTicketsTab from "@/components/admin/SupportTicketsTab";
 import PointsConfigTab from "@/components/admin/PointsConfigTab";
@@ -46,11 +51,21 @@ import RegionsManagementTab from "@/components/admin/RegionsManagementTab";
 import ProgramConfigTab from "@/components/admin/ProgramConfigTab";
 import GrandPrizeTab from "@/components/admin/GrandPrizeTab";
 import MonthlyPrizesTab from "@/components/admin/MonthlyPrizesTab";
-import type { User, Deal, Reward } from "@shared/schema";
+import EmailOutboxTab from "@/components/admin/EmailOutboxTab";
+import EmailTemplatesTab from "@/components/admin/EmailTemplatesTab";
+import ScheduledJobsTab from "@/components/admin/ScheduledJobsTab";
+import LockedAccountsTab from "@/components/admin/LockedAccountsTab";
+import DealResubmissionDiff from "@/components/admin/DealResubmissionDiff";
+import DealConflictsDialog from "@/components/admin/DealConflictsDialog";
+import DealAttachmentsPreview from "@/components/admin/DealAttachmentsPreview";
+import type { User, Deal, Reward, DealConflictWithDeal } from "@shared/schema";
 import type { AuthUser } from "@/lib/auth";
 import type { UploadResult } from '@uppy/core';
 import { useTranslation } from "@/hooks/useTranslation";
 
+// Rewards con stock limitado en o por debajo de este valor se marcan como stock bajo
+const LOW_STOCK_THRESHOLD = 5;
+
 interface ReportsData {
   userCount: number;
   dealCount: number;
@@ -96,6 +111,7 @@ export default function Admin() {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isDealModalOpen, setIsDealModalOpen] = useState(false);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
+  const [dealToReject, setDealToReject] = useState<Pick<Deal, "id" | "productName"> | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [reportFilters, setReportFilters] = useState({
     region: "all",
@@ -140,6 +156,14 @@ export default function Admin() {
     queryKey: ["/api/auth/me"],
   });
 
+  // El outbox de emails mezcla destinatarios de todas las regiones
+  const canViewEmailOutbox = currentUser?.role === "admin" || currentUser?.role === "super-admin";
+  // Las plantillas de email y las tareas programadas afectan a todas las regiones, solo las gestiona el super-admin
+  const isSuperAdmin = currentUser?.role === "super-admin";
+  const settingsTabsGridClass = isSuperAdmin
+    ? "grid-cols-8"
+    : canViewEmailOutbox ? "grid-cols-6" : "grid-cols-5";
+
   // Region configs query - for super-admin to select regions
   const { data: regionConfigs } = useQuery<Array<{
     id: string;
@@ -175,7 +199,7 @@ export default function Admin() {
     enabled: currentUser?.role === "admin" || currentUser?.role === "regional-admin" || currentUser?.role === "super-admin",
   });
 
-  const { data: dealsData, isLoading: dealsLoading } = useQuery<{ deals: Array<Deal & { userFirstName?: string; userLastName?: string; userName?: string }>, total: number }>({
+  const { data: dealsData, isLoading: dealsLoading } = useQuery<{ deals: Array<Deal & { userFirstName?: string; userLastName?: string; userName?: string; attachmentCount?: number }>, total: number }>({
     queryKey: ["/api/admin/deals", currentPage],
     enabled: currentUser?.role === "admin" || currentUser?.role === "regional-admin" || currentUser?.role === "super-admin",
     queryFn: async () => {
@@ -194,16 +218,30 @@ export default function Admin() {
     },
   });
 
-  const { data: pendingDeals, isLoading: pendingDealsLoading } = useQuery<Array<Deal & { userFirstName?: string; userLastName?: string; userName?: string }>>({
+  const { data: pendingDeals, isLoading: pendingDealsLoading } = useQuery<Array<Deal & { userFirstName?: string; userLastName?: string; userName?: string; attachmentCount?: number }>>({
     queryKey: ["/api/admin/deals/pending"],
     enabled: currentUser?.role === "admin",
   });
 
+  // Posibles duplicados abiertos, agrupados por deal para marcar la cola de revisión
+  const { data: dealConflicts = [] } = useQuery<DealConflictWithDeal[]>({
+    queryKey: ["/api/admin/deals/conflicts"],
+    enabled: currentUser?.role === "admin" || currentUser?.role === "regional-admin" || currentUser?.role === "super-admin",
+  });
+  const conflictsByDeal = dealConflicts.reduce<Record<string, DealConflictWithDeal[]>>((acc, conflict) => {
+    (acc[conflict.dealId] ||= []).push(conflict);
+    return acc;
+  }, {});
+
   const { data: rewards, isLoading: rewardsLoading } = useQuery<Reward[]>({
     queryKey: ["/api/rewards"],
     enabled: currentUser?.role === "admin" || currentUser?.role === "regional-admin" || currentUser?.role === "super-admin",
   });
 
+  const lowStockRewards = (rewards || []).filter(
+    (reward) => reward.isActive && reward.stockQuantity !== null && reward.stockQuantity <= LOW_STOCK_THRESHOLD
+  );
+
   const { data: reportsData, isLoading: reportsLoading } = useQuery<ReportsData>({
     queryKey: ["/api/admin/reports", reportFilters.region, reportFilters.startDate, reportFilters.endDate],
     enabled: currentUser?.role === "admin" || currentUser?.role === "regional-admin" || currentUser?.role === "super-admin",
@@ -249,28 +287,6 @@ export default function Admin() {
     },
   });
 
-  const rejectDealMutation = useMutation({
-    mutationFn: async (dealId: string) => {
-      return apiRequest("POST", `/api/deals/${dealId}/reject`);
-    },
-    onSuccess: () => {
-      toast({
-        title: t("common.success"),
-        description: "Deal rejected",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/pending"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
-    },
-    onError: (error: any) => {
-      toast({
-        title: t("common.error"),
-        description: error.message || "Failed to reject deal",
-        variant: "destructive",
-      });
-    },
-  });
-
   const updateUserRoleMutation = useMutation({
     mutationFn: async ({ userId, role }: { userId: string; role: string }) => {
       return apiRequest("PATCH", `/api/admin/users/${userId}/role`, { role });
@@ -295,8 +311,9 @@ export default function Admin() {
     approveDealMutation.mutate(dealId);
   };
 
-  const handleRejectDeal = (dealId: string) => {
-    rejectDealMutation.mutate(dealId);
+  // El rechazo requiere un motivo, que se captura en el modal
+  const handleRejectDeal = (deal: Pick<Deal, "id" | "productName">) => {
+    setDealToReject(deal);
   };
 
   const handleEditDeal = (deal: Deal) => {
@@ -414,6 +431,47 @@ export default function Admin() {
     deleteUserMutation.mutate(userId);
   };
 
+  // Reset 2FA mutation (super-admin): the user enrolls again on the next login
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", `/api/admin/users/${userId}/2fa/reset`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: t("common.success"),
+        description: t("admin.twoFactorReset"),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Force logout mutation: closes every session of the user
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest("POST", `/api/admin/users/${userId}/logout`);
+    },
+    onSuccess: () => {
+      toast({
+        title: t("common.success"),
+        description: t("admin.userLoggedOut"),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Users CSV processing mutation
   const processUsersCSVMutation = useMutation({
     mutationFn: async (csvPath: string) => {
@@ -554,6 +612,8 @@ export default function Admin() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/rewards/pending"] });
+      // El rechazo devuelve la unidad reservada al stock
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
       toast({
         title: t("common.success"),
         description: "Reward redemption rejected",
@@ -605,15 +665,17 @@ export default function Admin() {
 
   const processCSVMutation = useMutation({
     mutationFn: async (csvPath: string) => {
-      return apiRequest("POST", `/api/admin/csv/process`, { csvPath });
+      const response = await apiRequest("POST", `/api/admin/csv/process`, { csvPath });
+      return response.json();
     },
     onSuccess: (data: any) => {
       toast({
         title: t("common.success"),
-        description: `${data.message}${data.errors ? `. ${data.errors.length} errors occurred.` : ''}`,
+        description: `${data.message}${data.errors ? `. ${data.errors.length} errors occurred.` : ''}${data.flaggedDuplicates ? `. ${t("admin.csvDuplicatesFlagged").replace("{count}", String(data.flaggedDuplicates))}` : ''}`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/deals"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/deals/conflicts"] });
     },
     onError: (error: any) => {
       toast({
@@ -1138,7 +1200,18 @@ export default function Admin() {
                   {pendingDeals.slice(0, 5).map((deal) => (
                     <div key={deal.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div>
-                        <h4 className="font-medium">{deal.productName}</h4>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-medium">{deal.productName}</h4>
+                          {deal.revision > 1 && (
+                            <DealResubmissionDiff dealId={deal.id} revision={deal.revision} />
+                          )}
+                          {conflictsByDeal[deal.id] && (
+                            <DealConflictsDialog dealId={deal.id} conflicts={conflictsByDeal[deal.id]} />
+                          )}
+                          {!!deal.attachmentCount && (
+                            <DealAttachmentsPreview dealId={deal.id} count={deal.attachmentCount} />
+                          )}
+                        </div>
                         <p className="text-sm text-gray-600">
                           {deal.userFirstName && deal.userLastName 
                             ? `${deal.userFirstName} ${deal.userLastName}`
@@ -1149,7 +1222,7 @@ export default function Admin() {
                         <Button
                           size="sm"
                           onClick={() => handleApproveDeal(deal.id)}
-                          disabled={approveDealMutation.isPending}
+                          disabled={approveDealMutation.isPending || !!conflictsByDeal[deal.id]}
                           data-testid={`button-approve-${deal.id}`}
                         >
                           <Check className="w-4 h-4" />
@@ -1157,8 +1230,7 @@ export default function Admin() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleRejectDeal(deal.id)}
-                          disabled={rejectDealMutation.isPending}
+                          onClick={() => handleRejectDeal(deal)}
                           data-testid={`button-reject-${deal.id}`}
                         >
                           <X className="w-4 h-4" />
@@ -1192,7 +1264,7 @@ export default function Admin() {
             </CardHeader>
             <CardContent>
               <Tabs defaultValue="active" className="w-full">
-                <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsList className="grid w-full grid-cols-3 mb-6">
                   <TabsTrigger value="active" data-testid="subtab-active-users">
                     {t('admin.activeUsers')}
                   </TabsTrigger>
@@ -1202,6 +1274,9 @@ export default function Admin() {
                       <Badge className="ml-2 bg-yellow-500">{pendingUsers.length}</Badge>
                     )}
                   </TabsTrigger>
+                  <TabsTrigger value="locked" data-testid="subtab-locked-accounts">
+                    {t('admin.lockedAccounts')}
+                  </TabsTrigger>
                 </TabsList>
 
                 {/* Active Users Sub-Tab */}
@@ -1739,6 +1814,73 @@ export default function Admin() {
                               >
                                 <Edit className="w-4 h-4" />
                               </Button>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={user.id === currentUser?.id}
+                                    className={user.id === currentUser?.id 
+                                      ? "text-gray-400 cursor-not-allowed ml-2" 
+                                      : "text-orange-600 hover:text-orange-700 hover:bg-orange-50 ml-2"}
+                                    title={t('admin.forceLogout')}
+                                    data-testid={`button-force-logout-${user.id}`}
+                                  >
+                                    <LogOut className="w-4 h-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>{t('admin.forceLogout')}</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      {t('admin.forceLogoutConfirmation')}
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => forceLogoutMutation.mutate(user.id)}
+                                      disabled={forceLogoutMutation.isPending}
+                                      data-testid="button-confirm-force-logout"
+                                    >
+                                      {t('admin.forceLogout')}
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                              {isSuperAdmin && user.twoFactorEnabled && user.id !== currentUser?.id && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="text-amber-600 hover:text-amber-700 hover:bg-amber-50 ml-2"
+                                      title={t('admin.resetTwoFactor')}
+                                      data-testid={`button-reset-2fa-${user.id}`}
+                                    >
+                                      <ShieldOff className="w-4 h-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>{t('admin.resetTwoFactor')}</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        {t('admin.resetTwoFactorConfirmation')}
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => resetTwoFactorMutation.mutate(user.id)}
+                                        disabled={resetTwoFactorMutation.isPending}
+                                        data-testid="button-confirm-reset-2fa"
+                                      >
+                                        {t('admin.resetTwoFactor')}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
                               <AlertDialog>
                                 <AlertDialogTrigger asChild>
                                   <Button
@@ -1877,6 +2019,11 @@ export default function Admin() {
                     </p>
                   )}
                 </TabsContent>
+
+                {/* Locked Accounts Sub-Tab */}
+                <TabsContent value="locked">
+                  <LockedAccountsTab />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -1970,9 +2117,20 @@ export default function Admin() {
                             {deal.licenseAgreementNumber || '-'}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Badge className={`${getStatusColor(deal.status)} border-0`}>
-                              {deal.status.charAt(0).toUpperCase() + deal.status.slice(1)}
-                            </Badge>
+                            <div className="flex flex-col items-start gap-1">
+                              <Badge className={`${getStatusColor(deal.status)} border-0`}>
+                                {deal.status.charAt(0).toUpperCase() + deal.status.slice(1)}
+                              </Badge>
+                              {deal.status === "pending" && deal.revision > 1 && (
+                                <DealResubmissionDiff dealId={deal.id} revision={deal.revision} />
+                              )}
+                              {deal.status === "pending" && conflictsByDeal[deal.id] && (
+                                <DealConflictsDialog dealId={deal.id} conflicts={conflictsByDeal[deal.id]} />
+                              )}
+                              {!!deal.attachmentCount && (
+                                <DealAttachmentsPreview dealId={deal.id} count={deal.attachmentCount} />
+                              )}
+                            </div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                             <div className="flex space-x-2">
@@ -1981,7 +2139,7 @@ export default function Admin() {
                                   <Button
                                     size="sm"
                                     onClick={() => handleApproveDeal(deal.id)}
-                                    disabled={approveDealMutation.isPending}
+                                    disabled={approveDealMutation.isPending || !!conflictsByDeal[deal.id]}
                                     data-testid={`button-approve-deal-${deal.id}`}
                                   >
                                     Approve
@@ -1989,8 +2147,7 @@ export default function Admin() {
                                   <Button
                                     size="sm"
                                     variant="outline"
-                                    onClick={() => handleRejectDeal(deal.id)}
-                                    disabled={rejectDealMutation.isPending}
+                                    onClick={() => handleRejectDeal(deal)}
                                     data-testid={`button-reject-deal-${deal.id}`}
                                   >
                                     Reject
@@ -2068,6 +2225,9 @@ export default function Admin() {
                 <TabsList className="grid w-full grid-cols-3 mb-6">
                   <TabsTrigger value="catalog" data-testid="subtab-reward-catalog">
                     {t('admin.rewardCatalog')}
+                    {lowStockRewards.length > 0 && (
+                      <Badge className="ml-2 bg-red-500">{lowStockRewards.length}</Badge>
+                    )}
                   </TabsTrigger>
                   <TabsTrigger value="approvals" data-testid="subtab-reward-approvals">
                     {t('admin.pendingApprovals')}
@@ -2095,6 +2255,24 @@ export default function Admin() {
                     </Button>
                   </div>
 
+                  {lowStockRewards.length > 0 && (
+                    <Alert variant="destructive" className="mb-4" data-testid="alert-low-stock">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>{t('admin.lowStockAlert')}</AlertTitle>
+                      <AlertDescription>
+                        <ul className="mt-1 space-y-0.5">
+                          {lowStockRewards.map((reward) => (
+                            <li key={reward.id}>
+                              {reward.name}: {reward.stockQuantity === 0
+                                ? t('admin.outOfStock')
+                                : t('admin.unitsLeft').replace("{count}", String(reward.stockQuantity))}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {rewardsLoading ? (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                       {[...Array(6)].map((_, i) => (
@@ -2118,9 +2296,25 @@ export default function Admin() {
                               </div>
                             </div>
                             
-                            <Badge variant="outline" className="mb-3">
-                              {reward.category}
-                            </Badge>
+                            <div className="flex flex-wrap gap-2 mb-3">
+                              <Badge variant="outline">
+                                {reward.category}
+                              </Badge>
+                              {reward.stockQuantity !== null && (
+                                <Badge
+                                  className={
+                                    reward.stockQuantity === 0
+                                      ? "bg-red-100 text-red-800"
+                                      : reward.stockQuantity <= LOW_STOCK_THRESHOLD
+                                      ? "bg-amber-100 text-amber-800"
+                                      : "bg-gray-100 text-gray-800"
+                                  }
+                                  data-testid={`badge-stock-${reward.id}`}
+                                >
+                                  {t('admin.stock')}: {reward.stockQuantity}
+                                </Badge>
+                              )}
+                            </div>
                             
                             {reward.description && (
                               <p className="text-sm text-gray-600 mb-3 line-clamp-2">
@@ -2436,7 +2630,7 @@ export default function Admin() {
             </CardHeader>
             <CardContent>
               <Tabs defaultValue="support" className="w-full">
-                <TabsList className="grid w-full grid-cols-5 mb-6">
+                <TabsList className={`grid w-full ${settingsTabsGridClass} mb-6`}>
                   <TabsTrigger value="support" data-testid="subtab-support">
                     {t('admin.supportTickets')}
                   </TabsTrigger>
@@ -2452,6 +2646,21 @@ export default function Admin() {
                   <TabsTrigger value="monthly-prizes" data-testid="subtab-monthly-prizes">
                     {t('admin.monthlyPrizes')}
                   </TabsTrigger>
+                  {canViewEmailOutbox && (
+                    <TabsTrigger value="email-outbox" data-testid="subtab-email-outbox">
+                      {t('admin.emailDelivery')}
+                    </TabsTrigger>
+                  )}
+                  {isSuperAdmin && (
+                    <TabsTrigger value="email-templates" data-testid="subtab-email-templates">
+                      {t('admin.emailTemplates')}
+                    </TabsTrigger>
+                  )}
+                  {isSuperAdmin && (
+                    <TabsTrigger value="jobs" data-testid="subtab-jobs">
+                      {t('admin.scheduledJobs')}
+                    </TabsTrigger>
+                  )}
                 </TabsList>
 
                 {/* Support Tickets Sub-Tab */}
@@ -2478,6 +2687,27 @@ export default function Admin() {
                 <TabsContent value="monthly-prizes">
                   <MonthlyPrizesTab />
                 </TabsContent>
+
+                {/* Email Outbox Sub-Tab (admins globales) */}
+                {canViewEmailOutbox && (
+                  <TabsContent value="email-outbox">
+                    <EmailOutboxTab />
+                  </TabsContent>
+                )}
+
+                {/* Email Templates Sub-Tab (super-admin) */}
+                {isSuperAdmin && (
+                  <TabsContent value="email-templates">
+                    <EmailTemplatesTab />
+                  </TabsContent>
+                )}
+
+                {/* Scheduled Jobs Sub-Tab (super-admin) */}
+                {isSuperAdmin && (
+                  <TabsContent value="jobs">
+                    <ScheduledJobsTab />
+                  </TabsContent>
+                )}
               </Tabs>
             </CardContent>
           </Card>
@@ -2501,6 +2731,12 @@ export default function Admin() {
         }}
         deal={selectedDeal}
       />
+
+      <RejectDealModal
+        isOpen={!!dealToReject}
+        onClose={() => setDealToReject(null)}
+        deal={dealToReject}
+      />
     </div>
   );
 }
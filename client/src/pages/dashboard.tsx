@@ -14,7 +14,8 @@ import {
   ClipboardCheck,
   TrendingUp,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Trophy
 } from "lucide-react";
 import DealModal from "@/components/modals/deal-modal";
 import { useState, useEffect } from "react";
@@ -30,6 +31,8 @@ interface UserStats {
   totalDeals: number;
   pendingDeals: number;
   redeemedRewards: number;
+  expiringSoonPoints: number;
+  nextExpirationDate: string | null;
 }
 
 interface Deal {
@@ -49,6 +52,18 @@ interface Reward {
   imageUrl?: string;
 }
 
+interface GrandPrizeWinner {
+  id: string;
+  criteriaName: string;
+  rank: number;
+  points: number;
+  deals: number;
+  awardedAt: string;
+  userId: string;
+  userFirstName: string;
+  userLastName: string;
+}
+
 export default function Dashboard() {
   const { t } = useTranslation();
   const [isDealModalOpen, setIsDealModalOpen] = useState(false);
@@ -92,6 +107,11 @@ export default function Dashboard() {
     select: (data) => data || [],
   });
 
+  const { data: grandPrizeWinners } = useQuery<GrandPrizeWinner[]>({
+    queryKey: ["/api/grand-prize/winners"],
+    select: (data) => data || [],
+  });
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "approved":
@@ -169,6 +189,13 @@ export default function Dashboard() {
                       {statsLoading ? "..." : stats?.availablePoints?.toLocaleString() || "0"}
                     </div>
                     <div className="text-gray-500 text-xs">{t('dashboard.readyToRedeem')}</div>
+                    {!statsLoading && stats && stats.expiringSoonPoints > 0 && stats.nextExpirationDate && (
+                      <div className="text-amber-600 text-xs font-medium mt-1" data-testid="text-expiring-points">
+                        {t('dashboard.pointsExpiringSoon')
+                          .replace("{points}", stats.expiringSoonPoints.toLocaleString())
+                          .replace("{date}", new Date(stats.nextExpirationDate).toLocaleDateString())}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -380,6 +407,56 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Grand Prize Winners - Only show for regular users when there are winners */}
+      {user.role !== "admin" && grandPrizeWinners && grandPrizeWinners.length > 0 && (
+        <div className="mb-12">
+          <Card className="shadow-material">
+            <CardContent className="p-6">
+              <div className="flex items-center space-x-3 mb-6">
+                <div className="w-10 h-10 bg-gradient-to-br from-yellow-400 to-orange-500 rounded-lg flex items-center justify-center">
+                  <Trophy className="text-white h-6 w-6" />
+                </div>
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900" data-testid="text-grand-prize-winners-title">
+                    {t('dashboard.pastWinners')}
+                  </h2>
+                  <p className="text-sm text-gray-600">{t('dashboard.pastWinnersDescription')}</p>
+                </div>
+              </div>
+              <div className="space-y-3">
+                {grandPrizeWinners.map((winner) => (
+                  <div
+                    key={winner.id}
+                    className={`flex items-center space-x-4 p-4 rounded-lg ${
+                      winner.userId === user.id
+                        ? "bg-gradient-to-r from-yellow-50 to-orange-50 border-2 border-yellow-400"
+                        : "bg-gray-50"
+                    }`}
+                    data-testid={`grand-prize-winner-${winner.id}`}
+                  >
+                    <div className="w-10 h-10 bg-gradient-to-br from-yellow-400 to-yellow-600 rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-white font-bold">{winner.rank}</span>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">
+                        {winner.userFirstName} {winner.userLastName}
+                      </h3>
+                      <p className="text-sm text-gray-600">
+                        {winner.criteriaName} • {new Date(winner.awardedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-xl font-bold text-gray-900">{winner.points.toLocaleString()}</div>
+                      <div className="text-sm text-gray-600">{t('deals.points').toLowerCase()}</div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Available Rewards Carousel - Only show for regular users */}
       {user.role !== "admin" && (
         <div className="mb-12">
@@ -4,13 +4,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Plus, Calendar, DollarSign, Package, Users, Trophy } from "lucide-react";
+import { Plus, Calendar, DollarSign, Package, Users, Trophy, RotateCcw } from "lucide-react";
 import DealModal from "@/components/modals/deal-modal";
 import type { Deal } from "@shared/schema";
 import championBackgroundImage from "@assets/bg_1758836460974.jpg";
 
 export default function Deals() {
   const [isDealModalOpen, setIsDealModalOpen] = useState(false);
+  const [dealToResubmit, setDealToResubmit] = useState<Deal | null>(null);
 
   const { data: deals, isLoading } = useQuery<Deal[]>({
     queryKey: ["/api/deals"],
@@ -141,11 +142,34 @@ export default function Deals() {
                     {deal.status === "pending" && (
                       <div className="bg-gradient-to-r from-yellow-50 to-orange-50 rounded-lg p-3 border border-yellow-200">
                         <div className="text-sm font-medium text-yellow-700">
-                          Waiting for admin approval
+                          {deal.revision > 1 ? "Resubmitted, waiting for admin approval" : "Waiting for admin approval"}
                         </div>
                       </div>
                     )}
                     
+                    {deal.status === "rejected" && deal.rejectionReason && (
+                      <div className="bg-gradient-to-r from-red-50 to-rose-50 rounded-lg p-3 border border-red-200" data-testid={`text-rejection-reason-${deal.id}`}>
+                        <div className="text-sm font-medium text-red-700">
+                          Rejection reason
+                        </div>
+                        <div className="text-sm text-red-600 mt-1 whitespace-pre-line">
+                          {deal.rejectionReason}
+                        </div>
+                      </div>
+                    )}
+
+                    {deal.status === "rejected" && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => setDealToResubmit(deal)}
+                        data-testid={`button-resubmit-deal-${deal.id}`}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Edit and resubmit
+                      </Button>
+                    )}
+                    
                     {(deal.pointsEarned || 0) > 0 && (
                       <div className="bg-gradient-to-r from-green-50 to-emerald-50 rounded-lg p-3 border border-green-200">
                         <div className="text-sm font-bold text-green-700 flex items-center">
@@ -192,6 +216,13 @@ export default function Deals() {
           isOpen={isDealModalOpen}
           onClose={() => setIsDealModalOpen(false)}
         />
+
+        <DealModal
+          isOpen={!!dealToResubmit}
+          onClose={() => setDealToResubmit(null)}
+          deal={dealToResubmit}
+          resubmit
+        />
       </div>
     </div>
   );
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/useTranslation";
+import { KeyRound, MailCheck } from "lucide-react";
+
+export default function ForgotPassword() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ email }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || "Failed to request password reset");
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setSent(true);
+    },
+    onError: (error: any) => {
+      toast({
+        title: t("common.error"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (email) {
+      forgotPasswordMutation.mutate(email);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="h-12 w-12 rounded-full bg-primary-100 flex items-center justify-center">
+              {sent ? (
+                <MailCheck className="h-6 w-6 text-primary-600" />
+              ) : (
+                <KeyRound className="h-6 w-6 text-primary-600" />
+              )}
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{t("auth.forgotPasswordTitle")}</CardTitle>
+          {!sent && <CardDescription>{t("auth.forgotPasswordDescription")}</CardDescription>}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sent ? (
+            <Alert>
+              <AlertDescription data-testid="text-reset-link-sent">{t("auth.resetLinkSent")}</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="forgot-password-email">{t("common.email")}</Label>
+                <Input
+                  id="forgot-password-email"
+                  type="email"
+                  placeholder={t("auth.yourEmail")}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-forgot-password-email"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!email || forgotPasswordMutation.isPending}
+                data-testid="button-send-reset-link"
+              >
+                {forgotPasswordMutation.isPending ? t("auth.sending") : t("auth.sendResetLink")}
+              </Button>
+            </form>
+          )}
+
+          <div className="text-center">
+            <Link href="/login" className="text-primary-600 hover:text-primary-700 text-sm" data-testid="link-back-to-login">
+              {t("auth.backToLogin")}
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
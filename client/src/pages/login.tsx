@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
+import { Link } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,6 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { login, register } from "@/lib/auth";
+import { TwoFactorChallenge } from "@/components/TwoFactorChallenge";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Mail } from "lucide-react";
@@ -39,6 +41,7 @@ export default function Login() {
   const [isLogin, setIsLogin] = useState(true);
   const [showMagicLinkDialog, setShowMagicLinkDialog] = useState(false);
   const [magicLinkEmail, setMagicLinkEmail] = useState("");
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -65,12 +68,13 @@ export default function Login() {
 
   const loginMutation = useMutation({
     mutationFn: ({ username, password }: LoginForm) => login(username, password),
-    onSuccess: () => {
-      toast({
-        title: t("common.success"),
-        description: "Logged in successfully",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    onSuccess: (result) => {
+      // Password accepted; the session opens once the 2FA code is verified
+      if ("twoFactorRequired" in result) {
+        setTwoFactorPending(true);
+        return;
+      }
+      handleLoggedIn();
     },
     onError: (error: any) => {
       toast({
@@ -81,6 +85,14 @@ export default function Login() {
     },
   });
 
+  const handleLoggedIn = () => {
+    toast({
+      title: t("common.success"),
+      description: "Logged in successfully",
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+  };
+
   const registerMutation = useMutation({
     mutationFn: (userData: RegisterForm) => register(userData),
     onSuccess: (data: any) => {
@@ -176,7 +188,15 @@ export default function Login() {
           </p>
         </CardHeader>
         <CardContent>
-          {isLogin ? (
+          {isLogin && twoFactorPending ? (
+            <TwoFactorChallenge
+              onVerified={handleLoggedIn}
+              onCancel={() => {
+                setTwoFactorPending(false);
+                loginForm.reset();
+              }}
+            />
+          ) : isLogin ? (
             <Form {...loginForm}>
               <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
                 <FormField
@@ -222,6 +242,15 @@ export default function Login() {
                     </FormItem>
                   )}
                 />
+                <div className="text-right">
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm text-primary-600 hover:text-primary-700"
+                    data-testid="link-forgot-password"
+                  >
+                    {t("auth.forgotPassword")}
+                  </Link>
+                </div>
                 <Button
                   type="submit"
                   className="w-full"
@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import { CheckCircle, AlertCircle, Loader2 } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useTranslation } from "@/hooks/useTranslation";
+import { TwoFactorChallenge } from "@/components/TwoFactorChallenge";
 
 export default function MagicLinkLogin() {
   const [, navigate] = useLocation();
@@ -16,6 +17,7 @@ export default function MagicLinkLogin() {
   const [isVerifying, setIsVerifying] = useState(true);
   const [isValid, setIsValid] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
 
   useEffect(() => {
     const verifyMagicLink = async () => {
@@ -52,7 +54,10 @@ export default function MagicLinkLogin() {
         
         const data = await response.json();
         
-        if (data.valid) {
+        // El enlace no evita el segundo factor: se pide el código antes de abrir la sesión
+        if (data.valid && data.twoFactorRequired) {
+          setNeedsTwoFactor(true);
+        } else if (data.valid) {
           setIsValid(true);
           
           // Invalidar queries para recargar datos del usuario
@@ -108,6 +113,24 @@ export default function MagicLinkLogin() {
     );
   }
 
+  if (needsTwoFactor) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6">
+            <TwoFactorChallenge
+              onVerified={async () => {
+                await queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+                window.location.href = "/dashboard";
+              }}
+              onCancel={() => navigate("/login")}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!isValid) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
@@ -12,7 +12,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/hooks/useTranslation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { User, Mail, MapPin, Lock, Loader2, CheckCircle } from "lucide-react";
+import { User, Mail, MapPin, Lock, Loader2, CheckCircle, Bell } from "lucide-react";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+import { ActiveSessions } from "@/components/ActiveSessions";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
 
 // Tipo de usuario desde la API
 interface UserProfile {
@@ -210,7 +213,7 @@ export default function ProfilePage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="profile">
             <User className="w-4 h-4 mr-2" />
             Personal Information
@@ -219,6 +222,10 @@ export default function ProfilePage() {
             <Lock className="w-4 h-4 mr-2" />
             Security
           </TabsTrigger>
+          <TabsTrigger value="notifications" data-testid="tab-notifications">
+            <Bell className="w-4 h-4 mr-2" />
+            {t("profile.notifications")}
+          </TabsTrigger>
         </TabsList>
 
         {/* Tab de Información Personal */}
@@ -367,6 +374,8 @@ export default function ProfilePage() {
 
         {/* Tab de Seguridad (Cambio de Contraseña) */}
         <TabsContent value="security">
+          <TwoFactorSettings />
+
           <Card>
             <CardHeader>
               <CardTitle>Change Password</CardTitle>
@@ -458,6 +467,13 @@ export default function ProfilePage() {
               </form>
             </CardContent>
           </Card>
+
+          <ActiveSessions />
+        </TabsContent>
+
+        {/* Tab de Notificaciones */}
+        <TabsContent value="notifications">
+          <NotificationPreferences />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useTranslation } from "@/hooks/useTranslation";
+import { AlertCircle, CheckCircle, KeyRound } from "lucide-react";
+
+// Los mensajes son claves de traducción; se resuelven al mostrarlos
+const resetPasswordFormSchema = z.object({
+  password: z.string().min(6, "auth.passwordTooShort"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "auth.passwordsDoNotMatch",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordFormSchema>;
+
+export default function ResetPassword() {
+  const { t } = useTranslation();
+  const [, navigate] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ password }: ResetPasswordForm) => {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || t("auth.invalidOrExpiredLink"));
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setErrorMessage("");
+    },
+    onError: (error: Error) => {
+      setErrorMessage(error.message);
+    },
+  });
+
+  if (!token) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="h-12 w-12 rounded-full bg-red-100 flex items-center justify-center">
+                <AlertCircle className="h-6 w-6 text-red-600" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl text-red-600">{t("auth.invalidLinkTitle")}</CardTitle>
+            <CardDescription>{t("auth.tokenNotProvided")}</CardDescription>
+          </CardHeader>
+          <CardContent className="text-center">
+            <Link href="/forgot-password" className="text-primary-600 hover:text-primary-700 text-sm">
+              {t("auth.requestNewResetLink")}
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (resetPasswordMutation.isSuccess) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              <div className="h-12 w-12 rounded-full bg-green-100 flex items-center justify-center">
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl text-green-600">{t("auth.passwordUpdatedTitle")}</CardTitle>
+            <CardDescription>{t("auth.passwordUpdatedDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button className="w-full" onClick={() => navigate("/login")} data-testid="button-go-to-login">
+              {t("auth.backToLogin")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="h-12 w-12 rounded-full bg-primary-100 flex items-center justify-center">
+              <KeyRound className="h-6 w-6 text-primary-600" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">{t("auth.newPasswordTitle")}</CardTitle>
+          <CardDescription>{t("auth.newPasswordDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {errorMessage && (
+            <Alert variant="destructive">
+              <AlertDescription>
+                {errorMessage}{" "}
+                <Link href="/forgot-password" className="underline">
+                  {t("auth.requestNewResetLink")}
+                </Link>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("auth.newPassword")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder={t("auth.passwordPlaceholder")}
+                        data-testid="input-new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage>
+                      {form.formState.errors.password?.message && t(form.formState.errors.password.message)}
+                    </FormMessage>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("auth.confirmPassword")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        placeholder={t("auth.confirmPasswordPlaceholder")}
+                        data-testid="input-confirm-new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage>
+                      {form.formState.errors.confirmPassword?.message && t(form.formState.errors.confirmPassword.message)}
+                    </FormMessage>
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={resetPasswordMutation.isPending}
+                data-testid="button-update-password"
+              >
+                {resetPasswordMutation.isPending ? t("auth.updatingPassword") : t("auth.updatePassword")}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -51,6 +51,7 @@ export default function Rewards() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/user-rewards"] });
       queryClient.invalidateQueries({ queryKey: ["/api/users/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rewards"] });
     },
     onError: (error: any) => {
       const errorMessage = error.message || "Failed to redeem reward";
@@ -0,0 +1,48 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { LogOut, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TwoFactorSettings } from "@/components/TwoFactorSettings";
+import { useTranslation } from "@/hooks/useTranslation";
+import { logout } from "@/lib/auth";
+
+/**
+ * Pantalla para los admins que aún no superaron el segundo factor: el servidor rechaza
+ * el resto de la API hasta que lo activan (o, si ya lo tenían, hasta que vuelven a iniciar sesión)
+ */
+export default function TwoFactorSetupRequired() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  const logoutMutation = useMutation({
+    mutationFn: logout,
+    onSettled: () => {
+      queryClient.clear();
+      window.location.href = "/login";
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 p-4">
+      <div className="w-full max-w-lg space-y-4">
+        <div className="text-center space-y-2">
+          <div className="flex justify-center">
+            <div className="h-12 w-12 rounded-full bg-amber-100 flex items-center justify-center">
+              <ShieldAlert className="h-6 w-6 text-amber-600" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-bold">{t("auth.twoFactorSetupRequiredTitle")}</h1>
+          <p className="text-gray-600">{t("auth.twoFactorSetupRequiredDescription")}</p>
+        </div>
+
+        <TwoFactorSettings onEnabled={() => queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] })} />
+
+        <div className="text-center">
+          <Button variant="ghost" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+            <LogOut className="h-4 w-4 mr-2" />
+            {t("auth.signOut")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
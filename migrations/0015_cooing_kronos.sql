@@ -0,0 +1,5 @@
+ALTER TABLE "users" DROP CONSTRAINT "users_email_unique";--> statement-breakpoint
+ALTER TABLE "grand_prize_criteria" ALTER COLUMN "region" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "invited_by" varchar;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "invited_from_region" "region";--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_email_region_unique" UNIQUE("email","region");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "points_history" ADD COLUMN "campaign_id" varchar;--> statement-breakpoint
+ALTER TABLE "points_history" ADD CONSTRAINT "points_history_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
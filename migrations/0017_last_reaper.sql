@@ -0,0 +1,6 @@
+ALTER TABLE "grand_prize_criteria" ADD COLUMN "is_locked" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "grand_prize_criteria" ADD COLUMN "locked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "grand_prize_criteria" ADD COLUMN "locked_by" varchar;--> statement-breakpoint
+ALTER TABLE "grand_prize_winners" ADD COLUMN "awarded_by" varchar;--> statement-breakpoint
+ALTER TABLE "grand_prize_criteria" ADD CONSTRAINT "grand_prize_criteria_locked_by_users_id_fk" FOREIGN KEY ("locked_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grand_prize_winners" ADD CONSTRAINT "grand_prize_winners_awarded_by_users_id_fk" FOREIGN KEY ("awarded_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
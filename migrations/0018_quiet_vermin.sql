@@ -0,0 +1,32 @@
+CREATE TYPE "public"."prize_selection_method" AS ENUM('draw', 'ranking');--> statement-breakpoint
+CREATE TABLE "monthly_prize_draws" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"region_config_id" varchar NOT NULL,
+	"month" integer NOT NULL,
+	"year" integer NOT NULL,
+	"seed" text NOT NULL,
+	"participants" jsonb NOT NULL,
+	"executed_by" varchar,
+	"executed_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "monthly_prize_draws_region_config_id_month_year_unique" UNIQUE("region_config_id","month","year")
+);
+--> statement-breakpoint
+CREATE TABLE "monthly_prize_winners" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"draw_id" varchar NOT NULL,
+	"prize_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"rank" integer NOT NULL,
+	"goals" numeric(10, 2) NOT NULL,
+	"goal_target" integer NOT NULL,
+	"selection_method" "prize_selection_method" NOT NULL,
+	"qualified_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "monthly_region_prizes" ADD COLUMN "selection_method" "prize_selection_method" DEFAULT 'draw' NOT NULL;--> statement-breakpoint
+ALTER TABLE "monthly_prize_draws" ADD CONSTRAINT "monthly_prize_draws_region_config_id_region_configs_id_fk" FOREIGN KEY ("region_config_id") REFERENCES "public"."region_configs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "monthly_prize_draws" ADD CONSTRAINT "monthly_prize_draws_executed_by_users_id_fk" FOREIGN KEY ("executed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "monthly_prize_winners" ADD CONSTRAINT "monthly_prize_winners_draw_id_monthly_prize_draws_id_fk" FOREIGN KEY ("draw_id") REFERENCES "public"."monthly_prize_draws"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "monthly_prize_winners" ADD CONSTRAINT "monthly_prize_winners_prize_id_monthly_region_prizes_id_fk" FOREIGN KEY ("prize_id") REFERENCES "public"."monthly_region_prizes"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "monthly_prize_winners" ADD CONSTRAINT "monthly_prize_winners_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "user_points_balances" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"balance" integer DEFAULT 0 NOT NULL,
+	"held_points" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_rewards" ADD COLUMN "held_points" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_points_balances" ADD CONSTRAINT "user_points_balances_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "points_config" ADD COLUMN "points_expiration_months" integer;--> statement-breakpoint
+ALTER TABLE "points_config" ADD COLUMN "expiration_warning_days" integer DEFAULT 30 NOT NULL;--> statement-breakpoint
+ALTER TABLE "points_history" ADD COLUMN "expiration_warned_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_rewards" ADD COLUMN "stock_reserved" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."deal_event_type" AS ENUM('created', 'approved', 'rejected', 'updated');--> statement-breakpoint
+CREATE TABLE "deal_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" varchar NOT NULL,
+	"actor_id" varchar,
+	"event_type" "deal_event_type" NOT NULL,
+	"from_status" "deal_status",
+	"to_status" "deal_status",
+	"changes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "deal_events" ADD CONSTRAINT "deal_events_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_events" ADD CONSTRAINT "deal_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TYPE "public"."deal_event_type" ADD VALUE 'resubmitted';--> statement-breakpoint
+ALTER TABLE "deals" ADD COLUMN "revision" integer DEFAULT 1 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "public"."deal_conflict_reason" AS ENUM('license_agreement', 'client_value_date');--> statement-breakpoint
+CREATE TYPE "public"."deal_conflict_status" AS ENUM('open', 'dismissed', 'confirmed');--> statement-breakpoint
+ALTER TYPE "public"."deal_event_type" ADD VALUE 'conflicts_resolved';--> statement-breakpoint
+CREATE TABLE "deal_conflicts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deal_id" varchar NOT NULL,
+	"conflicting_deal_id" varchar NOT NULL,
+	"reason" "deal_conflict_reason" NOT NULL,
+	"status" "deal_conflict_status" DEFAULT 'open' NOT NULL,
+	"resolved_by" varchar,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "deal_conflicts_deal_id_conflicting_deal_id_unique" UNIQUE("deal_id","conflicting_deal_id")
+);
+--> statement-breakpoint
+ALTER TABLE "deal_conflicts" ADD CONSTRAINT "deal_conflicts_deal_id_deals_id_fk" FOREIGN KEY ("deal_id") REFERENCES "public"."deals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_conflicts" ADD CONSTRAINT "deal_conflicts_conflicting_deal_id_deals_id_fk" FOREIGN KEY ("conflicting_deal_id") REFERENCES "public"."deals"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deal_conflicts" ADD CONSTRAINT "deal_conflicts_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
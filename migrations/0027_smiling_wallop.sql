@@ -0,0 +1,17 @@
+CREATE TABLE "support_sla_policies" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"priority" text NOT NULL,
+	"first_response_minutes" integer NOT NULL,
+	"resolution_minutes" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" varchar,
+	CONSTRAINT "support_sla_policies_priority_unique" UNIQUE("priority")
+);
+--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "assigned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "first_response_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "first_response_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "resolution_due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "resolved_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_tickets" ADD COLUMN "escalated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "support_sla_policies" ADD CONSTRAINT "support_sla_policies_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."email_outbox_status" AS ENUM('pending', 'sending', 'sent', 'dead');--> statement-breakpoint
+CREATE TABLE "email_outbox" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"to_email" text NOT NULL,
+	"to_name" text,
+	"subject" text NOT NULL,
+	"html_content" text NOT NULL,
+	"text_content" text,
+	"category" text NOT NULL,
+	"status" "email_outbox_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"last_error" text,
+	"transport" text,
+	"provider_message_id" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
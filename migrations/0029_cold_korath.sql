@@ -0,0 +1,15 @@
+CREATE TABLE "email_template_overrides" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"template_key" text NOT NULL,
+	"language" text NOT NULL,
+	"region" "region" NOT NULL,
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"updated_by" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_template_overrides_template_key_language_region_unique" UNIQUE("template_key","language","region")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "preferred_language" text;--> statement-breakpoint
+ALTER TABLE "email_template_overrides" ADD CONSTRAINT "email_template_overrides_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
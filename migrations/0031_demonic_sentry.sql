@@ -0,0 +1,10 @@
+CREATE TABLE "weekly_digest_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"period_start" timestamp NOT NULL,
+	"kind" text NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "weekly_digest_deliveries_user_id_period_start_unique" UNIQUE("user_id","period_start")
+);
+--> statement-breakpoint
+ALTER TABLE "weekly_digest_deliveries" ADD CONSTRAINT "weekly_digest_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
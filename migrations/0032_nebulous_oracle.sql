@@ -0,0 +1,30 @@
+CREATE TYPE "public"."job_run_status" AS ENUM('running', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TABLE "job_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_name" text NOT NULL,
+	"status" "job_run_status" DEFAULT 'running' NOT NULL,
+	"trigger" text NOT NULL,
+	"triggered_by" varchar,
+	"instance_id" text NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "scheduled_jobs" (
+	"name" text PRIMARY KEY NOT NULL,
+	"schedule" text NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"last_status" "job_run_status",
+	"locked_by" text,
+	"locked_until" timestamp,
+	"updated_by" varchar,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_job_name_scheduled_jobs_name_fk" FOREIGN KEY ("job_name") REFERENCES "public"."scheduled_jobs"("name") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scheduled_jobs" ADD CONSTRAINT "scheduled_jobs_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
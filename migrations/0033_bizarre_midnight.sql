@@ -0,0 +1,2 @@
+ALTER TABLE "job_runs" ADD COLUMN "params" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_runs" ADD COLUMN "progress" jsonb;
\ No newline at end of file
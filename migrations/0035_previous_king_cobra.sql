@@ -0,0 +1,5 @@
+ALTER TABLE "users" ADD COLUMN "two_factor_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_secret" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_recovery_codes" jsonb;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_last_used_step" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "two_factor_enabled_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "login_throttles" (
+	"key" text PRIMARY KEY NOT NULL,
+	"user_id" varchar,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp DEFAULT now() NOT NULL,
+	"last_ip_address" text,
+	"locked_until" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "login_throttles" ADD CONSTRAINT "login_throttles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,114 @@
+// Expresiones cron de 5 campos (minuto hora día-del-mes mes día-de-semana), evaluadas en UTC.
+// Admite *, listas (1,15), rangos (1-5) y pasos (*/15, 8-18/2). Domingo = 0 (también 7).
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[min: number, max: number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Límite de búsqueda de la próxima ejecución: cubre expresiones como "29 de febrero"
+const MAX_SEARCH_DAYS = 366 * 4;
+
+function parseField(expression: string, [min, max]: [number, number]): CronField {
+  const values = new Set<number>();
+
+  for (const part of expression.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${expression}"`);
+    }
+    const [, range, startText, endText, stepText] = match;
+    const start = range === "*" ? min : Number(startText);
+    const end = range === "*" ? max : endText !== undefined ? Number(endText) : stepText ? max : start;
+    const step = stepText ? Number(stepText) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${expression}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: expression === "*" };
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index]),
+  );
+  // 7 es un alias de domingo
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Como en cron clásico: si se restringen ambos, basta con que coincida el día del mes o el de la semana
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.values.has(date.getUTCDay());
+  if (schedule.daysOfMonth.wildcard) return dayOfWeek;
+  if (schedule.daysOfWeek.wildcard) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Próximo instante (estrictamente posterior a `after`) que cumple la expresión
+ */
+export function getNextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.values.has(candidate.getUTCMonth() + 1) || !matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error("Cron expression never matches");
+}
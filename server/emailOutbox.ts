@@ -0,0 +1,116 @@
+import { storage } from "./storage";
+import { getEmailTransport, type EmailMessage } from "./emailTransport";
+
+// El worker revisa la cola cada minuto; además se dispara al encolar para no esperar
+const RUN_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+// Intentos antes de pasar a "dead": 1 min, 2 min, 4 min, ... con tope de 6 h entre intentos
+export const EMAIL_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+// Un envío que sigue en "sending" pasado este tiempo se considera abandonado
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+// Emails con enlaces de un solo uso: una vez enviados se borra el cuerpo para que el enlace no quede legible en la BD
+const SECRET_EMAIL_CATEGORIES: readonly string[] = ["invite", "magic_link", "password_reset"];
+
+let workerTimer: NodeJS.Timeout | undefined;
+let isRunning = false;
+
+export interface EmailOutboxResult {
+  sent: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export function getEmailRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Guarda el email en el outbox y dispara el envío en segundo plano. Lanza solo si
+ * no se pudo guardar; los fallos del proveedor se reintentan desde la cola.
+ */
+export async function queueEmail(message: EmailMessage, category: string): Promise<boolean> {
+  await storage.enqueueEmail({
+    toEmail: message.to.email,
+    toName: message.to.name ?? null,
+    subject: message.subject,
+    htmlContent: message.html,
+    textContent: message.text ?? null,
+    category,
+  });
+  void processScheduledEmailOutbox();
+  return true;
+}
+
+/**
+ * Envía los emails pendientes cuyo próximo intento ya venció. Un fallo reprograma el
+ * email con backoff exponencial; al agotar los intentos queda como "dead".
+ */
+export async function processEmailOutbox(now: Date = new Date()): Promise<EmailOutboxResult> {
+  const result: EmailOutboxResult = { sent: 0, retried: 0, deadLettered: 0 };
+
+  await storage.releaseStaleEmailClaims(new Date(now.getTime() - STALE_CLAIM_MS));
+  const entries = await storage.claimDueEmails(now, BATCH_SIZE);
+  if (entries.length === 0) return result;
+
+  const transport = getEmailTransport();
+  for (const entry of entries) {
+    try {
+      const { messageId } = await transport.send({
+        to: { email: entry.toEmail, name: entry.toName ?? undefined },
+        subject: entry.subject,
+        html: entry.htmlContent,
+        text: entry.textContent ?? undefined,
+      });
+      await storage.markEmailSent(entry.id, transport.name, messageId, SECRET_EMAIL_CATEGORIES.includes(entry.category));
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const nextAttemptAt = entry.attempts >= EMAIL_MAX_ATTEMPTS
+        ? null
+        : new Date(Date.now() + getEmailRetryDelayMs(entry.attempts));
+      await storage.markEmailFailed(entry.id, message, nextAttemptAt);
+
+      if (nextAttemptAt) {
+        result.retried++;
+      } else {
+        result.deadLettered++;
+        console.error(`Email ${entry.id} (${entry.category}) to ${entry.toEmail} failed permanently: ${message}`);
+      }
+    }
+  }
+
+  return result;
+}
+
+async function processScheduledEmailOutbox(): Promise<void> {
+  // Evita corridas solapadas entre el intervalo y los disparos al encolar
+  if (isRunning) return;
+  isRunning = true;
+  try {
+    const result = await processEmailOutbox();
+    if (result.retried > 0 || result.deadLettered > 0) {
+      console.log(`✉️ Email outbox: ${result.sent} sent, ${result.retried} to retry, ${result.deadLettered} failed`);
+    }
+  } catch (error) {
+    console.error("Email outbox processing error:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Vuelve a poner en la cola un email fallido y dispara el envío
+ */
+export async function resendEmail(id: string) {
+  const entry = await storage.requeueEmail(id);
+  void processScheduledEmailOutbox();
+  return entry;
+}
+
+export function startEmailOutboxWorker(): void {
+  if (workerTimer) return;
+  workerTimer = setInterval(processScheduledEmailOutbox, RUN_INTERVAL_MS);
+  void processScheduledEmailOutbox();
+}
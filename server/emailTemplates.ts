@@ -0,0 +1,1054 @@
+import { storage } from './storage';
+import {
+  EMAIL_LANGUAGES,
+  EMAIL_TEMPLATE_KEYS,
+  REGION_DEFAULT_LANGUAGE,
+  type EmailLanguage,
+  type EmailTemplateKey,
+} from '@shared/constants';
+import type { EmailTemplateContent, EmailTemplateSummary, Region } from '@shared/schema';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:5000';
+
+// Sin preferencia ni región conocida se usa español, el idioma histórico de los emails
+const FALLBACK_LANGUAGE: EmailLanguage = 'es';
+
+const DATE_LOCALES: Record<EmailLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  pt: 'pt-BR',
+};
+
+export type EmailTemplateVariables = Record<string, string | number | null | undefined>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailTemplateDefinition {
+  accent: [string, string]; // Degradado del encabezado y color de los botones
+  variables: string[];
+  sample: EmailTemplateVariables; // Datos de ejemplo para la vista previa
+  locales: Record<EmailLanguage, EmailTemplateContent & { heading: string }>;
+}
+
+// ─── Layout y partials comunes ─────────────────────────────────────────────
+
+const LAYOUT_STRINGS: Record<EmailLanguage, { automatic: string; rights: string; copyLink: string }> = {
+  en: {
+    automatic: 'This is an automated email, please do not reply to this message.',
+    rights: 'All rights reserved.',
+    copyLink: 'Or copy and paste this link into your browser:',
+  },
+  es: {
+    automatic: 'Este es un correo automático, por favor no respondas a este mensaje.',
+    rights: 'Todos los derechos reservados.',
+    copyLink: 'O copia y pega este enlace en tu navegador:',
+  },
+  pt: {
+    automatic: 'Este é um e-mail automático, por favor não responda a esta mensagem.',
+    rights: 'Todos os direitos reservados.',
+    copyLink: 'Ou copie e cole este link no seu navegador:',
+  },
+};
+
+// Partials disponibles en los cuerpos: {{> button url=variable label="Texto"}}
+const PARTIALS: Record<string, (language: EmailLanguage) => string> = {
+  button: () => '<div class="cta"><a href="{{url}}" class="button">{{label}}</a></div>',
+  linkFallback: (language) =>
+    `<p class="muted">${LAYOUT_STRINGS[language].copyLink}<br><a href="{{url}}">{{url}}</a></p>`,
+};
+
+function renderLayout(language: EmailLanguage, heading: string, accent: [string, string], content: string): string {
+  const strings = LAYOUT_STRINGS[language];
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, ${accent[0]} 0%, ${accent[1]} 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+    .content { background: #f9fafb; padding: 30px; border: 1px solid #e5e7eb; }
+    .box { background: white; border: 2px solid ${accent[0]}; border-radius: 8px; padding: 20px; margin: 20px 0; }
+    .highlight { text-align: center; font-size: 22px; font-weight: bold; color: ${accent[1]}; }
+    .warning { background: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin: 20px 0; border-radius: 4px; }
+    .cta { text-align: center; margin: 20px 0; }
+    .button { display: inline-block; background: ${accent[0]}; color: white !important; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; }
+    .muted { font-size: 14px; color: #6b7280; }
+    .footer { background: #f3f4f6; padding: 20px; text-align: center; font-size: 12px; color: #6b7280; border-radius: 0 0 10px 10px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>${escapeHtml(heading)}</h1>
+  </div>
+  <div class="content">
+${content}
+  </div>
+  <div class="footer">
+    <p>${strings.automatic}</p>
+    <p>&copy; ${new Date().getFullYear()} Loyalty Program Platform. ${strings.rights}</p>
+  </div>
+</body>
+</html>`;
+}
+
+// ─── Plantillas ────────────────────────────────────────────────────────────
+
+const EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  invite: {
+    accent: ['#667eea', '#764ba2'],
+    variables: ['firstName', 'lastName', 'invitedBy', 'inviteLink'],
+    sample: { firstName: 'Ana', lastName: 'García', invitedBy: 'Carlos Pérez', inviteLink: `${APP_URL}/register?token=sample` },
+    locales: {
+      en: {
+        subject: '🎉 Your invitation to the Loyalty Program',
+        heading: '🎉 Welcome to the Loyalty Program!',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p><strong>{{invitedBy}}</strong> has invited you to join our <strong>Loyalty Program Platform</strong>.</p>
+<p>As an authorized participant you will be able to:</p>
+<ul>
+  <li>📊 Register your deals and earn points</li>
+  <li>🎁 Redeem exclusive rewards (e-Gift Cards and more)</li>
+  <li>📈 Track your progress and sales in real time</li>
+  <li>🏆 Compete in the partner ranking</li>
+</ul>
+<p>To complete your registration, click the button below:</p>
+{{> button url=inviteLink label="Complete registration"}}
+{{> linkFallback url=inviteLink}}
+<p><strong>Note:</strong> This invitation link is unique and personal. Do not share it with others.</p>`,
+      },
+      es: {
+        subject: '🎉 Invitación al Loyalty Program',
+        heading: '🎉 ¡Bienvenido al Loyalty Program!',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Has sido invitado por <strong>{{invitedBy}}</strong> a unirte a nuestro <strong>Loyalty Program Platform</strong>.</p>
+<p>Como participante autorizado, podrás:</p>
+<ul>
+  <li>📊 Registrar tus deals y acumular puntos</li>
+  <li>🎁 Canjear recompensas exclusivas (e-Gift Cards y más)</li>
+  <li>📈 Ver tu progreso y ventas en tiempo real</li>
+  <li>🏆 Competir en el ranking de partners</li>
+</ul>
+<p>Para completar tu registro, haz clic en el siguiente botón:</p>
+{{> button url=inviteLink label="Completar Registro"}}
+{{> linkFallback url=inviteLink}}
+<p><strong>Nota:</strong> Este enlace de invitación es único y personal. No lo compartas con otros.</p>`,
+      },
+      pt: {
+        subject: '🎉 Convite para o Loyalty Program',
+        heading: '🎉 Bem-vindo ao Loyalty Program!',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p><strong>{{invitedBy}}</strong> convidou você para participar do nosso <strong>Loyalty Program Platform</strong>.</p>
+<p>Como participante autorizado, você poderá:</p>
+<ul>
+  <li>📊 Registrar seus deals e acumular pontos</li>
+  <li>🎁 Resgatar recompensas exclusivas (e-Gift Cards e mais)</li>
+  <li>📈 Acompanhar seu progresso e vendas em tempo real</li>
+  <li>🏆 Competir no ranking de parceiros</li>
+</ul>
+<p>Para concluir seu cadastro, clique no botão abaixo:</p>
+{{> button url=inviteLink label="Concluir cadastro"}}
+{{> linkFallback url=inviteLink}}
+<p><strong>Observação:</strong> Este link de convite é único e pessoal. Não o compartilhe com outras pessoas.</p>`,
+      },
+    },
+  },
+
+  welcome: {
+    accent: ['#667eea', '#764ba2'],
+    variables: ['firstName', 'lastName'],
+    sample: { firstName: 'Ana', lastName: 'García' },
+    locales: {
+      en: {
+        subject: '✅ Registration completed - Loyalty Program',
+        heading: '✅ Registration completed!',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Thank you for completing your registration on the <strong>Loyalty Program Platform</strong>!</p>
+<p>Your account is now being reviewed by our administrative team. Once approved, you will receive a confirmation email and can start to:</p>
+<ul>
+  <li>✅ Register your deals</li>
+  <li>✅ Earn points for your sales</li>
+  <li>✅ Redeem rewards (e-Gift Cards and more)</li>
+</ul>
+<p>This process usually takes less than 24 hours.</p>
+<p>If you have any questions, feel free to contact us.</p>`,
+      },
+      es: {
+        subject: '✅ Registro Completado - Loyalty Program',
+        heading: '✅ ¡Registro Completado!',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>¡Gracias por completar tu registro en el <strong>Loyalty Program Platform</strong>!</p>
+<p>Tu cuenta está ahora en revisión por nuestro equipo administrativo. Una vez aprobada, recibirás un correo de confirmación y podrás empezar a:</p>
+<ul>
+  <li>✅ Registrar tus deals</li>
+  <li>✅ Acumular puntos por tus ventas</li>
+  <li>✅ Canjear recompensas (e-Gift Cards y más)</li>
+</ul>
+<p>Normalmente este proceso toma menos de 24 horas.</p>
+<p>Si tienes alguna pregunta, no dudes en contactarnos.</p>`,
+      },
+      pt: {
+        subject: '✅ Cadastro concluído - Loyalty Program',
+        heading: '✅ Cadastro concluído!',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Obrigado por concluir seu cadastro no <strong>Loyalty Program Platform</strong>!</p>
+<p>Sua conta está em análise pela nossa equipe administrativa. Assim que for aprovada, você receberá um e-mail de confirmação e poderá começar a:</p>
+<ul>
+  <li>✅ Registrar seus deals</li>
+  <li>✅ Acumular pontos pelas suas vendas</li>
+  <li>✅ Resgatar recompensas (e-Gift Cards e mais)</li>
+</ul>
+<p>Normalmente este processo leva menos de 24 horas.</p>
+<p>Se tiver alguma dúvida, entre em contato conosco.</p>`,
+      },
+    },
+  },
+
+  account_approved: {
+    accent: ['#10b981', '#059669'],
+    variables: ['firstName', 'lastName', 'loginLink'],
+    sample: { firstName: 'Ana', lastName: 'García', loginLink: `${APP_URL}/login` },
+    locales: {
+      en: {
+        subject: '✅ Account activated! - Loyalty Program',
+        heading: '🎉 Registration completed!',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Welcome! Your <strong>Loyalty Program Platform</strong> account is <strong>ready to use</strong>.</p>
+<p>You can now log in and start to:</p>
+<ul>
+  <li>📊 Register your deals and earn points</li>
+  <li>🎁 Redeem exclusive rewards (e-Gift Cards)</li>
+  <li>📈 Track your progress and sales in real time</li>
+  <li>🏆 Compete in the partner ranking</li>
+</ul>
+{{> button url=loginLink label="Log in now"}}
+<p>Welcome aboard! We are excited to have you with us.</p>`,
+      },
+      es: {
+        subject: '✅ ¡Cuenta Activada! - Loyalty Program',
+        heading: '🎉 ¡Registro Completado!',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>¡Bienvenido! Tu cuenta en el <strong>Loyalty Program Platform</strong> está <strong>lista para usar</strong>.</p>
+<p>Ya puedes iniciar sesión y comenzar a:</p>
+<ul>
+  <li>📊 Registrar tus deals y acumular puntos</li>
+  <li>🎁 Canjear recompensas exclusivas (e-Gift Cards)</li>
+  <li>📈 Ver tu progreso y ventas en tiempo real</li>
+  <li>🏆 Competir en el ranking de partners</li>
+</ul>
+{{> button url=loginLink label="Iniciar Sesión Ahora"}}
+<p>¡Bienvenido a bordo! Estamos emocionados de tenerte con nosotros.</p>`,
+      },
+      pt: {
+        subject: '✅ Conta ativada! - Loyalty Program',
+        heading: '🎉 Cadastro concluído!',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Bem-vindo! Sua conta no <strong>Loyalty Program Platform</strong> está <strong>pronta para uso</strong>.</p>
+<p>Você já pode entrar e começar a:</p>
+<ul>
+  <li>📊 Registrar seus deals e acumular pontos</li>
+  <li>🎁 Resgatar recompensas exclusivas (e-Gift Cards)</li>
+  <li>📈 Acompanhar seu progresso e vendas em tempo real</li>
+  <li>🏆 Competir no ranking de parceiros</li>
+</ul>
+{{> button url=loginLink label="Entrar agora"}}
+<p>Bem-vindo a bordo! Estamos felizes em ter você conosco.</p>`,
+      },
+    },
+  },
+
+  deal_approved: {
+    accent: ['#10b981', '#059669'],
+    variables: ['firstName', 'lastName', 'productName', 'dealValue', 'pointsEarned', 'dashboardLink'],
+    sample: { firstName: 'Ana', lastName: 'García', productName: 'Firewall X200', dealValue: '25,000', pointsEarned: '250', dashboardLink: APP_URL },
+    locales: {
+      en: {
+        subject: '🎉 Deal approved - Points earned',
+        heading: '🎉 Deal approved!',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Great news! Your deal has been approved and you have earned points.</p>
+<div class="box">
+  <h3>📊 Deal details</h3>
+  <p><strong>Product:</strong> {{productName}}</p>
+  <p><strong>Deal value:</strong> \${{dealValue}}</p>
+  <p class="highlight">+{{pointsEarned}} points</p>
+</div>
+<p>These points are already available in your account and you can use them to redeem amazing rewards.</p>
+{{> button url=dashboardLink label="View my dashboard"}}
+<p class="muted">Keep it up! Every approved deal brings you closer to your favorite rewards.</p>`,
+      },
+      es: {
+        subject: '🎉 Deal Aprobado - Puntos Ganados',
+        heading: '🎉 ¡Deal Aprobado!',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>¡Excelentes noticias! Tu deal ha sido aprobado y has ganado puntos.</p>
+<div class="box">
+  <h3>📊 Detalles del Deal</h3>
+  <p><strong>Producto:</strong> {{productName}}</p>
+  <p><strong>Valor del Deal:</strong> \${{dealValue}}</p>
+  <p class="highlight">+{{pointsEarned}} puntos</p>
+</div>
+<p>Estos puntos ya están disponibles en tu cuenta y puedes usarlos para canjear recompensas increíbles.</p>
+{{> button url=dashboardLink label="Ver Mi Dashboard"}}
+<p class="muted">¡Sigue así! Cada deal aprobado te acerca más a tus recompensas favoritas.</p>`,
+      },
+      pt: {
+        subject: '🎉 Deal aprovado - Pontos ganhos',
+        heading: '🎉 Deal aprovado!',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Ótimas notícias! Seu deal foi aprovado e você ganhou pontos.</p>
+<div class="box">
+  <h3>📊 Detalhes do deal</h3>
+  <p><strong>Produto:</strong> {{productName}}</p>
+  <p><strong>Valor do deal:</strong> \${{dealValue}}</p>
+  <p class="highlight">+{{pointsEarned}} pontos</p>
+</div>
+<p>Esses pontos já estão disponíveis na sua conta e você pode usá-los para resgatar recompensas incríveis.</p>
+{{> button url=dashboardLink label="Ver meu painel"}}
+<p class="muted">Continue assim! Cada deal aprovado deixa você mais perto das suas recompensas favoritas.</p>`,
+      },
+    },
+  },
+
+  redemption_approved: {
+    accent: ['#8b5cf6', '#7c3aed'],
+    variables: ['firstName', 'lastName', 'rewardName', 'pointsCost', 'estimatedDeliveryDays', 'rewardsLink'],
+    sample: { firstName: 'Ana', lastName: 'García', rewardName: 'e-Gift Card $50', pointsCost: '5,000', estimatedDeliveryDays: '5', rewardsLink: `${APP_URL}/rewards` },
+    locales: {
+      en: {
+        subject: '🎁 Redemption approved - Your reward is on its way',
+        heading: '🎁 Redemption approved!',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Fantastic! Your redemption request has been approved.</p>
+<div class="box">
+  <p class="highlight">🎉 {{rewardName}}</p>
+  <p style="text-align: center;"><strong>{{pointsCost}} points</strong> redeemed</p>
+</div>
+{{#if estimatedDeliveryDays}}<p><strong>⏱️ Estimated delivery time:</strong> {{estimatedDeliveryDays}} business days</p>{{/if}}
+<p>You will receive more information about the delivery of your reward soon.</p>
+{{> button url=rewardsLink label="View my redemptions"}}
+<p class="muted">Thank you for being part of our loyalty program!</p>`,
+      },
+      es: {
+        subject: '🎁 Redención Aprobada - Tu Recompensa Está en Camino',
+        heading: '🎁 ¡Redención Aprobada!',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>¡Fantástico! Tu solicitud de redención ha sido aprobada.</p>
+<div class="box">
+  <p class="highlight">🎉 {{rewardName}}</p>
+  <p style="text-align: center;"><strong>{{pointsCost}} puntos</strong> canjeados</p>
+</div>
+{{#if estimatedDeliveryDays}}<p><strong>⏱️ Tiempo estimado de entrega:</strong> {{estimatedDeliveryDays}} días hábiles</p>{{/if}}
+<p>Recibirás más información sobre la entrega de tu recompensa próximamente.</p>
+{{> button url=rewardsLink label="Ver Mis Redenciones"}}
+<p class="muted">¡Gracias por ser parte de nuestro programa de lealtad!</p>`,
+      },
+      pt: {
+        subject: '🎁 Resgate aprovado - Sua recompensa está a caminho',
+        heading: '🎁 Resgate aprovado!',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Fantástico! Sua solicitação de resgate foi aprovada.</p>
+<div class="box">
+  <p class="highlight">🎉 {{rewardName}}</p>
+  <p style="text-align: center;"><strong>{{pointsCost}} pontos</strong> resgatados</p>
+</div>
+{{#if estimatedDeliveryDays}}<p><strong>⏱️ Prazo estimado de entrega:</strong> {{estimatedDeliveryDays}} dias úteis</p>{{/if}}
+<p>Em breve você receberá mais informações sobre a entrega da sua recompensa.</p>
+{{> button url=rewardsLink label="Ver meus resgates"}}
+<p class="muted">Obrigado por fazer parte do nosso programa de fidelidade!</p>`,
+      },
+    },
+  },
+
+  redemption_request: {
+    accent: ['#f59e0b', '#d97706'],
+    variables: ['adminFirstName', 'userFirstName', 'userLastName', 'userEmail', 'rewardName', 'pointsCost', 'redemptionId', 'adminLink'],
+    sample: {
+      adminFirstName: 'Carlos',
+      userFirstName: 'Ana',
+      userLastName: 'García',
+      userEmail: 'ana@example.com',
+      rewardName: 'e-Gift Card $50',
+      pointsCost: '5,000',
+      redemptionId: '3f2a9c1e',
+      adminLink: `${APP_URL}/admin`,
+    },
+    locales: {
+      en: {
+        subject: '🔔 New points redemption request',
+        heading: '🔔 New redemption request',
+        body: `<p>Hi {{adminFirstName}},</p>
+<p>A user has requested to redeem points. Please review and process this request.</p>
+<div class="box">
+  <h3>👤 User</h3>
+  <p><strong>Name:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>Email:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎁 Redemption details</h3>
+  <p><strong>Reward:</strong> {{rewardName}}</p>
+  <p><strong>Points:</strong> {{pointsCost}}</p>
+  <p><strong>Redemption ID:</strong> {{redemptionId}}</p>
+</div>
+{{> button url=adminLink label="Go to the admin panel"}}`,
+      },
+      es: {
+        subject: '🔔 Nueva Solicitud de Redención de Puntos',
+        heading: '🔔 Nueva Solicitud de Redención',
+        body: `<p>Hola {{adminFirstName}},</p>
+<p>Un usuario ha solicitado redimir puntos. Por favor, revisa y procesa esta solicitud.</p>
+<div class="box">
+  <h3>👤 Usuario</h3>
+  <p><strong>Nombre:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>Email:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎁 Detalles de Redención</h3>
+  <p><strong>Recompensa:</strong> {{rewardName}}</p>
+  <p><strong>Puntos:</strong> {{pointsCost}}</p>
+  <p><strong>ID Redención:</strong> {{redemptionId}}</p>
+</div>
+{{> button url=adminLink label="Ir al Panel Admin"}}`,
+      },
+      pt: {
+        subject: '🔔 Nova solicitação de resgate de pontos',
+        heading: '🔔 Nova solicitação de resgate',
+        body: `<p>Olá {{adminFirstName}},</p>
+<p>Um usuário solicitou o resgate de pontos. Revise e processe esta solicitação.</p>
+<div class="box">
+  <h3>👤 Usuário</h3>
+  <p><strong>Nome:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>E-mail:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎁 Detalhes do resgate</h3>
+  <p><strong>Recompensa:</strong> {{rewardName}}</p>
+  <p><strong>Pontos:</strong> {{pointsCost}}</p>
+  <p><strong>ID do resgate:</strong> {{redemptionId}}</p>
+</div>
+{{> button url=adminLink label="Ir para o painel admin"}}`,
+      },
+    },
+  },
+
+  support_ticket: {
+    accent: ['#ef4444', '#dc2626'],
+    variables: ['adminFirstName', 'userFirstName', 'userLastName', 'userEmail', 'ticketId', 'ticketSubject', 'ticketMessage', 'adminLink'],
+    sample: {
+      adminFirstName: 'Carlos',
+      userFirstName: 'Ana',
+      userLastName: 'García',
+      userEmail: 'ana@example.com',
+      ticketId: '7b1d4e2a',
+      ticketSubject: 'No veo mis puntos',
+      ticketMessage: 'Registré un deal la semana pasada y todavía no veo los puntos.',
+      adminLink: `${APP_URL}/admin`,
+    },
+    locales: {
+      en: {
+        subject: '🎫 New support ticket',
+        heading: '🎫 New support ticket',
+        body: `<p>Hi {{adminFirstName}},</p>
+<p>A user has opened a new support ticket that needs your attention.</p>
+<div class="box">
+  <h3>👤 User</h3>
+  <p><strong>Name:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>Email:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎫 Ticket details</h3>
+  <p><strong>Ticket ID:</strong> {{ticketId}}</p>
+  <p><strong>Subject:</strong> {{ticketSubject}}</p>
+  <p><strong>💬 Message:</strong></p>
+  <p>{{ticketMessage}}</p>
+</div>
+{{> button url=adminLink label="Go to support tickets"}}`,
+      },
+      es: {
+        subject: '🎫 Nuevo Ticket de Soporte',
+        heading: '🎫 Nuevo Ticket de Soporte',
+        body: `<p>Hola {{adminFirstName}},</p>
+<p>Un usuario ha creado un nuevo ticket de soporte que requiere tu atención.</p>
+<div class="box">
+  <h3>👤 Usuario</h3>
+  <p><strong>Nombre:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>Email:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎫 Detalles del Ticket</h3>
+  <p><strong>ID Ticket:</strong> {{ticketId}}</p>
+  <p><strong>Asunto:</strong> {{ticketSubject}}</p>
+  <p><strong>💬 Mensaje:</strong></p>
+  <p>{{ticketMessage}}</p>
+</div>
+{{> button url=adminLink label="Ir a Tickets de Soporte"}}`,
+      },
+      pt: {
+        subject: '🎫 Novo ticket de suporte',
+        heading: '🎫 Novo ticket de suporte',
+        body: `<p>Olá {{adminFirstName}},</p>
+<p>Um usuário abriu um novo ticket de suporte que precisa da sua atenção.</p>
+<div class="box">
+  <h3>👤 Usuário</h3>
+  <p><strong>Nome:</strong> {{userFirstName}} {{userLastName}}</p>
+  <p><strong>E-mail:</strong> {{userEmail}}</p>
+</div>
+<div class="box">
+  <h3>🎫 Detalhes do ticket</h3>
+  <p><strong>ID do ticket:</strong> {{ticketId}}</p>
+  <p><strong>Assunto:</strong> {{ticketSubject}}</p>
+  <p><strong>💬 Mensagem:</strong></p>
+  <p>{{ticketMessage}}</p>
+</div>
+{{> button url=adminLink label="Ir para os tickets de suporte"}}`,
+      },
+    },
+  },
+
+  magic_link: {
+    accent: ['#667eea', '#764ba2'],
+    variables: ['firstName', 'lastName', 'magicLink'],
+    sample: { firstName: 'Ana', lastName: 'García', magicLink: `${APP_URL}/login/magic?token=sample` },
+    locales: {
+      en: {
+        subject: '🔐 Your LoyaltyPilot access link',
+        heading: '🔐 Passwordless access',
+        body: `<p>Hi {{firstName}},</p>
+<p>You requested to access your account without a password. Click the button below to log in:</p>
+{{> button url=magicLink label="Log in now"}}
+{{> linkFallback url=magicLink}}
+<div class="warning">
+  <p><strong>⏰ Important:</strong></p>
+  <ul>
+    <li>This link expires in <strong>15 minutes</strong></li>
+    <li>It can only be used <strong>once</strong></li>
+    <li>If you did not request this access, ignore this email</li>
+  </ul>
+</div>`,
+      },
+      es: {
+        subject: '🔐 Tu enlace de acceso a LoyaltyPilot',
+        heading: '🔐 Acceso sin Contraseña',
+        body: `<p>Hola {{firstName}},</p>
+<p>Has solicitado acceder a tu cuenta sin contraseña. Haz clic en el siguiente botón para iniciar sesión:</p>
+{{> button url=magicLink label="Acceder Ahora"}}
+{{> linkFallback url=magicLink}}
+<div class="warning">
+  <p><strong>⏰ Importante:</strong></p>
+  <ul>
+    <li>Este enlace expira en <strong>15 minutos</strong></li>
+    <li>Solo puede usarse <strong>una vez</strong></li>
+    <li>Si no solicitaste este acceso, ignora este email</li>
+  </ul>
+</div>`,
+      },
+      pt: {
+        subject: '🔐 Seu link de acesso ao LoyaltyPilot',
+        heading: '🔐 Acesso sem senha',
+        body: `<p>Olá {{firstName}},</p>
+<p>Você solicitou acesso à sua conta sem senha. Clique no botão abaixo para entrar:</p>
+{{> button url=magicLink label="Acessar agora"}}
+{{> linkFallback url=magicLink}}
+<div class="warning">
+  <p><strong>⏰ Importante:</strong></p>
+  <ul>
+    <li>Este link expira em <strong>15 minutos</strong></li>
+    <li>Só pode ser usado <strong>uma vez</strong></li>
+    <li>Se você não solicitou este acesso, ignore este e-mail</li>
+  </ul>
+</div>`,
+      },
+    },
+  },
+
+  password_reset: {
+    accent: ['#667eea', '#764ba2'],
+    variables: ['firstName', 'lastName', 'username', 'resetLink'],
+    sample: { firstName: 'Ana', lastName: 'García', username: 'agarcia', resetLink: `${APP_URL}/reset-password?token=sample` },
+    locales: {
+      en: {
+        subject: '🔑 Reset your LoyaltyPilot password',
+        heading: '🔑 Password reset',
+        body: `<p>Hi {{firstName}},</p>
+<p>We received a request to reset the password of your account <strong>{{username}}</strong>. Click the button below to choose a new one:</p>
+{{> button url=resetLink label="Reset password"}}
+{{> linkFallback url=resetLink}}
+<div class="warning">
+  <p><strong>⏰ Important:</strong></p>
+  <ul>
+    <li>This link expires in <strong>1 hour</strong></li>
+    <li>It can only be used <strong>once</strong></li>
+    <li>After the change, every open session is closed</li>
+    <li>If you did not request this change, ignore this email: your password stays the same</li>
+  </ul>
+</div>`,
+      },
+      es: {
+        subject: '🔑 Restablece tu contraseña de LoyaltyPilot',
+        heading: '🔑 Restablecer Contraseña',
+        body: `<p>Hola {{firstName}},</p>
+<p>Recibimos una solicitud para restablecer la contraseña de tu cuenta <strong>{{username}}</strong>. Haz clic en el siguiente botón para elegir una nueva:</p>
+{{> button url=resetLink label="Restablecer Contraseña"}}
+{{> linkFallback url=resetLink}}
+<div class="warning">
+  <p><strong>⏰ Importante:</strong></p>
+  <ul>
+    <li>Este enlace expira en <strong>1 hora</strong></li>
+    <li>Solo puede usarse <strong>una vez</strong></li>
+    <li>Tras el cambio se cierran todas las sesiones abiertas</li>
+    <li>Si no solicitaste este cambio, ignora este email: tu contraseña no cambiará</li>
+  </ul>
+</div>`,
+      },
+      pt: {
+        subject: '🔑 Redefina sua senha do LoyaltyPilot',
+        heading: '🔑 Redefinição de senha',
+        body: `<p>Olá {{firstName}},</p>
+<p>Recebemos uma solicitação para redefinir a senha da sua conta <strong>{{username}}</strong>. Clique no botão abaixo para escolher uma nova:</p>
+{{> button url=resetLink label="Redefinir senha"}}
+{{> linkFallback url=resetLink}}
+<div class="warning">
+  <p><strong>⏰ Importante:</strong></p>
+  <ul>
+    <li>Este link expira em <strong>1 hora</strong></li>
+    <li>Só pode ser usado <strong>uma vez</strong></li>
+    <li>Após a alteração, todas as sessões abertas são encerradas</li>
+    <li>Se você não solicitou esta alteração, ignore este e-mail: sua senha continuará a mesma</li>
+  </ul>
+</div>`,
+      },
+    },
+  },
+
+  account_locked: {
+    accent: ['#ef4444', '#b91c1c'],
+    variables: ['firstName', 'lastName', 'username', 'lockMinutes', 'ipAddress', 'resetLink'],
+    sample: { firstName: 'Ana', lastName: 'García', username: 'agarcia', lockMinutes: '15', ipAddress: '203.0.113.7', resetLink: `${APP_URL}/forgot-password` },
+    locales: {
+      en: {
+        subject: '🔒 Your LoyaltyPilot account was temporarily locked',
+        heading: '🔒 Account temporarily locked',
+        body: `<p>Hi {{firstName}},</p>
+<p>We detected several failed sign-in attempts on your account <strong>{{username}}</strong>, so we locked it for <strong>{{lockMinutes}} minutes</strong>.</p>
+<div class="box">
+  <p>Last attempt from IP address: <strong>{{ipAddress}}</strong></p>
+</div>
+<p>If it was you, wait until the lock expires and try again. If it wasn't, we recommend changing your password:</p>
+{{> button url=resetLink label="Change password"}}`,
+      },
+      es: {
+        subject: '🔒 Tu cuenta de LoyaltyPilot se bloqueó temporalmente',
+        heading: '🔒 Cuenta bloqueada temporalmente',
+        body: `<p>Hola {{firstName}},</p>
+<p>Detectamos varios intentos fallidos de inicio de sesión en tu cuenta <strong>{{username}}</strong>, por lo que la bloqueamos durante <strong>{{lockMinutes}} minutos</strong>.</p>
+<div class="box">
+  <p>Último intento desde la dirección IP: <strong>{{ipAddress}}</strong></p>
+</div>
+<p>Si fuiste tú, espera a que termine el bloqueo y vuelve a intentarlo. Si no, te recomendamos cambiar tu contraseña:</p>
+{{> button url=resetLink label="Cambiar Contraseña"}}`,
+      },
+      pt: {
+        subject: '🔒 Sua conta do LoyaltyPilot foi bloqueada temporariamente',
+        heading: '🔒 Conta bloqueada temporariamente',
+        body: `<p>Olá {{firstName}},</p>
+<p>Detectamos várias tentativas de login malsucedidas na sua conta <strong>{{username}}</strong>, por isso ela foi bloqueada por <strong>{{lockMinutes}} minutos</strong>.</p>
+<div class="box">
+  <p>Última tentativa do endereço IP: <strong>{{ipAddress}}</strong></p>
+</div>
+<p>Se foi você, aguarde o fim do bloqueio e tente novamente. Caso contrário, recomendamos alterar sua senha:</p>
+{{> button url=resetLink label="Alterar senha"}}`,
+      },
+    },
+  },
+
+  points_expiring: {
+    accent: ['#f59e0b', '#d97706'],
+    variables: ['firstName', 'lastName', 'points', 'expirationDate', 'rewardsLink'],
+    sample: { firstName: 'Ana', lastName: 'García', points: '1,200', expirationDate: '30/11/2026', rewardsLink: `${APP_URL}/rewards` },
+    locales: {
+      en: {
+        subject: '⏳ Your points are about to expire',
+        heading: '⏳ Points about to expire',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>This is a reminder that some of your points will expire soon.</p>
+<div class="box">
+  <p class="highlight">{{points}} points</p>
+  <p style="text-align: center;">expire on <strong>{{expirationDate}}</strong></p>
+</div>
+<p>Redeem them before that date so you don't lose them.</p>
+{{> button url=rewardsLink label="View rewards"}}`,
+      },
+      es: {
+        subject: '⏳ Tus puntos están por vencer',
+        heading: '⏳ Puntos por vencer',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Te recordamos que parte de tus puntos vencerá pronto.</p>
+<div class="box">
+  <p class="highlight">{{points}} puntos</p>
+  <p style="text-align: center;">vencen el <strong>{{expirationDate}}</strong></p>
+</div>
+<p>Canjéalos antes de esa fecha para no perderlos.</p>
+{{> button url=rewardsLink label="Ver Recompensas"}}`,
+      },
+      pt: {
+        subject: '⏳ Seus pontos estão prestes a vencer',
+        heading: '⏳ Pontos prestes a vencer',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Lembramos que parte dos seus pontos vencerá em breve.</p>
+<div class="box">
+  <p class="highlight">{{points}} pontos</p>
+  <p style="text-align: center;">vencem em <strong>{{expirationDate}}</strong></p>
+</div>
+<p>Resgate-os antes dessa data para não perdê-los.</p>
+{{> button url=rewardsLink label="Ver recompensas"}}`,
+      },
+    },
+  },
+
+  partner_digest: {
+    accent: ['#0ea5e9', '#0284c7'],
+    variables: [
+      'firstName', 'lastName', 'periodStart', 'periodEnd', 'pointsEarned', 'availablePoints', 'rank',
+      'goals', 'goalTarget', 'prizeName', 'goalReached', 'rewardsList', 'activityList', 'dashboardLink',
+    ],
+    sample: {
+      firstName: 'Ana',
+      lastName: 'García',
+      periodStart: '05/10/2026',
+      periodEnd: '11/10/2026',
+      pointsEarned: '350',
+      availablePoints: '4,200',
+      rank: '7',
+      goals: '6.5',
+      goalTarget: '10',
+      prizeName: 'Smartwatch',
+      goalReached: '',
+      rewardsList: '<ul><li><strong>e-Gift Card $25</strong> — 2,500</li><li><strong>Headphones</strong> — 4,000</li></ul>',
+      activityList: '<ul><li><strong>¡Deal Aprobado!</strong> — Tu deal ha sido aprobado y has ganado 350 puntos.</li></ul>',
+      dashboardLink: APP_URL,
+    },
+    locales: {
+      en: {
+        subject: '📬 Your weekly summary',
+        heading: '📬 Your week in the Loyalty Program',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>This is your summary for the week of {{periodStart}} to {{periodEnd}}.</p>
+<div class="box">
+  <p class="highlight">+{{pointsEarned}} points</p>
+  <p style="text-align: center;">Available balance: <strong>{{availablePoints}} points</strong></p>
+  {{#if rank}}<p style="text-align: center;">Current ranking position: <strong>#{{rank}}</strong></p>{{/if}}
+</div>
+{{#if goalTarget}}<div class="box">
+  <h3>🎯 Monthly goal</h3>
+  <p>You have <strong>{{goals}}</strong> of <strong>{{goalTarget}}</strong> goals for <strong>{{prizeName}}</strong>.</p>
+  {{#if goalReached}}<p>You already reached the goal, congratulations!</p>{{/if}}
+</div>{{/if}}
+{{#if rewardsList}}<h3>🎁 Rewards you can redeem now (points)</h3>
+{{{rewardsList}}}{{/if}}
+{{#if activityList}}<h3>🔔 Recent activity</h3>
+{{{activityList}}}{{/if}}
+{{> button url=dashboardLink label="View my dashboard"}}
+<p class="muted">You can choose what goes into this summary, or stop receiving it, from your profile.</p>`,
+      },
+      es: {
+        subject: '📬 Tu resumen semanal',
+        heading: '📬 Tu semana en el Loyalty Program',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Este es tu resumen de la semana del {{periodStart}} al {{periodEnd}}.</p>
+<div class="box">
+  <p class="highlight">+{{pointsEarned}} puntos</p>
+  <p style="text-align: center;">Saldo disponible: <strong>{{availablePoints}} puntos</strong></p>
+  {{#if rank}}<p style="text-align: center;">Posición actual en el ranking: <strong>#{{rank}}</strong></p>{{/if}}
+</div>
+{{#if goalTarget}}<div class="box">
+  <h3>🎯 Meta del mes</h3>
+  <p>Llevas <strong>{{goals}}</strong> de <strong>{{goalTarget}}</strong> goles para <strong>{{prizeName}}</strong>.</p>
+  {{#if goalReached}}<p>¡Ya alcanzaste la meta, felicitaciones!</p>{{/if}}
+</div>{{/if}}
+{{#if rewardsList}}<h3>🎁 Recompensas que ya puedes canjear (puntos)</h3>
+{{{rewardsList}}}{{/if}}
+{{#if activityList}}<h3>🔔 Actividad reciente</h3>
+{{{activityList}}}{{/if}}
+{{> button url=dashboardLink label="Ver Mi Dashboard"}}
+<p class="muted">Puedes elegir qué incluye este resumen, o dejar de recibirlo, desde tu perfil.</p>`,
+      },
+      pt: {
+        subject: '📬 Seu resumo semanal',
+        heading: '📬 Sua semana no Loyalty Program',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<p>Este é o seu resumo da semana de {{periodStart}} a {{periodEnd}}.</p>
+<div class="box">
+  <p class="highlight">+{{pointsEarned}} pontos</p>
+  <p style="text-align: center;">Saldo disponível: <strong>{{availablePoints}} pontos</strong></p>
+  {{#if rank}}<p style="text-align: center;">Posição atual no ranking: <strong>#{{rank}}</strong></p>{{/if}}
+</div>
+{{#if goalTarget}}<div class="box">
+  <h3>🎯 Meta do mês</h3>
+  <p>Você tem <strong>{{goals}}</strong> de <strong>{{goalTarget}}</strong> gols para <strong>{{prizeName}}</strong>.</p>
+  {{#if goalReached}}<p>Você já atingiu a meta, parabéns!</p>{{/if}}
+</div>{{/if}}
+{{#if rewardsList}}<h3>🎁 Recompensas que você já pode resgatar (pontos)</h3>
+{{{rewardsList}}}{{/if}}
+{{#if activityList}}<h3>🔔 Atividade recente</h3>
+{{{activityList}}}{{/if}}
+{{> button url=dashboardLink label="Ver meu painel"}}
+<p class="muted">Você pode escolher o que entra neste resumo, ou deixar de recebê-lo, no seu perfil.</p>`,
+      },
+    },
+  },
+
+  admin_digest: {
+    accent: ['#f97316', '#ea580c'],
+    variables: ['adminFirstName', 'region', 'periodEnd', 'pendingDeals', 'pendingRedemptions', 'pendingUsers', 'openTickets', 'adminLink'],
+    sample: {
+      adminFirstName: 'Carlos',
+      region: 'NOLA',
+      periodEnd: '11/10/2026',
+      pendingDeals: '12',
+      pendingRedemptions: '3',
+      pendingUsers: '2',
+      openTickets: '5',
+      adminLink: `${APP_URL}/admin`,
+    },
+    locales: {
+      en: {
+        subject: '📋 Weekly summary: items pending review',
+        heading: '📋 Weekly admin summary',
+        body: `<p>Hi <strong>{{adminFirstName}}</strong>,</p>
+<p>These are the items waiting for review{{#if region}} in <strong>{{region}}</strong>{{/if}} as of {{periodEnd}}.</p>
+<div class="box">
+  <p><strong>Pending deals:</strong> {{pendingDeals}}</p>
+  <p><strong>Pending redemptions:</strong> {{pendingRedemptions}}</p>
+  <p><strong>Users awaiting approval:</strong> {{pendingUsers}}</p>
+  <p><strong>Open support tickets:</strong> {{openTickets}}</p>
+</div>
+{{> button url=adminLink label="Go to the admin panel"}}`,
+      },
+      es: {
+        subject: '📋 Resumen semanal: pendientes de revisión',
+        heading: '📋 Resumen semanal de administración',
+        body: `<p>Hola <strong>{{adminFirstName}}</strong>,</p>
+<p>Estos son los pendientes de revisión{{#if region}} en <strong>{{region}}</strong>{{/if}} al {{periodEnd}}.</p>
+<div class="box">
+  <p><strong>Deals pendientes:</strong> {{pendingDeals}}</p>
+  <p><strong>Redenciones pendientes:</strong> {{pendingRedemptions}}</p>
+  <p><strong>Usuarios por aprobar:</strong> {{pendingUsers}}</p>
+  <p><strong>Tickets de soporte abiertos:</strong> {{openTickets}}</p>
+</div>
+{{> button url=adminLink label="Ir al Panel Admin"}}`,
+      },
+      pt: {
+        subject: '📋 Resumo semanal: pendências de revisão',
+        heading: '📋 Resumo semanal de administração',
+        body: `<p>Olá <strong>{{adminFirstName}}</strong>,</p>
+<p>Estas são as pendências de revisão{{#if region}} em <strong>{{region}}</strong>{{/if}} em {{periodEnd}}.</p>
+<div class="box">
+  <p><strong>Deals pendentes:</strong> {{pendingDeals}}</p>
+  <p><strong>Resgates pendentes:</strong> {{pendingRedemptions}}</p>
+  <p><strong>Usuários aguardando aprovação:</strong> {{pendingUsers}}</p>
+  <p><strong>Tickets de suporte abertos:</strong> {{openTickets}}</p>
+</div>
+{{> button url=adminLink label="Ir para o painel admin"}}`,
+      },
+    },
+  },
+
+  notification: {
+    accent: ['#667eea', '#764ba2'],
+    variables: ['firstName', 'lastName', 'title', 'message', 'actionLink'],
+    sample: { firstName: 'Ana', lastName: 'García', title: 'Respuesta a tu Ticket', message: 'Tu ticket "Problema con mi canje" ha recibido una respuesta del equipo de soporte.', actionLink: APP_URL },
+    locales: {
+      en: {
+        subject: '🔔 {{title}}',
+        heading: '🔔 New notification',
+        body: `<p>Hi <strong>{{firstName}} {{lastName}}</strong>,</p>
+<div class="box">
+  <h3>{{title}}</h3>
+  <p>{{message}}</p>
+</div>
+{{> button url=actionLink label="Open the platform"}}
+<p class="muted">You can choose which notifications you receive by email from your profile.</p>`,
+      },
+      es: {
+        subject: '🔔 {{title}}',
+        heading: '🔔 Nueva notificación',
+        body: `<p>Hola <strong>{{firstName}} {{lastName}}</strong>,</p>
+<div class="box">
+  <h3>{{title}}</h3>
+  <p>{{message}}</p>
+</div>
+{{> button url=actionLink label="Abrir la plataforma"}}
+<p class="muted">Puedes elegir qué avisos recibes por email desde tu perfil.</p>`,
+      },
+      pt: {
+        subject: '🔔 {{title}}',
+        heading: '🔔 Nova notificação',
+        body: `<p>Olá <strong>{{firstName}} {{lastName}}</strong>,</p>
+<div class="box">
+  <h3>{{title}}</h3>
+  <p>{{message}}</p>
+</div>
+{{> button url=actionLink label="Abrir la plataforma"}}
+<p class="muted">Você pode escolher quais avisos recebe por e-mail no seu perfil.</p>`,
+      },
+    },
+  },
+};
+
+// ─── Renderizado ───────────────────────────────────────────────────────────
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Mini-motor de plantillas: {{var}} (escapado), {{{var}}} (HTML sin escapar),
+ * {{#if var}}...{{/if}} (anidables) y partials {{> nombre arg=variable arg2="literal"}}.
+ * Lanza si la plantilla usa un partial desconocido o un bloque sin cerrar.
+ */
+export function renderTemplateString(
+  template: string,
+  variables: EmailTemplateVariables,
+  language: EmailLanguage,
+  escapeValues: boolean = true,
+): string {
+  const valueOf = (name: string) => {
+    const value = variables[name];
+    return value === null || value === undefined ? '' : String(value);
+  };
+
+  let output = template.replace(/\{\{>\s*(\w+)((?:\s+\w+=(?:"[^"]*"|\w+))*)\s*\}\}/g, (_match, name: string, rawArgs: string) => {
+    const partial = PARTIALS[name];
+    if (!partial) {
+      throw new Error(`Unknown partial "${name}"`);
+    }
+    const args: EmailTemplateVariables = {};
+    for (const [, key, literal, reference] of Array.from(rawArgs.matchAll(/(\w+)=(?:"([^"]*)"|(\w+))/g))) {
+      args[key] = literal ?? valueOf(reference);
+    }
+    return renderTemplateString(partial(language), args, language);
+  });
+
+  // Se resuelven primero los bloques más internos para admitir {{#if}} anidados
+  const innermostIf = /\{\{#if\s+(\w+)\s*\}\}((?:(?!\{\{#if)[\s\S])*?)\{\{\/if\}\}/g;
+  let previous: string;
+  do {
+    previous = output;
+    output = output.replace(innermostIf, (_match, name: string, block: string) => (valueOf(name) ? block : ''));
+  } while (output !== previous);
+  if (/\{\{[#/]/.test(output)) {
+    throw new Error('Unbalanced {{#if}} block');
+  }
+
+  return output
+    .replace(/\{\{\{\s*(\w+)\s*\}\}\}/g, (_match, name: string) => valueOf(name))
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, name: string) => (escapeValues ? escapeHtml(valueOf(name)) : valueOf(name)));
+}
+
+/**
+ * Lista HTML para variables sin escapar ({{{var}}}): cada ítem es un título en negrita y un detalle opcional
+ */
+export function renderEmailList(items: Array<{ title: string; detail?: string }>): string {
+  if (items.length === 0) return '';
+  const rows = items.map(({ title, detail }) =>
+    `<li><strong>${escapeHtml(title)}</strong>${detail ? ` — ${escapeHtml(detail)}` : ''}</li>`,
+  );
+  return `<ul>${rows.join('')}</ul>`;
+}
+
+// Versión en texto plano para clientes sin HTML, derivada del HTML ya renderizado
+function htmlToText(html: string): string {
+  const body = html.replace(/^[\s\S]*<body>/, '').replace(/<\/body>[\s\S]*$/, '');
+  return body
+    .replace(/<a [^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/g, (_match, href: string, label: string) =>
+      label.trim() === href ? href : `${label.trim()} (${href})`,
+    )
+    .replace(/<li[^>]*>/g, '- ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h\d|ul)>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&copy;/g, '©')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Idioma del email para un destinatario: su preferencia, o el de su región, o español
+ */
+export function resolveEmailLanguage(recipient: { preferredLanguage?: string | null; region?: Region | null }): EmailLanguage {
+  const preferred = recipient.preferredLanguage as EmailLanguage | null | undefined;
+  if (preferred && EMAIL_LANGUAGES.includes(preferred)) {
+    return preferred;
+  }
+  return recipient.region ? REGION_DEFAULT_LANGUAGE[recipient.region] : FALLBACK_LANGUAGE;
+}
+
+export function formatEmailNumber(value: number | string, language: EmailLanguage): string {
+  return Number(value).toLocaleString(DATE_LOCALES[language]);
+}
+
+export function formatEmailDate(date: Date, language: EmailLanguage): string {
+  return date.toLocaleDateString(DATE_LOCALES[language], { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Renderiza una plantilla en el idioma indicado. Si hay región se usa el texto
+ * personalizado por un super-admin para esa región e idioma, si existe; `draft`
+ * permite previsualizar un texto aún sin guardar.
+ */
+export async function renderEmailTemplate(
+  key: EmailTemplateKey,
+  language: EmailLanguage,
+  region: Region | null | undefined,
+  variables: EmailTemplateVariables,
+  draft?: Partial<EmailTemplateContent>,
+): Promise<RenderedEmail> {
+  const template = EMAIL_TEMPLATES[key];
+  const defaults = template.locales[language];
+  const override = region ? await storage.getEmailTemplateOverride(key, language, region) : undefined;
+
+  const content = {
+    subject: draft?.subject || override?.subject || defaults.subject,
+    body: draft?.body || override?.body || defaults.body,
+  };
+  const scope = { appUrl: APP_URL, ...variables };
+
+  // El asunto es texto plano: no se escapa HTML en él
+  const subject = renderTemplateString(content.subject, scope, language, false);
+  const html = renderLayout(language, defaults.heading, template.accent, renderTemplateString(content.body, scope, language));
+
+  return { subject, html, text: htmlToText(html) };
+}
+
+export function getEmailTemplateSample(key: EmailTemplateKey): EmailTemplateVariables {
+  return EMAIL_TEMPLATES[key].sample;
+}
+
+export function getEmailTemplateCatalog(): EmailTemplateSummary[] {
+  return EMAIL_TEMPLATE_KEYS.map((key) => ({
+    key,
+    variables: EMAIL_TEMPLATES[key].variables,
+    defaults: Object.fromEntries(
+      EMAIL_LANGUAGES.map((language) => {
+        const { subject, body } = EMAIL_TEMPLATES[key].locales[language];
+        return [language, { subject, body }];
+      }),
+    ),
+  }));
+}
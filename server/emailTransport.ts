@@ -0,0 +1,137 @@
+import * as brevo from '@getbrevo/brevo';
+import nodemailer from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+const FROM_EMAIL = process.env.FROM_EMAIL || 'noreply@loyaltyprogram.com';
+const FROM_NAME = process.env.FROM_NAME || 'Loyalty Program Platform';
+
+export interface EmailMessage {
+  to: { email: string; name?: string };
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export interface EmailSendResult {
+  messageId?: string;
+}
+
+/**
+ * Driver de envío de emails. Lanza si el proveedor rechaza el mensaje:
+ * el outbox decide si reintentar o dejarlo como fallido.
+ */
+export interface EmailTransport {
+  readonly name: 'brevo' | 'smtp' | 'file';
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+class BrevoTransport implements EmailTransport {
+  readonly name = 'brevo' as const;
+  private api = new brevo.TransactionalEmailsApi();
+
+  constructor(apiKey: string) {
+    this.api.setApiKey(brevo.TransactionalEmailsApiApiKeys.apiKey, apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const sendSmtpEmail = new brevo.SendSmtpEmail();
+    sendSmtpEmail.to = [message.to];
+    sendSmtpEmail.sender = { email: FROM_EMAIL, name: FROM_NAME };
+    sendSmtpEmail.subject = message.subject;
+    sendSmtpEmail.htmlContent = message.html;
+    if (message.text) {
+      sendSmtpEmail.textContent = message.text;
+    }
+
+    const { body } = await this.api.sendTransacEmail(sendSmtpEmail);
+    return { messageId: body.messageId };
+  }
+}
+
+class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor(host: string) {
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: { address: FROM_EMAIL, name: FROM_NAME },
+      to: message.to.name ? { address: message.to.email, name: message.to.name } : message.to.email,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Buzón local para desarrollo y pruebas: cada email se guarda como un .json con
+ * sus metadatos y un .html para abrirlo en el navegador. No sale nada a internet.
+ */
+class FileTransport implements EmailTransport {
+  readonly name = 'file' as const;
+
+  constructor(private readonly dir: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = randomUUID();
+    const baseName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}`;
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.dir, `${baseName}.json`),
+      JSON.stringify({ messageId, from: FROM_EMAIL, ...message }, null, 2),
+    );
+    await fs.writeFile(path.join(this.dir, `${baseName}.html`), message.html);
+
+    console.log(`📬 Email "${message.subject}" to ${message.to.email} saved in ${path.join(this.dir, baseName)}.html`);
+    return { messageId };
+  }
+}
+
+/**
+ * Elige el driver con EMAIL_TRANSPORT (brevo | smtp | file). Sin configurar usa Brevo si
+ * hay API key, SMTP si hay host y, si no, el buzón local en EMAIL_FILE_DIR.
+ */
+export function createEmailTransport(): EmailTransport {
+  const brevoApiKey = process.env.BREVO_API_KEY || '';
+  const smtpHost = process.env.SMTP_HOST || '';
+  const driver = process.env.EMAIL_TRANSPORT || (brevoApiKey ? 'brevo' : smtpHost ? 'smtp' : 'file');
+
+  switch (driver) {
+    case 'brevo':
+      if (!brevoApiKey) throw new Error('EMAIL_TRANSPORT=brevo requires BREVO_API_KEY');
+      return new BrevoTransport(brevoApiKey);
+    case 'smtp':
+      if (!smtpHost) throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+      return new SmtpTransport(smtpHost);
+    case 'file':
+      return new FileTransport(process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.mailbox'));
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${driver}"`);
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+    console.log(`✉️ Email transport: ${transport.name}`);
+  }
+  return transport;
+}
@@ -1,28 +1,22 @@
 import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
-import session from "express-session";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeSocket } from "./socket";
+import { startEmailOutboxWorker } from "./emailOutbox";
+import { startJobScheduler } from "./jobScheduler";
+import { sessionMiddleware, trackSessionActivity } from "./session";
+import "./scheduledJobs";
 
 
 const app = express();
+// La app corre detrás del proxy de Replit: req.ip debe ser la IP del cliente (límites de acceso por IP, sesiones)
+app.set("trust proxy", 1);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Session configuration
-app.use(
-  session({
-    secret: process.env.SESSION_SECRET || "your-secret-key-here",
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: false, // Set to true in production with HTTPS
-      httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000, // 24 hours
-    },
-  }),
-);
+app.use(sessionMiddleware);
+app.use(trackSessionActivity);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -58,7 +52,13 @@ app.use((req, res, next) => {
   const server = await registerRoutes(app);
 
   // Inicializar Socket.IO
-  initializeSocket(server);
+  initializeSocket(server, sessionMiddleware);
+
+  // Envío y reintentos de los emails en el outbox (sigue la cola, no un horario)
+  startEmailOutboxWorker();
+
+  // Tareas programadas: vencimientos, SLA de soporte, resumen semanal, cierres mensuales...
+  await startJobScheduler();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
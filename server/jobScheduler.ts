@@ -0,0 +1,201 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { getNextCronRun, parseCronExpression } from "./cron";
+import type { JobRun, JobRunProgress, ScheduledJobWithRuns } from "@shared/schema";
+
+// Cada instancia revisa las tareas vencidas cada 30 s; el bloqueo en la BD evita que dos instancias ejecuten la misma
+const TICK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+const RECENT_RUNS_LIMIT = 10;
+
+// Identifica a esta instancia en los bloqueos y en el historial
+const INSTANCE_ID = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+
+export type JobTrigger = "schedule" | "manual";
+
+export interface JobContext {
+  runId: string;
+  trigger: JobTrigger;
+  triggeredBy: string | null;
+  startedAt: Date;
+  // Opciones de una ejecución manual; las programadas corren sin opciones
+  params: Record<string, unknown>;
+  reportProgress: (progress: JobRunProgress) => Promise<void>;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  defaultSchedule: string; // Cron de 5 campos en UTC; un super-admin puede cambiarlo
+  enabledByDefault?: boolean;
+  // Tiempo máximo sin renovar el bloqueo antes de que otra instancia pueda tomar la tarea
+  lockTtlMs?: number;
+  run: (context: JobContext) => Promise<object | void>;
+}
+
+const registry = new Map<string, JobDefinition>();
+const runningJobs = new Set<string>();
+let tickTimer: NodeJS.Timeout | undefined;
+let isTicking = false;
+
+export function registerJob(definition: JobDefinition): void {
+  parseCronExpression(definition.defaultSchedule);
+  registry.set(definition.name, definition);
+}
+
+export function getJobDefinition(name: string): JobDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Toma el bloqueo de la tarea y registra la ejecución. Devuelve null si otra instancia
+ * (o esta misma) ya la está ejecutando, o si por horario ya no le toca.
+ */
+async function claimJob(
+  definition: JobDefinition,
+  trigger: JobTrigger,
+  triggeredBy: string | null,
+  params: Record<string, unknown> = {},
+): Promise<{ run: JobRun; execution: Promise<JobRun> } | null> {
+  const now = new Date();
+  const lockTtlMs = definition.lockTtlMs ?? DEFAULT_LOCK_TTL_MS;
+  const acquired = await storage.acquireJobLock(
+    definition.name,
+    INSTANCE_ID,
+    now,
+    new Date(now.getTime() + lockTtlMs),
+    trigger === "schedule",
+  );
+  if (!acquired) return null;
+
+  try {
+    await storage.failInterruptedJobRuns(definition.name);
+    const run = await storage.createJobRun({
+      jobName: definition.name,
+      trigger,
+      triggeredBy,
+      instanceId: INSTANCE_ID,
+      params,
+    });
+    return { run, execution: executeJob(definition, run, lockTtlMs) };
+  } catch (error) {
+    await storage.releaseJobLock(definition.name, INSTANCE_ID, { lastRunAt: now, lastStatus: "failed" });
+    throw error;
+  }
+}
+
+async function executeJob(definition: JobDefinition, run: JobRun, lockTtlMs: number): Promise<JobRun> {
+  runningJobs.add(definition.name);
+  // Renueva el bloqueo mientras la tarea siga corriendo
+  const heartbeat = setInterval(() => {
+    storage
+      .extendJobLock(definition.name, INSTANCE_ID, new Date(Date.now() + lockTtlMs))
+      .catch((error) => console.error(`Job ${definition.name} lock renewal error:`, error));
+  }, lockTtlMs / 2);
+
+  let finished: JobRun;
+  try {
+    const result = await definition.run({
+      runId: run.id,
+      trigger: run.trigger as JobTrigger,
+      triggeredBy: run.triggeredBy,
+      startedAt: run.startedAt,
+      params: run.params,
+      reportProgress: (progress) => storage.updateJobRunProgress(run.id, progress),
+    });
+    finished = await storage.finishJobRun(run.id, "succeeded", (result ?? null) as Record<string, unknown> | null, null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${definition.name} failed:`, error);
+    finished = await storage.finishJobRun(run.id, "failed", null, message);
+  } finally {
+    clearInterval(heartbeat);
+    runningJobs.delete(definition.name);
+  }
+
+  // Las ejecuciones manuales no corren el próximo horario programado
+  const job = await storage.getScheduledJob(definition.name);
+  await storage.releaseJobLock(definition.name, INSTANCE_ID, {
+    lastRunAt: run.startedAt,
+    lastStatus: finished.status,
+    nextRunAt: run.trigger === "schedule" && job ? getNextCronRun(job.schedule, new Date()) : undefined,
+  });
+  return finished;
+}
+
+/**
+ * Ejecuta una tarea fuera de horario. Devuelve la ejecución recién creada; la tarea sigue
+ * en segundo plano. Lanza si la tarea no existe o ya está corriendo.
+ */
+export async function startJobNow(
+  name: string,
+  triggeredBy: string,
+  params: Record<string, unknown> = {},
+): Promise<JobRun> {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Unknown job "${name}"`);
+  }
+  const claimed = await claimJob(definition, "manual", triggeredBy, params);
+  if (!claimed) {
+    throw new Error("This job is already running");
+  }
+  claimed.execution.catch((error) => console.error(`Job ${name} bookkeeping error:`, error));
+  return claimed.run;
+}
+
+/**
+ * Tareas registradas con su estado y últimas ejecuciones
+ */
+export async function getScheduledJobsOverview(): Promise<ScheduledJobWithRuns[]> {
+  const jobs = await storage.getScheduledJobs();
+  const now = new Date();
+  return Promise.all(
+    jobs
+      .filter((job) => registry.has(job.name))
+      .map(async (job) => ({
+        ...job,
+        description: registry.get(job.name)!.description,
+        running: Boolean(job.lockedUntil && job.lockedUntil > now),
+        recentRuns: await storage.getJobRuns(job.name, RECENT_RUNS_LIMIT),
+      })),
+  );
+}
+
+async function tick(): Promise<void> {
+  // Evita revisiones solapadas; las tareas tomadas corren en paralelo y no bloquean la revisión
+  if (isTicking) return;
+  isTicking = true;
+  try {
+    const due = await storage.getDueScheduledJobs(new Date());
+    for (const job of due) {
+      const definition = registry.get(job.name);
+      if (!definition || runningJobs.has(job.name)) continue;
+      const claimed = await claimJob(definition, "schedule", null);
+      claimed?.execution.catch((error) => console.error(`Job ${job.name} bookkeeping error:`, error));
+    }
+  } catch (error) {
+    console.error("Job scheduler tick error:", error);
+  } finally {
+    isTicking = false;
+  }
+}
+
+/**
+ * Registra en la BD las tareas definidas y arranca la revisión periódica
+ */
+export async function startJobScheduler(): Promise<void> {
+  if (tickTimer) return;
+  const now = new Date();
+  for (const definition of Array.from(registry.values())) {
+    await storage.ensureScheduledJob(
+      definition.name,
+      definition.defaultSchedule,
+      definition.enabledByDefault ?? true,
+      getNextCronRun(definition.defaultSchedule, now),
+    );
+  }
+  tickTimer = setInterval(tick, TICK_INTERVAL_MS);
+  void tick();
+}
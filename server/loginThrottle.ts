@@ -0,0 +1,145 @@
+import type { Response } from "express";
+import type { LoginThrottle, User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendAccountLockedEmail } from "./email";
+
+// Límites de acceso, guardados en la BD para que valgan igual en todas las instancias.
+// Tras los intentos libres, cada fallo duplica la espera antes del siguiente intento (hasta maxDelayMs);
+// al llegar a lockAfter fallos la clave queda bloqueada lockMs.
+export interface ThrottlePolicy {
+  freeAttempts: number;
+  maxDelayMs: number;
+  lockAfter: number;
+  lockMs: number;
+  resetAfterMs: number; // Sin fallos durante este tiempo el contador vuelve a cero
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const THROTTLE_POLICIES = {
+  // Relleno de credenciales desde una IP contra muchas cuentas
+  loginIp: { freeAttempts: 10, maxDelayMs: 30 * 1000, lockAfter: 50, lockMs: 15 * MINUTE_MS, resetAfterMs: 15 * MINUTE_MS },
+  // Contraseñas (o códigos del segundo factor) probados contra una cuenta
+  account: { freeAttempts: 3, maxDelayMs: 30 * 1000, lockAfter: 10, lockMs: 15 * MINUTE_MS, resetAfterMs: 60 * MINUTE_MS },
+  // Enlaces de acceso y de nueva contraseña: cuenta cada petición, no solo las fallidas
+  emailRequestIp: { freeAttempts: 5, maxDelayMs: 60 * 1000, lockAfter: 20, lockMs: 60 * MINUTE_MS, resetAfterMs: 60 * MINUTE_MS },
+  // Tokens de invitación inválidos
+  inviteIp: { freeAttempts: 5, maxDelayMs: 30 * 1000, lockAfter: 20, lockMs: 60 * MINUTE_MS, resetAfterMs: 60 * MINUTE_MS },
+} satisfies Record<string, ThrottlePolicy>;
+
+export const throttleKeys = {
+  loginIp: (ipAddress: string) => `login-ip:${ipAddress}`,
+  account: (userId: string) => `account:${userId}`,
+  // Identificador que no corresponde a ninguna cuenta: se limita igual para no revelar si existe
+  unknownAccount: (identifier: string) => `login:${identifier.trim().toLowerCase()}`,
+  emailRequestIp: (ipAddress: string) => `email-request-ip:${ipAddress}`,
+  inviteIp: (ipAddress: string) => `invite-ip:${ipAddress}`,
+};
+
+export interface ThrottleCheck {
+  key: string;
+  policy: ThrottlePolicy;
+}
+
+export interface ThrottleBlock {
+  retryAfterMs: number;
+  locked: boolean;
+}
+
+function getThrottleBlock(throttle: LoginThrottle, policy: ThrottlePolicy, now: Date): ThrottleBlock | null {
+  if (throttle.lockedUntil && throttle.lockedUntil > now) {
+    return { retryAfterMs: throttle.lockedUntil.getTime() - now.getTime(), locked: true };
+  }
+  if (now.getTime() - throttle.lastFailureAt.getTime() > policy.resetAfterMs || throttle.failures < policy.freeAttempts) {
+    return null;
+  }
+
+  const delayMs = Math.min(1000 * 2 ** (throttle.failures - policy.freeAttempts), policy.maxDelayMs);
+  const retryAfterMs = throttle.lastFailureAt.getTime() + delayMs - now.getTime();
+  return retryAfterMs > 0 ? { retryAfterMs, locked: false } : null;
+}
+
+/**
+ * Devuelve la espera más larga que imponen las claves indicadas, o null si se puede intentar ya
+ */
+export async function checkThrottles(checks: ThrottleCheck[], now: Date = new Date()): Promise<ThrottleBlock | null> {
+  const throttles = await storage.getLoginThrottles(checks.map((check) => check.key));
+
+  let block: ThrottleBlock | null = null;
+  for (const throttle of throttles) {
+    const policy = checks.find((check) => check.key === throttle.key)!.policy;
+    const current = getThrottleBlock(throttle, policy, now);
+    if (current && (!block || current.retryAfterMs > block.retryAfterMs)) {
+      block = current;
+    }
+  }
+  return block;
+}
+
+/**
+ * Suma un intento fallido y bloquea la clave si llega al límite; devuelve si el bloqueo empieza ahora
+ */
+export async function recordThrottleFailure(
+  { key, policy }: ThrottleCheck,
+  details: { userId?: string | null; ipAddress: string | null },
+  now: Date = new Date(),
+): Promise<boolean> {
+  const throttle = await storage.recordLoginFailure(
+    key,
+    { userId: details.userId ?? null, ipAddress: details.ipAddress },
+    now,
+    policy.resetAfterMs,
+  );
+  if (throttle.failures < policy.lockAfter) {
+    return false;
+  }
+  return await storage.lockLoginThrottle(key, new Date(now.getTime() + policy.lockMs), now);
+}
+
+/**
+ * Registra un acceso fallido contra la IP y la cuenta; si la cuenta queda bloqueada se avisa al usuario
+ */
+export async function recordLoginFailure(
+  ipAddress: string,
+  account: { user?: User; identifier: string },
+  now: Date = new Date(),
+): Promise<void> {
+  await recordThrottleFailure({ key: throttleKeys.loginIp(ipAddress), policy: THROTTLE_POLICIES.loginIp }, { ipAddress }, now);
+
+  const { user } = account;
+  const accountKey = user ? throttleKeys.account(user.id) : throttleKeys.unknownAccount(account.identifier);
+  const lockedNow = await recordThrottleFailure(
+    { key: accountKey, policy: THROTTLE_POLICIES.account },
+    { userId: user?.id, ipAddress },
+    now,
+  );
+
+  if (lockedNow && user) {
+    console.warn(`🔒 Account ${user.username} locked after repeated failed sign-ins (last IP ${ipAddress})`);
+    await sendAccountLockedEmail({
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      preferredLanguage: user.preferredLanguage,
+      region: user.region,
+      username: user.username,
+      ipAddress,
+      lockMinutes: THROTTLE_POLICIES.account.lockMs / MINUTE_MS,
+    });
+  }
+}
+
+/**
+ * Responde 429 con Retry-After cuando un límite impide intentarlo todavía
+ */
+export function rejectThrottled(res: Response, block: ThrottleBlock) {
+  const retryAfterSeconds = Math.ceil(block.retryAfterMs / 1000);
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res.status(429).json({
+    message: block.locked
+      ? `Too many failed attempts. Access is temporarily locked; try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`
+      : `Too many attempts. Try again in ${retryAfterSeconds} seconds.`,
+    retryAfterSeconds,
+    locked: block.locked,
+  });
+}
@@ -1,7 +1,16 @@
-import { getIO } from "./socket";
-import type { InsertNotification, Notification } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { emitToAdmins, emitToUser } from "./socket";
+import type { Deal, InsertNotification, Notification, Reward, User } from "@shared/schema";
+import type { NotificationEvent } from "@shared/constants";
 import { db } from "./db";
-import { notifications } from "@shared/schema";
+import { notifications, users } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  sendDealApprovedEmail,
+  sendNotificationEmail,
+  sendPointsExpiringEmail,
+  sendRedemptionApprovedEmail,
+} from "./email";
 
 /**
  * Crea una notificación en la BD y la emite en tiempo real vía Socket.IO
@@ -15,66 +24,143 @@ export async function createAndEmitNotification(
     .values(notification)
     .returning();
 
-  // Emitir evento Socket.IO para que el usuario la reciba en tiempo real
-  const io = getIO();
-  io.emit(`notification:${notification.userId}`, newNotification);
+  // Emitir evento Socket.IO solo a la room del usuario
+  emitToUser(notification.userId, "notification", newNotification);
   
-  // También emitir a todos los admins si es una notificación importante
+  // También emitir a los admins de la región del usuario si es una notificación importante
   if (notification.type === 'warning' || notification.type === 'error') {
-    io.emit('notification:admins', newNotification);
+    const [user] = await db
+      .select({ region: users.region })
+      .from(users)
+      .where(eq(users.id, notification.userId));
+    emitToAdmins(user?.region, "notification:admins", newNotification);
   }
 
   return newNotification;
 }
 
+interface DispatchOptions {
+  // Email propio del evento; sin él se envía la plantilla genérica con el título y el mensaje
+  email?: (user: User) => Promise<unknown>;
+  // Pantalla a la que lleva el botón del email genérico
+  actionPath?: string;
+}
+
+/**
+ * Entrega un aviso de un evento configurable por los canales que el usuario tiene activos:
+ * notificación in-app, email y/o el resumen periódico. Devuelve la notificación in-app si se creó.
+ */
+export async function dispatchNotification(
+  userId: string,
+  event: NotificationEvent,
+  notification: Omit<InsertNotification, "userId">,
+  options: DispatchOptions = {}
+): Promise<Notification | null> {
+  const preferences = await storage.getNotificationPreferences(userId);
+  const channels = preferences.find((preference) => preference.eventType === event);
+  if (!channels) return null;
+
+  const created = channels.inApp
+    ? await createAndEmitNotification({ ...notification, userId })
+    : null;
+
+  if (channels.email) {
+    const user = await storage.getUser(userId);
+    if (user?.isActive) {
+      if (options.email) {
+        await options.email(user);
+      } else {
+        await sendNotificationEmail(user, {
+          title: notification.title,
+          message: notification.message,
+          actionPath: options.actionPath,
+        });
+      }
+    }
+  }
+
+  if (channels.digest) {
+    await storage.addNotificationDigestItem({
+      userId,
+      eventType: event,
+      title: notification.title,
+      message: notification.message,
+    });
+  }
+
+  return created;
+}
+
 /**
- * Helper para crear notificaciones de diferentes tipos
+ * Helper para crear notificaciones de diferentes tipos. Los avisos al partner de eventos
+ * configurables pasan por dispatchNotification; los avisos operativos a admins van siempre in-app.
  */
 export const NotificationHelpers = {
   // Deal aprobado
-  dealApproved: (userId: string, dealId: string, points: number) =>
-    createAndEmitNotification({
-      userId,
+  dealApproved: (userId: string, deal: Pick<Deal, "productName" | "dealValue">, points: number, campaignName?: string) =>
+    dispatchNotification(userId, "deal_approved", {
       title: "¡Deal Aprobado!",
-      message: `Tu deal ha sido aprobado y has ganado ${points} puntos.`,
+      message: campaignName
+        ? `Tu deal ha sido aprobado y has ganado ${points} puntos (incluye bonificación de la campaña "${campaignName}").`
+        : `Tu deal ha sido aprobado y has ganado ${points} puntos.`,
       type: "success",
+    }, {
+      email: (user) => sendDealApprovedEmail(user, {
+        productName: deal.productName,
+        dealValue: deal.dealValue,
+        pointsEarned: points,
+      }),
     }),
 
   // Deal rechazado
-  dealRejected: (userId: string, dealId: string) =>
-    createAndEmitNotification({
-      userId,
+  dealRejected: (userId: string, dealId: string, reason: string) =>
+    dispatchNotification(userId, "deal_rejected", {
       title: "Deal Rechazado",
-      message: "Tu deal ha sido rechazado. Por favor revisa los detalles y vuelve a intentarlo.",
+      message: `Tu deal ha sido rechazado. Motivo: ${reason}`,
       type: "warning",
+    }, { actionPath: "/deals" }),
+
+  // Puntos de un deal aprobado ajustados tras una edición del admin
+  dealPointsAdjusted: (userId: string, productName: string, delta: number) =>
+    createAndEmitNotification({
+      userId,
+      title: "Puntos Ajustados",
+      message: delta > 0
+        ? `Tu deal "${productName}" fue actualizado y has recibido ${delta} puntos adicionales.`
+        : `Tu deal "${productName}" fue actualizado y se descontaron ${Math.abs(delta)} puntos.`,
+      type: "info",
     }),
 
   // Recompensa redimida (pendiente aprobación)
   rewardRedeemed: (userId: string, rewardName: string, pointsUsed: number) =>
-    createAndEmitNotification({
-      userId,
+    dispatchNotification(userId, "redemption_status", {
       title: "Redención Solicitada",
       message: `Has solicitado la recompensa "${rewardName}" por ${pointsUsed} puntos. Está pendiente de aprobación.`,
       type: "info",
-    }),
+    }, { actionPath: "/rewards" }),
 
   // Recompensa aprobada
-  rewardApproved: (userId: string, rewardName: string) =>
-    createAndEmitNotification({
-      userId,
+  rewardApproved: (userId: string, reward: Pick<Reward, "name" | "pointsCost" | "estimatedDeliveryDays">) =>
+    dispatchNotification(userId, "redemption_status", {
       title: "¡Recompensa Aprobada!",
-      message: `Tu redención de "${rewardName}" ha sido aprobada. Pronto recibirás tu recompensa.`,
+      message: `Tu redención de "${reward.name}" ha sido aprobada. Pronto recibirás tu recompensa.`,
       type: "success",
+    }, {
+      email: (user) => sendRedemptionApprovedEmail(user, {
+        rewardName: reward.name,
+        pointsCost: reward.pointsCost,
+        status: "approved",
+        estimatedDeliveryDays: reward.estimatedDeliveryDays || undefined,
+      }),
     }),
 
   // Recompensa rechazada
   rewardRejected: (userId: string, rewardName: string, pointsRefunded: number) =>
-    createAndEmitNotification({
-      userId,
+    dispatchNotification(userId, "redemption_status", {
       title: "Redención Rechazada",
       message: `Tu redención de "${rewardName}" ha sido rechazada. ${pointsRefunded} puntos han sido reembolsados.`,
       type: "warning",
-    }),
+    }, { actionPath: "/rewards" }),
 
   // Estado de envío actualizado
   shipmentUpdated: (userId: string, rewardName: string, status: string) => {
@@ -83,23 +169,39 @@ export const NotificationHelpers = {
       delivered: "¡Tu recompensa ha sido entregada!",
       pending: "Tu recompensa está siendo preparada para el envío.",
     };
-    return createAndEmitNotification({
-      userId,
+    return dispatchNotification(userId, "redemption_status", {
       title: "Actualización de Envío",
       message: `${rewardName}: ${statusMessages[status as keyof typeof statusMessages] || "Estado actualizado"}`,
       type: "info",
-    });
+    }, { actionPath: "/rewards" });
   },
 
   // Ticket de soporte respondido
   supportTicketResponse: (userId: string, ticketSubject: string) =>
-    createAndEmitNotification({
-      userId,
+    dispatchNotification(userId, "ticket_reply", {
       title: "Respuesta a tu Ticket",
       message: `Tu ticket "${ticketSubject}" ha recibido una respuesta del equipo de soporte.`,
       type: "info",
     }),
 
+  // Ticket de soporte asignado a un admin
+  supportTicketAssigned: (adminUserId: string, ticketSubject: string, priority: string) =>
+    createAndEmitNotification({
+      userId: adminUserId,
+      title: "Ticket Asignado",
+      message: `Se te asignó el ticket "${ticketSubject}" (prioridad ${priority}).`,
+      type: "info",
+    }),
+
+  // Ticket sin primera respuesta dentro del SLA, escalado a super-admins
+  supportTicketEscalated: (superAdminId: string, ticketSubject: string, region: string | null) =>
+    createAndEmitNotification({
+      userId: superAdminId,
+      title: "Ticket Escalado",
+      message: `El ticket "${ticketSubject}"${region ? ` (${region})` : ""} superó el plazo de primera respuesta sin ser atendido.`,
+      type: "warning",
+    }),
+
   // Puntos agregados manualmente
   pointsAdded: (userId: string, points: number, reason: string) =>
     createAndEmitNotification({
@@ -109,6 +211,40 @@ export const NotificationHelpers = {
       type: "success",
     }),
 
+  // Puntos próximos a vencer
+  pointsExpiring: (userId: string, points: number, expirationDate: Date) =>
+    dispatchNotification(userId, "points_expiring", {
+      title: "Puntos por Vencer",
+      message: `${points} puntos vencerán el ${expirationDate.toLocaleDateString("es-ES")}. ¡Canjéalos antes de esa fecha!`,
+      type: "warning",
+    }, {
+      email: (user) => sendPointsExpiringEmail(user, { points, expirationDate }),
+    }),
+
+  // Puntos vencidos
+  pointsExpired: (userId: string, points: number) =>
+    dispatchNotification(userId, "points_expiring", {
+      title: "Puntos Vencidos",
+      message: `${points} puntos de tu cuenta han vencido.`,
+      type: "warning",
+    }, { actionPath: "/rewards" }),
+
+  // Ganador del gran premio
+  grandPrizeWon: (userId: string, criteriaName: string, rank: number) =>
+    dispatchNotification(userId, "prize_won", {
+      title: "¡Ganaste el Gran Premio!",
+      message: `¡Felicidades! Quedaste en el puesto #${rank} de "${criteriaName}".`,
+      type: "success",
+    }),
+
+  // Ganador de premio mensual
+  monthlyPrizeWon: (userId: string, prizeName: string, month: number, year: number) =>
+    dispatchNotification(userId, "prize_won", {
+      title: "¡Ganaste un Premio Mensual!",
+      message: `¡Felicidades! Ganaste "${prizeName}" en el cierre de ${String(month).padStart(2, "0")}/${year}.`,
+      type: "success",
+    }),
+
   // Notificación para admins - Nuevo deal pendiente
   newDealPending: (adminUserId: string, userName: string, dealValue: number) =>
     createAndEmitNotification({
@@ -47,17 +47,24 @@ export class ObjectStorageService {
     return dir;
   }
 
-  // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  // Downloads an object to the response. `contentType` overrides the stored metadata,
+  // which is set by whoever uploaded the object and must not be trusted for user uploads.
+  async downloadObject(
+    file: File,
+    res: Response,
+    cacheTtlSec: number = 3600,
+    contentType?: string
+  ) {
     try {
       // Get file metadata
       const [metadata] = await file.getMetadata();
       
       // Set appropriate headers
       res.set({
-        "Content-Type": metadata.contentType || "application/octet-stream",
+        "Content-Type": contentType || metadata.contentType || "application/octet-stream",
         "Content-Length": metadata.size,
         "Cache-Control": `private, max-age=${cacheTtlSec}`,
+        "X-Content-Type-Options": "nosniff",
       });
 
       // Stream the file to the response
@@ -103,6 +110,29 @@ export class ObjectStorageService {
     });
   }
 
+  // Gets an upload URL for a deal proof-of-sale file along with the object path
+  // that the deal will reference once the upload finishes.
+  // The content type is part of the signature, so the upload must declare it.
+  async getDealAttachmentUploadURL(
+    extension: string,
+    contentType: string
+  ): Promise<{ uploadURL: string; objectPath: string }> {
+    const privateObjectDir = this.getPrivateObjectDir();
+    const entityId = `deal-attachments/${randomUUID()}.${extension}`;
+    const { bucketName, objectName } = parseObjectPath(
+      `${privateObjectDir}/${entityId}`
+    );
+
+    const uploadURL = await signObjectURL({
+      bucketName,
+      objectName,
+      method: "PUT",
+      ttlSec: 900,
+      contentType,
+    });
+    return { uploadURL, objectPath: `/objects/${entityId}` };
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
@@ -199,17 +229,20 @@ async function signObjectURL({
   objectName,
   method,
   ttlSec,
+  contentType,
 }: {
   bucketName: string;
   objectName: string;
   method: "GET" | "PUT" | "DELETE" | "HEAD";
   ttlSec: number;
+  contentType?: string;
 }): Promise<string> {
   const request = {
     bucket_name: bucketName,
     object_name: objectName,
     method,
     expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+    ...(contentType ? { content_type: contentType } : {}),
   };
   const response = await fetch(
     `${REPLIT_SIDECAR_ENDPOINT}/object-storage/signed-object-url`,
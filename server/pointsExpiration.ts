@@ -0,0 +1,50 @@
+import { storage } from "./storage";
+import { NotificationHelpers } from "./notifications";
+import { regionEnum } from "@shared/schema";
+
+export interface PointsExpirationResult {
+  usersProcessed: number;
+  pointsExpired: number;
+  warningsSent: number;
+}
+
+/**
+ * Vence los lotes de puntos cumplidos (más antiguos primero) y avisa a los
+ * usuarios que tienen puntos por vencer dentro del período de aviso de su región
+ */
+export async function runPointsExpiration(region?: string): Promise<PointsExpirationResult> {
+  const result: PointsExpirationResult = { usersProcessed: 0, pointsExpired: 0, warningsSent: 0 };
+  const regions = region ? [region] : [...regionEnum.enumValues];
+
+  for (const regionName of regions) {
+    const config = await storage.getPointsConfigByRegion(regionName);
+    if (!config?.pointsExpirationMonths) continue;
+
+    const regionUsers = (await storage.getAllUsers(regionName))
+      .filter((user) => user.role === "user" && user.isActive);
+
+    for (const user of regionUsers) {
+      try {
+        const expired = await storage.expireUserPoints(user.id);
+        if (expired > 0) {
+          result.pointsExpired += expired;
+          await NotificationHelpers.pointsExpired(user.id, expired);
+        }
+
+        const expiring = await storage.getExpiringPoints(user.id);
+        const unwarnedLots = expiring.lots.filter((lot) => !lot.warned);
+        if (unwarnedLots.length > 0 && expiring.nextExpirationDate) {
+          await NotificationHelpers.pointsExpiring(user.id, expiring.points, expiring.nextExpirationDate);
+          await storage.markPointsExpirationWarned(unwarnedLots.map((lot) => lot.id));
+          result.warningsSent++;
+        }
+
+        result.usersProcessed++;
+      } catch (error) {
+        console.error(`Points expiration failed for user ${user.id}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,81 @@
+import { storage } from "./storage";
+import type { JobRunProgress, PointsRecalculationResult, PointsRecalculationUserDelta } from "@shared/schema";
+
+// El avance se guarda cada tantos deals para no escribir en la BD por cada uno
+const PROGRESS_EVERY_DEALS = 25;
+
+export interface PointsRecalculationOptions {
+  region?: string;
+  dryRun: boolean;
+  actorId: string | null;
+  onProgress?: (progress: JobRunProgress) => Promise<void>;
+}
+
+/**
+ * Recalcula puntos y goles de los deals con las reglas vigentes. En modo simulación solo devuelve
+ * las diferencias por usuario; si no, las corrige con asientos de ajuste en el historial.
+ */
+export async function runPointsRecalculation(options: PointsRecalculationOptions): Promise<PointsRecalculationResult> {
+  const dealIds = await storage.getDealIdsForRecalculation(options.region);
+  const result: PointsRecalculationResult = {
+    dryRun: options.dryRun,
+    region: options.region ?? null,
+    dealsScanned: 0,
+    dealsChanged: 0,
+    pointsDelta: 0,
+    goalsDelta: 0,
+    users: [],
+    errors: [],
+  };
+  const deltasByUser = new Map<string, Omit<PointsRecalculationUserDelta, "firstName" | "lastName" | "username">>();
+
+  await options.onProgress?.({ processed: 0, total: dealIds.length });
+
+  for (const dealId of dealIds) {
+    try {
+      const recalculation = await storage.recalculateDealRewards(dealId, {
+        dryRun: options.dryRun,
+        actorId: options.actorId,
+      });
+      if (recalculation) {
+        const pointsDelta = recalculation.pointsAfter - recalculation.pointsBefore;
+        const goalsDelta = recalculation.goalsAfter - recalculation.goalsBefore;
+        const userDelta = deltasByUser.get(recalculation.userId)
+          ?? { userId: recalculation.userId, dealsChanged: 0, pointsDelta: 0, goalsDelta: 0 };
+        userDelta.dealsChanged++;
+        userDelta.pointsDelta += pointsDelta;
+        userDelta.goalsDelta += goalsDelta;
+        deltasByUser.set(recalculation.userId, userDelta);
+
+        result.dealsChanged++;
+        result.pointsDelta += pointsDelta;
+        result.goalsDelta += goalsDelta;
+      }
+    } catch (error) {
+      result.errors.push(`Deal ${dealId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    result.dealsScanned++;
+    if (result.dealsScanned % PROGRESS_EVERY_DEALS === 0) {
+      await options.onProgress?.({ processed: result.dealsScanned, total: dealIds.length });
+    }
+  }
+
+  const users = new Map((await storage.getAllUsers(options.region)).map((user) => [user.id, user]));
+  result.users = Array.from(deltasByUser.values())
+    .map((delta) => {
+      const user = users.get(delta.userId);
+      return {
+        ...delta,
+        goalsDelta: Number(delta.goalsDelta.toFixed(2)),
+        firstName: user?.firstName ?? "",
+        lastName: user?.lastName ?? "",
+        username: user?.username ?? delta.userId,
+      };
+    })
+    .sort((a, b) => Math.abs(b.pointsDelta) - Math.abs(a.pointsDelta) || b.goalsDelta - a.goalsDelta);
+  result.goalsDelta = Number(result.goalsDelta.toFixed(2));
+
+  await options.onProgress?.({ processed: result.dealsScanned, total: dealIds.length });
+  return result;
+}
@@ -1,28 +1,53 @@
 import type { Express } from "express";
+import type { SessionData } from "express-session";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import bcrypt from "bcryptjs";
-import { insertUserSchema, updateUserSchema, insertDealSchema, insertRewardSchema, insertSupportTicketSchema, updateSupportTicketSchema, updatePointsConfigSchema } from "@shared/schema";
+import { createHash, randomBytes } from "crypto";
+import { insertUserSchema, updateUserSchema, insertDealSchema, rejectDealSchema, resubmitDealSchema, resolveDealConflictsSchema, dealAttachmentsSchema, dealAttachmentUploadRequestSchema, type InsertDealAttachment, insertRewardSchema, insertSupportTicketSchema, updateSupportTicketSchema, insertSupportTicketMessageSchema, updateSupportSlaPoliciesSchema, updatePointsConfigSchema, emailOutboxStatusEnum, type EmailOutboxStatus, upsertEmailTemplateOverrideSchema, emailTemplatePreviewSchema, updateNotificationPreferencesSchema, updateScheduledJobSchema, pointsRecalculationRequestSchema, updateRewardAssignmentsSchema, forgotPasswordSchema, resetPasswordSchema, twoFactorCodeSchema, type Region, type User, type UserSessionInfo } from "@shared/schema";
+import { EMAIL_LANGUAGES } from "@shared/constants";
 import { z } from "zod";
 import * as XLSX from 'xlsx';
 import { NotificationHelpers } from "./notifications";
 import { nanoid } from "nanoid";
+import { runPointsExpiration } from "./pointsExpiration";
+import { resendEmail } from "./emailOutbox";
+import { getEmailTemplateCatalog, getEmailTemplateSample, renderEmailTemplate } from "./emailTemplates";
+import { disconnectSessionSockets, emitAdminQueueUpdate } from "./socket";
+import { destroyUserSessions, getSessionPublicId, startTwoFactorChallenge, startUserSession } from "./session";
+import {
+  clearTwoFactor,
+  completeTwoFactorEnrollment,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+  verifyTwoFactorCode,
+} from "./twoFactor";
+import { getJobDefinition, getScheduledJobsOverview, startJobNow } from "./jobScheduler";
+import {
+  THROTTLE_POLICIES,
+  checkThrottles,
+  recordLoginFailure,
+  recordThrottleFailure,
+  rejectThrottled,
+  throttleKeys,
+} from "./loginThrottle";
+import { getNextCronRun, isValidCronExpression } from "./cron";
 import { 
   sendInviteEmail, 
   sendApprovalEmail, 
-  sendDealApprovedEmail, 
-  sendRedemptionApprovedEmail,
   sendRedemptionRequestToAdmin,
   sendSupportTicketToAdmin,
-  sendMagicLinkEmail
+  sendMagicLinkEmail,
+  sendPasswordResetEmail
 } from "./email.js";
 
-// Extend session data interface
-declare module 'express-session' {
-  interface SessionData {
-    userId?: string;
-    userRole?: string;
-  }
+// Los enlaces de restablecimiento de contraseña valen 1 hora y en la BD solo se guarda el hash del token
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
 }
 
 /**
@@ -44,6 +69,17 @@ async function getAdminRegion(userId: string): Promise<string | undefined> {
   return undefined;
 }
 
+/**
+ * Helper para verificar si un admin puede ver los datos de otro usuario:
+ * los regional-admin solo los de usuarios de su región
+ */
+async function canAdminAccessUser(adminId: string, ownerId: string): Promise<boolean> {
+  const adminRegion = await getAdminRegion(adminId);
+  if (!adminRegion) return true;
+  const owner = await storage.getUser(ownerId);
+  return owner?.region === adminRegion;
+}
+
 /**
  * Helper para verificar si el usuario es super-admin
  */
@@ -68,19 +104,94 @@ function isAdminRole(role: string | undefined): boolean {
   return role === "admin" || role === "regional-admin" || role === "super-admin";
 }
 
+// Usuario para las vistas de admin, sin los datos del segundo factor
+function withoutTwoFactorSecrets(user: User) {
+  const { twoFactorSecret, twoFactorRecoveryCodes, twoFactorLastUsedStep, ...rest } = user;
+  return rest;
+}
+
+// Intentos de código permitidos en el segundo paso del login antes de volver a pedir la contraseña
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+// Extensión con la que se guarda cada tipo de comprobante en el object storage
+const DEAL_ATTACHMENT_EXTENSIONS: Record<InsertDealAttachment["contentType"], string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Helper para validar los comprobantes de un deal enviado por un partner:
+ * - Cada archivo debe existir en el object storage, no superar el tamaño declarado y tener el tipo declarado
+ * - Si la configuración regional del usuario lo exige, deals por encima del umbral necesitan al menos uno
+ */
+async function validateDealAttachments(
+  userId: string,
+  dealValue: string | number,
+  attachments: InsertDealAttachment[],
+  existingCount: number = 0,
+): Promise<void> {
+  const threshold = await storage.getAttachmentRequiredAboveValue(userId);
+  if (threshold !== null && Number(dealValue) > threshold && existingCount + attachments.length === 0) {
+    throw new Error(`Deals above US$${threshold.toLocaleString("en-US")} require a proof of sale (invoice or purchase order)`);
+  }
+  if (attachments.length === 0) return;
+
+  const { ObjectStorageService, ObjectNotFoundError } = await import("./objectStorage");
+  const objectStorageService = new ObjectStorageService();
+  for (const attachment of attachments) {
+    try {
+      const file = await objectStorageService.getObjectEntityFile(attachment.objectPath);
+      const [metadata] = await file.getMetadata();
+      if (Number(metadata.size) > attachment.sizeBytes || metadata.contentType !== attachment.contentType) {
+        throw new Error(`Attachment "${attachment.fileName}" does not match the uploaded file`);
+      }
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        throw new Error(`Attachment "${attachment.fileName}" was not uploaded`);
+      }
+      throw error;
+    }
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Un admin cuya sesión no superó el segundo factor solo puede usar el login y el alta del 2FA
+  app.use("/api", (req, res, next) => {
+    if (!req.session?.userId || req.session.twoFactorVerified || !isTwoFactorRequired(req.session.userRole)) {
+      return next();
+    }
+    if (req.path.startsWith("/auth/") || req.path.startsWith("/user/2fa")) {
+      return next();
+    }
+    res.status(403).json({ message: "Two-factor authentication is required for admin accounts", code: "TWO_FACTOR_REQUIRED" });
+  });
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { username, password } = req.body;
+      const ipAddress = req.ip ?? "unknown";
       let user = await storage.getUserByUsername(username);
       
       // If not found by username, try by email (for flexibility)
       if (!user) {
         user = await storage.getUserByEmail(username);
       }
+
+      // Límites por IP y por cuenta antes de comprobar la contraseña
+      const accountKey = user ? throttleKeys.account(user.id) : throttleKeys.unknownAccount(String(username ?? ""));
+      const block = await checkThrottles([
+        { key: throttleKeys.loginIp(ipAddress), policy: THROTTLE_POLICIES.loginIp },
+        { key: accountKey, policy: THROTTLE_POLICIES.account },
+      ]);
+      if (block) {
+        return rejectThrottled(res, block);
+      }
       
       if (!user || !await bcrypt.compare(password, user.password)) {
+        await recordLoginFailure(ipAddress, { user, identifier: String(username ?? "") });
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
@@ -92,12 +203,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Account pending approval. Please wait for administrator approval." });
       }
 
-      // Store user in session
-      if (req.session) {
-        req.session.userId = user.id;
-        req.session.userRole = user.role;
+      // Con el segundo factor activado, la sesión se abre al verificar el código
+      // (los fallos de la cuenta no se olvidan hasta entonces, para no probar códigos sin límite)
+      if (user.twoFactorEnabled) {
+        await startTwoFactorChallenge(req, user);
+        return res.json({ twoFactorRequired: true });
       }
 
+      await storage.deleteLoginThrottle(accountKey);
+
+      // Store user in session
+      await startUserSession(req, user, { twoFactorVerified: false });
+
       res.json({ 
         id: user.id, 
         username: user.username,
@@ -114,6 +231,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Segundo paso del login: código de la app autenticadora o de recuperación
+  app.post("/api/auth/login/2fa", async (req, res) => {
+    const pendingUserId = req.session?.pendingTwoFactorUserId;
+    if (!pendingUserId || !req.session.pendingTwoFactorExpiresAt || Date.now() > req.session.pendingTwoFactorExpiresAt) {
+      return res.status(401).json({ message: "Your sign-in attempt expired. Sign in again." });
+    }
+
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+
+      const attempts = (req.session.pendingTwoFactorAttempts ?? 0) + 1;
+      if (attempts > MAX_TWO_FACTOR_ATTEMPTS) {
+        req.session.pendingTwoFactorUserId = undefined;
+        return res.status(429).json({ message: "Too many invalid codes. Sign in again." });
+      }
+      req.session.pendingTwoFactorAttempts = attempts;
+
+      const user = await storage.getUser(pendingUserId);
+      if (!user || !user.isActive || !user.isApproved) {
+        req.session.pendingTwoFactorUserId = undefined;
+        return res.status(401).json({ message: "Account inactive" });
+      }
+
+      const ipAddress = req.ip ?? "unknown";
+      const block = await checkThrottles([
+        { key: throttleKeys.account(user.id), policy: THROTTLE_POLICIES.account },
+      ]);
+      if (block) {
+        return rejectThrottled(res, block);
+      }
+
+      if (!(await verifyTwoFactorCode(user, code))) {
+        await recordLoginFailure(ipAddress, { user, identifier: user.username });
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      await storage.deleteLoginThrottle(throttleKeys.account(user.id));
+      await startUserSession(req, user, { twoFactorVerified: true });
+
+      res.json({
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        country: user.country
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
   app.post("/api/auth/register", async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
@@ -141,8 +315,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
     if (req.session) {
+      // Cerrar los sockets autenticados con esta sesión
+      if (req.session.userId) {
+        await disconnectSessionSockets(req.session.userId, req.sessionID);
+      }
+
       req.session.destroy((err) => {
         if (err) {
           return res.status(500).json({ message: "Could not log out" });
@@ -163,6 +342,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email is required" });
       }
 
+      // Cada petición cuenta: limita el envío de emails y la enumeración de cuentas desde una IP
+      const ipThrottle = { key: throttleKeys.emailRequestIp(req.ip ?? "unknown"), policy: THROTTLE_POLICIES.emailRequestIp };
+      const block = await checkThrottles([ipThrottle]);
+      if (block) {
+        return rejectThrottled(res, block);
+      }
+      await recordThrottleFailure(ipThrottle, { ipAddress: req.ip ?? null });
+
       // Find user by email
       const user = await storage.getUserByEmail(email);
       
@@ -196,6 +383,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
+        preferredLanguage: user.preferredLanguage,
+        region: user.region,
         loginToken,
       });
 
@@ -231,16 +420,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Crear sesión automáticamente
-      req.session.userId = user.id;
-      req.session.userRole = user.role;
-
       // Limpiar el token (un solo uso)
       await storage.updateUser(user.id, {
         loginToken: null,
         loginTokenExpiry: null,
       });
 
+      // El enlace sustituye a la contraseña, no al segundo factor
+      if (user.twoFactorEnabled) {
+        await startTwoFactorChallenge(req, user);
+        return res.json({ valid: true, twoFactorRequired: true });
+      }
+
+      // Crear sesión automáticamente
+      await startUserSession(req, user, { twoFactorVerified: false });
+
       res.json({ 
         valid: true,
         user: {
@@ -261,6 +455,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Forgot password: same answer whether or not the email exists
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      const ipThrottle = { key: throttleKeys.emailRequestIp(req.ip ?? "unknown"), policy: THROTTLE_POLICIES.emailRequestIp };
+      const block = await checkThrottles([ipThrottle]);
+      if (block) {
+        return rejectThrottled(res, block);
+      }
+      await recordThrottleFailure(ipThrottle, { ipAddress: req.ip ?? null });
+
+      // El mismo email puede tener una cuenta por región: cada una recibe su propio enlace
+      const accounts = (await storage.getUsersByEmail(email))
+        .filter((user) => user.isActive && user.isApproved);
+
+      for (const user of accounts) {
+        const resetToken = randomBytes(32).toString("hex");
+        await storage.updateUser(user.id, {
+          resetToken: hashResetToken(resetToken),
+          resetTokenExpiry: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        });
+
+        await sendPasswordResetEmail({
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          preferredLanguage: user.preferredLanguage,
+          region: user.region,
+          username: user.username,
+          resetToken,
+        });
+      }
+
+      res.json({
+        message: "If the email exists in our system, you will receive a link to reset your password."
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const hashedPassword = await bcrypt.hash(password, 10);
+
+      const user = await storage.resetPasswordWithToken(hashResetToken(token), hashedPassword, new Date());
+      if (!user) {
+        return res.status(400).json({ message: "This link is invalid or has expired. Request a new one." });
+      }
+
+      // Las sesiones abiertas con la contraseña anterior dejan de valer
+      await destroyUserSessions(user.id);
+      // Quien demuestra controlar el email recupera el acceso aunque la cuenta estuviera bloqueada
+      await storage.deleteLoginThrottle(throttleKeys.account(user.id));
+
+      res.json({ message: "Password updated. You can now sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
   app.get("/api/auth/me", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
@@ -291,6 +556,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       regionCategory: user.regionCategory,
       regionSubcategory: user.regionSubcategory,
       adminRegionId: user.adminRegionId,
+      twoFactorEnabled: user.twoFactorEnabled,
+      // Admin sin segundo factor verificado en esta sesión: el cliente le pide activarlo antes de seguir
+      twoFactorSetupRequired: isTwoFactorRequired(user.role) && !req.session.twoFactorVerified,
       regionInfo: regionInfo ? {
         id: regionInfo.id,
         name: regionInfo.name,
@@ -314,10 +582,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { firstName, lastName, email, country, currentPassword, newPassword } = req.body;
+      const { firstName, lastName, email, country, currentPassword, newPassword, preferredLanguage } = req.body;
       
       // Validar que al menos un campo esté presente
-      if (!firstName && !lastName && !email && !country && !newPassword) {
+      if (!firstName && !lastName && !email && !country && !newPassword && !preferredLanguage) {
         return res.status(400).json({ 
           message: "At least one field must be provided to update" 
         });
@@ -335,6 +603,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (lastName) updates.lastName = lastName;
       if (country) updates.country = country;
 
+      // Idioma de la interfaz, que también se usa para los emails
+      if (preferredLanguage) {
+        if (!(EMAIL_LANGUAGES as readonly string[]).includes(preferredLanguage)) {
+          return res.status(400).json({ message: "Unsupported language" });
+        }
+        updates.preferredLanguage = preferredLanguage;
+      }
+
       // Validar y actualizar email si cambió
       if (email && email !== user.email) {
         // Verificar que el nuevo email no esté en uso
@@ -392,7 +668,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           firstName: updatedUser.firstName,
           lastName: updatedUser.lastName,
           role: updatedUser.role,
-          country: updatedUser.country
+          country: updatedUser.country,
+          preferredLanguage: updatedUser.preferredLanguage
         }
       });
     } catch (error) {
@@ -401,220 +678,654 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User routes
-  app.get("/api/users/stats", async (req, res) => {
+  // Notification preferences: channels per event for the current user
+  app.get("/api/user/notification-preferences", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const stats = await storage.getUserStats(userId);
-      res.json(stats);
+      const preferences = await storage.getNotificationPreferences(userId);
+      res.json(preferences);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get user stats" });
+      console.error("Get notification preferences error:", error);
+      res.status(500).json({ message: "Failed to get notification preferences" });
     }
   });
 
-  app.get("/api/users/leaderboard", async (req, res) => {
+  app.put("/api/user/notification-preferences", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
-      const topUsers = await storage.getTopUsersByPoints(limit);
-      res.json(topUsers);
+      const preferences = updateNotificationPreferencesSchema.parse(req.body);
+      const updated = await storage.updateNotificationPreferences(userId, preferences);
+      res.json(updated);
     } catch (error) {
-      console.error("Failed to get leaderboard:", error);
-      res.status(500).json({ message: "Failed to get leaderboard" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update notification preferences error:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
     }
   });
 
-  // Deal routes
-  app.post("/api/deals", async (req, res) => {
+  // Sesiones abiertas del usuario (dispositivos donde tiene la cuenta iniciada)
+  app.get("/api/user/sessions", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const { region, ...dealBody } = req.body;
-      
-      // Convert region name to regionId
-      let regionId = null;
-      if (region) {
-        // Get the first active region config for this region name
-        const regionConfigs = await storage.getAllRegionConfigs();
-        const matchingConfig = regionConfigs.find(config => 
-          config.region === region && config.isActive
-        );
-        
-        if (matchingConfig) {
-          regionId = matchingConfig.id;
-          console.log(`✅ Deal creation: Converting region "${region}" to regionId "${regionId}"`);
-        } else {
-          console.warn(`⚠️ Deal creation: No active region config found for "${region}"`);
-        }
-      }
-
-      const dealData = insertDealSchema.parse({ 
-        ...dealBody, 
-        userId,
-        regionId // Use the converted regionId instead of region name
-      });
-      
-      const deal = await storage.createDeal(dealData);
-      console.log(`🎯 Deal created successfully:`, { 
-        dealId: deal.id, 
-        regionName: region, 
-        regionId: deal.regionId,
-        productName: deal.productName 
+      const userSessions = await storage.getUserSessions(userId);
+      const result: UserSessionInfo[] = userSessions.map((userSession) => {
+        const data = userSession.sess as Partial<SessionData>;
+        return {
+          id: getSessionPublicId(userSession.sid),
+          current: userSession.sid === req.sessionID,
+          userAgent: data.userAgent ?? null,
+          ipAddress: data.ipAddress ?? null,
+          loginAt: data.loginAt ?? null,
+          lastSeenAt: data.lastSeenAt ?? null,
+          expiresAt: userSession.expire,
+        };
       });
-      
-      res.status(201).json(deal);
+      res.json(result);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid data", errors: error.errors });
-      }
-      console.error("Deal creation error:", error);
-      res.status(500).json({ message: "Failed to create deal" });
+      console.error("Get user sessions error:", error);
+      res.status(500).json({ message: "Failed to get sessions" });
     }
   });
 
-  app.get("/api/deals", async (req, res) => {
+  app.delete("/api/user/sessions/:sessionId", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const deals = await storage.getUserDeals(userId);
-      res.json(deals);
+      const userSessions = await storage.getUserSessions(userId);
+      const target = userSessions.find((userSession) => getSessionPublicId(userSession.sid) === req.params.sessionId);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Use sign out to close the current session" });
+      }
+
+      await storage.deleteUserSession(userId, target.sid);
+      await disconnectSessionSockets(userId, target.sid);
+      res.json({ message: "Session closed" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get deals" });
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Failed to close session" });
     }
   });
 
-  app.get("/api/deals/recent", async (req, res) => {
+  // Cierra todas las sesiones del usuario menos la actual
+  app.delete("/api/user/sessions", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
-      const deals = await storage.getRecentDeals(userId, limit);
-      res.json(deals);
+      const revoked = await destroyUserSessions(userId, req.sessionID);
+      res.json({ revoked });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get recent deals" });
+      console.error("Revoke other sessions error:", error);
+      res.status(500).json({ message: "Failed to close sessions" });
     }
   });
 
-  app.post("/api/deals/:id/approve", async (req, res) => {
-    const userRole = req.session?.userRole;
+  // Two-factor authentication (TOTP) of the current user
+  app.get("/api/user/2fa", async (req, res) => {
     const userId = req.session?.userId;
-    
-    if (!isAdminRole(userRole)) {
-      return res.status(403).json({ message: "Admin access required" });
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const deal = await storage.approveDeal(req.params.id, userId!);
-      if (!deal) {
-        return res.status(404).json({ message: "Deal not found" });
-      }
-      
-      // Obtener información del usuario para enviar email
-      const dealUser = await storage.getUser(deal.userId);
-      if (dealUser && deal.pointsEarned && deal.pointsEarned > 0) {
-        await sendDealApprovedEmail(
-          dealUser.email,
-          dealUser.firstName,
-          dealUser.lastName,
-          {
-            productName: deal.productName,
-            dealValue: deal.dealValue,
-            pointsEarned: deal.pointsEarned
-          }
-        );
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json(deal);
+      res.json(getTwoFactorStatus(user));
     } catch (error) {
-      console.error("Error approving deal:", error);
-      res.status(500).json({ message: "Failed to approve deal" });
+      console.error("Get two-factor status error:", error);
+      res.status(500).json({ message: "Failed to get two-factor status" });
     }
   });
 
-  app.post("/api/deals/:id/reject", async (req, res) => {
-    const userRole = req.session?.userRole;
-    
-    if (!isAdminRole(userRole)) {
-      return res.status(403).json({ message: "Admin access required" });
+  app.post("/api/user/2fa/setup", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const deal = await storage.rejectDeal(req.params.id);
-      if (!deal) {
-        return res.status(404).json({ message: "Deal not found" });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      res.json(deal);
+      res.json(await startTwoFactorEnrollment(user));
     } catch (error) {
-      res.status(500).json({ message: "Failed to reject deal" });
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
     }
   });
 
-  app.patch("/api/admin/deals/:id", async (req, res) => {
-    const userRole = req.session?.userRole;
-    
-    if (!isAdminRole(userRole)) {
-      return res.status(403).json({ message: "Admin access required" });
+  app.post("/api/user/2fa/enable", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
     }
 
     try {
-      const { updateDealSchema } = await import("@shared/schema");
-      const updates = updateDealSchema.parse(req.body);
-      const deal = await storage.updateDeal(req.params.id, updates);
-      
-      if (!deal) {
-        return res.status(404).json({ message: "Deal not found" });
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      res.json(deal);
+
+      const recoveryCodes = await completeTwoFactorEnrollment(user, code);
+      // Quien acaba de escanear el QR y dar un código válido ya superó el segundo factor en esta sesión
+      req.session.twoFactorVerified = true;
+      res.json({ recoveryCodes });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to update deal" });
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
     }
   });
 
-  // Reward routes
-  app.get("/api/rewards", async (req, res) => {
+  app.post("/api/user/2fa/recovery-codes", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
     try {
-      const userId = req.session?.userId;
-      let regionName: string | undefined;
-      
-      // Si hay usuario autenticado, obtener su región para filtrar rewards
-      if (userId) {
-        const user = await storage.getUser(userId);
-        if (user) {
-          // Admin y Super-admin ven todos los rewards (sin filtro)
-          if (user.role === "admin" || user.role === "super-admin") {
-            regionName = undefined;
-          } else {
-            // Usuarios regulares y regional-admins: filtrar por región
-            regionName = user.region || user.country || undefined;
-          }
-        }
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
-      
-      const rewards = await storage.getRewards(regionName);
-      
-      // Prevent caching to ensure fresh data after mutations
-      res.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+
+      if (!(await verifyTwoFactorCode(user, code, { allowRecoveryCode: false }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Regenerate recovery codes error:", error);
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (isTwoFactorRequired(user.role)) {
+        return res.status(400).json({ message: "Two-factor authentication is mandatory for admin accounts" });
+      }
+      if (!(await verifyTwoFactorCode(user, code))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await clearTwoFactor(user.id);
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // User routes
+  app.get("/api/users/stats", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const stats = await storage.getUserStats(userId);
+      res.json(stats);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get user stats" });
+    }
+  });
+
+  app.get("/api/users/leaderboard", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
+      const topUsers = await storage.getTopUsersByPoints(limit);
+      res.json(topUsers);
+    } catch (error) {
+      console.error("Failed to get leaderboard:", error);
+      res.status(500).json({ message: "Failed to get leaderboard" });
+    }
+  });
+
+  // Deal routes
+  app.post("/api/deals", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const { region, attachments: rawAttachments, ...dealBody } = req.body;
+      
+      // Convert region name to regionId
+      let regionId = null;
+      if (region) {
+        // Get the first active region config for this region name
+        const regionConfigs = await storage.getAllRegionConfigs();
+        const matchingConfig = regionConfigs.find(config => 
+          config.region === region && config.isActive
+        );
+        
+        if (matchingConfig) {
+          regionId = matchingConfig.id;
+          console.log(`✅ Deal creation: Converting region "${region}" to regionId "${regionId}"`);
+        } else {
+          console.warn(`⚠️ Deal creation: No active region config found for "${region}"`);
+        }
+      }
+
+      const dealData = insertDealSchema.parse({ 
+        ...dealBody, 
+        userId,
+        regionId // Use the converted regionId instead of region name
+      });
+      const attachments = dealAttachmentsSchema.parse(rawAttachments);
+      await validateDealAttachments(userId, dealData.dealValue, attachments);
+      
+      const deal = await storage.createDeal(dealData, attachments);
+      console.log(`🎯 Deal created successfully:`, { 
+        dealId: deal.id, 
+        regionName: region, 
+        regionId: deal.regionId,
+        productName: deal.productName 
+      });
+
+      // Posibles duplicados quedan como conflictos que el admin resuelve antes de aprobar
+      const conflicts = await storage.flagDealConflicts(deal);
+      
+      res.status(201).json({ ...deal, duplicateConflicts: conflicts.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Deal creation error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create deal" });
+    }
+  });
+
+  app.get("/api/deals", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const deals = await storage.getUserDeals(userId);
+      res.json(deals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get deals" });
+    }
+  });
+
+  app.get("/api/deals/recent", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
+      const deals = await storage.getRecentDeals(userId, limit);
+      res.json(deals);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get recent deals" });
+    }
+  });
+
+  app.post("/api/deals/:id/approve", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const deal = await storage.approveDeal(req.params.id, userId!);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+
+      res.json(deal);
+    } catch (error) {
+      console.error("Error approving deal:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to approve deal" });
+    }
+  });
+
+  app.post("/api/deals/:id/reject", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { reason } = rejectDealSchema.parse(req.body);
+      const deal = await storage.rejectDeal(req.params.id, userId, reason);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      res.json(deal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error rejecting deal:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reject deal" });
+    }
+  });
+
+  // Partner sends a rejected deal back to review after correcting it
+  app.post("/api/deals/:id/resubmit", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const { attachments: rawAttachments, ...body } = req.body;
+      const resubmission = resubmitDealSchema.parse(body);
+      const attachments = dealAttachmentsSchema.parse(rawAttachments);
+
+      const existing = await storage.getDeal(req.params.id);
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      const existingAttachments = await storage.getDealAttachments(existing.id);
+      await validateDealAttachments(
+        userId,
+        resubmission.dealValue ?? existing.dealValue,
+        attachments,
+        existingAttachments.length,
+      );
+
+      const deal = await storage.resubmitDeal(req.params.id, userId, resubmission, attachments);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      res.json(deal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error resubmitting deal:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resubmit deal" });
+    }
+  });
+
+  // Signed URL to upload a proof of sale before submitting the deal
+  app.post("/api/deals/attachments/upload-url", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const { contentType } = dealAttachmentUploadRequestSchema.parse(req.body);
+      const { ObjectStorageService } = await import("./objectStorage");
+      const objectStorageService = new ObjectStorageService();
+      const { uploadURL, objectPath } = await objectStorageService.getDealAttachmentUploadURL(
+        DEAL_ATTACHMENT_EXTENSIONS[contentType],
+        contentType,
+      );
+      res.json({ uploadURL, objectPath });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+      }
+      console.error("Error getting deal attachment upload URL:", error);
+      res.status(500).json({ message: "Failed to get upload URL" });
+    }
+  });
+
+  // Attachments are visible to the deal owner and to admins of the deal's region
+  async function canViewDealAttachments(dealUserId: string, userId: string, userRole: string | undefined) {
+    if (dealUserId === userId) return true;
+    return isAdminRole(userRole) && (await canAdminAccessUser(userId, dealUserId));
+  }
+
+  app.get("/api/deals/:id/attachments", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const deal = await storage.getDeal(req.params.id);
+      if (!deal || !(await canViewDealAttachments(deal.userId, userId, req.session?.userRole))) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      const attachments = await storage.getDealAttachments(deal.id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error getting deal attachments:", error);
+      res.status(500).json({ message: "Failed to get deal attachments" });
+    }
+  });
+
+  app.get("/api/deals/:id/attachments/:attachmentId/file", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const deal = await storage.getDeal(req.params.id);
+      if (!deal || !(await canViewDealAttachments(deal.userId, userId, req.session?.userRole))) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      const attachment = await storage.getDealAttachment(deal.id, req.params.attachmentId);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const { ObjectStorageService, ObjectNotFoundError } = await import("./objectStorage");
+      const objectStorageService = new ObjectStorageService();
+      try {
+        const file = await objectStorageService.getObjectEntityFile(attachment.objectPath);
+        // Inline para que el admin lo previsualice en el navegador, con el tipo validado al registrar
+        // el deal (nunca el que declaró quien subió el archivo) y sin que el navegador lo adivine
+        res.setHeader(
+          "Content-Disposition",
+          `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        );
+        await objectStorageService.downloadObject(file, res, 300, attachment.contentType);
+      } catch (error) {
+        if (error instanceof ObjectNotFoundError) {
+          return res.status(404).json({ message: "Attachment file not found" });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error downloading deal attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.patch("/api/admin/deals/:id", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { updateDealSchema } = await import("@shared/schema");
+      const { comment, ...body } = req.body;
+      const updates = updateDealSchema.parse(body);
+      const deal = await storage.updateDeal(
+        req.params.id,
+        updates,
+        userId,
+        typeof comment === "string" && comment.trim() ? comment.trim() : undefined,
+      );
+      
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      
+      res.json(deal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating deal:", error);
+      res.status(500).json({ message: "Failed to update deal" });
+    }
+  });
+
+  // Open possible-duplicate conflicts for the review queue
+  app.get("/api/admin/deals/conflicts", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const regionName = await getAdminRegion(userId);
+      const conflicts = await storage.getOpenDealConflicts(regionName);
+      res.json(conflicts);
+    } catch (error) {
+      console.error("Get deal conflicts error:", error);
+      res.status(500).json({ message: "Failed to get deal conflicts" });
+    }
+  });
+
+  // Resolve a deal's duplicate conflicts: dismiss them or reject the deal as a duplicate
+  app.post("/api/admin/deals/:id/conflicts/resolve", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { resolution, note } = resolveDealConflictsSchema.parse(req.body);
+      const deal = await storage.resolveDealConflicts(req.params.id, userId, resolution, note || undefined);
+      if (!deal) {
+        return res.status(404).json({ message: "Deal not found" });
+      }
+      res.json(deal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Resolve deal conflicts error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resolve deal conflicts" });
+    }
+  });
+
+  // Audit trail of a deal: status changes and edits with before/after values
+  app.get("/api/admin/deals/:id/events", async (req, res) => {
+    const userRole = req.session?.userRole;
+    
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const events = await storage.getDealEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Get deal events error:", error);
+      res.status(500).json({ message: "Failed to get deal events" });
+    }
+  });
+
+  // Reward routes
+  app.get("/api/rewards", async (req, res) => {
+    try {
+      const userId = req.session?.userId;
+      const user = userId ? await storage.getUser(userId) : undefined;
+
+      let rewards;
+      if (user?.role === "user") {
+        // Partners: según las asignaciones del reward (región, país y configuración regional)
+        rewards = await storage.getRewardsForUser(user);
+      } else if (user?.role === "regional-admin") {
+        // Regional-admins: todo el catálogo de su región
+        rewards = await storage.getRewards(user.region || undefined);
+      } else {
+        // Admin y Super-admin ven todos los rewards (sin filtro)
+        rewards = await storage.getRewards();
+      }
+      
+      // Prevent caching to ensure fresh data after mutations
+      res.set('Cache-Control', 'no-cache, no-store, must-revalidate');
       res.set('Pragma', 'no-cache');
       res.set('Expires', '0');
       
@@ -775,6 +1486,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Asignaciones que restringen un reward a una región, un país o una configuración regional
+  app.get("/api/admin/rewards/:id/assignments", async (req, res) => {
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const reward = await storage.getReward(req.params.id);
+      if (!reward) {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+      res.json(await storage.getRewardRegionAssignments(reward.id));
+    } catch (error) {
+      console.error("Get reward assignments error:", error);
+      res.status(500).json({ message: "Failed to get reward assignments" });
+    }
+  });
+
+  app.put("/api/admin/rewards/:id/assignments", async (req, res) => {
+    const userId = req.session?.userId;
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { assignments } = updateRewardAssignmentsSchema.parse(req.body);
+
+      const reward = await storage.getReward(req.params.id);
+      if (!reward) {
+        return res.status(404).json({ message: "Reward not found" });
+      }
+
+      const adminRegion = await getAdminRegion(userId);
+      if (adminRegion && reward.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only manage rewards in your region" });
+      }
+
+      for (const assignment of assignments) {
+        if (assignment.regionConfigId) {
+          const config = await storage.getRegionConfig(assignment.regionConfigId);
+          if (!config) {
+            return res.status(400).json({ message: "Region configuration not found" });
+          }
+          if (assignment.region && assignment.region !== config.region) {
+            return res.status(400).json({ message: `${config.name} does not belong to ${assignment.region}` });
+          }
+          assignment.region = config.region;
+        }
+
+        // Un regional-admin no puede abrir el reward a usuarios de otras regiones
+        if (adminRegion) {
+          if (assignment.region && assignment.region !== adminRegion) {
+            return res.status(403).json({ message: "You can only assign rewards in your region" });
+          }
+          assignment.region = adminRegion as Region;
+        }
+      }
+
+      const saved = await storage.setRewardRegionAssignments(reward.id, assignments);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update reward assignments error:", error);
+      res.status(500).json({ message: "Failed to update reward assignments" });
+    }
+  });
+
   app.post("/api/rewards/:id/redeem", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
@@ -794,12 +1576,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const admins = allUsers.filter(u => u.role === 'admin');
         if (admins && admins.length > 0) {
           await sendRedemptionRequestToAdmin(
-            admins[0].email,
-            {
-              firstName: user.firstName,
-              lastName: user.lastName,
-              email: user.email
-            },
+            admins[0],
+            user,
             {
               rewardName: reward.name,
               pointsCost: reward.pointsCost,
@@ -849,25 +1627,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!updatedRedemption) {
         return res.status(404).json({ message: "Redemption not found" });
       }
-      
-      // Obtener información del usuario y recompensa para enviar email
-      const user = await storage.getUser(updatedRedemption.userId);
-      const reward = await storage.getReward(updatedRedemption.rewardId);
-      
-      if (user && reward) {
-        await sendRedemptionApprovedEmail(
-          user.email,
-          user.firstName,
-          user.lastName,
-          {
-            rewardName: reward.name,
-            pointsCost: reward.pointsCost,
-            status: updatedRedemption.status,
-            estimatedDeliveryDays: reward.estimatedDeliveryDays || undefined
-          }
-        );
-      }
-      
+
       res.json(updatedRedemption);
     } catch (error) {
       console.error("Approve redemption error:", error);
@@ -900,7 +1660,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedRedemption);
     } catch (error) {
       console.error("Reject redemption error:", error);
-      res.status(500).json({ message: "Failed to reject redemption" });
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to reject redemption" });
+      }
     }
   });
 
@@ -970,7 +1734,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const regionName = await getAdminRegion(userId);
       const users = await storage.getAllUsers(regionName);
-      res.json(users);
+      res.json(users.map(withoutTwoFactorSecrets));
     } catch (error) {
       res.status(500).json({ message: "Failed to get users" });
     }
@@ -1043,7 +1807,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedUser = await storage.updateUserRole(userId, role as "user" | "admin");
-      res.json(updatedUser);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(withoutTwoFactorSecrets(updatedUser));
     } catch (error) {
       res.status(500).json({ message: "Failed to update user role" });
     }
@@ -1080,7 +1847,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      res.json(updatedUser);
+      // Un usuario desactivado pierde al instante las sesiones que tuviera abiertas
+      if (updateData.isActive === false) {
+        await destroyUserSessions(userId);
+      }
+
+      res.json(withoutTwoFactorSecrets(updatedUser));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -1090,6 +1862,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cierra todas las sesiones de un usuario (p. ej. dispositivo perdido o cuenta comprometida)
+  app.post("/api/admin/users/:userId/logout", async (req, res) => {
+    const adminId = req.session?.userId;
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole) || !adminId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { userId } = req.params;
+      if (userId === adminId) {
+        return res.status(400).json({ message: "Cannot force logout your own account" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (user.role === "super-admin" && userRole !== "super-admin") {
+        return res.status(403).json({ message: "Super admin access required" });
+      }
+
+      const adminRegion = await getAdminRegion(adminId);
+      if (adminRegion && user.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only log out users in your region" });
+      }
+
+      const revoked = await destroyUserSessions(userId);
+      res.json({ message: "User logged out", revoked });
+    } catch (error) {
+      console.error("Force logout error:", error);
+      res.status(500).json({ message: "Failed to log out user" });
+    }
+  });
+
+  // Restablece el segundo factor de un usuario que perdió su dispositivo y sus códigos de recuperación
+  app.post("/api/admin/users/:userId/2fa/reset", async (req, res) => {
+    const userRole = req.session?.userRole;
+    if (userRole !== "super-admin") {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const { userId } = req.params;
+      if (userId === req.session?.userId) {
+        return res.status(400).json({ message: "Cannot reset your own two-factor authentication" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await clearTwoFactor(userId);
+      // Las sesiones abiertas se cierran: al volver a entrar, un admin tendrá que darlo de alta de nuevo
+      await destroyUserSessions(userId);
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Cuentas bloqueadas por intentos de acceso fallidos (regional-admin: solo las de su región)
+  app.get("/api/admin/locked-accounts", async (req, res) => {
+    const userId = req.session?.userId;
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const regionName = await getAdminRegion(userId);
+      const accounts = await storage.getLockedAccounts(new Date(), regionName);
+      res.json(accounts);
+    } catch (error) {
+      console.error("Get locked accounts error:", error);
+      res.status(500).json({ message: "Failed to get locked accounts" });
+    }
+  });
+
+  app.post("/api/admin/locked-accounts/:userId/unlock", async (req, res) => {
+    const adminId = req.session?.userId;
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole) || !adminId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { userId } = req.params;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const adminRegion = await getAdminRegion(adminId);
+      if (adminRegion && user.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only unlock users in your region" });
+      }
+
+      const unlocked = await storage.deleteLoginThrottle(throttleKeys.account(userId));
+      if (!unlocked) {
+        return res.status(404).json({ message: "Account is not locked" });
+      }
+      res.json({ message: "Account unlocked" });
+    } catch (error) {
+      console.error("Unlock account error:", error);
+      res.status(500).json({ message: "Failed to unlock account" });
+    }
+  });
+
   // Delete user endpoint
   app.delete("/api/admin/users/:userId", async (req, res) => {
     const userRole = req.session?.userRole;
@@ -1111,6 +1995,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
+      await destroyUserSessions(userId);
+
       res.json({ message: "User deleted successfully", userId });
     } catch (error) {
       console.error("Delete user error:", error);
@@ -1197,6 +2083,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email,
         firstName,
         lastName,
+        region: adminUser?.region,
         inviteToken,
         invitedBy: adminName,
       });
@@ -1315,6 +2202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             email,
             firstName,
             lastName,
+            region: adminUser?.region,
             inviteToken,
             invitedBy: adminName,
           });
@@ -1423,9 +2311,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         approvedBy: 'system', // System approval for invited users
         inviteToken: null, // Clear the token after use
       });
+      await emitAdminQueueUpdate("users", user.id);
 
       // Send approval email (account is ready to use)
-      await sendApprovalEmail(user.email, user.firstName, user.lastName);
+      await sendApprovalEmail(updatedUser ?? user);
 
       res.status(200).json({ 
         message: "Registration completed successfully. You can now log in!",
@@ -1452,10 +2341,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/auth/verify-invite/:token", async (req, res) => {
     try {
       const { token } = req.params;
+
+      // Solo cuentan los tokens inválidos: limita que se adivinen invitaciones desde una IP
+      const ipThrottle = { key: throttleKeys.inviteIp(req.ip ?? "unknown"), policy: THROTTLE_POLICIES.inviteIp };
+      const block = await checkThrottles([ipThrottle]);
+      if (block) {
+        return rejectThrottled(res, block);
+      }
       
       const user = await storage.getUserByInviteToken(token);
       
       if (!user) {
+        await recordThrottleFailure(ipThrottle, { ipAddress: req.ip ?? null });
         return res.status(404).json({ 
           valid: false,
           message: "Invalid or expired invitation" 
@@ -1564,7 +2461,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Send activation email
-      await sendApprovalEmail(user.email, user.firstName, user.lastName);
+      await sendApprovalEmail(user);
 
       console.log("✅ Passwordless login successful for:", updatedUser.email);
 
@@ -2036,10 +2933,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Insert deals
       const insertedDeals = [];
+      const warnings: string[] = [];
+      let flaggedDuplicates = 0;
       for (const dealData of dealsToInsert) {
         try {
+          // Un posible duplicado (también de una fila anterior del mismo archivo) no suma puntos:
+          // se importa como pendiente para que el admin resuelva el conflicto
+          const duplicates = await storage.findDuplicateDeals(dealData);
+          if (duplicates.length > 0 && dealData.status === "approved") {
+            dealData.status = "pending";
+            dealData.pointsEarned = 0;
+            warnings.push(`Deal for user ${dealData.userId} (${dealData.licenseAgreementNumber || dealData.dealValue}) looks like a duplicate and was imported as pending`);
+          }
+
           const deal = await storage.createDeal(dealData);
           insertedDeals.push(deal);
+
+          const conflicts = await storage.flagDealConflicts(deal);
+          if (conflicts.length > 0) {
+            flaggedDuplicates++;
+          }
           
           // Add points history for approved deals
           if (dealData.status === "approved" && dealData.pointsEarned > 0) {
@@ -2059,7 +2972,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         message: `Successfully imported ${insertedDeals.length} deals`,
         imported: insertedDeals.length,
-        errors: errors.length > 0 ? errors.slice(0, 10) : undefined
+        flaggedDuplicates,
+        errors: errors.length > 0 ? errors.slice(0, 10) : undefined,
+        warnings: warnings.length > 0 ? warnings.slice(0, 10) : undefined
       });
 
     } catch (error) {
@@ -2223,16 +3138,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      res.json({
-        message: `Successfully created ${createdCount} users`,
-        createdCount,
-        errorCount: errors.length,
-        errors: errors.slice(0, 10), // Return first 10 errors only
-      });
+      res.json({
+        message: `Successfully created ${createdCount} users`,
+        createdCount,
+        errorCount: errors.length,
+        errors: errors.slice(0, 10), // Return first 10 errors only
+      });
+
+    } catch (error) {
+      console.error("Users CSV processing error:", error);
+      res.status(500).json({ message: "Failed to process CSV file" });
+    }
+  });
+
+  // Counts of pending items per review queue (navigation badges)
+  app.get("/api/admin/queue-counts", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
 
+    try {
+      const regionName = await getAdminRegion(userId);
+      const counts = await storage.getAdminQueueCounts(regionName);
+      res.json(counts);
     } catch (error) {
-      console.error("Users CSV processing error:", error);
-      res.status(500).json({ message: "Failed to process CSV file" });
+      console.error("Get admin queue counts error:", error);
+      res.status(500).json({ message: "Failed to get admin queue counts" });
     }
   });
 
@@ -2277,11 +3215,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Send approval email
-      await sendApprovalEmail(
-        approvedUser.email,
-        approvedUser.firstName,
-        approvedUser.lastName
-      );
+      await sendApprovalEmail(approvedUser);
 
       res.json({ 
         message: "User approved successfully", 
@@ -2332,28 +3266,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Recalculate all deals points endpoint
+  // Recalculate points and goals: runs in the background as the points-recalculation job, by default as a preview
   app.post("/api/admin/recalculate-points", async (req, res) => {
     const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
     
-    if (!isAdminRole(userRole)) {
+    if (!isAdminRole(userRole) || !userId) {
       return res.status(403).json({ message: "Admin access required" });
     }
 
     try {
-      const result = await storage.recalculateAllDealsPoints();
-      
-      res.json({
-        message: `Successfully recalculated points for ${result.updated} deals`,
-        updated: result.updated,
-        errors: result.errors.length > 0 ? result.errors.slice(0, 10) : undefined
+      const { region, dryRun } = pointsRecalculationRequestSchema.parse(req.body ?? {});
+      // Regional-admin solo puede recalcular su región
+      const adminRegion = await getAdminRegion(userId);
+      const run = await startJobNow("points-recalculation", userId, {
+        region: adminRegion || region,
+        dryRun,
       });
+      res.status(202).json(run);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
       console.error("Error recalculating points:", error);
+      if (error instanceof Error) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to recalculate points" });
     }
   });
 
+  // Progress and result (per-user deltas) of a recalculation run
+  app.get("/api/admin/recalculate-points/:runId", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const run = await storage.getJobRun(req.params.runId);
+      const adminRegion = await getAdminRegion(userId);
+      if (
+        !run ||
+        run.jobName !== "points-recalculation" ||
+        (adminRegion && run.params.region !== adminRegion)
+      ) {
+        return res.status(404).json({ message: "Recalculation not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Get recalculation error:", error);
+      res.status(500).json({ message: "Failed to get recalculation" });
+    }
+  });
+
   // Deals per user report endpoint
   app.get("/api/admin/reports/deals-per-user", async (req, res) => {
     const userRole = req.session?.userRole;
@@ -2516,146 +3483,513 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ message: "Authentication required" });
     }
 
-    try {
-      const ticketData = insertSupportTicketSchema.parse({
-        ...req.body,
-        userId,
-      });
-      
-      const ticket = await storage.createSupportTicket(ticketData);
-      
-      // Obtener información del usuario para enviar email al admin
-      const user = await storage.getUser(userId);
-      if (user) {
-        // Obtener email del primer admin para enviar notificación
-        const allUsers = await storage.getAllUsers();
-        const admins = allUsers.filter(u => u.role === 'admin');
-        if (admins && admins.length > 0) {
-          await sendSupportTicketToAdmin(
-            admins[0].email,
-            {
-              firstName: user.firstName,
-              lastName: user.lastName,
-              email: user.email
-            },
-            {
-              subject: ticket.subject,
-              message: ticket.message,
-              ticketId: ticket.id
-            }
-          );
-        }
+    try {
+      const ticketData = insertSupportTicketSchema.parse({
+        ...req.body,
+        userId,
+      });
+      
+      const ticket = await storage.createSupportTicket(ticketData);
+      
+      // Obtener información del usuario para enviar email al admin
+      const user = await storage.getUser(userId);
+      if (user) {
+        // Obtener email del primer admin para enviar notificación
+        const allUsers = await storage.getAllUsers();
+        const admins = allUsers.filter(u => u.role === 'admin');
+        if (admins && admins.length > 0) {
+          await sendSupportTicketToAdmin(
+            admins[0],
+            user,
+            {
+              subject: ticket.subject,
+              message: ticket.message,
+              ticketId: ticket.id
+            }
+          );
+        }
+      }
+      
+      res.status(201).json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Create support ticket error:", error);
+      res.status(500).json({ message: "Failed to create support ticket" });
+    }
+  });
+
+  app.get("/api/support-tickets", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const tickets = await storage.getUserSupportTickets(userId);
+      res.json(tickets);
+    } catch (error) {
+      console.error("Get user support tickets error:", error);
+      res.status(500).json({ message: "Failed to get support tickets" });
+    }
+  });
+
+  app.get("/api/support-tickets/:id", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const { id } = req.params;
+      const ticket = await storage.getSupportTicket(id);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      if (ticket.userId !== userId && req.session?.userRole !== "admin") {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(ticket);
+    } catch (error) {
+      console.error("Get support ticket error:", error);
+      res.status(500).json({ message: "Failed to get support ticket" });
+    }
+  });
+
+  app.get("/api/admin/support-tickets", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    
+    if (userRole !== "admin" && userRole !== "regional-admin" && userRole !== "super-admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const regionName = await getAdminRegion(userId);
+      const tickets = await storage.getAllSupportTickets(regionName);
+      res.json(tickets);
+    } catch (error) {
+      console.error("Get all support tickets error:", error);
+      res.status(500).json({ message: "Failed to get support tickets" });
+    }
+  });
+
+  // SLA metrics for the support dashboard, scoped to the admin's region
+  app.get("/api/admin/support-tickets/sla-metrics", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      const since = !isNaN(days) && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+      const adminRegion = await getAdminRegion(userId);
+      const regionName = adminRegion || (req.query.region as string | undefined) || undefined;
+
+      const metrics = await storage.getSupportSlaMetrics(regionName, since);
+      res.json(metrics);
+    } catch (error) {
+      console.error("Get support SLA metrics error:", error);
+      res.status(500).json({ message: "Failed to get SLA metrics" });
+    }
+  });
+
+  app.get("/api/admin/support-sla", async (req, res) => {
+    const userRole = req.session?.userRole;
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const targets = await storage.getSupportSlaTargets();
+      res.json(targets);
+    } catch (error) {
+      console.error("Get support SLA targets error:", error);
+      res.status(500).json({ message: "Failed to get SLA targets" });
+    }
+  });
+
+  // SLA targets apply to every region, so only super-admins can change them
+  app.put("/api/admin/support-sla", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+    if (userRole !== "super-admin" || !userId) {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const targets = updateSupportSlaPoliciesSchema.parse(req.body);
+      const updated = await storage.updateSupportSlaTargets(targets, userId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update support SLA targets error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update SLA targets" });
+    }
+  });
+
+  // Email outbox: recipients span every region, so regional admins don't get this view
+  app.get("/api/admin/email-outbox", async (req, res) => {
+    const userRole = req.session?.userRole;
+    if (userRole !== "admin" && userRole !== "super-admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const status = (emailOutboxStatusEnum.enumValues as readonly string[]).includes(String(req.query.status))
+        ? (req.query.status as EmailOutboxStatus)
+        : "dead";
+      const [emails, counts] = await Promise.all([
+        storage.getEmailOutbox(status),
+        storage.getEmailOutboxCounts(),
+      ]);
+      res.json({ emails, counts });
+    } catch (error) {
+      console.error("Get email outbox error:", error);
+      res.status(500).json({ message: "Failed to get email outbox" });
+    }
+  });
+
+  app.post("/api/admin/email-outbox/:id/resend", async (req, res) => {
+    const userRole = req.session?.userRole;
+    if (userRole !== "admin" && userRole !== "super-admin") {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const email = await resendEmail(req.params.id);
+      res.json(email);
+    } catch (error) {
+      console.error("Resend email error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resend email" });
+    }
+  });
+
+  // Email templates: built-in text per language plus super-admin overrides per region
+  app.get("/api/admin/email-templates", async (req, res) => {
+    if (req.session?.userRole !== "super-admin") {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const overrides = await storage.getEmailTemplateOverrides();
+      res.json({ templates: getEmailTemplateCatalog(), overrides });
+    } catch (error) {
+      console.error("Get email templates error:", error);
+      res.status(500).json({ message: "Failed to get email templates" });
+    }
+  });
+
+  app.post("/api/admin/email-templates/preview", async (req, res) => {
+    if (req.session?.userRole !== "super-admin") {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const { templateKey, language, region, subject, body } = emailTemplatePreviewSchema.parse(req.body);
+      const rendered = await renderEmailTemplate(
+        templateKey,
+        language,
+        region,
+        getEmailTemplateSample(templateKey),
+        { subject, body },
+      );
+      res.json({ subject: rendered.subject, html: rendered.html });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Preview email template error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to preview email template" });
+    }
+  });
+
+  app.put("/api/admin/email-templates/overrides", async (req, res) => {
+    const userId = req.session?.userId;
+    if (req.session?.userRole !== "super-admin" || !userId) {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const override = upsertEmailTemplateOverrideSchema.parse(req.body);
+      // Renderizar con los datos de ejemplo detecta partials desconocidos o bloques sin cerrar antes de guardar
+      await renderEmailTemplate(
+        override.templateKey,
+        override.language,
+        null,
+        getEmailTemplateSample(override.templateKey),
+        { subject: override.subject, body: override.body },
+      );
+      const saved = await storage.upsertEmailTemplateOverride(override, userId);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Save email template override error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save email template" });
+    }
+  });
+
+  app.delete("/api/admin/email-templates/overrides/:id", async (req, res) => {
+    if (req.session?.userRole !== "super-admin") {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const deleted = await storage.deleteEmailTemplateOverride(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Template override not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete email template override error:", error);
+      res.status(500).json({ message: "Failed to delete email template" });
+    }
+  });
+
+  // Scheduled jobs: recurring server work with its schedule, lock state and run history
+  app.get("/api/admin/jobs", async (req, res) => {
+    if (req.session?.userRole !== "super-admin") {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      res.json(await getScheduledJobsOverview());
+    } catch (error) {
+      console.error("Get scheduled jobs error:", error);
+      res.status(500).json({ message: "Failed to get scheduled jobs" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:name/run", async (req, res) => {
+    const userId = req.session?.userId;
+    if (req.session?.userRole !== "super-admin" || !userId) {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+    if (!getJobDefinition(req.params.name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+
+    try {
+      const run = await startJobNow(req.params.name, userId);
+      res.status(202).json(run);
+    } catch (error) {
+      console.error("Run scheduled job error:", error);
+      if (error instanceof Error) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  app.patch("/api/admin/jobs/:name", async (req, res) => {
+    const userId = req.session?.userId;
+    if (req.session?.userRole !== "super-admin" || !userId) {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+
+    try {
+      const job = await storage.getScheduledJob(req.params.name);
+      if (!job || !getJobDefinition(job.name)) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const updates = updateScheduledJobSchema.parse(req.body);
+      if (updates.schedule !== undefined && !isValidCronExpression(updates.schedule)) {
+        return res.status(400).json({ message: "Invalid cron expression" });
       }
-      
-      res.status(201).json(ticket);
+
+      // Al cambiar el horario o reactivar la tarea, la próxima ejecución se calcula desde ahora
+      const schedule = updates.schedule ?? job.schedule;
+      const nextRunAt = updates.schedule !== undefined || (updates.enabled && !job.enabled)
+        ? getNextCronRun(schedule)
+        : undefined;
+
+      const updated = await storage.updateScheduledJob(job.name, { ...updates, nextRunAt }, userId);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Create support ticket error:", error);
-      res.status(500).json({ message: "Failed to create support ticket" });
+      console.error("Update scheduled job error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update job" });
     }
   });
 
-  app.get("/api/support-tickets", async (req, res) => {
+  app.patch("/api/admin/support-tickets/:id", async (req, res) => {
+    const userRole = req.session?.userRole;
     const userId = req.session?.userId;
-    if (!userId) {
-      return res.status(401).json({ message: "Authentication required" });
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
     }
 
     try {
-      const tickets = await storage.getUserSupportTickets(userId);
-      res.json(tickets);
+      const { id } = req.params;
+      const { adminResponse, ...updates } = updateSupportTicketSchema.parse(req.body);
+
+      // Regional-admin: solo tickets de usuarios de su región
+      const existing = await storage.getSupportTicket(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      if (!(await canAdminAccessUser(userId, existing.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (updates.assignedTo) {
+        const assignee = await storage.getUser(updates.assignedTo);
+        if (!assignee || !isAdminRole(assignee.role)) {
+          return res.status(400).json({ message: "Tickets can only be assigned to admins" });
+        }
+        if (!(await canAdminAccessUser(assignee.id, existing.userId))) {
+          return res.status(400).json({ message: "Tickets can only be assigned to admins of the ticket owner's region" });
+        }
+      }
+
+      // Una respuesta se agrega al hilo del ticket en lugar de sobrescribir la anterior
+      if (adminResponse) {
+        const reply = await storage.addSupportTicketMessage(id, userId, { body: adminResponse, isInternal: false }, true);
+        if (!reply) {
+          return res.status(404).json({ message: "Ticket not found" });
+        }
+        await NotificationHelpers.supportTicketResponse(reply.ticket.userId, reply.ticket.subject);
+      }
+      
+      const ticket = await storage.updateSupportTicket(id, updates);
+      
+      if (!ticket) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      res.json(ticket);
     } catch (error) {
-      console.error("Get user support tickets error:", error);
-      res.status(500).json({ message: "Failed to get support tickets" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Update support ticket error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update support ticket" });
     }
   });
 
-  app.get("/api/support-tickets/:id", async (req, res) => {
+  // Ticket thread: the owner sees public messages, admins of the owner's region also see internal notes
+  app.get("/api/support-tickets/:id/messages", async (req, res) => {
     const userId = req.session?.userId;
     if (!userId) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     try {
-      const { id } = req.params;
-      const ticket = await storage.getSupportTicket(id);
-      
+      const ticket = await storage.getSupportTicket(req.params.id);
       if (!ticket) {
         return res.status(404).json({ message: "Ticket not found" });
       }
 
-      if (ticket.userId !== userId && req.session?.userRole !== "admin") {
+      const isAdmin = isAdminRole(req.session?.userRole) && (await canAdminAccessUser(userId, ticket.userId));
+      if (ticket.userId !== userId && !isAdmin) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      res.json(ticket);
+      const messages = await storage.getSupportTicketMessages(ticket.id, isAdmin);
+      res.json(messages);
     } catch (error) {
-      console.error("Get support ticket error:", error);
-      res.status(500).json({ message: "Failed to get support ticket" });
+      console.error("Get support ticket messages error:", error);
+      res.status(500).json({ message: "Failed to get ticket messages" });
     }
   });
 
-  app.get("/api/admin/support-tickets", async (req, res) => {
-    const userRole = req.session?.userRole;
+  app.post("/api/support-tickets/:id/messages", async (req, res) => {
     const userId = req.session?.userId;
-    
-    if (userRole !== "admin" && userRole !== "regional-admin" && userRole !== "super-admin") {
-      return res.status(403).json({ message: "Admin access required" });
-    }
-
     if (!userId) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     try {
-      const regionName = await getAdminRegion(userId);
-      const tickets = await storage.getAllSupportTickets(regionName);
-      res.json(tickets);
+      const ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket || ticket.userId !== userId) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+
+      const { body } = insertSupportTicketMessageSchema.parse(req.body);
+      const reply = await storage.addSupportTicketMessage(ticket.id, userId, { body, isInternal: false }, false);
+      if (!reply) {
+        return res.status(404).json({ message: "Ticket not found" });
+      }
+      res.status(201).json(reply.message);
     } catch (error) {
-      console.error("Get all support tickets error:", error);
-      res.status(500).json({ message: "Failed to get support tickets" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Reply to support ticket error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send reply" });
     }
   });
 
-  app.patch("/api/admin/support-tickets/:id", async (req, res) => {
+  app.post("/api/admin/support-tickets/:id/messages", async (req, res) => {
     const userRole = req.session?.userRole;
     const userId = req.session?.userId;
-    if (!isAdminRole(userRole)) {
+    if (!isAdminRole(userRole) || !userId) {
       return res.status(403).json({ message: "Admin access required" });
     }
 
     try {
-      const { id } = req.params;
-      const updates = updateSupportTicketSchema.parse(req.body);
-      
-      if (updates.adminResponse && !updates.respondedBy) {
-        updates.respondedBy = userId;
-        updates.respondedAt = new Date();
-      }
-      
-      const ticket = await storage.updateSupportTicket(id, updates);
-      
-      if (!ticket) {
+      const ticket = await storage.getSupportTicket(req.params.id);
+      if (!ticket || !(await canAdminAccessUser(userId, ticket.userId))) {
         return res.status(404).json({ message: "Ticket not found" });
       }
 
-      // Enviar notificación en tiempo real cuando el admin responde
-      if (updates.adminResponse) {
-        await NotificationHelpers.supportTicketResponse(
-          ticket.userId,
-          ticket.subject
-        );
+      const message = insertSupportTicketMessageSchema.parse(req.body);
+      const reply = await storage.addSupportTicketMessage(ticket.id, userId, message, true);
+      if (!reply) {
+        return res.status(404).json({ message: "Ticket not found" });
       }
 
-      res.json(ticket);
+      if (!reply.message.isInternal) {
+        await NotificationHelpers.supportTicketResponse(ticket.userId, ticket.subject);
+      }
+      res.status(201).json(reply.message);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Update support ticket error:", error);
-      res.status(500).json({ message: "Failed to update support ticket" });
+      console.error("Admin reply to support ticket error:", error);
+      if (error instanceof Error) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to send reply" });
     }
   });
 
@@ -2724,6 +4058,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           defaultRenewalGoalRate: 2000,
           redemptionStartDate: null,
           redemptionEndDate: null,
+          pointsExpirationMonths: null,
+          expirationWarningDays: 30,
           updatedAt: new Date(),
           updatedBy: null
         };
@@ -2779,6 +4115,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Run the points expiration process on demand (it also runs daily)
+  app.post("/api/admin/points-expiration/run", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { region } = z.object({
+        region: z.enum(["NOLA", "SOLA", "BRASIL", "MEXICO"]).optional(),
+      }).parse(req.body);
+
+      // Regional admins can only run it for their own region
+      const adminRegion = await getAdminRegion(userId);
+      if (adminRegion && region && region !== adminRegion) {
+        return res.status(403).json({ message: "You can only run points expiration in your region" });
+      }
+
+      const result = await runPointsExpiration(adminRegion || region);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Run points expiration error:", error);
+      res.status(500).json({ message: "Failed to run points expiration" });
+    }
+  });
+
   // Regions configuration routes
   app.get("/api/admin/regions", async (req, res) => {
     const userRole = req.session?.userRole;
@@ -3262,6 +4629,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { id } = req.params;
+      const existing = await storage.getGrandPrizeCriteria(id);
+      if (existing?.isLocked) {
+        return res.status(409).json({ message: "Criteria is locked because winners have already been awarded" });
+      }
+
       const criteria = await storage.updateGrandPrizeCriteria(id, req.body);
       res.json(criteria);
     } catch (error) {
@@ -3277,6 +4649,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { id } = req.params;
+      const existing = await storage.getGrandPrizeCriteria(id);
+      if (existing?.isLocked) {
+        return res.status(409).json({ message: "Criteria is locked because winners have already been awarded" });
+      }
+
       await storage.deleteGrandPrizeCriteria(id);
       res.json({ message: "Criteria deleted successfully" });
     } catch (error) {
@@ -3300,6 +4677,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Award winners: freeze the top N of the current ranking and lock the criteria
+  app.post("/api/admin/grand-prize/criteria/:id/award", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { id } = req.params;
+      const { topN, notes } = z.object({
+        topN: z.coerce.number().int().min(1).max(100),
+        notes: z.string().max(1000).optional(),
+      }).parse(req.body);
+
+      const criteria = await storage.getGrandPrizeCriteria(id);
+      if (!criteria) {
+        return res.status(404).json({ message: "Criteria not found" });
+      }
+
+      // Regional admins can only award criteria of their own region
+      const adminRegion = await getAdminRegion(userId);
+      if (adminRegion && criteria.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only award winners in your region" });
+      }
+
+      const winners = await storage.awardGrandPrizeWinners(id, topN, userId, notes);
+      res.status(201).json(winners);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Award grand prize winners error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to award grand prize winners" });
+      }
+    }
+  });
+
+  app.get("/api/admin/grand-prize/winners/:criteriaId", async (req, res) => {
+    const userRole = req.session?.userRole;
+
+    if (!isAdminRole(userRole)) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const winners = await storage.getGrandPrizeWinners(req.params.criteriaId);
+      res.json(winners);
+    } catch (error) {
+      console.error("Get grand prize winners error:", error);
+      res.status(500).json({ message: "Failed to get grand prize winners" });
+    }
+  });
+
+  // Past grand prize winners, visible to every participant of the region
+  app.get("/api/grand-prize/winners", async (req, res) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Participants only see their own region; admins may pick one
+      const region = isAdminRole(user.role)
+        ? (req.query.region as string | undefined)
+        : user.region || undefined;
+
+      const winners = await storage.getPastGrandPrizeWinners(region);
+      res.json(
+        winners.map((winner) => ({
+          id: winner.id,
+          criteriaId: winner.criteriaId,
+          criteriaName: winner.criteriaName,
+          region: winner.region,
+          rank: winner.rank,
+          points: winner.points,
+          deals: winner.deals,
+          score: winner.score,
+          awardedAt: winner.awardedAt,
+          notes: winner.notes,
+          userId: winner.userId,
+          userFirstName: winner.userFirstName,
+          userLastName: winner.userLastName,
+        })),
+      );
+    } catch (error) {
+      console.error("Get past grand prize winners error:", error);
+      res.status(500).json({ message: "Failed to get grand prize winners" });
+    }
+  });
+
   // Monthly Prizes routes
   app.get("/api/admin/monthly-prizes", async (req, res) => {
     const userRole = req.session?.userRole;
@@ -3357,6 +4834,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { id } = req.params;
+      const existing = await storage.getMonthlyPrize(id);
+      if (existing && await storage.getMonthlyPrizeDraw(existing.regionConfigId, existing.month, existing.year)) {
+        return res.status(409).json({ message: "This month has already been closed; its prizes cannot be modified" });
+      }
+
       const prize = await storage.updateMonthlyPrize(id, req.body);
       res.json(prize);
     } catch (error) {
@@ -3374,6 +4856,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { id } = req.params;
+      const existing = await storage.getMonthlyPrize(id);
+      if (existing && await storage.getMonthlyPrizeDraw(existing.regionConfigId, existing.month, existing.year)) {
+        return res.status(409).json({ message: "This month has already been closed; its prizes cannot be deleted" });
+      }
+
       await storage.deleteMonthlyPrize(id);
       res.json({ message: "Prize deleted successfully" });
     } catch (error) {
@@ -3382,6 +4869,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Monthly close: qualifiers per region config (goals summed from goals history)
+  app.get("/api/admin/monthly-prizes/qualifiers", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { regionConfigId, month, year } = z.object({
+        regionConfigId: z.string().min(1),
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000),
+      }).parse(req.query);
+
+      const regionConfig = await storage.getRegionConfig(regionConfigId);
+      if (!regionConfig) {
+        return res.status(404).json({ message: "Region configuration not found" });
+      }
+
+      const adminRegion = await getAdminRegion(userId);
+      if (adminRegion && regionConfig.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only view qualifiers in your region" });
+      }
+
+      const qualifiers = await storage.getMonthlyGoalsByUser(regionConfigId, month, year);
+      res.json(qualifiers.sort((a, b) => b.goals - a.goals));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Get monthly prize qualifiers error:", error);
+      res.status(500).json({ message: "Failed to get monthly prize qualifiers" });
+    }
+  });
+
+  // Monthly close: run the seeded draw (or ranking) for every prize of a region config
+  app.post("/api/admin/monthly-prizes/close", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { regionConfigId, month, year, seed } = z.object({
+        regionConfigId: z.string().min(1),
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000),
+        seed: z.string().trim().min(1).max(128).optional(),
+      }).parse(req.body);
+
+      const regionConfig = await storage.getRegionConfig(regionConfigId);
+      if (!regionConfig) {
+        return res.status(404).json({ message: "Region configuration not found" });
+      }
+
+      // Regional admins can only close months of their own region
+      const adminRegion = await getAdminRegion(userId);
+      if (adminRegion && regionConfig.region !== adminRegion) {
+        return res.status(403).json({ message: "You can only close months in your region" });
+      }
+
+      const draw = await storage.runMonthlyPrizeDraw(regionConfigId, month, year, userId, seed);
+      res.status(201).json(draw);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Monthly prize close error:", error);
+      if (error instanceof Error) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to close month" });
+      }
+    }
+  });
+
+  app.get("/api/admin/monthly-prizes/draws", async (req, res) => {
+    const userRole = req.session?.userRole;
+    const userId = req.session?.userId;
+
+    if (!isAdminRole(userRole) || !userId) {
+      return res.status(403).json({ message: "Admin access required" });
+    }
+
+    try {
+      const { month, year, region } = z.object({
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000),
+        region: z.string().optional(),
+      }).parse(req.query);
+
+      // For regional admins, automatically filter by their region
+      const adminRegion = await getAdminRegion(userId);
+      const draws = await storage.getMonthlyPrizeDraws(month, year, adminRegion || region);
+      res.json(draws);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Get monthly prize draws error:", error);
+      res.status(500).json({ message: "Failed to get monthly prize draws" });
+    }
+  });
+
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import { registerJob } from "./jobScheduler";
+import { runPointsExpiration } from "./pointsExpiration";
+import { runSupportSlaEscalation } from "./supportSla";
+import { runWeeklyDigest } from "./weeklyDigest";
+import { runPointsRecalculation } from "./pointsRecalculation";
+
+// Tareas recurrentes del servidor. Los horarios son cron en UTC y cada super-admin puede
+// cambiarlos (o desactivar la tarea) desde Configuración → Tareas programadas.
+
+registerJob({
+  name: "points-expiration",
+  description: "Expires matured point lots and warns users about points close to expiring",
+  defaultSchedule: "0 6 * * *",
+  run: () => runPointsExpiration(),
+});
+
+registerJob({
+  name: "support-sla-escalation",
+  description: "Escalates support tickets that missed their first-response SLA",
+  defaultSchedule: "*/5 * * * *",
+  lockTtlMs: 10 * 60 * 1000,
+  run: () => runSupportSlaEscalation(),
+});
+
+// Se repite cada hora durante el lunes: los envíos ya reservados no se duplican y los fallidos se reintentan
+registerJob({
+  name: "weekly-digest",
+  description: "Sends the weekly summary email to partners and admins",
+  defaultSchedule: "0 12-23 * * 1",
+  run: () => runWeeklyDigest(),
+});
+
+registerJob({
+  name: "region-config-expiration",
+  description: "Deactivates region configurations whose expiration date has passed",
+  defaultSchedule: "0 * * * *",
+  run: async () => {
+    const expired = await storage.deactivateExpiredRegionConfigs(new Date());
+    return { deactivated: expired.map((config) => config.name) };
+  },
+});
+
+// Olvida los contadores de intentos fallidos que ya no pueden bloquear a nadie
+registerJob({
+  name: "login-throttle-cleanup",
+  description: "Deletes expired failed sign-in counters and lockouts",
+  defaultSchedule: "30 * * * *",
+  run: async () => {
+    const now = new Date();
+    const deleted = await storage.deleteStaleLoginThrottles(new Date(now.getTime() - 24 * 60 * 60 * 1000), now);
+    return { deleted };
+  },
+});
+
+// Cierra el mes anterior en cada configuración con premios que aún no tenga cierre
+registerJob({
+  name: "monthly-close",
+  description: "Closes the previous month and draws the monthly prizes for every region configuration",
+  defaultSchedule: "0 6 1 * *",
+  run: async () => {
+    const now = new Date();
+    const previousMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    const month = previousMonth.getUTCMonth() + 1;
+    const year = previousMonth.getUTCFullYear();
+
+    const closed: string[] = [];
+    const errors: string[] = [];
+    for (const config of await storage.getRegionConfigs()) {
+      const prizes = await storage.getMonthlyRegionPrizes(config.id, month, year);
+      if (prizes.length === 0 || (await storage.getMonthlyPrizeDraw(config.id, month, year))) continue;
+
+      try {
+        await storage.runMonthlyPrizeDraw(config.id, month, year, null);
+        closed.push(config.name);
+      } catch (error) {
+        errors.push(`${config.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (errors.length > 0 && closed.length === 0) {
+      throw new Error(errors.join("; "));
+    }
+    return { month, year, closed, errors };
+  },
+});
+
+// Desactivada por defecto: los admins la lanzan desde la configuración de puntos, primero como simulación.
+// La ejecución programada corrige todas las regiones.
+registerJob({
+  name: "points-recalculation",
+  description: "Recalculates points and goals of every deal with the current rules and posts adjustment entries",
+  defaultSchedule: "0 3 * * 0",
+  enabledByDefault: false,
+  lockTtlMs: 2 * 60 * 60 * 1000,
+  run: ({ params, triggeredBy, reportProgress }) =>
+    runPointsRecalculation({
+      region: typeof params.region === "string" ? params.region : undefined,
+      dryRun: params.dryRun === true,
+      actorId: triggeredBy,
+      onProgress: reportProgress,
+    }),
+});
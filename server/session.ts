@@ -0,0 +1,132 @@
+import type { Request, RequestHandler } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import { createHash } from "crypto";
+import type { User } from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { disconnectSessionSockets, disconnectUserSockets } from "./socket";
+
+// Extend session data interface
+declare module 'express-session' {
+  interface SessionData {
+    userId?: string;
+    userRole?: string;
+    // Datos del dispositivo, para la lista de sesiones abiertas del perfil
+    loginAt?: string;
+    lastSeenAt?: string;
+    userAgent?: string;
+    ipAddress?: string;
+    // La sesión superó el segundo factor; sin él, un admin solo puede activarlo
+    twoFactorVerified?: boolean;
+    // Login a medias: contraseña (o enlace) correcta, falta el código del segundo factor
+    pendingTwoFactorUserId?: string;
+    pendingTwoFactorExpiresAt?: number;
+    pendingTwoFactorAttempts?: number;
+  }
+}
+
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
+// La última actividad se guarda como mucho cada 5 minutos para no escribir la sesión en cada petición
+const LAST_SEEN_UPDATE_MS = 5 * 60 * 1000;
+// Tiempo para introducir el código del segundo factor tras la contraseña
+const TWO_FACTOR_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ SESSION_SECRET not set, using an insecure development secret");
+  return "loyaltypilot-dev-session-secret";
+}
+
+const PgSessionStore = connectPgSimple(session);
+
+// Las sesiones viven en Postgres (tabla sessions, creada por las migraciones): sobreviven a los reinicios
+// y las comparten todas las instancias del servidor
+export const sessionStore = new PgSessionStore({
+  pool,
+  tableName: "sessions",
+});
+
+// Session configuration (shared with Socket.IO to authenticate handshakes)
+export const sessionMiddleware = session({
+  secret: getSessionSecret(),
+  store: sessionStore,
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: false, // Set to true in production with HTTPS
+    httpOnly: true,
+    maxAge: SESSION_MAX_AGE_MS,
+  },
+});
+
+/**
+ * Registra la última actividad de las sesiones autenticadas
+ */
+export const trackSessionActivity: RequestHandler = (req, _res, next) => {
+  if (req.session?.userId) {
+    const lastSeenAt = req.session.lastSeenAt ? new Date(req.session.lastSeenAt).getTime() : 0;
+    if (Date.now() - lastSeenAt > LAST_SEEN_UPDATE_MS) {
+      req.session.lastSeenAt = new Date().toISOString();
+    }
+  }
+  next();
+};
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Abre una sesión nueva para el usuario: se regenera el id para no reutilizar el de antes del login
+ */
+export async function startUserSession(req: Request, user: User, { twoFactorVerified }: { twoFactorVerified: boolean }): Promise<void> {
+  await regenerateSession(req);
+
+  const now = new Date().toISOString();
+  req.session.userId = user.id;
+  req.session.userRole = user.role;
+  req.session.twoFactorVerified = twoFactorVerified;
+  req.session.loginAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent")?.slice(0, 500);
+  req.session.ipAddress = req.ip;
+}
+
+/**
+ * Deja el login pendiente del código del segundo factor, sin autenticar todavía la sesión
+ */
+export async function startTwoFactorChallenge(req: Request, user: User): Promise<void> {
+  await regenerateSession(req);
+
+  req.session.pendingTwoFactorUserId = user.id;
+  req.session.pendingTwoFactorExpiresAt = Date.now() + TWO_FACTOR_CHALLENGE_TTL_MS;
+  req.session.pendingTwoFactorAttempts = 0;
+}
+
+/**
+ * Identificador de una sesión que se puede mostrar al usuario: el id real sirve para suplantarla
+ */
+export function getSessionPublicId(sessionId: string): string {
+  return createHash("sha256").update(sessionId).digest("hex").slice(0, 32);
+}
+
+/**
+ * Cierra las sesiones del usuario, salvo la indicada, y desconecta sus sockets; devuelve cuántas se cerraron
+ */
+export async function destroyUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const sessionIds = await storage.deleteUserSessions(userId, exceptSessionId);
+  if (exceptSessionId) {
+    await Promise.all(sessionIds.map((sessionId) => disconnectSessionSockets(userId, sessionId)));
+  } else {
+    disconnectUserSockets(userId);
+  }
+  return sessionIds.length;
+}
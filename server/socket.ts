@@ -1,16 +1,79 @@
 import { Server as SocketServer } from "socket.io";
 import type { Server } from "http";
+import type { RequestHandler } from "express";
+import type { SessionData } from "express-session";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { users } from "@shared/schema";
 
 let io: SocketServer | null = null;
 
-export function initializeSocket(server: Server) {
+/**
+ * Nombres de rooms. Cada socket autenticado se une a su room de usuario, de rol
+ * y de región; los admins además a la room de admins de su alcance:
+ * - admin / super-admin: "admins:all" (reciben eventos de todas las regiones)
+ * - regional-admin: "admins:<REGION>"
+ */
+export const socketRooms = {
+  user: (userId: string) => `user:${userId}`,
+  role: (role: string) => `role:${role}`,
+  region: (region: string) => `region:${region}`,
+  admins: (region?: string | null) => (region ? `admins:${region}` : "admins:all"),
+};
+
+export function initializeSocket(server: Server, sessionMiddleware: RequestHandler) {
   io = new SocketServer(server, {
-    cors: { origin: "*" },
+    // El cliente se sirve desde el mismo origen; solo se admite otro origen si se configura APP_URL
+    cors: { origin: process.env.APP_URL || false, credentials: true },
+  });
+
+  // Reutilizar la sesión de express para autenticar el handshake
+  io.engine.use(sessionMiddleware);
+
+  io.use(async (socket, next) => {
+    const request = socket.request as typeof socket.request & { session?: SessionData; sessionID?: string };
+    const userId = request.session?.userId;
+    if (!userId) {
+      return next(new Error("Not authenticated"));
+    }
+
+    try {
+      const [user] = await db.select().from(users).where(eq(users.id, userId));
+      if (!user || !user.isActive) {
+        return next(new Error("Not authenticated"));
+      }
+      // Igual que en la API: un admin sin el segundo factor verificado no recibe eventos
+      if (user.role !== "user" && !request.session?.twoFactorVerified) {
+        return next(new Error("Two-factor authentication required"));
+      }
+
+      socket.data.sessionId = request.sessionID;
+      socket.data.userId = user.id;
+      socket.data.role = user.role;
+      socket.data.region = user.region;
+      next();
+    } catch (error) {
+      console.error("Socket authentication error:", error);
+      next(new Error("Authentication failed"));
+    }
   });
 
   io.on("connection", (socket) => {
-    console.log("🟢 Socket connected:", socket.id);
-    
+    const { userId, role, region } = socket.data;
+    console.log("🟢 Socket connected:", socket.id, userId);
+
+    socket.join(socketRooms.user(userId));
+    socket.join(socketRooms.role(role));
+    if (region) {
+      socket.join(socketRooms.region(region));
+    }
+
+    if (role === "admin" || role === "super-admin") {
+      socket.join(socketRooms.admins());
+    } else if (role === "regional-admin" && region) {
+      socket.join(socketRooms.admins(region));
+    }
+
     socket.on("disconnect", () => {
       console.log("🔴 Socket disconnected:", socket.id);
     });
@@ -25,3 +88,83 @@ export function getIO(): SocketServer {
   }
   return io;
 }
+
+/**
+ * Emite un evento solo a las conexiones del usuario indicado
+ */
+export function emitToUser(userId: string, event: string, payload: unknown) {
+  // Fuera del servidor HTTP (scripts) no hay sockets a los que emitir
+  if (!io) return;
+  io.to(socketRooms.user(userId)).emit(event, payload);
+}
+
+/**
+ * Emite un evento a los admins globales y, si se indica región, a los admins regionales de esa región
+ */
+export function emitToAdmins(region: string | null | undefined, event: string, payload: unknown) {
+  if (!io) return;
+  const rooms = region ? [socketRooms.admins(), socketRooms.admins(region)] : [socketRooms.admins()];
+  io.to(rooms).emit(event, payload);
+}
+
+export type AdminQueue = "deals" | "rewards" | "users" | "tickets";
+
+/**
+ * Avisa a los admins de la región del usuario afectado que una cola de revisión cambió,
+ * para que refresquen sus listas y contadores. Nunca lanza: un fallo aquí no debe
+ * deshacer la operación que ya se guardó.
+ */
+export async function emitAdminQueueUpdate(queue: AdminQueue, userId: string) {
+  if (!io) return;
+  try {
+    const [user] = await db
+      .select({ region: users.region })
+      .from(users)
+      .where(eq(users.id, userId));
+    emitToAdmins(user?.region, "admin:queue-updated", { queue });
+  } catch (error) {
+    console.error("Failed to emit admin queue update:", error);
+  }
+}
+
+/**
+ * Avisa de un mensaje nuevo en un ticket de soporte a los admins de la región del dueño
+ * del ticket y, salvo que sea una nota interna, al propio dueño. Nunca lanza.
+ */
+export async function emitSupportTicketMessage(
+  ticketUserId: string,
+  payload: { ticketId: string; messageId: string; authorId: string; isInternal: boolean },
+) {
+  if (!io) return;
+  try {
+    const [user] = await db
+      .select({ region: users.region })
+      .from(users)
+      .where(eq(users.id, ticketUserId));
+    emitToAdmins(user?.region, "support:ticket-message", payload);
+    if (!payload.isInternal) {
+      emitToUser(ticketUserId, "support:ticket-message", payload);
+    }
+  } catch (error) {
+    console.error("Failed to emit support ticket message:", error);
+  }
+}
+
+/**
+ * Desconecta los sockets abiertos con una sesión (p. ej. al cerrar sesión)
+ */
+export async function disconnectSessionSockets(userId: string, sessionId: string) {
+  const sockets = await getIO().in(socketRooms.user(userId)).fetchSockets();
+  for (const socket of sockets) {
+    if (socket.data.sessionId === sessionId) {
+      socket.disconnect(true);
+    }
+  }
+}
+
+/**
+ * Desconecta todos los sockets del usuario (p. ej. al restablecer su contraseña)
+ */
+export function disconnectUserSockets(userId: string): void {
+  getIO().in(socketRooms.user(userId)).disconnectSockets(true);
+}
@@ -9,14 +9,31 @@ import {
   pointsHistory,
   rewards,
   supportTickets,
+  supportTicketMessages,
+  supportSlaPolicies,
   userRewards,
   users,
   regionConfigs,
   monthlyRegionPrizes,
   rewardRegionAssignments,
   goalsHistory,
+  dealEvents,
+  dealConflicts,
+  dealAttachments,
   grandPrizeCriteria,
   grandPrizeWinners,
+  userPointsBalances,
+  monthlyPrizeDraws,
+  monthlyPrizeWinners,
+  emailOutbox,
+  emailTemplateOverrides,
+  notificationPreferences,
+  notificationDigestItems,
+  weeklyDigestDeliveries,
+  scheduledJobs,
+  jobRuns,
+  sessions,
+  loginThrottles,
   type Campaign,
   type Deal,
   type DealWithUser,
@@ -31,9 +48,17 @@ import {
   type Notification,
   type PointsConfig,
   type PointsHistory,
+  type UserPointsBalance,
   type Reward,
   type SupportTicket,
   type SupportTicketWithUser,
+  type SupportTicketMessage,
+  type SupportTicketMessageWithAuthor,
+  type InsertSupportTicketMessage,
+  type SupportSlaTarget,
+  type SupportSlaMetrics,
+  type SupportSlaPriorityMetrics,
+  type UpdateSupportSlaPolicies,
   type UpdateDeal,
   type UpdatePointsConfig,
   type UpdateSupportTicket,
@@ -43,25 +68,122 @@ import {
   type InsertRegionConfig,
   type MonthlyRegionPrize,
   type InsertMonthlyRegionPrize,
+  type MonthlyPrizeDraw,
+  type MonthlyPrizeDrawWithWinners,
+  type AdminQueueCounts,
+  type DealEventWithActor,
+  type DealFieldChange,
+  type InsertDealEvent,
+  type ResubmitDeal,
+  type DealConflict,
+  type DealConflictWithDeal,
+  type DealAttachment,
+  type InsertDealAttachment,
+  type MonthlyPrizeWinnerWithUser,
   type RewardRegionAssignment,
+  type RewardAssignmentInput,
   type GoalsHistory,
   type GrandPrizeCriteria,
   type InsertGrandPrizeCriteria,
   type UpdateGrandPrizeCriteria,
+  type GrandPrizeWinner,
+  type GrandPrizeWinnerWithUser,
   type Region,
+  type EmailOutboxEntry,
+  type EmailOutboxSummary,
+  type InsertEmailOutboxEntry,
+  type EmailOutboxStatus,
+  type EmailOutboxCounts,
+  type EmailTemplateOverride,
+  type UpsertEmailTemplateOverride,
+  type NotificationPreferenceSetting,
+  type UpdateNotificationPreferences,
+  type NotificationDigestItem,
+  type InsertNotificationDigestItem,
+  type ScheduledJob,
+  type JobRun,
+  type JobRunProgress,
+  type DealRewardsRecalculation,
+  type InsertJobRun,
+  type JobRunStatus,
+  type UserSession,
+  type LoginThrottle,
+  type LockedAccount,
 } from "@shared/schema";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DEFAULT_SUPPORT_SLA_MINUTES,
+  NOTIFICATION_EVENTS,
+  SUPPORT_TICKET_PRIORITIES,
+  type SupportTicketPriority,
+} from "@shared/constants";
 
 // ───────────────────────────────────────────────
 // Database connection and ORM helpers
 // ───────────────────────────────────────────────
 import { db } from "./db";
-import { and, asc, desc, eq, ne, count, sum, gte, gt, lte, isNotNull, isNull, sql } from "drizzle-orm";
+import { and, asc, desc, eq, ne, or, count, sum, gte, gt, lt, lte, inArray, isNotNull, isNull, exists, notExists, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 // ───────────────────────────────────────────────
 // Utilities
 // ───────────────────────────────────────────────
-import { randomUUID } from "crypto";
+import { randomUUID, randomBytes, createHmac } from "crypto";
 import { NotificationHelpers } from "./notifications";
+import { emitAdminQueueUpdate, emitSupportTicketMessage } from "./socket";
+
+// Transacción de drizzle: misma API de consultas que `db`
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Campos de un deal que determinan sus puntos y goles
+const DEAL_REWARD_FIELDS: (keyof Deal)[] = ["productType", "dealValue", "dealType", "closeDate", "regionId"];
+
+// Datos de un deal (registrado o por importar) que se comparan para detectar duplicados
+type DuplicateDealCandidate = {
+  id?: string;
+  licenseAgreementNumber?: string | null;
+  clientInfo?: string | null;
+  dealValue: string;
+  closeDate: Date;
+};
+
+// Días alrededor de la fecha de cierre en los que un deal del mismo cliente y valor se considera duplicado
+const DUPLICATE_CLOSE_DATE_WINDOW_DAYS = 7;
+
+// Estados en los que un ticket sigue pendiente del equipo de soporte
+const ACTIVE_TICKET_STATUSES: SupportTicket["status"][] = ["open", "in_progress"];
+
+// Columnas del outbox que se muestran en el panel: nunca el cuerpo, que puede llevar enlaces con token
+const EMAIL_OUTBOX_SUMMARY_COLUMNS = {
+  id: emailOutbox.id,
+  toEmail: emailOutbox.toEmail,
+  toName: emailOutbox.toName,
+  subject: emailOutbox.subject,
+  category: emailOutbox.category,
+  status: emailOutbox.status,
+  attempts: emailOutbox.attempts,
+  nextAttemptAt: emailOutbox.nextAttemptAt,
+  lockedAt: emailOutbox.lockedAt,
+  lastError: emailOutbox.lastError,
+  transport: emailOutbox.transport,
+  providerMessageId: emailOutbox.providerMessageId,
+  sentAt: emailOutbox.sentAt,
+  createdAt: emailOutbox.createdAt,
+  updatedAt: emailOutbox.updatedAt,
+};
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+// Texto libre comparable: minúsculas, sin acentos, espacios ni signos
+function normalizeDealText(value: string | null | undefined): string {
+  return (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+}
 
 export interface IStorage {
   // User methods
@@ -71,6 +193,13 @@ export interface IStorage {
   getUserByEmailAndRegion(email: string, region: string): Promise<User | undefined>;
   getUserByInviteToken(inviteToken: string): Promise<User | undefined>;
   getUserByLoginToken(loginToken: string): Promise<User | undefined>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  resetPasswordWithToken(resetTokenHash: string, passwordHash: string, now: Date): Promise<User | undefined>;
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSession(userId: string, sessionId: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSessionId?: string): Promise<string[]>;
+  recordTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeTwoFactorRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   getUserStats(userId: string): Promise<{
@@ -79,21 +208,53 @@ export interface IStorage {
     totalDeals: number;
     pendingDeals: number;
     redeemedRewards: number;
+    expiringSoonPoints: number;
+    nextExpirationDate: Date | null;
   }>;
 
   // Deal methods
-  createDeal(deal: InsertDeal): Promise<Deal>;
+  createDeal(deal: InsertDeal, attachments?: InsertDealAttachment[]): Promise<Deal>;
   getDeal(id: string): Promise<Deal | undefined>;
   getUserDeals(userId: string): Promise<Deal[]>;
   getPendingDeals(regionId?: string): Promise<DealWithUser[]>;
   getAllDeals(page?: number, limit?: number, regionId?: string): Promise<{ deals: DealWithUser[]; total: number }>;
   approveDeal(id: string, approvedBy: string): Promise<Deal | undefined>;
-  rejectDeal(id: string): Promise<Deal | undefined>;
-  updateDeal(id: string, updates: UpdateDeal): Promise<Deal | undefined>;
+  rejectDeal(id: string, rejectedBy: string, reason: string): Promise<Deal | undefined>;
+  updateDeal(id: string, updates: UpdateDeal, updatedBy: string, comment?: string): Promise<Deal | undefined>;
+  getDealIdsForRecalculation(region?: string): Promise<string[]>;
+  recalculateDealRewards(
+    dealId: string,
+    options: { dryRun: boolean; actorId: string | null },
+  ): Promise<DealRewardsRecalculation | undefined>;
+  resubmitDeal(
+    id: string,
+    userId: string,
+    resubmission: ResubmitDeal,
+    attachments?: InsertDealAttachment[],
+  ): Promise<Deal | undefined>;
+  getDealEvents(dealId: string): Promise<DealEventWithActor[]>;
+  getDealAttachments(dealId: string): Promise<DealAttachment[]>;
+  getDealAttachment(dealId: string, attachmentId: string): Promise<DealAttachment | undefined>;
+  getAttachmentRequiredAboveValue(userId: string): Promise<number | null>;
+  findDuplicateDeals(
+    candidate: DuplicateDealCandidate,
+  ): Promise<Array<{ deal: Deal; reason: DealConflict["reason"] }>>;
+  flagDealConflicts(deal: Deal): Promise<DealConflict[]>;
+  getOpenDealConflicts(regionId?: string): Promise<DealConflictWithDeal[]>;
+  resolveDealConflicts(
+    dealId: string,
+    resolvedBy: string,
+    resolution: "not_duplicate" | "duplicate",
+    note?: string,
+  ): Promise<Deal | undefined>;
   getRecentDeals(userId: string, limit?: number): Promise<Deal[]>;
 
   // Reward methods
   getRewards(regionName?: string): Promise<Reward[]>;
+  getRewardsForUser(user: User): Promise<Reward[]>;
+  isRewardAvailableToUser(rewardId: string, user: User): Promise<boolean>;
+  getRewardRegionAssignments(rewardId: string): Promise<RewardRegionAssignment[]>;
+  setRewardRegionAssignments(rewardId: string, assignments: RewardAssignmentInput[]): Promise<RewardRegionAssignment[]>;
   getReward(id: string): Promise<Reward | undefined>;
   createReward(reward: InsertReward): Promise<Reward>;
   updateReward(
@@ -144,9 +305,18 @@ export interface IStorage {
 
   // Points methods
   addPointsHistory(entry: InsertPointsHistory): Promise<PointsHistory>;
-  getUserPointsHistory(userId: string): Promise<PointsHistory[]>;
+  getUserPointsHistory(userId: string): Promise<Array<PointsHistory & { campaignName?: string | null }>>;
   getUserTotalPoints(userId: string): Promise<number>;
   getUserAvailablePoints(userId: string): Promise<number>;
+  getUserPointsBalance(userId: string): Promise<UserPointsBalance>;
+  getExpiringPoints(userId: string, asOf?: Date): Promise<{
+    points: number;
+    nextExpirationDate: Date | null;
+    lots: Array<{ id: string; remaining: number; expiresAt: Date; warned: boolean }>;
+  }>;
+  expireUserPoints(userId: string, asOf?: Date): Promise<number>;
+  markPointsExpirationWarned(lotIds: string[]): Promise<void>;
+  getPointsEarnedBetween(userId: string, from: Date, to: Date): Promise<number>;
   getTopUsersByPoints(limit?: number): Promise<
     Array<{
       userId: string;
@@ -160,6 +330,7 @@ export interface IStorage {
   // Campaign methods
   getCampaigns(region?: Region): Promise<Campaign[]>;
   getActiveCampaigns(): Promise<Campaign[]>;
+  getApplicableCampaign(region: Region, date: Date): Promise<Campaign | undefined>;
 
   // Admin methods
   getAllUsers(regionId?: string): Promise<User[]>;
@@ -168,6 +339,7 @@ export interface IStorage {
   approveUser(userId: string, approvedBy: string): Promise<User | undefined>;
   rejectUser(userId: string): Promise<User | undefined>;
   deleteUser(id: string): Promise<User | undefined>;
+  getAdminQueueCounts(regionId?: string): Promise<AdminQueueCounts>;
   getReportsData(filters: {
     country?: string;
     startDate?: Date;
@@ -211,6 +383,18 @@ export interface IStorage {
     id: string,
     updates: UpdateSupportTicket,
   ): Promise<SupportTicket | undefined>;
+  getSupportSlaTargets(): Promise<SupportSlaTarget[]>;
+  updateSupportSlaTargets(targets: UpdateSupportSlaPolicies, updatedBy: string): Promise<SupportSlaTarget[]>;
+  getTicketsBreachingFirstResponse(now: Date): Promise<SupportTicket[]>;
+  markSupportTicketEscalated(id: string): Promise<SupportTicket | undefined>;
+  getSupportSlaMetrics(regionName?: string, since?: Date): Promise<SupportSlaMetrics>;
+  getSupportTicketMessages(ticketId: string, includeInternal: boolean): Promise<SupportTicketMessageWithAuthor[]>;
+  addSupportTicketMessage(
+    ticketId: string,
+    authorId: string,
+    message: InsertSupportTicketMessage,
+    fromAdmin: boolean,
+  ): Promise<{ ticket: SupportTicket; message: SupportTicketMessage } | undefined>;
 
   // Points Config methods
   getPointsConfig(): Promise<PointsConfig | undefined>;
@@ -227,9 +411,11 @@ export interface IStorage {
   // Regions methods
   getAllRegionConfigs(): Promise<RegionConfig[]>;
   getRegionConfig(id: string): Promise<RegionConfig | undefined>;
+  findUserRegionConfig(user: User): Promise<RegionConfig | undefined>;
   createRegionConfig(config: InsertRegionConfig): Promise<RegionConfig>;
   updateRegionConfig(id: string, updates: Partial<RegionConfig>): Promise<RegionConfig | undefined>;
   deleteRegionConfig(id: string): Promise<RegionConfig | undefined>;
+  deactivateExpiredRegionConfigs(now: Date): Promise<RegionConfig[]>;
   getMonthlyRegionPrizes(
     regionConfigId: string,
     month: number,
@@ -253,12 +439,98 @@ export interface IStorage {
   updateGrandPrizeCriteria(id: string, updates: UpdateGrandPrizeCriteria): Promise<GrandPrizeCriteria | undefined>;
   deleteGrandPrizeCriteria(id: string): Promise<void>;
   getGrandPrizeRanking(criteriaId: string): Promise<any[]>;
+  getGrandPrizeCriteria(id: string): Promise<GrandPrizeCriteria | undefined>;
+  awardGrandPrizeWinners(
+    criteriaId: string,
+    topN: number,
+    awardedBy: string,
+    notes?: string,
+  ): Promise<GrandPrizeWinner[]>;
+  getGrandPrizeWinners(criteriaId: string): Promise<GrandPrizeWinnerWithUser[]>;
+  getPastGrandPrizeWinners(region?: string): Promise<GrandPrizeWinnerWithUser[]>;
 
   // Monthly Prizes methods
   getMonthlyPrizes(month?: number, year?: number, region?: string): Promise<MonthlyRegionPrize[]>;
   createMonthlyPrize(prize: InsertMonthlyRegionPrize): Promise<MonthlyRegionPrize>;
   updateMonthlyPrize(id: string, updates: Partial<MonthlyRegionPrize>): Promise<MonthlyRegionPrize | undefined>;
   deleteMonthlyPrize(id: string): Promise<void>;
+  getMonthlyPrize(id: string): Promise<MonthlyRegionPrize | undefined>;
+  getMonthlyGoalsByUser(
+    regionConfigId: string,
+    month: number,
+    year: number,
+  ): Promise<{ userId: string; firstName: string; lastName: string; username: string; goals: number }[]>;
+  getMonthlyPrizeDraw(regionConfigId: string, month: number, year: number): Promise<MonthlyPrizeDraw | undefined>;
+  runMonthlyPrizeDraw(
+    regionConfigId: string,
+    month: number,
+    year: number,
+    executedBy: string | null,
+    seed?: string,
+  ): Promise<MonthlyPrizeDrawWithWinners>;
+  getMonthlyPrizeDraws(month: number, year: number, region?: string): Promise<MonthlyPrizeDrawWithWinners[]>;
+
+  // Email outbox methods
+  enqueueEmail(entry: InsertEmailOutboxEntry): Promise<EmailOutboxEntry>;
+  claimDueEmails(now: Date, limit: number): Promise<EmailOutboxEntry[]>;
+  markEmailSent(id: string, transport: string, providerMessageId?: string, redactContent?: boolean): Promise<void>;
+  markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+  releaseStaleEmailClaims(claimedBefore: Date): Promise<number>;
+  getEmailOutbox(status?: EmailOutboxStatus, limit?: number): Promise<EmailOutboxSummary[]>;
+  getEmailOutboxCounts(): Promise<EmailOutboxCounts>;
+  requeueEmail(id: string): Promise<EmailOutboxSummary>;
+
+  // Email template methods
+  getEmailTemplateOverrides(): Promise<EmailTemplateOverride[]>;
+  getEmailTemplateOverride(templateKey: string, language: string, region: Region): Promise<EmailTemplateOverride | undefined>;
+  upsertEmailTemplateOverride(override: UpsertEmailTemplateOverride, updatedBy: string): Promise<EmailTemplateOverride>;
+  deleteEmailTemplateOverride(id: string): Promise<boolean>;
+
+  // Notification preference methods
+  getNotificationPreferences(userId: string): Promise<NotificationPreferenceSetting[]>;
+  updateNotificationPreferences(userId: string, preferences: UpdateNotificationPreferences): Promise<NotificationPreferenceSetting[]>;
+  addNotificationDigestItem(item: InsertNotificationDigestItem): Promise<NotificationDigestItem>;
+  getPendingDigestItems(userId: string): Promise<NotificationDigestItem[]>;
+  markDigestItemsDigested(ids: string[]): Promise<void>;
+  claimWeeklyDigest(userId: string, periodStart: Date, kind: "partner" | "admin"): Promise<boolean>;
+  releaseWeeklyDigest(userId: string, periodStart: Date): Promise<void>;
+
+  // Scheduled job methods
+  ensureScheduledJob(name: string, schedule: string, enabled: boolean, nextRunAt: Date): Promise<ScheduledJob>;
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(name: string): Promise<ScheduledJob | undefined>;
+  getDueScheduledJobs(now: Date): Promise<ScheduledJob[]>;
+  updateScheduledJob(
+    name: string,
+    updates: Partial<Pick<ScheduledJob, "enabled" | "schedule" | "nextRunAt">>,
+    updatedBy: string,
+  ): Promise<ScheduledJob | undefined>;
+  acquireJobLock(name: string, instanceId: string, now: Date, lockedUntil: Date, onlyIfDue: boolean): Promise<boolean>;
+  extendJobLock(name: string, instanceId: string, lockedUntil: Date): Promise<void>;
+  releaseJobLock(
+    name: string,
+    instanceId: string,
+    outcome: { lastRunAt: Date; lastStatus: JobRunStatus; nextRunAt?: Date },
+  ): Promise<void>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  getJobRun(id: string): Promise<JobRun | undefined>;
+  updateJobRunProgress(id: string, progress: JobRunProgress): Promise<void>;
+  finishJobRun(id: string, status: JobRunStatus, result: Record<string, unknown> | null, error: string | null): Promise<JobRun>;
+  failInterruptedJobRuns(jobName: string): Promise<number>;
+  getJobRuns(jobName?: string, limit?: number): Promise<JobRun[]>;
+
+  // Login throttling methods
+  getLoginThrottles(keys: string[]): Promise<LoginThrottle[]>;
+  recordLoginFailure(
+    key: string,
+    details: { userId: string | null; ipAddress: string | null },
+    now: Date,
+    resetAfterMs: number,
+  ): Promise<LoginThrottle>;
+  lockLoginThrottle(key: string, lockedUntil: Date, now: Date): Promise<boolean>;
+  deleteLoginThrottle(key: string): Promise<boolean>;
+  getLockedAccounts(now: Date, regionName?: string): Promise<LockedAccount[]>;
+  deleteStaleLoginThrottles(lastFailureBefore: Date, now: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -307,8 +579,87 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // El mismo email puede tener una cuenta por región
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.email, email));
+  }
+
+  // Cambia la contraseña si el token sigue vigente y lo consume en la misma sentencia (un solo uso)
+  async resetPasswordWithToken(resetTokenHash: string, passwordHash: string, now: Date): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        password: passwordHash,
+        resetToken: null,
+        resetTokenExpiry: null,
+        loginToken: null,
+        loginTokenExpiry: null,
+        updatedAt: now,
+      })
+      .where(and(eq(users.resetToken, resetTokenHash), gt(users.resetTokenExpiry, now)))
+      .returning();
+    return user;
+  }
+
+  // Sesiones vigentes del usuario, la más reciente primero
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sessionId), sql`${sessions.sess}->>'userId' = ${userId}`))
+      .returning({ sid: sessions.sid });
+    return deleted.length > 0;
+  }
+
+  // Cierra las sesiones del usuario (opcionalmente todas menos una) y devuelve los ids eliminados
+  async deleteUserSessions(userId: string, exceptSessionId?: string): Promise<string[]> {
+    const conditions = [sql`${sessions.sess}->>'userId' = ${userId}`];
+    if (exceptSessionId) {
+      conditions.push(ne(sessions.sid, exceptSessionId));
+    }
+
+    const deleted = await db
+      .delete(sessions)
+      .where(and(...conditions))
+      .returning({ sid: sessions.sid });
+    return deleted.map((row) => row.sid);
+  }
+
+  // Acepta el paso TOTP solo si es posterior al último usado: un código no vale dos veces
+  async recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorLastUsedStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.twoFactorLastUsedStep), lt(users.twoFactorLastUsedStep, step)),
+        ),
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Quita el código de recuperación de la lista en la misma sentencia que lo comprueba (un solo uso)
+  async consumeTwoFactorRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ twoFactorRecoveryCodes: sql`${users.twoFactorRecoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(users.id, userId), sql`jsonb_exists(${users.twoFactorRecoveryCodes}, ${codeHash})`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
+    await emitAdminQueueUpdate("users", user.id);
     return user;
   }
 
@@ -330,6 +681,8 @@ export class DatabaseStorage implements IStorage {
     totalDeals: number;
     pendingDeals: number;
     redeemedRewards: number;
+    expiringSoonPoints: number;
+    nextExpirationDate: Date | null;
   }> {
     const [totalPointsResult] = await db
       .select({ total: sum(pointsHistory.points) })
@@ -358,6 +711,7 @@ export class DatabaseStorage implements IStorage {
 
     const totalPoints = Number(totalPointsResult?.total || 0);
     const availablePoints = await this.getUserAvailablePoints(userId);
+    const expiring = await this.getExpiringPoints(userId);
 
     return {
       totalPoints,
@@ -365,11 +719,24 @@ export class DatabaseStorage implements IStorage {
       totalDeals: totalDealsResult?.count || 0,
       pendingDeals: pendingDealsResult?.count || 0,
       redeemedRewards: redeemedRewardsResult?.count || 0,
+      expiringSoonPoints: expiring.points,
+      nextExpirationDate: expiring.nextExpirationDate,
     };
   }
 
-  async createDeal(deal: InsertDeal): Promise<Deal> {
-    const [createdDeal] = await db.insert(deals).values(deal).returning();
+  async createDeal(deal: InsertDeal, attachments: InsertDealAttachment[] = []): Promise<Deal> {
+    const createdDeal = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(deals).values(deal).returning();
+      await this.recordDealEvent(tx, {
+        dealId: created.id,
+        actorId: created.userId,
+        eventType: "created",
+        toStatus: created.status,
+      });
+      await this.insertDealAttachments(tx, created.id, created.userId, attachments);
+      return created;
+    });
+    await emitAdminQueueUpdate("deals", createdDeal.userId);
     return createdDeal;
   }
 
@@ -404,6 +771,8 @@ export class DatabaseStorage implements IStorage {
         clientInfo: deals.clientInfo,
         licenseAgreementNumber: deals.licenseAgreementNumber,
         status: deals.status,
+        rejectionReason: deals.rejectionReason,
+        revision: deals.revision,
         pointsEarned: deals.pointsEarned,
         goalsEarned: deals.goalsEarned,
         approvedBy: deals.approvedBy,
@@ -413,6 +782,7 @@ export class DatabaseStorage implements IStorage {
         userFirstName: users.firstName,
         userLastName: users.lastName,
         userName: users.username,
+        attachmentCount: sql<number>`(select count(*) from ${dealAttachments} where ${dealAttachments.dealId} = ${deals.id})`.mapWith(Number),
       })
       .from(deals)
       .leftJoin(users, eq(deals.userId, users.id))
@@ -452,12 +822,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async approveDeal(id: string, approvedBy: string): Promise<Deal | undefined> {
-    const deal = await this.getDeal(id);
-    if (!deal) return undefined;
-
+  // Puntos y goles que le corresponden a un deal con la configuración vigente
+  private async calculateDealRewards(deal: Deal): Promise<{
+    pointsEarned: number;
+    goalsEarned: number;
+    regionConfigId: string | null;
+    campaign: Campaign | undefined;
+    multiplier: number;
+  }> {
     // Calculate points based on dynamic configuration
-    const pointsEarned = await this.calculatePointsForDeal(
+    const basePoints = await this.calculatePointsForDeal(
       deal.productType,
       Number(deal.dealValue),
     );
@@ -467,24 +841,21 @@ export class DatabaseStorage implements IStorage {
     let goalsEarned = 0;
     let regionConfigId: string | null = null;
 
+    // Región del deal: la de su configuración regional o, si no tiene, la del usuario
+    const dealRegionConfig = deal.regionId ? await this.getRegionConfig(deal.regionId) : undefined;
+    const dealRegion = dealRegionConfig?.region || user?.region || null;
+
+    // Campaña activa en la región del deal a la fecha de cierre
+    const campaign = dealRegion
+      ? await this.getApplicableCampaign(dealRegion, new Date(deal.closeDate))
+      : undefined;
+    const multiplier = campaign ? Number(campaign.multiplier) : 1;
+    const pointsEarned = Math.floor(basePoints * multiplier);
+
     if (user && user.region && user.regionCategory) {
-      // Find the region configuration for this user
-      const regionConfig = await db
-        .select()
-        .from(regionConfigs)
-        .where(
-          and(
-            eq(regionConfigs.region, user.region),
-            eq(regionConfigs.category, user.regionCategory),
-            user.regionSubcategory 
-              ? eq(regionConfigs.subcategory, user.regionSubcategory)
-              : isNull(regionConfigs.subcategory)
-          )
-        )
-        .limit(1);
+      const config = await this.findUserRegionConfig(user);
 
-      if (regionConfig.length > 0) {
-        const config = regionConfig[0];
+      if (config) {
         regionConfigId = config.id;
         
         // Calculate goals based on deal type and region configuration
@@ -493,12 +864,13 @@ export class DatabaseStorage implements IStorage {
           ? config.newCustomerGoalRate 
           : config.renewalGoalRate;
         
-        goalsEarned = dealValue / goalRate;
+        goalsEarned = (dealValue / goalRate) * multiplier;
         
-        console.log(`✅ Calculated goals for deal ${id}:`, {
+        console.log(`✅ Calculated goals for deal ${deal.id}:`, {
           dealValue,
           dealType: deal.dealType,
           goalRate,
+          multiplier,
           goalsEarned,
           region: user.region,
           category: user.regionCategory,
@@ -513,1917 +885,4150 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    const [updatedDeal] = await db
-      .update(deals)
-      .set({
-        status: "approved",
-        pointsEarned,
-        goalsEarned: goalsEarned.toFixed(2),
-        approvedBy,
-        approvedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(deals.id, id))
-      .returning();
+    return { pointsEarned, goalsEarned, regionConfigId, campaign, multiplier };
+  }
 
-    // Add points to history
-    if (updatedDeal && pointsEarned > 0) {
-      await this.addPointsHistory({
-        userId: updatedDeal.userId,
-        dealId: id,
-        points: pointsEarned,
-        description: `Points earned for deal: ${deal.productName}`,
-      });
+  // Configuración regional del usuario: región + categoría + subcategoría
+  async findUserRegionConfig(user: User): Promise<RegionConfig | undefined> {
+    if (!user.region || !user.regionCategory) return undefined;
 
-      // Enviar notificación en tiempo real
-      await NotificationHelpers.dealApproved(
-        updatedDeal.userId,
-        id,
-        pointsEarned
-      );
+    const [config] = await db
+      .select()
+      .from(regionConfigs)
+      .where(
+        and(
+          eq(regionConfigs.region, user.region),
+          eq(regionConfigs.category, user.regionCategory),
+          user.regionSubcategory 
+            ? eq(regionConfigs.subcategory, user.regionSubcategory)
+            : isNull(regionConfigs.subcategory)
+        )
+      )
+      .limit(1);
+    return config;
+  }
+
+  async approveDeal(id: string, approvedBy: string): Promise<Deal | undefined> {
+    const deal = await this.getDeal(id);
+    if (!deal) return undefined;
+    if (deal.status === "approved") {
+      throw new Error("Deal is already approved");
     }
 
-    // Add goals to history
-    if (updatedDeal && goalsEarned > 0 && regionConfigId) {
-      const approvalDate = new Date();
-      await db.insert(goalsHistory).values({
-        userId: updatedDeal.userId,
+    const { pointsEarned, goalsEarned, regionConfigId, campaign, multiplier } =
+      await this.calculateDealRewards(deal);
+
+    // La condición sobre el estado impide que dos aprobaciones simultáneas sumen los puntos dos veces,
+    // y la de conflictos que se apruebe un deal con un posible duplicado abierto mientras tanto
+    const updatedDeal = await db.transaction(async (tx) => {
+      const isOpenConflict = and(eq(dealConflicts.dealId, id), eq(dealConflicts.status, "open"));
+
+      const [approved] = await tx
+        .update(deals)
+        .set({
+          status: "approved",
+          rejectionReason: null,
+          pointsEarned,
+          goalsEarned: goalsEarned.toFixed(2),
+          approvedBy,
+          approvedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(deals.id, id),
+            ne(deals.status, "approved"),
+            notExists(tx.select({ id: dealConflicts.id }).from(dealConflicts).where(isOpenConflict)),
+          ),
+        )
+        .returning();
+
+      if (!approved) {
+        const [conflict] = await tx.select({ id: dealConflicts.id }).from(dealConflicts).where(isOpenConflict).limit(1);
+        if (conflict) {
+          throw new Error("Resolve the possible duplicate conflicts before approving this deal");
+        }
+        throw new Error("Deal is already approved");
+      }
+
+      // Add points to history
+      if (pointsEarned > 0) {
+        await this.postPointsEntry(tx, {
+          userId: approved.userId,
+          dealId: id,
+          campaignId: campaign?.id ?? null,
+          points: pointsEarned,
+          description: campaign
+            ? `Points earned for deal: ${deal.productName} (campaign "${campaign.name}" x${multiplier})`
+            : `Points earned for deal: ${deal.productName}`,
+        });
+      }
+
+      // Add goals to history
+      if (goalsEarned > 0 && regionConfigId) {
+        const approvalDate = new Date();
+        await tx.insert(goalsHistory).values({
+          userId: approved.userId,
+          dealId: id,
+          goals: goalsEarned.toFixed(2),
+          month: approvalDate.getMonth() + 1, // 1-12
+          year: approvalDate.getFullYear(),
+          regionConfigId: regionConfigId,
+          description: `${goalsEarned.toFixed(2)} goals earned from ${deal.dealType === "new_customer" ? "new customer" : "renewal"} deal: ${deal.productName}${campaign ? ` (campaign "${campaign.name}" x${multiplier})` : ""}`,
+        });
+      }
+
+      await this.recordDealEvent(tx, {
         dealId: id,
-        goals: goalsEarned.toFixed(2),
-        month: approvalDate.getMonth() + 1, // 1-12
-        year: approvalDate.getFullYear(),
-        regionConfigId: regionConfigId,
-        description: `${goalsEarned.toFixed(2)} goals earned from ${deal.dealType === "new_customer" ? "new customer" : "renewal"} deal: ${deal.productName}`,
+        actorId: approvedBy,
+        eventType: "approved",
+        fromStatus: deal.status,
+        toStatus: "approved",
+        changes: [
+          { field: "pointsEarned", before: deal.pointsEarned || 0, after: pointsEarned },
+          { field: "goalsEarned", before: Number(deal.goalsEarned || 0), after: Number(goalsEarned.toFixed(2)) },
+        ],
       });
 
+      return approved;
+    });
+
+    if (goalsEarned > 0 && regionConfigId) {
       console.log(`📊 Goals history created for user ${updatedDeal.userId}: ${goalsEarned.toFixed(2)} goals`);
     }
 
-    return updatedDeal || undefined;
+    // Enviar notificación en tiempo real
+    if (pointsEarned > 0) {
+      await NotificationHelpers.dealApproved(
+        updatedDeal.userId,
+        deal,
+        pointsEarned,
+        campaign?.name
+      );
+    }
+    await emitAdminQueueUpdate("deals", updatedDeal.userId);
+
+    return updatedDeal;
   }
 
-  // Recalculate points for all existing deals based on new formula
-  async recalculateAllDealsPoints(): Promise<{
-    updated: number;
-    errors: string[];
-  }> {
-    const allDeals = await db.select().from(deals);
-    let updated = 0;
-    const errors: string[] = [];
-
-    for (const deal of allDeals) {
-      try {
-        const newPoints = await this.calculatePointsForDeal(
-          deal.productType,
-          Number(deal.dealValue),
-        );
+  // Deals a recalcular: los de todos los usuarios o los de una región, del más antiguo al más reciente
+  async getDealIdsForRecalculation(region?: string): Promise<string[]> {
+    const rows = await db
+      .select({ id: deals.id })
+      .from(deals)
+      .innerJoin(users, eq(deals.userId, users.id))
+      .where(region ? eq(users.region, region as Region) : undefined)
+      .orderBy(asc(deals.createdAt));
+    return rows.map((row) => row.id);
+  }
 
-        // Only update if points changed or deal is approved
-        if (
-          (deal.pointsEarned || 0) !== newPoints &&
-          deal.status === "approved"
-        ) {
-          await db
-            .update(deals)
-            .set({
-              pointsEarned: newPoints,
-              updatedAt: new Date(),
-            })
-            .where(eq(deals.id, deal.id));
-
-          // Update points history - remove old entry if exists and add new one
-          if (newPoints > 0) {
-            // Remove old points history for this deal
-            await db
-              .delete(pointsHistory)
-              .where(eq(pointsHistory.dealId, deal.id));
-
-            // Add new points history entry
-            await this.addPointsHistory({
-              userId: deal.userId,
-              dealId: deal.id,
-              points: newPoints,
-              description: `Points recalculated for deal: ${deal.productName}`,
-            });
-          }
+  // Compara el historial de puntos y goles de un deal con lo que le corresponde según las reglas
+  // vigentes y, salvo en modo simulación, lo corrige con asientos de ajuste sin borrar movimientos
+  async recalculateDealRewards(
+    dealId: string,
+    options: { dryRun: boolean; actorId: string | null },
+  ): Promise<DealRewardsRecalculation | undefined> {
+    if (options.dryRun) {
+      const deal = await this.getDeal(dealId);
+      if (!deal) return undefined;
+      return (await this.compareDealRewards(db, deal))?.recalculation;
+    }
 
-          updated++;
-        } else if (deal.status !== "approved" && (deal.pointsEarned || 0) > 0) {
-          // Reset points for non-approved deals
-          await db
-            .update(deals)
-            .set({
-              pointsEarned: 0,
-              updatedAt: new Date(),
-            })
-            .where(eq(deals.id, deal.id));
+    // El deal se relee bloqueado: un rechazo o una edición simultánea espera y el objetivo se calcula sobre el estado vigente
+    return await db.transaction(async (tx) => {
+      const [deal] = await tx.select().from(deals).where(eq(deals.id, dealId)).for("update");
+      if (!deal) return undefined;
 
-          // Remove points history for non-approved deals
-          await db
-            .delete(pointsHistory)
-            .where(eq(pointsHistory.dealId, deal.id));
+      const comparison = await this.compareDealRewards(tx, deal);
+      if (!comparison) return undefined;
+      const { target, goalsAfter, recalculation } = comparison;
 
-          updated++;
-        }
-      } catch (error) {
-        errors.push(`Failed to update deal ${deal.id}: ${error}`);
+      await tx
+        .update(deals)
+        .set({
+          pointsEarned: target.pointsEarned,
+          goalsEarned: goalsAfter.toFixed(2),
+          updatedAt: new Date(),
+        })
+        .where(eq(deals.id, deal.id));
+
+      await this.settleDealRewards(
+        tx,
+        deal,
+        target.pointsEarned,
+        goalsAfter,
+        target.regionConfigId,
+        `Recalculation adjustment for deal: ${deal.productName}`,
+      );
+
+      const changes: DealFieldChange[] = [];
+      if ((deal.pointsEarned || 0) !== target.pointsEarned) {
+        changes.push({ field: "pointsEarned", before: deal.pointsEarned || 0, after: target.pointsEarned });
       }
-    }
+      if (Number(deal.goalsEarned || 0).toFixed(2) !== goalsAfter.toFixed(2)) {
+        changes.push({ field: "goalsEarned", before: Number(deal.goalsEarned || 0), after: goalsAfter });
+      }
+      await this.recordDealEvent(tx, {
+        dealId: deal.id,
+        actorId: options.actorId,
+        eventType: "updated",
+        fromStatus: deal.status,
+        toStatus: deal.status,
+        changes,
+        comment: "Points and goals recalculated with the current rules",
+      });
 
-    return { updated, errors };
+      return recalculation;
+    });
   }
 
-  async rejectDeal(id: string): Promise<Deal | undefined> {
-    const [updatedDeal] = await db
-      .update(deals)
-      .set({ status: "rejected", updatedAt: new Date() })
-      .where(eq(deals.id, id))
-      .returning();
+  // Lo que le corresponde al deal según las reglas vigentes frente a su historial y sus campos; undefined si coinciden
+  private async compareDealRewards(executor: Pick<DbTransaction, "select">, deal: Deal) {
+    // Solo los deals aprobados conservan puntos y goles
+    const target = deal.status === "approved"
+      ? await this.calculateDealRewards(deal)
+      : { pointsEarned: 0, goalsEarned: 0, regionConfigId: null };
+    const goalsAfter = Number(target.goalsEarned.toFixed(2));
 
-    // Enviar notificación en tiempo real
-    if (updatedDeal) {
-      await NotificationHelpers.dealRejected(updatedDeal.userId, id);
+    const [pointsResult] = await executor
+      .select({ total: sum(pointsHistory.points) })
+      .from(pointsHistory)
+      .where(eq(pointsHistory.dealId, deal.id));
+    const goalsByConfig = await executor
+      .select({ regionConfigId: goalsHistory.regionConfigId, total: sum(goalsHistory.goals) })
+      .from(goalsHistory)
+      .where(eq(goalsHistory.dealId, deal.id))
+      .groupBy(goalsHistory.regionConfigId);
+
+    const pointsBefore = Number(pointsResult?.total || 0);
+    const goalsBefore = Number(goalsByConfig.reduce((total, row) => total + Number(row.total || 0), 0).toFixed(2));
+    // Los goles cuentan por configuración regional: si quedaron en otra configuración también hay que ajustarlos
+    const goalsMisplaced = goalsByConfig.some(
+      (row) => row.regionConfigId !== target.regionConfigId && Number(row.total || 0) !== 0,
+    );
+
+    const ledgerChanged = pointsBefore !== target.pointsEarned || goalsBefore !== goalsAfter || goalsMisplaced;
+    const fieldsChanged = (deal.pointsEarned || 0) !== target.pointsEarned ||
+      Number(deal.goalsEarned || 0).toFixed(2) !== goalsAfter.toFixed(2);
+    if (!ledgerChanged && !fieldsChanged) return undefined;
+
+    const recalculation: DealRewardsRecalculation = {
+      dealId: deal.id,
+      userId: deal.userId,
+      pointsBefore,
+      pointsAfter: target.pointsEarned,
+      goalsBefore,
+      goalsAfter,
+    };
+    return { target, goalsAfter, recalculation };
+  }
+
+  async rejectDeal(id: string, rejectedBy: string, reason: string): Promise<Deal | undefined> {
+    const deal = await this.getDeal(id);
+    if (!deal) return undefined;
+    if (deal.status === "rejected") {
+      throw new Error("Deal is already rejected");
     }
 
-    return updatedDeal || undefined;
+    const updatedDeal = await db.transaction((tx) => this.applyDealRejection(tx, deal, rejectedBy, reason));
+
+    // Enviar notificación en tiempo real
+    await NotificationHelpers.dealRejected(updatedDeal.userId, id, reason);
+    await emitAdminQueueUpdate("deals", updatedDeal.userId);
+
+    return updatedDeal;
   }
 
-  async updateDeal(id: string, updates: UpdateDeal): Promise<Deal | undefined> {
-    const [updatedDeal] = await db
+  // Rechazo dentro de la transacción del llamador: la condición sobre el estado leído evita pisar otra revisión
+  private async applyDealRejection(
+    tx: DbTransaction,
+    deal: Deal,
+    rejectedBy: string,
+    reason: string,
+  ): Promise<Deal> {
+    const id = deal.id;
+    const [rejected] = await tx
       .update(deals)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(deals.id, id))
+      .set({
+        status: "rejected",
+        rejectionReason: reason,
+        pointsEarned: 0,
+        goalsEarned: "0",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(deals.id, id), eq(deals.status, deal.status)))
       .returning();
-    return updatedDeal || undefined;
-  }
 
-  async getRecentDeals(userId: string, limit = 10): Promise<Deal[]> {
-    return await db
-      .select()
-      .from(deals)
-      .where(eq(deals.userId, userId))
-      .orderBy(desc(deals.createdAt))
-      .limit(limit);
-  }
+    if (!rejected) {
+      throw new Error("Deal was modified by another request, please retry");
+    }
 
-  async getRewards(regionName?: string): Promise<Reward[]> {
-    if (regionName) {
-      // Usuario con región: solo ve rewards de su región
-      return await db
-        .select()
-        .from(rewards)
-        .where(and(
-          eq(rewards.isActive, true),
-          eq(rewards.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
-        ))
-        .orderBy(rewards.pointsCost);
+    // Un deal ya aprobado devuelve sus puntos y goles con asientos de ajuste
+    if (deal.status === "approved") {
+      await this.settleDealRewards(tx, rejected, 0, 0, null, `Deal rejected: ${deal.productName}`);
     }
-    
-    // Sin región (super admin o sin autenticar): ve todos los rewards
-    return await db
-      .select()
-      .from(rewards)
-      .where(eq(rewards.isActive, true))
-      .orderBy(rewards.pointsCost);
-  }
 
-  async getReward(id: string): Promise<Reward | undefined> {
-    const [reward] = await db.select().from(rewards).where(eq(rewards.id, id));
-    return reward || undefined;
-  }
+    await this.recordDealEvent(tx, {
+      dealId: id,
+      actorId: rejectedBy,
+      eventType: "rejected",
+      fromStatus: deal.status,
+      toStatus: "rejected",
+      changes: deal.status === "approved"
+        ? [
+            { field: "pointsEarned", before: deal.pointsEarned || 0, after: 0 },
+            { field: "goalsEarned", before: Number(deal.goalsEarned || 0), after: 0 },
+          ]
+        : [],
+      comment: reason,
+    });
 
-  async createReward(reward: InsertReward): Promise<Reward> {
-    const [createdReward] = await db.insert(rewards).values(reward).returning();
-    return createdReward;
+    return rejected;
   }
 
-  async updateReward(
+  async updateDeal(
     id: string,
-    updates: Partial<Reward>,
-  ): Promise<Reward | undefined> {
-    const [updatedReward] = await db
-      .update(rewards)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(rewards.id, id))
-      .returning();
-    return updatedReward || undefined;
-  }
+    updates: UpdateDeal,
+    updatedBy: string,
+    comment?: string,
+  ): Promise<Deal | undefined> {
+    // El deal se relee bloqueado: un rechazo o una aprobación simultánea espera y el diff y los
+    // puntos se calculan sobre el estado vigente, no sobre una lectura previa
+    const result = await db.transaction(async (tx) => {
+      const [deal] = await tx.select().from(deals).where(eq(deals.id, id)).for("update");
+      if (!deal) return undefined;
+
+      const changes = this.diffDealFields(deal, updates);
+      if (changes.length === 0) {
+        return { deal, updated: deal, recalculated: undefined };
+      }
 
-  async deleteReward(id: string): Promise<Reward | undefined> {
-    const [deletedReward] = await db
-      .delete(rewards)
-      .where(eq(rewards.id, id))
-      .returning();
-    return deletedReward || undefined;
-  }
+      // En un deal aprobado, los campos que determinan puntos/goles obligan a recalcularlos
+      const edited: Deal = { ...deal, ...updates };
+      const affectsRewards = deal.status === "approved" &&
+        changes.some((change) => DEAL_REWARD_FIELDS.includes(change.field as keyof Deal));
+      const recalculated = affectsRewards ? await this.calculateDealRewards(edited) : undefined;
 
-  async redeemReward(userId: string, rewardId: string): Promise<UserReward> {
-    const reward = await this.getReward(rewardId);
-    if (!reward) throw new Error("Reward not found");
+      const [updated] = await tx
+        .update(deals)
+        .set({
+          ...updates,
+          ...(recalculated && {
+            pointsEarned: recalculated.pointsEarned,
+            goalsEarned: recalculated.goalsEarned.toFixed(2),
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(deals.id, id))
+        .returning();
 
-    // Check if user already has a pending redemption for this reward
-    const [existingRedemption] = await db
-      .select()
-      .from(userRewards)
-      .where(
-        and(
-          eq(userRewards.userId, userId),
-          eq(userRewards.rewardId, rewardId),
-          eq(userRewards.status, "pending"),
-        ),
-      );
+      if (recalculated) {
+        await this.settleDealRewards(
+          tx,
+          updated,
+          recalculated.pointsEarned,
+          recalculated.goalsEarned,
+          recalculated.regionConfigId,
+          `Adjustment for edited deal: ${updated.productName}`,
+        );
 
-    if (existingRedemption) {
-      throw new Error("You already have a pending redemption for this reward");
-    }
+        const previousGoals = Number(deal.goalsEarned || 0);
+        if ((deal.pointsEarned || 0) !== recalculated.pointsEarned) {
+          changes.push({ field: "pointsEarned", before: deal.pointsEarned || 0, after: recalculated.pointsEarned });
+        }
+        if (previousGoals.toFixed(2) !== recalculated.goalsEarned.toFixed(2)) {
+          changes.push({ field: "goalsEarned", before: previousGoals, after: Number(recalculated.goalsEarned.toFixed(2)) });
+        }
+      }
 
-    const availablePoints = await this.getUserAvailablePoints(userId);
-    if (availablePoints < reward.pointsCost) {
-      throw new Error("Insufficient points");
-    }
+      await this.recordDealEvent(tx, {
+        dealId: id,
+        actorId: updatedBy,
+        eventType: "updated",
+        fromStatus: deal.status,
+        toStatus: updated.status,
+        changes,
+        comment: comment || null,
+      });
 
-    // Create pending redemption record
-    const [userReward] = await db
-      .insert(userRewards)
-      .values({
-        userId,
-        rewardId,
-        status: "pending",
-      })
-      .returning();
+      return { deal, updated, recalculated };
+    });
 
-    // Enviar notificación en tiempo real
-    await NotificationHelpers.rewardRedeemed(
-      userId,
-      reward.name,
-      reward.pointsCost
-    );
+    if (!result) return undefined;
+    const { deal, updated: updatedDeal, recalculated } = result;
+    if (updatedDeal === deal) return deal;
 
-    // Don't deduct points yet - wait for approval
-    return userReward;
+    if (recalculated && (deal.pointsEarned || 0) !== recalculated.pointsEarned) {
+      await NotificationHelpers.dealPointsAdjusted(
+        updatedDeal.userId,
+        updatedDeal.productName,
+        recalculated.pointsEarned - (deal.pointsEarned || 0),
+      );
+    }
+    await emitAdminQueueUpdate("deals", updatedDeal.userId);
+
+    return updatedDeal;
   }
 
-  async approveRewardRedemption(
-    rewardRedemptionId: string,
-    adminId: string,
-  ): Promise<UserReward | undefined> {
-    // Get the reward redemption
-    const [redemption] = await db
-      .select()
-      .from(userRewards)
-      .where(eq(userRewards.id, rewardRedemptionId));
-    if (!redemption) throw new Error("Redemption not found");
+  async resubmitDeal(
+    id: string,
+    userId: string,
+    resubmission: ResubmitDeal,
+    attachments: InsertDealAttachment[] = [],
+  ): Promise<Deal | undefined> {
+    const deal = await this.getDeal(id);
+    if (!deal || deal.userId !== userId) return undefined;
+    if (deal.status !== "rejected") {
+      throw new Error("Only rejected deals can be resubmitted");
+    }
 
-    if (redemption.status !== "pending") {
-      throw new Error("Redemption is not pending");
-    }
+    const { note, ...updates } = resubmission;
+    const changes = this.diffDealFields(deal, updates);
 
-    const reward = await this.getReward(redemption.rewardId);
-    if (!reward) throw new Error("Reward not found");
+    const updatedDeal = await db.transaction(async (tx) => {
+      const [resubmitted] = await tx
+        .update(deals)
+        .set({
+          ...updates,
+          status: "pending",
+          rejectionReason: null,
+          revision: sql`${deals.revision} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(deals.id, id), eq(deals.status, "rejected")))
+        .returning();
 
-    // Update redemption status
-    const [updatedRedemption] = await db
-      .update(userRewards)
-      .set({
-        status: "approved",
-        approvedBy: adminId,
-        approvedAt: new Date(),
-      })
-      .where(eq(userRewards.id, rewardRedemptionId))
-      .returning();
+      if (!resubmitted) {
+        throw new Error("Only rejected deals can be resubmitted");
+      }
 
-    // Now deduct points
-    await this.addPointsHistory({
-      userId: redemption.userId,
-      rewardId: redemption.rewardId,
-      points: -reward.pointsCost,
-      description: `Points redeemed for: ${reward.name}`,
+      // El motivo del rechazo anterior queda en el evento "rejected"; aquí solo el diff y la nota
+      await this.recordDealEvent(tx, {
+        dealId: id,
+        actorId: userId,
+        eventType: "resubmitted",
+        fromStatus: "rejected",
+        toStatus: "pending",
+        changes,
+        comment: note,
+      });
+      await this.insertDealAttachments(tx, id, userId, attachments);
+
+      return resubmitted;
     });
 
-    // Enviar notificación en tiempo real
-    await NotificationHelpers.rewardApproved(redemption.userId, reward.name);
+    // Los campos corregidos pueden coincidir ahora con otro deal registrado
+    await this.flagDealConflicts(updatedDeal);
+    await emitAdminQueueUpdate("deals", userId);
 
-    return updatedRedemption || undefined;
+    return updatedDeal;
   }
 
-  async rejectRewardRedemption(
-    rewardRedemptionId: string,
-    adminId: string,
-    reason?: string,
-  ): Promise<UserReward | undefined> {
-    // Get the redemption to access reward info
-    const [redemption] = await db
-      .select()
-      .from(userRewards)
-      .where(eq(userRewards.id, rewardRedemptionId));
-    
-    const reward = redemption ? await this.getReward(redemption.rewardId) : null;
-
-    const [updatedRedemption] = await db
-      .update(userRewards)
-      .set({
-        status: "rejected",
-        approvedBy: adminId,
-        approvedAt: new Date(),
-        rejectionReason: reason,
-      })
-      .where(eq(userRewards.id, rewardRedemptionId))
-      .returning();
-
-    // Enviar notificación en tiempo real (puntos no fueron deducidos, así que no hay reembolso)
-    if (updatedRedemption && reward) {
-      await NotificationHelpers.rewardRejected(
-        updatedRedemption.userId,
-        reward.name,
-        reward.pointsCost
-      );
+  // Deals no rechazados que parecen el mismo negocio: mismo número de acuerdo, o mismo
+  // cliente normalizado y valor con fecha de cierre dentro de la ventana
+  async findDuplicateDeals(
+    candidate: DuplicateDealCandidate,
+  ): Promise<Array<{ deal: Deal; reason: DealConflict["reason"] }>> {
+    const matches = new Map<string, { deal: Deal; reason: DealConflict["reason"] }>();
+    const excludeSelf = candidate.id ? ne(deals.id, candidate.id) : undefined;
+
+    const license = normalizeDealText(candidate.licenseAgreementNumber);
+    if (license) {
+      const sameLicense = await db
+        .select()
+        .from(deals)
+        .where(
+          and(
+            ne(deals.status, "rejected"),
+            excludeSelf,
+            sql`regexp_replace(lower(coalesce(${deals.licenseAgreementNumber}, '')), '[^a-z0-9]', '', 'g') = ${license}`,
+          ),
+        );
+      for (const deal of sameLicense) {
+        matches.set(deal.id, { deal, reason: "license_agreement" });
+      }
     }
 
-    return updatedRedemption || undefined;
-  }
-
-  async getPendingRewardRedemptions(regionName?: string): Promise<
-    Array<
-      UserReward & {
-        userName?: string;
-        userFirstName?: string;
-        userLastName?: string;
-        rewardName?: string;
+    const client = normalizeDealText(candidate.clientInfo);
+    const closeDate = new Date(candidate.closeDate);
+    if (client && !isNaN(closeDate.getTime())) {
+      const windowMs = DUPLICATE_CLOSE_DATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      const sameValue = await db
+        .select()
+        .from(deals)
+        .where(
+          and(
+            ne(deals.status, "rejected"),
+            excludeSelf,
+            eq(deals.dealValue, Number(candidate.dealValue).toFixed(2)),
+            gte(deals.closeDate, new Date(closeDate.getTime() - windowMs)),
+            lte(deals.closeDate, new Date(closeDate.getTime() + windowMs)),
+          ),
+        );
+      for (const deal of sameValue) {
+        if (!matches.has(deal.id) && normalizeDealText(deal.clientInfo) === client) {
+          matches.set(deal.id, { deal, reason: "client_value_date" });
+        }
       }
-    >
-  > {
-    const conditions = [eq(userRewards.status, "pending")];
-
-    if (regionName) {
-      // Regional admin: solo ve redenciones de usuarios de su REGIÓN
-      conditions.push(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
     }
 
-    const result = await db
-      .select({
-        id: userRewards.id,
-        userId: userRewards.userId,
-        rewardId: userRewards.rewardId,
-        status: userRewards.status,
-        approvedBy: userRewards.approvedBy,
-        approvedAt: userRewards.approvedAt,
-        rejectionReason: userRewards.rejectionReason,
-        redeemedAt: userRewards.redeemedAt,
-        deliveredAt: userRewards.deliveredAt,
-        deliveryAddress: userRewards.deliveryAddress,
-        shipmentStatus: userRewards.shipmentStatus,
-        shippedAt: userRewards.shippedAt,
-        shippedBy: userRewards.shippedBy,
-        userName: users.username,
-        userFirstName: users.firstName,
-        userLastName: users.lastName,
-        rewardName: rewards.name,
-      })
-      .from(userRewards)
-      .leftJoin(users, eq(userRewards.userId, users.id))
-      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
-      .where(and(...conditions))
-      .orderBy(desc(userRewards.redeemedAt));
-
-    return result as Array<
-      UserReward & {
-        userName?: string;
-        userFirstName?: string;
-        userLastName?: string;
-        rewardName?: string;
-      }
-    >;
+    return Array.from(matches.values());
   }
 
-  async getUserRewards(userId: string): Promise<UserReward[]> {
+  // Registra como conflictos abiertos los posibles duplicados de un deal recién registrado o reenviado.
+  // Un conflicto ya resuelto se reabre si el par sigue coincidiendo: un duplicado confirmado y
+  // reenviado sin cambios no puede aprobarse sin volver a revisarlo
+  async flagDealConflicts(deal: Deal): Promise<DealConflict[]> {
+    const duplicates = await this.findDuplicateDeals(deal);
+    if (duplicates.length === 0) return [];
+
+    await db
+      .insert(dealConflicts)
+      .values(
+        duplicates.map((duplicate) => ({
+          dealId: deal.id,
+          conflictingDealId: duplicate.deal.id,
+          reason: duplicate.reason,
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [dealConflicts.dealId, dealConflicts.conflictingDealId],
+        set: {
+          reason: sql`excluded.reason`,
+          status: "open",
+          resolvedBy: null,
+          resolvedAt: null,
+        },
+      });
+
     return await db
       .select()
-      .from(userRewards)
-      .where(eq(userRewards.userId, userId))
-      .orderBy(desc(userRewards.redeemedAt));
+      .from(dealConflicts)
+      .where(and(eq(dealConflicts.dealId, deal.id), eq(dealConflicts.status, "open")));
   }
 
-  async getAllRewardRedemptions(): Promise<
-    Array<
-      UserReward & {
-        userName?: string;
-        userFirstName?: string;
-        userLastName?: string;
-        rewardName?: string;
-        pointsCost?: number;
-      }
-    >
-  > {
-    const result = await db
+  async getOpenDealConflicts(regionName?: string): Promise<DealConflictWithDeal[]> {
+    const rows = await db
       .select({
-        id: userRewards.id,
-        userId: userRewards.userId,
-        rewardId: userRewards.rewardId,
-        status: userRewards.status,
-        shipmentStatus: userRewards.shipmentStatus,
-        approvedBy: userRewards.approvedBy,
-        approvedAt: userRewards.approvedAt,
-        rejectionReason: userRewards.rejectionReason,
-        redeemedAt: userRewards.redeemedAt,
-        deliveredAt: userRewards.deliveredAt,
-        deliveryAddress: userRewards.deliveryAddress,
-        shippedAt: userRewards.shippedAt,
-        shippedBy: userRewards.shippedBy,
-        userName: users.username,
+        conflict: dealConflicts,
+        conflictingDeal: deals,
         userFirstName: users.firstName,
         userLastName: users.lastName,
-        rewardName: rewards.name,
-        pointsCost: rewards.pointsCost,
+        userName: users.username,
       })
-      .from(userRewards)
-      .leftJoin(users, eq(userRewards.userId, users.id))
-      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
-      .orderBy(desc(userRewards.redeemedAt));
-
-    return result as Array<
-      UserReward & {
-        userName?: string;
-        userFirstName?: string;
-        userLastName?: string;
-        rewardName?: string;
-        pointsCost?: number;
-      }
-    >;
+      .from(dealConflicts)
+      .innerJoin(deals, eq(dealConflicts.conflictingDealId, deals.id))
+      .leftJoin(users, eq(deals.userId, users.id))
+      .where(
+        and(
+          eq(dealConflicts.status, "open"),
+          // Regional admin: solo conflictos de deals registrados por usuarios de su región
+          regionName
+            ? inArray(
+                dealConflicts.dealId,
+                db
+                  .select({ id: deals.id })
+                  .from(deals)
+                  .innerJoin(users, eq(deals.userId, users.id))
+                  .where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(dealConflicts.createdAt));
+
+    return rows.map((row) => ({
+      ...row.conflict,
+      conflictingDeal: {
+        ...row.conflictingDeal,
+        userFirstName: row.userFirstName,
+        userLastName: row.userLastName,
+        userName: row.userName,
+      } as DealWithUser,
+    }));
   }
 
-  async getUserRewardsWithDetails(
-    userId: string,
-  ): Promise<Array<UserReward & { rewardName?: string; pointsCost?: number }>> {
-    const result = await db
-      .select({
-        id: userRewards.id,
-        userId: userRewards.userId,
-        rewardId: userRewards.rewardId,
-        status: userRewards.status,
-        shipmentStatus: userRewards.shipmentStatus,
-        approvedBy: userRewards.approvedBy,
-        approvedAt: userRewards.approvedAt,
-        rejectionReason: userRewards.rejectionReason,
-        redeemedAt: userRewards.redeemedAt,
-        deliveredAt: userRewards.deliveredAt,
-        deliveryAddress: userRewards.deliveryAddress,
-        shippedAt: userRewards.shippedAt,
-        shippedBy: userRewards.shippedBy,
-        rewardName: rewards.name,
-        pointsCost: rewards.pointsCost,
-      })
-      .from(userRewards)
-      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
-      .where(eq(userRewards.userId, userId))
-      .orderBy(desc(userRewards.redeemedAt));
-
-    return result as Array<
-      UserReward & { rewardName?: string; pointsCost?: number }
-    >;
-  }
+  async resolveDealConflicts(
+    dealId: string,
+    resolvedBy: string,
+    resolution: "not_duplicate" | "duplicate",
+    note?: string,
+  ): Promise<Deal | undefined> {
+    const deal = await this.getDeal(dealId);
+    if (!deal) return undefined;
 
-  async updateRewardShipmentStatus(
-    rewardRedemptionId: string,
-    shipmentStatus: "pending" | "shipped" | "delivered",
-    adminId: string,
-  ): Promise<UserReward | undefined> {
-    // Get the current redemption to access reward and user info
-    const [currentRedemption] = await db
-      .select({
-        id: userRewards.id,
-        userId: userRewards.userId,
-        rewardId: userRewards.rewardId,
-        rewardName: rewards.name,
-      })
-      .from(userRewards)
-      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
-      .where(eq(userRewards.id, rewardRedemptionId));
+    const rejectionReason = note || "This deal duplicates a deal that was already registered";
 
-    if (!currentRedemption) {
-      return undefined;
-    }
+    // Si el rechazo falla, los conflictos siguen abiertos y el deal vuelve a poder revisarse
+    const updatedDeal = await db.transaction(async (tx) => {
+      const resolved = await tx
+        .update(dealConflicts)
+        .set({
+          status: resolution === "duplicate" ? "confirmed" : "dismissed",
+          resolvedBy,
+          resolvedAt: new Date(),
+        })
+        .where(and(eq(dealConflicts.dealId, dealId), eq(dealConflicts.status, "open")))
+        .returning();
 
-    const updateData: any = {
-      shipmentStatus,
-      shippedBy: adminId,
-    };
+      if (resolved.length === 0) {
+        throw new Error("Deal has no open duplicate conflicts");
+      }
 
-    if (shipmentStatus === "shipped") {
-      updateData.shippedAt = new Date();
-    } else if (shipmentStatus === "delivered") {
-      updateData.deliveredAt = new Date();
-    }
+      // Un duplicado confirmado se rechaza con el motivo visible para el partner
+      if (resolution === "duplicate") {
+        if (deal.status === "rejected") {
+          throw new Error("Deal is already rejected");
+        }
+        return await this.applyDealRejection(tx, deal, resolvedBy, rejectionReason);
+      }
 
-    const [updatedRedemption] = await db
-      .update(userRewards)
-      .set(updateData)
-      .where(eq(userRewards.id, rewardRedemptionId))
-      .returning();
+      await this.recordDealEvent(tx, {
+        dealId,
+        actorId: resolvedBy,
+        eventType: "conflicts_resolved",
+        fromStatus: deal.status,
+        toStatus: deal.status,
+        changes: resolved.map((conflict) => ({
+          field: "duplicateOf",
+          before: conflict.conflictingDealId,
+          after: null,
+        })),
+        comment: note || null,
+      });
+      return deal;
+    });
 
-    // Enviar notificación en tiempo real
-    if (updatedRedemption && currentRedemption.rewardName) {
-      await NotificationHelpers.shipmentUpdated(
-        currentRedemption.userId,
-        currentRedemption.rewardName,
-        shipmentStatus
-      );
+    if (resolution === "duplicate") {
+      await NotificationHelpers.dealRejected(updatedDeal.userId, dealId, rejectionReason);
     }
+    await emitAdminQueueUpdate("deals", updatedDeal.userId);
 
-    return updatedRedemption || undefined;
+    return updatedDeal;
   }
 
-  async addPointsHistory(entry: InsertPointsHistory): Promise<PointsHistory> {
-    const [pointsEntry] = await db
-      .insert(pointsHistory)
-      .values(entry)
-      .returning();
-    return pointsEntry;
+  // Campos editados con sus valores antes/después (fechas y montos normalizados para comparar)
+  private diffDealFields(deal: Deal, updates: Omit<UpdateDeal, "regionId">): DealFieldChange[] {
+    const normalize = (field: string, value: unknown) => {
+      if (value === undefined || value === null || value === "") return null;
+      if (value instanceof Date) return value.toISOString();
+      if (field === "dealValue") return Number(value).toFixed(2);
+      return value;
+    };
+
+    const changes: DealFieldChange[] = [];
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+      const before = normalize(field, deal[field as keyof Deal]);
+      const after = normalize(field, value);
+      if (before !== after) {
+        changes.push({ field, before, after });
+      }
+    }
+    return changes;
   }
 
-  async getUserPointsHistory(userId: string): Promise<PointsHistory[]> {
-    return await db
-      .select()
-      .from(pointsHistory)
-      .where(eq(pointsHistory.userId, userId))
-      .orderBy(desc(pointsHistory.createdAt));
-  }
-
-  async getUserTotalPoints(userId: string): Promise<number> {
-    const [result] = await db
+  // Lleva el historial de puntos y goles del deal a los valores objetivo con asientos de ajuste,
+  // sin borrar los movimientos anteriores
+  private async settleDealRewards(
+    tx: DbTransaction,
+    deal: Deal,
+    targetPoints: number,
+    targetGoals: number,
+    targetRegionConfigId: string | null,
+    description: string,
+  ): Promise<void> {
+    const [pointsResult] = await tx
       .select({ total: sum(pointsHistory.points) })
       .from(pointsHistory)
-      .where(eq(pointsHistory.userId, userId));
-    return Number(result?.total || 0);
+      .where(eq(pointsHistory.dealId, deal.id));
+
+    const pointsDelta = targetPoints - Number(pointsResult?.total || 0);
+    if (pointsDelta !== 0) {
+      await this.postPointsEntry(tx, {
+        userId: deal.userId,
+        dealId: deal.id,
+        points: pointsDelta,
+        description,
+      });
+    }
+
+    const goalsByConfig = await tx
+      .select({ regionConfigId: goalsHistory.regionConfigId, total: sum(goalsHistory.goals) })
+      .from(goalsHistory)
+      .where(eq(goalsHistory.dealId, deal.id))
+      .groupBy(goalsHistory.regionConfigId);
+
+    // Los goles quedan solo en la configuración objetivo; el resto se compensa a cero
+    const targets = new Map<string | null, number>();
+    for (const row of goalsByConfig) {
+      targets.set(row.regionConfigId, 0);
+    }
+    if (targetRegionConfigId && targetGoals > 0) {
+      targets.set(targetRegionConfigId, targetGoals);
+    }
+
+    // El ajuste se imputa al mismo mes en que se aprobó el deal
+    const period = deal.approvedAt ?? new Date();
+    for (const [regionConfigId, target] of Array.from(targets.entries())) {
+      const current = Number(goalsByConfig.find((row) => row.regionConfigId === regionConfigId)?.total || 0);
+      const delta = Number((target - current).toFixed(2));
+      if (delta === 0) continue;
+
+      await tx.insert(goalsHistory).values({
+        userId: deal.userId,
+        dealId: deal.id,
+        goals: delta.toFixed(2),
+        month: period.getMonth() + 1,
+        year: period.getFullYear(),
+        regionConfigId,
+        description,
+      });
+    }
   }
 
-  async getUserAvailablePoints(userId: string): Promise<number> {
-    const [result] = await db
-      .select({ total: sum(pointsHistory.points) })
-      .from(pointsHistory)
-      .where(eq(pointsHistory.userId, userId));
-    return Math.max(0, Number(result?.total || 0));
+  private async recordDealEvent(
+    executor: Pick<DbTransaction, "insert">,
+    event: InsertDealEvent,
+  ): Promise<void> {
+    await executor.insert(dealEvents).values(event);
   }
 
-  async getTopUsersByPoints(limit = 5): Promise<
-    Array<{
-      userId: string;
-      username: string;
-      firstName: string;
-      lastName: string;
-      totalPoints: number;
-    }>
-  > {
-    const result = await db
+  async getDealEvents(dealId: string): Promise<DealEventWithActor[]> {
+    return await db
       .select({
-        userId: pointsHistory.userId,
-        username: users.username,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        totalPoints: sum(pointsHistory.points),
+        id: dealEvents.id,
+        dealId: dealEvents.dealId,
+        actorId: dealEvents.actorId,
+        eventType: dealEvents.eventType,
+        fromStatus: dealEvents.fromStatus,
+        toStatus: dealEvents.toStatus,
+        changes: dealEvents.changes,
+        comment: dealEvents.comment,
+        createdAt: dealEvents.createdAt,
+        actorFirstName: users.firstName,
+        actorLastName: users.lastName,
+        actorUsername: users.username,
       })
-      .from(pointsHistory)
-      .innerJoin(users, eq(pointsHistory.userId, users.id))
-      .groupBy(
-        pointsHistory.userId,
-        users.username,
-        users.firstName,
-        users.lastName,
-      )
-      .having(sql`SUM(${pointsHistory.points}) > 0`)
-      .orderBy(desc(sum(pointsHistory.points)))
-      .limit(limit);
-
-    return result.map((row) => ({
-      userId: row.userId,
-      username: row.username || "",
-      firstName: row.firstName || "",
-      lastName: row.lastName || "",
-      totalPoints: Number(row.totalPoints || 0),
-    }));
+      .from(dealEvents)
+      .leftJoin(users, eq(dealEvents.actorId, users.id))
+      .where(eq(dealEvents.dealId, dealId))
+      .orderBy(asc(dealEvents.createdAt));
   }
 
-  async getCampaigns(region?: Region): Promise<Campaign[]> {
-    if (region) {
-      return await db
-        .select()
-        .from(campaigns)
-        .where(eq(campaigns.region, region))
-        .orderBy(desc(campaigns.createdAt));
-    }
-    return await db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+  private async insertDealAttachments(
+    executor: Pick<DbTransaction, "insert">,
+    dealId: string,
+    uploadedBy: string,
+    attachments: InsertDealAttachment[],
+  ): Promise<void> {
+    if (attachments.length === 0) return;
+    await executor
+      .insert(dealAttachments)
+      .values(attachments.map((attachment) => ({ ...attachment, dealId, uploadedBy })));
   }
 
-  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
-    const [newCampaign] = await db
-      .insert(campaigns)
-      .values(campaign)
-      .returning();
-    return newCampaign;
+  async getDealAttachments(dealId: string): Promise<DealAttachment[]> {
+    return await db
+      .select()
+      .from(dealAttachments)
+      .where(eq(dealAttachments.dealId, dealId))
+      .orderBy(asc(dealAttachments.createdAt));
   }
 
-  async updateCampaign(
-    id: string,
-    updates: Partial<Campaign>
-  ): Promise<Campaign | undefined> {
-    const [updated] = await db
-      .update(campaigns)
-      .set(updates)
-      .where(eq(campaigns.id, id))
-      .returning();
-    return updated || undefined;
+  async getDealAttachment(dealId: string, attachmentId: string): Promise<DealAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(dealAttachments)
+      .where(and(eq(dealAttachments.id, attachmentId), eq(dealAttachments.dealId, dealId)));
+    return attachment || undefined;
   }
 
-  async deleteCampaign(id: string): Promise<Campaign | undefined> {
-    const [deleted] = await db
-      .delete(campaigns)
-      .where(eq(campaigns.id, id))
-      .returning();
-    return deleted || undefined;
+  // Valor de deal a partir del cual la región del usuario exige comprobante (null = nunca)
+  async getAttachmentRequiredAboveValue(userId: string): Promise<number | null> {
+    const user = await this.getUser(userId);
+    const config = user ? await this.findUserRegionConfig(user) : undefined;
+    return config?.attachmentRequiredAboveValue != null ? Number(config.attachmentRequiredAboveValue) : null;
   }
 
-  async getActiveCampaigns(): Promise<Campaign[]> {
-    const now = new Date();
+  async getRecentDeals(userId: string, limit = 10): Promise<Deal[]> {
     return await db
       .select()
-      .from(campaigns)
-      .where(
-        and(
-          eq(campaigns.isActive, true),
-          lte(campaigns.startDate, now),
-          gte(campaigns.endDate, now),
-        ),
-      );
+      .from(deals)
+      .where(eq(deals.userId, userId))
+      .orderBy(desc(deals.createdAt))
+      .limit(limit);
   }
 
-  async getAllUsers(regionName?: string): Promise<User[]> {
+  async getRewards(regionName?: string): Promise<Reward[]> {
     if (regionName) {
-      // Regional admin: solo ve usuarios de su REGIÓN (NOLA, SOLA, BRASIL, MEXICO)
-      // Excluir super-admins (que tienen region diferente o roles especiales)
+      // Usuario con región: solo ve rewards de su región
       return await db
         .select()
-        .from(users)
-        .where(
-          and(
-            eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"),
-            ne(users.role, "super-admin") // Excluir super-admins
-          )
-        )
-        .orderBy(desc(users.createdAt));
+        .from(rewards)
+        .where(and(
+          eq(rewards.isActive, true),
+          eq(rewards.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
+        ))
+        .orderBy(rewards.pointsCost);
     }
-    // Super admin: ve todos los usuarios
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+    
+    // Sin región (super admin o sin autenticar): ve todos los rewards
+    return await db
+      .select()
+      .from(rewards)
+      .where(eq(rewards.isActive, true))
+      .orderBy(rewards.pointsCost);
   }
 
-  async getPendingUsers(regionName?: string): Promise<User[]> {
-    // Only show users who completed registration (have username/password) but are not approved yet
-    // Users who only have invite token (haven't registered yet) should NOT appear here
-    const conditions = [
-      eq(users.isActive, true), 
-      eq(users.isApproved, false),
-      isNotNull(users.username), // Only users who completed registration
-      ne(users.role, "super-admin") // Excluir super-admins de la lista de pendientes
-    ];
+  // Público de un reward: sin asignaciones activas, toda su región; con asignaciones, los usuarios
+  // que cumplan alguna (cada campo informado de la asignación debe coincidir con el usuario)
+  private async rewardAudienceCondition(user: User): Promise<SQL> {
+    const userConfig = await this.findUserRegionConfig(user);
 
-    if (regionName) {
-      // Regional admin: solo ve usuarios pendientes de su REGIÓN
-      conditions.push(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
-    }
+    const activeAssignments = and(
+      eq(rewardRegionAssignments.rewardId, rewards.id),
+      eq(rewardRegionAssignments.isActive, true),
+    );
+    const matchingAssignments = and(
+      activeAssignments,
+      user.region
+        ? or(isNull(rewardRegionAssignments.region), eq(rewardRegionAssignments.region, user.region))
+        : isNull(rewardRegionAssignments.region),
+      user.country
+        ? or(isNull(rewardRegionAssignments.country), sql`lower(${rewardRegionAssignments.country}) = lower(${user.country})`)
+        : isNull(rewardRegionAssignments.country),
+      userConfig
+        ? or(isNull(rewardRegionAssignments.regionConfigId), eq(rewardRegionAssignments.regionConfigId, userConfig.id))
+        : isNull(rewardRegionAssignments.regionConfigId),
+    );
 
-    return db
-      .select()
-      .from(users)
-      .where(and(...conditions))
-      .orderBy(desc(users.createdAt));
+    const assignmentQuery = (condition: SQL | undefined) =>
+      db.select({ id: rewardRegionAssignments.id }).from(rewardRegionAssignments).where(condition);
+
+    return or(
+      and(
+        notExists(assignmentQuery(activeAssignments)),
+        user.region ? eq(rewards.region, user.region) : sql`false`,
+      ),
+      exists(assignmentQuery(matchingAssignments)),
+    )!;
   }
 
-  async approveUser(
-    userId: string,
-    approvedBy: string,
-  ): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
-      .set({
-        isApproved: true,
-        approvedBy: approvedBy,
-        approvedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return user || undefined;
+  async getRewardsForUser(user: User): Promise<Reward[]> {
+    return await db
+      .select()
+      .from(rewards)
+      .where(and(eq(rewards.isActive, true), await this.rewardAudienceCondition(user)))
+      .orderBy(rewards.pointsCost);
   }
 
-  async rejectUser(userId: string): Promise<User | undefined> {
-    const [user] = await db
-      .update(users)
-      .set({
-        isActive: false,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return user || undefined;
+  async isRewardAvailableToUser(rewardId: string, user: User): Promise<boolean> {
+    const [reward] = await db
+      .select({ id: rewards.id })
+      .from(rewards)
+      .where(and(eq(rewards.id, rewardId), await this.rewardAudienceCondition(user)));
+    return !!reward;
   }
 
-  async updateUserRole(
-    userId: string,
-    role: "user" | "admin",
-  ): Promise<User | undefined> {
-    const [updatedUser] = await db
-      .update(users)
-      .set({
-        role,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return updatedUser || undefined;
+  async getRewardRegionAssignments(rewardId: string): Promise<RewardRegionAssignment[]> {
+    return await db
+      .select()
+      .from(rewardRegionAssignments)
+      .where(eq(rewardRegionAssignments.rewardId, rewardId))
+      .orderBy(asc(rewardRegionAssignments.createdAt));
   }
 
-  async deleteUser(userId: string): Promise<User | undefined> {
-    // First, delete all points history associated with this user
-    await db.delete(pointsHistory).where(eq(pointsHistory.userId, userId));
+  async setRewardRegionAssignments(
+    rewardId: string,
+    assignments: RewardAssignmentInput[],
+  ): Promise<RewardRegionAssignment[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(rewardRegionAssignments).where(eq(rewardRegionAssignments.rewardId, rewardId));
+      if (assignments.length === 0) return [];
+
+      return await tx
+        .insert(rewardRegionAssignments)
+        .values(assignments.map((assignment) => ({ ...assignment, rewardId })))
+        .returning();
+    });
+  }
 
-    // Delete all user rewards associated with this user
-    await db.delete(userRewards).where(eq(userRewards.userId, userId));
+  async getReward(id: string): Promise<Reward | undefined> {
+    const [reward] = await db.select().from(rewards).where(eq(rewards.id, id));
+    return reward || undefined;
+  }
 
-    // Then, delete all deals associated with this user
-    await db.delete(deals).where(eq(deals.userId, userId));
+  async createReward(reward: InsertReward): Promise<Reward> {
+    const [createdReward] = await db.insert(rewards).values(reward).returning();
+    return createdReward;
+  }
 
-    // Finally, delete the user
-    const [deletedUser] = await db
-      .delete(users)
-      .where(eq(users.id, userId))
+  async updateReward(
+    id: string,
+    updates: Partial<Reward>,
+  ): Promise<Reward | undefined> {
+    const [updatedReward] = await db
+      .update(rewards)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rewards.id, id))
       .returning();
-    return deletedUser || undefined;
+    return updatedReward || undefined;
   }
 
-  async getAllDeals(
-    page: number = 1,
-    limit: number = 20,
-    regionName?: string,
-  ): Promise<{ deals: DealWithUser[]; total: number }> {
-    // Get total count with region filter
-    const countQuery = regionName
-      ? db.select({ count: count() }).from(deals).leftJoin(users, eq(deals.userId, users.id)).where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"))
-      : db.select({ count: count() }).from(deals);
-    const [countResult] = await countQuery;
-    const totalCount = countResult?.count || 0;
+  async deleteReward(id: string): Promise<Reward | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(rewardRegionAssignments).where(eq(rewardRegionAssignments.rewardId, id));
+      const [deletedReward] = await tx
+        .delete(rewards)
+        .where(eq(rewards.id, id))
+        .returning();
+      return deletedReward || undefined;
+    });
+  }
 
-    // Get paginated results
-    const offset = (page - 1) * limit;
-    let query = db
-      .select({
-        id: deals.id,
-        userId: deals.userId,
-        regionId: deals.regionId,
-        productType: deals.productType,
-        productName: deals.productName,
-        dealValue: deals.dealValue,
-        dealType: deals.dealType,
-        quantity: deals.quantity,
-        closeDate: deals.closeDate,
-        clientInfo: deals.clientInfo,
-        licenseAgreementNumber: deals.licenseAgreementNumber,
-        status: deals.status,
-        pointsEarned: deals.pointsEarned,
-        goalsEarned: deals.goalsEarned,
-        approvedBy: deals.approvedBy,
-        approvedAt: deals.approvedAt,
-        createdAt: deals.createdAt,
-        updatedAt: deals.updatedAt,
-        userFirstName: users.firstName,
-        userLastName: users.lastName,
-        userName: users.username,
-      })
-      .from(deals)
-      .leftJoin(users, eq(deals.userId, users.id))
-      .orderBy(desc(deals.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    const result = regionName
-      ? await query.where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"))
-      : await query;
-
-    return {
-      deals: result as DealWithUser[],
-      total: totalCount,
-    };
-  }
-
-  async getReportsData(filters: {
-    country?: string;
-    startDate?: Date;
-    endDate?: Date;
-    regionName?: string; // Nuevo filtro de región
-  }): Promise<{
-    userCount: number;
-    dealCount: number;
-    totalRevenue: number;
-    redeemedRewards: number;
-  }> {
-    // Apply filters
-    const userConditions = [];
-    const dealConditions = [];
+  async redeemReward(userId: string, rewardId: string): Promise<UserReward> {
+    const reward = await this.getReward(rewardId);
+    if (!reward) throw new Error("Reward not found");
+    if (!reward.isActive) throw new Error("Reward is not available");
 
-    // Filtro de región para regional-admin
-    if (filters.regionName) {
-      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    // Los partners solo canjean lo que ven en su catálogo
+    const user = await this.getUser(userId);
+    if (!user) throw new Error("User not found");
+    if (user.role === "user" && !(await this.isRewardAvailableToUser(rewardId, user))) {
+      throw new Error("This reward is not available for your account");
     }
 
-    if (filters.country) {
-      userConditions.push(eq(users.country, filters.country));
-    }
-    if (filters.startDate) {
-      dealConditions.push(gte(deals.createdAt, filters.startDate));
-    }
-    if (filters.endDate) {
-      dealConditions.push(lte(deals.createdAt, filters.endDate));
-    }
+    await this.assertRedemptionWindowOpen(userId);
 
-    // Always filter deals by approved status
-    dealConditions.unshift(eq(deals.status, "approved"));
+    const userReward = await db.transaction(async (tx) => {
+      // El bloqueo sobre el saldo serializa los canjes concurrentes del mismo usuario
+      const balance = await this.lockUserBalance(tx, userId);
 
-    // Build user count query
-    const userQueryBuilder = db.select({ count: count() }).from(users);
-    const [userResult] =
-      userConditions.length > 0
-        ? await userQueryBuilder.where(and(...userConditions))
-        : await userQueryBuilder;
+      // Check if user already has a pending redemption for this reward
+      const [existingRedemption] = await tx
+        .select()
+        .from(userRewards)
+        .where(
+          and(
+            eq(userRewards.userId, userId),
+            eq(userRewards.rewardId, rewardId),
+            eq(userRewards.status, "pending"),
+          ),
+        );
 
-    // Build deal query with region filter
-    let dealQueryBuilder = db
-      .select({
-        count: count(),
-        revenue: sum(deals.dealValue),
-      })
-      .from(deals);
+      if (existingRedemption) {
+        throw new Error("You already have a pending redemption for this reward");
+      }
 
-    // Si hay filtro de región, join con users para filtrar por región del usuario
-    if (filters.regionName) {
-      dealQueryBuilder = dealQueryBuilder.leftJoin(users, eq(deals.userId, users.id)) as any;
-      dealConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
-    }
+      if (balance.balance - balance.heldPoints < reward.pointsCost) {
+        throw new Error("Insufficient points");
+      }
 
-    const [dealResult] = await dealQueryBuilder.where(and(...dealConditions));
+      // Descuento atómico de stock: la condición stock > 0 evita sobreventa bajo concurrencia
+      const stockReserved = reward.stockQuantity !== null;
+      if (stockReserved) {
+        const [updatedReward] = await tx
+          .update(rewards)
+          .set({
+            stockQuantity: sql`${rewards.stockQuantity} - 1`,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(rewards.id, rewardId), gt(rewards.stockQuantity, 0)))
+          .returning();
+
+        if (!updatedReward) {
+          throw new Error("Reward is out of stock");
+        }
+      }
 
-    // Build reward redemptions query with region filter
-    let rewardQueryBuilder = db
-      .select({ count: count() })
-      .from(pointsHistory)
-      .where(isNotNull(pointsHistory.rewardId));
+      // Create pending redemption record holding the reward cost
+      const [created] = await tx
+        .insert(userRewards)
+        .values({
+          userId,
+          rewardId,
+          status: "pending",
+          heldPoints: reward.pointsCost,
+          stockReserved,
+        })
+        .returning();
 
-    // Si hay filtro de región, join con users
-    if (filters.regionName) {
-      const rewardResult = await db
-        .select({ count: count() })
-        .from(pointsHistory)
-        .leftJoin(users, eq(pointsHistory.userId, users.id))
-        .where(
-          and(
-            isNotNull(pointsHistory.rewardId),
-            eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
-          )
-        );
-      
-      return {
-        userCount: userResult?.count || 0,
-        dealCount: dealResult?.count || 0,
-        totalRevenue: Number(dealResult?.revenue || 0),
-        redeemedRewards: rewardResult[0]?.count || 0,
-      };
-    }
+      await tx
+        .update(userPointsBalances)
+        .set({
+          heldPoints: sql`${userPointsBalances.heldPoints} + ${reward.pointsCost}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(userPointsBalances.userId, userId));
 
-    const [rewardResult] = await rewardQueryBuilder;
+      return created;
+    });
 
-    return {
-      userCount: userResult?.count || 0,
-      dealCount: dealResult?.count || 0,
-      totalRevenue: Number(dealResult?.revenue || 0),
-      redeemedRewards: rewardResult?.count || 0,
-    };
+    // Enviar notificación en tiempo real
+    await NotificationHelpers.rewardRedeemed(
+      userId,
+      reward.name,
+      reward.pointsCost
+    );
+    await emitAdminQueueUpdate("rewards", userId);
+
+    // Points stay on hold until the redemption is approved or rejected
+    return userReward;
   }
 
-  async getUserRankingReport(filters: {
-    startDate?: Date;
-    endDate?: Date;
-    regionName?: string;
-  }): Promise<
-    Array<{
-      userId: string;
-      username: string;
-      firstName: string;
-      lastName: string;
-      email: string;
-      country: string;
-      totalPoints: number;
-      totalDeals: number;
-      totalSales: number;
-    }>
-  > {
-    const dealConditions = [eq(deals.status, "approved")];
-    const pointsConditions = [];
-    const userConditions = [eq(users.role, "user")];
+  // Rechaza el canje si la región del usuario está fuera de su período de redención
+  private async assertRedemptionWindowOpen(userId: string, now: Date = new Date()): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user?.region) return;
 
-    if (filters.startDate) {
-      dealConditions.push(gte(deals.createdAt, filters.startDate));
-      pointsConditions.push(gte(pointsHistory.createdAt, filters.startDate));
+    const config = await this.getPointsConfigByRegion(user.region);
+    if (!config) return;
+
+    if (config.redemptionStartDate && now < config.redemptionStartDate) {
+      throw new Error("The redemption period has not started yet");
     }
-    if (filters.endDate) {
-      dealConditions.push(lte(deals.createdAt, filters.endDate));
-      pointsConditions.push(lte(pointsHistory.createdAt, filters.endDate));
+
+    // La fecha de fin se configura como día completo: se permite canjear hasta el final de ese día
+    if (config.redemptionEndDate) {
+      const endOfWindow = new Date(config.redemptionEndDate.getTime() + 24 * 60 * 60 * 1000);
+      if (now >= endOfWindow) {
+        throw new Error("The redemption period has ended");
+      }
     }
-    
-    // Add region filter if provided
-    if (filters.regionName) {
-      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+  }
+
+  async approveRewardRedemption(
+    rewardRedemptionId: string,
+    adminId: string,
+  ): Promise<UserReward | undefined> {
+    // Get the reward redemption
+    const [redemption] = await db
+      .select()
+      .from(userRewards)
+      .where(eq(userRewards.id, rewardRedemptionId));
+    if (!redemption) throw new Error("Redemption not found");
+
+    if (redemption.status !== "pending") {
+      throw new Error("Redemption is not pending");
     }
 
-    // Get user points in the date range - only sum POSITIVE points (earned points, not redeemed)
-    // Add condition to only include earned points (positive values), not spent points (negative values)
-    pointsConditions.push(gt(pointsHistory.points, 0));
+    const reward = await this.getReward(redemption.rewardId);
+    if (!reward) throw new Error("Reward not found");
 
-    const pointsQuery = db
-      .select({
-        userId: pointsHistory.userId,
-        totalPoints: sum(pointsHistory.points).as("totalPoints"),
-      })
-      .from(pointsHistory)
-      .where(pointsConditions.length > 0 ? and(...pointsConditions) : undefined)
-      .groupBy(pointsHistory.userId);
+    const updatedRedemption = await db.transaction(async (tx) => {
+      const balance = await this.lockUserBalance(tx, redemption.userId);
 
-    // Get user deals in the date range
-    const dealsQuery = db
-      .select({
-        userId: deals.userId,
-        totalDeals: count(deals.id).as("totalDeals"),
-        totalSales: sum(deals.dealValue).as("totalSales"),
-      })
-      .from(deals)
-      .where(and(...dealConditions))
-      .groupBy(deals.userId);
+      // Transición condicional: si otro admin resolvió el canje en paralelo, no se descuenta nada
+      const [approved] = await tx
+        .update(userRewards)
+        .set({
+          status: "approved",
+          approvedBy: adminId,
+          approvedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(userRewards.id, rewardRedemptionId),
+            eq(userRewards.status, "pending"),
+          ),
+        )
+        .returning();
 
-    // Get all users with their basic info - filtered by region if provided
-    const usersResult = await db
-      .select({
-        id: users.id,
-        username: users.username,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        email: users.email,
-        country: users.country,
-      })
-      .from(users)
-      .where(and(...userConditions));
+      if (!approved) {
+        throw new Error("Redemption is not pending");
+      }
 
-    const pointsResult = await pointsQuery;
-    const dealsResult = await dealsQuery;
+      // Canjes creados antes del ledger no tienen reserva: se valida el saldo disponible
+      if (approved.heldPoints === 0 && balance.balance - balance.heldPoints < reward.pointsCost) {
+        throw new Error("Insufficient points");
+      }
 
-    // Combine all data
-    const userRanking = usersResult.map((user) => {
-      const userPoints = pointsResult.find((p) => p.userId === user.id);
-      const userDeals = dealsResult.find((d) => d.userId === user.id);
+      // Commit the hold: deduct the points and release the reservation
+      await this.postPointsEntry(tx, {
+        userId: approved.userId,
+        rewardId: approved.rewardId,
+        points: -(approved.heldPoints || reward.pointsCost),
+        description: `Points redeemed for: ${reward.name}`,
+      });
 
-      return {
-        userId: user.id,
-        username: user.username || "",
-        firstName: user.firstName || "",
-        lastName: user.lastName || "",
-        email: user.email || "",
-        country: user.country || "",
-        totalPoints: Number(userPoints?.totalPoints || 0),
-        totalDeals: Number(userDeals?.totalDeals || 0),
-        totalSales: Number(userDeals?.totalSales || 0),
-      };
+      if (approved.heldPoints > 0) {
+        await tx
+          .update(userPointsBalances)
+          .set({
+            heldPoints: sql`${userPointsBalances.heldPoints} - ${approved.heldPoints}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(userPointsBalances.userId, approved.userId));
+      }
+
+      return approved;
     });
 
-    // Sort by points in descending order
-    return userRanking.sort((a, b) => b.totalPoints - a.totalPoints);
+    // Enviar notificación en tiempo real
+    await NotificationHelpers.rewardApproved(redemption.userId, reward);
+    await emitAdminQueueUpdate("rewards", redemption.userId);
+
+    return updatedRedemption || undefined;
   }
 
-  async getRewardRedemptionsReport(filters: {
-    startDate?: Date;
-    endDate?: Date;
-    regionName?: string;
-  }): Promise<
-    Array<{
-      userName: string;
-      userFirstName: string;
-      userLastName: string;
-      userEmail: string;
-      rewardName: string;
-      pointsCost: number;
-      status: string;
-      redeemedAt: Date;
-      approvedAt: Date | null;
-    }>
-  > {
-    const conditions = [];
+  async rejectRewardRedemption(
+    rewardRedemptionId: string,
+    adminId: string,
+    reason?: string,
+  ): Promise<UserReward | undefined> {
+    // Get the redemption to access reward info
+    const [redemption] = await db
+      .select()
+      .from(userRewards)
+      .where(eq(userRewards.id, rewardRedemptionId));
+    if (!redemption) return undefined;
 
-    if (filters.startDate) {
-      conditions.push(gte(userRewards.redeemedAt, filters.startDate));
-    }
-    if (filters.endDate) {
-      conditions.push(lte(userRewards.redeemedAt, filters.endDate));
+    const reward = await this.getReward(redemption.rewardId);
+
+    const updatedRedemption = await db.transaction(async (tx) => {
+      await this.lockUserBalance(tx, redemption.userId);
+
+      const [rejected] = await tx
+        .update(userRewards)
+        .set({
+          status: "rejected",
+          approvedBy: adminId,
+          approvedAt: new Date(),
+          rejectionReason: reason,
+        })
+        .where(
+          and(
+            eq(userRewards.id, rewardRedemptionId),
+            eq(userRewards.status, "pending"),
+          ),
+        )
+        .returning();
+
+      if (!rejected) {
+        throw new Error("Redemption is not pending");
+      }
+
+      // Return the reserved unit to the reward stock
+      if (rejected.stockReserved) {
+        await tx
+          .update(rewards)
+          .set({
+            stockQuantity: sql`${rewards.stockQuantity} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(rewards.id, rejected.rewardId), isNotNull(rewards.stockQuantity)));
+      }
+
+      // Release the hold
+      if (rejected.heldPoints > 0) {
+        await tx
+          .update(userPointsBalances)
+          .set({
+            heldPoints: sql`${userPointsBalances.heldPoints} - ${rejected.heldPoints}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(userPointsBalances.userId, rejected.userId));
+      }
+
+      return rejected;
+    });
+
+    // Enviar notificación en tiempo real (los puntos reservados se liberan, no hubo descuento)
+    if (updatedRedemption && reward) {
+      await NotificationHelpers.rewardRejected(
+        updatedRedemption.userId,
+        reward.name,
+        reward.pointsCost
+      );
     }
-    
-    // Add region filter if provided
-    if (filters.regionName) {
-      conditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    await emitAdminQueueUpdate("rewards", redemption.userId);
+
+    return updatedRedemption || undefined;
+  }
+
+  async getPendingRewardRedemptions(regionName?: string): Promise<
+    Array<
+      UserReward & {
+        userName?: string;
+        userFirstName?: string;
+        userLastName?: string;
+        rewardName?: string;
+      }
+    >
+  > {
+    const conditions = [eq(userRewards.status, "pending")];
+
+    if (regionName) {
+      // Regional admin: solo ve redenciones de usuarios de su REGIÓN
+      conditions.push(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
     }
 
     const result = await db
       .select({
+        id: userRewards.id,
+        userId: userRewards.userId,
+        rewardId: userRewards.rewardId,
+        status: userRewards.status,
+        approvedBy: userRewards.approvedBy,
+        approvedAt: userRewards.approvedAt,
+        rejectionReason: userRewards.rejectionReason,
+        redeemedAt: userRewards.redeemedAt,
+        deliveredAt: userRewards.deliveredAt,
+        deliveryAddress: userRewards.deliveryAddress,
+        shipmentStatus: userRewards.shipmentStatus,
+        shippedAt: userRewards.shippedAt,
+        shippedBy: userRewards.shippedBy,
         userName: users.username,
         userFirstName: users.firstName,
         userLastName: users.lastName,
-        userEmail: users.email,
         rewardName: rewards.name,
-        pointsCost: rewards.pointsCost,
-        status: userRewards.status,
-        redeemedAt: userRewards.redeemedAt,
-        approvedAt: userRewards.approvedAt,
       })
       .from(userRewards)
       .leftJoin(users, eq(userRewards.userId, users.id))
       .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .where(and(...conditions))
       .orderBy(desc(userRewards.redeemedAt));
 
-    return result as Array<{
-      userName: string;
-      userFirstName: string;
-      userLastName: string;
-      userEmail: string;
-      rewardName: string;
-      pointsCost: number;
-      status: string;
-      redeemedAt: Date;
-      approvedAt: Date | null;
-    }>;
+    return result as Array<
+      UserReward & {
+        userName?: string;
+        userFirstName?: string;
+        userLastName?: string;
+        rewardName?: string;
+      }
+    >;
   }
 
-  async getDealsPerUserReport(filters: {
-    startDate?: Date;
-    endDate?: Date;
-    regionName?: string;
-  }): Promise<
-    Array<{
-      userId: string;
-      username: string;
-      firstName: string;
-      lastName: string;
-      email: string;
-      country: string;
-      totalDeals: number;
-      totalSales: number;
-      averageDealSize: number;
-    }>
-  > {
-    const dealConditions = [eq(deals.status, "approved")];
-    const userConditions = [eq(users.role, "user")];
-
-    if (filters.startDate) {
-      dealConditions.push(gte(deals.createdAt, filters.startDate));
-    }
-    if (filters.endDate) {
-      dealConditions.push(lte(deals.createdAt, filters.endDate));
-    }
-    
-    // Add region filter if provided
-    if (filters.regionName) {
-      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
-    }
+  async getUserRewards(userId: string): Promise<UserReward[]> {
+    return await db
+      .select()
+      .from(userRewards)
+      .where(eq(userRewards.userId, userId))
+      .orderBy(desc(userRewards.redeemedAt));
+  }
 
-    // Get user deals in the date range
-    const dealsQuery = db
+  async getAllRewardRedemptions(): Promise<
+    Array<
+      UserReward & {
+        userName?: string;
+        userFirstName?: string;
+        userLastName?: string;
+        rewardName?: string;
+        pointsCost?: number;
+      }
+    >
+  > {
+    const result = await db
       .select({
-        userId: deals.userId,
-        totalDeals: count(deals.id).as("totalDeals"),
-        totalSales: sum(deals.dealValue).as("totalSales"),
+        id: userRewards.id,
+        userId: userRewards.userId,
+        rewardId: userRewards.rewardId,
+        status: userRewards.status,
+        shipmentStatus: userRewards.shipmentStatus,
+        approvedBy: userRewards.approvedBy,
+        approvedAt: userRewards.approvedAt,
+        rejectionReason: userRewards.rejectionReason,
+        redeemedAt: userRewards.redeemedAt,
+        deliveredAt: userRewards.deliveredAt,
+        deliveryAddress: userRewards.deliveryAddress,
+        shippedAt: userRewards.shippedAt,
+        shippedBy: userRewards.shippedBy,
+        userName: users.username,
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        rewardName: rewards.name,
+        pointsCost: rewards.pointsCost,
       })
-      .from(deals)
-      .where(and(...dealConditions))
-      .groupBy(deals.userId);
+      .from(userRewards)
+      .leftJoin(users, eq(userRewards.userId, users.id))
+      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
+      .orderBy(desc(userRewards.redeemedAt));
 
-    // Get all users with their basic info - filtered by region if provided
-    const usersResult = await db
+    return result as Array<
+      UserReward & {
+        userName?: string;
+        userFirstName?: string;
+        userLastName?: string;
+        rewardName?: string;
+        pointsCost?: number;
+      }
+    >;
+  }
+
+  async getUserRewardsWithDetails(
+    userId: string,
+  ): Promise<Array<UserReward & { rewardName?: string; pointsCost?: number }>> {
+    const result = await db
       .select({
-        id: users.id,
-        username: users.username,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        email: users.email,
-        country: users.country,
+        id: userRewards.id,
+        userId: userRewards.userId,
+        rewardId: userRewards.rewardId,
+        status: userRewards.status,
+        shipmentStatus: userRewards.shipmentStatus,
+        approvedBy: userRewards.approvedBy,
+        approvedAt: userRewards.approvedAt,
+        rejectionReason: userRewards.rejectionReason,
+        redeemedAt: userRewards.redeemedAt,
+        deliveredAt: userRewards.deliveredAt,
+        deliveryAddress: userRewards.deliveryAddress,
+        shippedAt: userRewards.shippedAt,
+        shippedBy: userRewards.shippedBy,
+        rewardName: rewards.name,
+        pointsCost: rewards.pointsCost,
       })
-      .from(users)
-      .where(and(...userConditions));
-
-    const dealsResult = await dealsQuery;
+      .from(userRewards)
+      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
+      .where(eq(userRewards.userId, userId))
+      .orderBy(desc(userRewards.redeemedAt));
 
-    // Combine all data
-    const dealsPerUser = usersResult.map((user) => {
-      const userDeals = dealsResult.find((d) => d.userId === user.id);
-      const totalDeals = Number(userDeals?.totalDeals || 0);
-      const totalSales = Number(userDeals?.totalSales || 0);
-      const averageDealSize = totalDeals > 0 ? totalSales / totalDeals : 0;
+    return result as Array<
+      UserReward & { rewardName?: string; pointsCost?: number }
+    >;
+  }
 
-      return {
-        userId: user.id,
-        username: user.username || "",
-        firstName: user.firstName || "",
-        lastName: user.lastName || "",
-        email: user.email || "",
-        country: user.country || "",
-        totalDeals: totalDeals,
-        totalSales: totalSales,
-        averageDealSize: Math.round(averageDealSize * 100) / 100, // Round to 2 decimal places
-      };
-    });
+  async updateRewardShipmentStatus(
+    rewardRedemptionId: string,
+    shipmentStatus: "pending" | "shipped" | "delivered",
+    adminId: string,
+  ): Promise<UserReward | undefined> {
+    // Get the current redemption to access reward and user info
+    const [currentRedemption] = await db
+      .select({
+        id: userRewards.id,
+        userId: userRewards.userId,
+        rewardId: userRewards.rewardId,
+        rewardName: rewards.name,
+      })
+      .from(userRewards)
+      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
+      .where(eq(userRewards.id, rewardRedemptionId));
 
-    // Sort by total deals in descending order, then by total sales
-    return dealsPerUser.sort((a, b) => {
-      if (b.totalDeals !== a.totalDeals) {
-        return b.totalDeals - a.totalDeals;
-      }
-      return b.totalSales - a.totalSales;
-    });
-  }
+    if (!currentRedemption) {
+      return undefined;
+    }
 
-  async createNotification(
-    notification: InsertNotification,
-  ): Promise<Notification> {
-    const [newNotification] = await db
-      .insert(notifications)
-      .values(notification)
+    const updateData: any = {
+      shipmentStatus,
+      shippedBy: adminId,
+    };
+
+    if (shipmentStatus === "shipped") {
+      updateData.shippedAt = new Date();
+    } else if (shipmentStatus === "delivered") {
+      updateData.deliveredAt = new Date();
+    }
+
+    const [updatedRedemption] = await db
+      .update(userRewards)
+      .set(updateData)
+      .where(eq(userRewards.id, rewardRedemptionId))
       .returning();
-    return newNotification;
+
+    // Enviar notificación en tiempo real
+    if (updatedRedemption && currentRedemption.rewardName) {
+      await NotificationHelpers.shipmentUpdated(
+        currentRedemption.userId,
+        currentRedemption.rewardName,
+        shipmentStatus
+      );
+    }
+
+    return updatedRedemption || undefined;
   }
 
-  async getUserNotifications(userId: string): Promise<Notification[]> {
-    const userNotifications = await db
+  async addPointsHistory(entry: InsertPointsHistory): Promise<PointsHistory> {
+    return await db.transaction((tx) => this.postPointsEntry(tx, entry));
+  }
+
+  // Bloquea (FOR UPDATE) el saldo materializado del usuario; si aún no existe, lo crea desde el historial
+  private async lockUserBalance(tx: DbTransaction, userId: string): Promise<UserPointsBalance> {
+    await tx
+      .insert(userPointsBalances)
+      .values({
+        userId,
+        balance: sql`(SELECT COALESCE(SUM(${pointsHistory.points}), 0)::int FROM ${pointsHistory} WHERE ${pointsHistory.userId} = ${userId})`,
+        heldPoints: sql`(SELECT COALESCE(SUM(${userRewards.heldPoints}), 0)::int FROM ${userRewards} WHERE ${userRewards.userId} = ${userId} AND ${userRewards.status} = 'pending')`,
+      })
+      .onConflictDoNothing();
+
+    const [balance] = await tx
       .select()
-      .from(notifications)
-      .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt));
-    return userNotifications;
+      .from(userPointsBalances)
+      .where(eq(userPointsBalances.userId, userId))
+      .for("update");
+    return balance;
   }
 
-  async markNotificationAsRead(id: string): Promise<Notification | undefined> {
-    const [updatedNotification] = await db
-      .update(notifications)
-      .set({ isRead: true })
-      .where(eq(notifications.id, id))
+  // Registra un movimiento en el historial y lo aplica al saldo en la misma transacción
+  private async postPointsEntry(tx: DbTransaction, entry: InsertPointsHistory): Promise<PointsHistory> {
+    await this.lockUserBalance(tx, entry.userId);
+
+    const [pointsEntry] = await tx
+      .insert(pointsHistory)
+      .values(entry)
       .returning();
-    return updatedNotification || undefined;
+
+    await tx
+      .update(userPointsBalances)
+      .set({
+        balance: sql`${userPointsBalances.balance} + ${entry.points}`,
+        updatedAt: new Date(),
+      })
+      .where(eq(userPointsBalances.userId, entry.userId));
+
+    return pointsEntry;
   }
 
-  async markAllNotificationsAsRead(userId: string): Promise<void> {
+  async getUserPointsBalance(userId: string): Promise<UserPointsBalance> {
+    const [balance] = await db
+      .select()
+      .from(userPointsBalances)
+      .where(eq(userPointsBalances.userId, userId));
+    if (balance) return balance;
+
+    return await db.transaction((tx) => this.lockUserBalance(tx, userId));
+  }
+
+  async getUserPointsHistory(
+    userId: string,
+  ): Promise<Array<PointsHistory & { campaignName?: string | null }>> {
+    const result = await db
+      .select({
+        id: pointsHistory.id,
+        userId: pointsHistory.userId,
+        dealId: pointsHistory.dealId,
+        rewardId: pointsHistory.rewardId,
+        campaignId: pointsHistory.campaignId,
+        points: pointsHistory.points,
+        description: pointsHistory.description,
+        expirationWarnedAt: pointsHistory.expirationWarnedAt,
+        createdAt: pointsHistory.createdAt,
+        campaignName: campaigns.name,
+      })
+      .from(pointsHistory)
+      .leftJoin(campaigns, eq(pointsHistory.campaignId, campaigns.id))
+      .where(eq(pointsHistory.userId, userId))
+      .orderBy(desc(pointsHistory.createdAt));
+
+    return result;
+  }
+
+  async getUserTotalPoints(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sum(pointsHistory.points) })
+      .from(pointsHistory)
+      .where(eq(pointsHistory.userId, userId));
+    return Number(result?.total || 0);
+  }
+
+  async getUserAvailablePoints(userId: string): Promise<number> {
+    const balance = await this.getUserPointsBalance(userId);
+    return Math.max(0, balance.balance - balance.heldPoints);
+  }
+
+  // Lotes de puntos (movimientos positivos) con su saldo restante. Los débitos y las
+  // reservas de canjes pendientes consumen primero los lotes más antiguos (FIFO).
+  private async getRemainingPointLots(
+    executor: Pick<DbTransaction, "select">,
+    userId: string,
+    heldPoints: number,
+  ): Promise<Array<{ entry: PointsHistory; remaining: number }>> {
+    const entries = await executor
+      .select()
+      .from(pointsHistory)
+      .where(eq(pointsHistory.userId, userId))
+      .orderBy(asc(pointsHistory.createdAt));
+
+    let consumed = heldPoints + entries
+      .filter((entry) => entry.points < 0)
+      .reduce((total, entry) => total - entry.points, 0);
+
+    const lots: Array<{ entry: PointsHistory; remaining: number }> = [];
+    for (const entry of entries) {
+      if (entry.points <= 0) continue;
+      const used = Math.min(entry.points, consumed);
+      consumed -= used;
+      if (entry.points - used > 0) {
+        lots.push({ entry, remaining: entry.points - used });
+      }
+    }
+    return lots;
+  }
+
+  // Política de vencimiento de la región del usuario (undefined = los puntos no vencen)
+  private async getPointsExpirationPolicy(
+    userId: string,
+  ): Promise<{ months: number; warningDays: number } | undefined> {
+    const user = await this.getUser(userId);
+    if (!user?.region) return undefined;
+
+    const config = await this.getPointsConfigByRegion(user.region);
+    if (!config?.pointsExpirationMonths) return undefined;
+
+    return {
+      months: config.pointsExpirationMonths,
+      warningDays: config.expirationWarningDays,
+    };
+  }
+
+  private pointsExpirationDate(earnedAt: Date, months: number): Date {
+    const expiresAt = new Date(earnedAt);
+    expiresAt.setMonth(expiresAt.getMonth() + months);
+    return expiresAt;
+  }
+
+  async getExpiringPoints(userId: string, asOf: Date = new Date()): Promise<{
+    points: number;
+    nextExpirationDate: Date | null;
+    lots: Array<{ id: string; remaining: number; expiresAt: Date; warned: boolean }>;
+  }> {
+    const policy = await this.getPointsExpirationPolicy(userId);
+    if (!policy) return { points: 0, nextExpirationDate: null, lots: [] };
+
+    const horizon = new Date(asOf.getTime() + policy.warningDays * 24 * 60 * 60 * 1000);
+    const balance = await this.getUserPointsBalance(userId);
+    const lots = (await this.getRemainingPointLots(db, userId, balance.heldPoints))
+      .map((lot) => ({
+        id: lot.entry.id,
+        remaining: lot.remaining,
+        expiresAt: this.pointsExpirationDate(lot.entry.createdAt, policy.months),
+        warned: !!lot.entry.expirationWarnedAt,
+      }))
+      .filter((lot) => lot.expiresAt <= horizon);
+
+    return {
+      points: lots.reduce((total, lot) => total + lot.remaining, 0),
+      nextExpirationDate: lots[0]?.expiresAt ?? null,
+      lots,
+    };
+  }
+
+  async expireUserPoints(userId: string, asOf: Date = new Date()): Promise<number> {
+    const policy = await this.getPointsExpirationPolicy(userId);
+    if (!policy) return 0;
+
+    return await db.transaction(async (tx) => {
+      const balance = await this.lockUserBalance(tx, userId);
+      const lots = await this.getRemainingPointLots(tx, userId, balance.heldPoints);
+
+      let expired = 0;
+      // Los lotes vienen del más antiguo al más reciente
+      for (const lot of lots) {
+        if (this.pointsExpirationDate(lot.entry.createdAt, policy.months) > asOf) break;
+
+        await this.postPointsEntry(tx, {
+          userId,
+          points: -lot.remaining,
+          description: `Points expired (earned ${lot.entry.createdAt.toISOString().split("T")[0]})`,
+        });
+        expired += lot.remaining;
+      }
+      return expired;
+    });
+  }
+
+  async markPointsExpirationWarned(lotIds: string[]): Promise<void> {
+    if (lotIds.length === 0) return;
     await db
-      .update(notifications)
-      .set({ isRead: true })
-      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+      .update(pointsHistory)
+      .set({ expirationWarnedAt: new Date() })
+      .where(inArray(pointsHistory.id, lotIds));
   }
 
-  async createSupportTicket(
-    ticket: InsertSupportTicket,
-  ): Promise<SupportTicket> {
-    const [newTicket] = await db
-      .insert(supportTickets)
-      .values(ticket)
+  // Puntos ganados en el período: solo movimientos positivos (canjes y vencimientos no restan)
+  async getPointsEarnedBetween(userId: string, from: Date, to: Date): Promise<number> {
+    const [result] = await db
+      .select({ total: sum(pointsHistory.points) })
+      .from(pointsHistory)
+      .where(
+        and(
+          eq(pointsHistory.userId, userId),
+          gt(pointsHistory.points, 0),
+          gte(pointsHistory.createdAt, from),
+          lt(pointsHistory.createdAt, to),
+        ),
+      );
+    return Number(result?.total || 0);
+  }
+
+  async getTopUsersByPoints(limit = 5): Promise<
+    Array<{
+      userId: string;
+      username: string;
+      firstName: string;
+      lastName: string;
+      totalPoints: number;
+    }>
+  > {
+    const result = await db
+      .select({
+        userId: pointsHistory.userId,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        totalPoints: sum(pointsHistory.points),
+      })
+      .from(pointsHistory)
+      .innerJoin(users, eq(pointsHistory.userId, users.id))
+      .groupBy(
+        pointsHistory.userId,
+        users.username,
+        users.firstName,
+        users.lastName,
+      )
+      .having(sql`SUM(${pointsHistory.points}) > 0`)
+      .orderBy(desc(sum(pointsHistory.points)))
+      .limit(limit);
+
+    return result.map((row) => ({
+      userId: row.userId,
+      username: row.username || "",
+      firstName: row.firstName || "",
+      lastName: row.lastName || "",
+      totalPoints: Number(row.totalPoints || 0),
+    }));
+  }
+
+  async getCampaigns(region?: Region): Promise<Campaign[]> {
+    if (region) {
+      return await db
+        .select()
+        .from(campaigns)
+        .where(eq(campaigns.region, region))
+        .orderBy(desc(campaigns.createdAt));
+    }
+    return await db.select().from(campaigns).orderBy(desc(campaigns.createdAt));
+  }
+
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const [newCampaign] = await db
+      .insert(campaigns)
+      .values(campaign)
       .returning();
-    return newTicket;
+    return newCampaign;
+  }
+
+  async updateCampaign(
+    id: string,
+    updates: Partial<Campaign>
+  ): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set(updates)
+      .where(eq(campaigns.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteCampaign(id: string): Promise<Campaign | undefined> {
+    const [deleted] = await db
+      .delete(campaigns)
+      .where(eq(campaigns.id, id))
+      .returning();
+    return deleted || undefined;
+  }
+
+  async getActiveCampaigns(): Promise<Campaign[]> {
+    const now = new Date();
+    return await db
+      .select()
+      .from(campaigns)
+      .where(
+        and(
+          eq(campaigns.isActive, true),
+          lte(campaigns.startDate, now),
+          gte(campaigns.endDate, now),
+        ),
+      );
+  }
+
+  /**
+   * Campaña que aplica a una región en una fecha dada.
+   * Si varias campañas se solapan se usa la de mayor multiplicador (no se acumulan).
+   */
+  async getApplicableCampaign(region: Region, date: Date): Promise<Campaign | undefined> {
+    const [campaign] = await db
+      .select()
+      .from(campaigns)
+      .where(
+        and(
+          eq(campaigns.isActive, true),
+          eq(campaigns.region, region),
+          lte(campaigns.startDate, date),
+          gte(campaigns.endDate, date),
+        ),
+      )
+      .orderBy(desc(campaigns.multiplier), asc(campaigns.startDate))
+      .limit(1);
+    return campaign || undefined;
+  }
+
+  async getAllUsers(regionName?: string): Promise<User[]> {
+    if (regionName) {
+      // Regional admin: solo ve usuarios de su REGIÓN (NOLA, SOLA, BRASIL, MEXICO)
+      // Excluir super-admins (que tienen region diferente o roles especiales)
+      return await db
+        .select()
+        .from(users)
+        .where(
+          and(
+            eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"),
+            ne(users.role, "super-admin") // Excluir super-admins
+          )
+        )
+        .orderBy(desc(users.createdAt));
+    }
+    // Super admin: ve todos los usuarios
+    return await db.select().from(users).orderBy(desc(users.createdAt));
+  }
+
+  async getPendingUsers(regionName?: string): Promise<User[]> {
+    // Only show users who completed registration (have username/password) but are not approved yet
+    // Users who only have invite token (haven't registered yet) should NOT appear here
+    const conditions = [
+      eq(users.isActive, true), 
+      eq(users.isApproved, false),
+      isNotNull(users.username), // Only users who completed registration
+      ne(users.role, "super-admin") // Excluir super-admins de la lista de pendientes
+    ];
+
+    if (regionName) {
+      // Regional admin: solo ve usuarios pendientes de su REGIÓN
+      conditions.push(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
+    }
+
+    return db
+      .select()
+      .from(users)
+      .where(and(...conditions))
+      .orderBy(desc(users.createdAt));
+  }
+
+  async approveUser(
+    userId: string,
+    approvedBy: string,
+  ): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        isApproved: true,
+        approvedBy: approvedBy,
+        approvedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    await emitAdminQueueUpdate("users", userId);
+    return user || undefined;
+  }
+
+  async rejectUser(userId: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({
+        isActive: false,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    await emitAdminQueueUpdate("users", userId);
+    return user || undefined;
+  }
+
+  async getAdminQueueCounts(regionName?: string): Promise<AdminQueueCounts> {
+    // Mismos criterios que las listas de pendientes, acotados a la región del admin
+    const regionFilter = regionName
+      ? eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
+      : undefined;
+
+    const [dealsResult] = await db
+      .select({ count: count() })
+      .from(deals)
+      .leftJoin(users, eq(deals.userId, users.id))
+      .where(and(eq(deals.status, "pending"), regionFilter));
+
+    const [redemptionsResult] = await db
+      .select({ count: count() })
+      .from(userRewards)
+      .leftJoin(users, eq(userRewards.userId, users.id))
+      .where(and(eq(userRewards.status, "pending"), regionFilter));
+
+    const [usersResult] = await db
+      .select({ count: count() })
+      .from(users)
+      .where(
+        and(
+          eq(users.isActive, true),
+          eq(users.isApproved, false),
+          isNotNull(users.username),
+          ne(users.role, "super-admin"),
+          regionFilter,
+        ),
+      );
+
+    const [ticketsResult] = await db
+      .select({ count: count() })
+      .from(supportTickets)
+      .leftJoin(users, eq(supportTickets.userId, users.id))
+      .where(and(inArray(supportTickets.status, ["open", "in_progress"]), regionFilter));
+
+    return {
+      pendingDeals: dealsResult?.count || 0,
+      pendingRedemptions: redemptionsResult?.count || 0,
+      pendingUsers: usersResult?.count || 0,
+      openTickets: ticketsResult?.count || 0,
+    };
+  }
+
+  async updateUserRole(
+    userId: string,
+    role: "user" | "admin",
+  ): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        role,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser || undefined;
+  }
+
+  async deleteUser(userId: string): Promise<User | undefined> {
+    // First, delete all points history associated with this user
+    await db.delete(pointsHistory).where(eq(pointsHistory.userId, userId));
+
+    // Delete all user rewards associated with this user
+    await db.delete(userRewards).where(eq(userRewards.userId, userId));
+
+    // Delete the materialized points balance
+    await db.delete(userPointsBalances).where(eq(userPointsBalances.userId, userId));
+
+    // Then, delete all deals associated with this user along with their audit trail, attachments and conflicts
+    const userDealIds = db.select({ id: deals.id }).from(deals).where(eq(deals.userId, userId));
+    await db.delete(dealEvents).where(inArray(dealEvents.dealId, userDealIds));
+    await db.delete(dealAttachments).where(inArray(dealAttachments.dealId, userDealIds));
+    await db
+      .delete(dealConflicts)
+      .where(or(inArray(dealConflicts.dealId, userDealIds), inArray(dealConflicts.conflictingDealId, userDealIds)));
+    await db.delete(deals).where(eq(deals.userId, userId));
+
+    // Finally, delete the user
+    const [deletedUser] = await db
+      .delete(users)
+      .where(eq(users.id, userId))
+      .returning();
+    return deletedUser || undefined;
+  }
+
+  async getAllDeals(
+    page: number = 1,
+    limit: number = 20,
+    regionName?: string,
+  ): Promise<{ deals: DealWithUser[]; total: number }> {
+    // Get total count with region filter
+    const countQuery = regionName
+      ? db.select({ count: count() }).from(deals).leftJoin(users, eq(deals.userId, users.id)).where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"))
+      : db.select({ count: count() }).from(deals);
+    const [countResult] = await countQuery;
+    const totalCount = countResult?.count || 0;
+
+    // Get paginated results
+    const offset = (page - 1) * limit;
+    let query = db
+      .select({
+        id: deals.id,
+        userId: deals.userId,
+        regionId: deals.regionId,
+        productType: deals.productType,
+        productName: deals.productName,
+        dealValue: deals.dealValue,
+        dealType: deals.dealType,
+        quantity: deals.quantity,
+        closeDate: deals.closeDate,
+        clientInfo: deals.clientInfo,
+        licenseAgreementNumber: deals.licenseAgreementNumber,
+        status: deals.status,
+        rejectionReason: deals.rejectionReason,
+        revision: deals.revision,
+        pointsEarned: deals.pointsEarned,
+        goalsEarned: deals.goalsEarned,
+        approvedBy: deals.approvedBy,
+        approvedAt: deals.approvedAt,
+        createdAt: deals.createdAt,
+        updatedAt: deals.updatedAt,
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        userName: users.username,
+        attachmentCount: sql<number>`(select count(*) from ${dealAttachments} where ${dealAttachments.dealId} = ${deals.id})`.mapWith(Number),
+      })
+      .from(deals)
+      .leftJoin(users, eq(deals.userId, users.id))
+      .orderBy(desc(deals.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const result = regionName
+      ? await query.where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"))
+      : await query;
+
+    return {
+      deals: result as DealWithUser[],
+      total: totalCount,
+    };
+  }
+
+  async getReportsData(filters: {
+    country?: string;
+    startDate?: Date;
+    endDate?: Date;
+    regionName?: string; // Nuevo filtro de región
+  }): Promise<{
+    userCount: number;
+    dealCount: number;
+    totalRevenue: number;
+    redeemedRewards: number;
+  }> {
+    // Apply filters
+    const userConditions = [];
+    const dealConditions = [];
+
+    // Filtro de región para regional-admin
+    if (filters.regionName) {
+      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    }
+
+    if (filters.country) {
+      userConditions.push(eq(users.country, filters.country));
+    }
+    if (filters.startDate) {
+      dealConditions.push(gte(deals.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      dealConditions.push(lte(deals.createdAt, filters.endDate));
+    }
+
+    // Always filter deals by approved status
+    dealConditions.unshift(eq(deals.status, "approved"));
+
+    // Build user count query
+    const userQueryBuilder = db.select({ count: count() }).from(users);
+    const [userResult] =
+      userConditions.length > 0
+        ? await userQueryBuilder.where(and(...userConditions))
+        : await userQueryBuilder;
+
+    // Build deal query with region filter
+    let dealQueryBuilder = db
+      .select({
+        count: count(),
+        revenue: sum(deals.dealValue),
+      })
+      .from(deals);
+
+    // Si hay filtro de región, join con users para filtrar por región del usuario
+    if (filters.regionName) {
+      dealQueryBuilder = dealQueryBuilder.leftJoin(users, eq(deals.userId, users.id)) as any;
+      dealConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    }
+
+    const [dealResult] = await dealQueryBuilder.where(and(...dealConditions));
+
+    // Build reward redemptions query with region filter
+    let rewardQueryBuilder = db
+      .select({ count: count() })
+      .from(pointsHistory)
+      .where(isNotNull(pointsHistory.rewardId));
+
+    // Si hay filtro de región, join con users
+    if (filters.regionName) {
+      const rewardResult = await db
+        .select({ count: count() })
+        .from(pointsHistory)
+        .leftJoin(users, eq(pointsHistory.userId, users.id))
+        .where(
+          and(
+            isNotNull(pointsHistory.rewardId),
+            eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
+          )
+        );
+      
+      return {
+        userCount: userResult?.count || 0,
+        dealCount: dealResult?.count || 0,
+        totalRevenue: Number(dealResult?.revenue || 0),
+        redeemedRewards: rewardResult[0]?.count || 0,
+      };
+    }
+
+    const [rewardResult] = await rewardQueryBuilder;
+
+    return {
+      userCount: userResult?.count || 0,
+      dealCount: dealResult?.count || 0,
+      totalRevenue: Number(dealResult?.revenue || 0),
+      redeemedRewards: rewardResult?.count || 0,
+    };
+  }
+
+  async getUserRankingReport(filters: {
+    startDate?: Date;
+    endDate?: Date;
+    regionName?: string;
+  }): Promise<
+    Array<{
+      userId: string;
+      username: string;
+      firstName: string;
+      lastName: string;
+      email: string;
+      country: string;
+      totalPoints: number;
+      totalDeals: number;
+      totalSales: number;
+    }>
+  > {
+    const dealConditions = [eq(deals.status, "approved")];
+    const pointsConditions = [];
+    const userConditions = [eq(users.role, "user")];
+
+    if (filters.startDate) {
+      dealConditions.push(gte(deals.createdAt, filters.startDate));
+      pointsConditions.push(gte(pointsHistory.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      dealConditions.push(lte(deals.createdAt, filters.endDate));
+      pointsConditions.push(lte(pointsHistory.createdAt, filters.endDate));
+    }
+    
+    // Add region filter if provided
+    if (filters.regionName) {
+      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    }
+
+    // Get user points in the date range - only sum POSITIVE points (earned points, not redeemed)
+    // Add condition to only include earned points (positive values), not spent points (negative values)
+    pointsConditions.push(gt(pointsHistory.points, 0));
+
+    const pointsQuery = db
+      .select({
+        userId: pointsHistory.userId,
+        totalPoints: sum(pointsHistory.points).as("totalPoints"),
+      })
+      .from(pointsHistory)
+      .where(pointsConditions.length > 0 ? and(...pointsConditions) : undefined)
+      .groupBy(pointsHistory.userId);
+
+    // Get user deals in the date range
+    const dealsQuery = db
+      .select({
+        userId: deals.userId,
+        totalDeals: count(deals.id).as("totalDeals"),
+        totalSales: sum(deals.dealValue).as("totalSales"),
+      })
+      .from(deals)
+      .where(and(...dealConditions))
+      .groupBy(deals.userId);
+
+    // Get all users with their basic info - filtered by region if provided
+    const usersResult = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        country: users.country,
+      })
+      .from(users)
+      .where(and(...userConditions));
+
+    const pointsResult = await pointsQuery;
+    const dealsResult = await dealsQuery;
+
+    // Combine all data
+    const userRanking = usersResult.map((user) => {
+      const userPoints = pointsResult.find((p) => p.userId === user.id);
+      const userDeals = dealsResult.find((d) => d.userId === user.id);
+
+      return {
+        userId: user.id,
+        username: user.username || "",
+        firstName: user.firstName || "",
+        lastName: user.lastName || "",
+        email: user.email || "",
+        country: user.country || "",
+        totalPoints: Number(userPoints?.totalPoints || 0),
+        totalDeals: Number(userDeals?.totalDeals || 0),
+        totalSales: Number(userDeals?.totalSales || 0),
+      };
+    });
+
+    // Sort by points in descending order
+    return userRanking.sort((a, b) => b.totalPoints - a.totalPoints);
+  }
+
+  async getRewardRedemptionsReport(filters: {
+    startDate?: Date;
+    endDate?: Date;
+    regionName?: string;
+  }): Promise<
+    Array<{
+      userName: string;
+      userFirstName: string;
+      userLastName: string;
+      userEmail: string;
+      rewardName: string;
+      pointsCost: number;
+      status: string;
+      redeemedAt: Date;
+      approvedAt: Date | null;
+    }>
+  > {
+    const conditions = [];
+
+    if (filters.startDate) {
+      conditions.push(gte(userRewards.redeemedAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(userRewards.redeemedAt, filters.endDate));
+    }
+    
+    // Add region filter if provided
+    if (filters.regionName) {
+      conditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    }
+
+    const result = await db
+      .select({
+        userName: users.username,
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        userEmail: users.email,
+        rewardName: rewards.name,
+        pointsCost: rewards.pointsCost,
+        status: userRewards.status,
+        redeemedAt: userRewards.redeemedAt,
+        approvedAt: userRewards.approvedAt,
+      })
+      .from(userRewards)
+      .leftJoin(users, eq(userRewards.userId, users.id))
+      .leftJoin(rewards, eq(userRewards.rewardId, rewards.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(userRewards.redeemedAt));
+
+    return result as Array<{
+      userName: string;
+      userFirstName: string;
+      userLastName: string;
+      userEmail: string;
+      rewardName: string;
+      pointsCost: number;
+      status: string;
+      redeemedAt: Date;
+      approvedAt: Date | null;
+    }>;
+  }
+
+  async getDealsPerUserReport(filters: {
+    startDate?: Date;
+    endDate?: Date;
+    regionName?: string;
+  }): Promise<
+    Array<{
+      userId: string;
+      username: string;
+      firstName: string;
+      lastName: string;
+      email: string;
+      country: string;
+      totalDeals: number;
+      totalSales: number;
+      averageDealSize: number;
+    }>
+  > {
+    const dealConditions = [eq(deals.status, "approved")];
+    const userConditions = [eq(users.role, "user")];
+
+    if (filters.startDate) {
+      dealConditions.push(gte(deals.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+      dealConditions.push(lte(deals.createdAt, filters.endDate));
+    }
+    
+    // Add region filter if provided
+    if (filters.regionName) {
+      userConditions.push(eq(users.region, filters.regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO"));
+    }
+
+    // Get user deals in the date range
+    const dealsQuery = db
+      .select({
+        userId: deals.userId,
+        totalDeals: count(deals.id).as("totalDeals"),
+        totalSales: sum(deals.dealValue).as("totalSales"),
+      })
+      .from(deals)
+      .where(and(...dealConditions))
+      .groupBy(deals.userId);
+
+    // Get all users with their basic info - filtered by region if provided
+    const usersResult = await db
+      .select({
+        id: users.id,
+        username: users.username,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        country: users.country,
+      })
+      .from(users)
+      .where(and(...userConditions));
+
+    const dealsResult = await dealsQuery;
+
+    // Combine all data
+    const dealsPerUser = usersResult.map((user) => {
+      const userDeals = dealsResult.find((d) => d.userId === user.id);
+      const totalDeals = Number(userDeals?.totalDeals || 0);
+      const totalSales = Number(userDeals?.totalSales || 0);
+      const averageDealSize = totalDeals > 0 ? totalSales / totalDeals : 0;
+
+      return {
+        userId: user.id,
+        username: user.username || "",
+        firstName: user.firstName || "",
+        lastName: user.lastName || "",
+        email: user.email || "",
+        country: user.country || "",
+        totalDeals: totalDeals,
+        totalSales: totalSales,
+        averageDealSize: Math.round(averageDealSize * 100) / 100, // Round to 2 decimal places
+      };
+    });
+
+    // Sort by total deals in descending order, then by total sales
+    return dealsPerUser.sort((a, b) => {
+      if (b.totalDeals !== a.totalDeals) {
+        return b.totalDeals - a.totalDeals;
+      }
+      return b.totalSales - a.totalSales;
+    });
+  }
+
+  async createNotification(
+    notification: InsertNotification,
+  ): Promise<Notification> {
+    const [newNotification] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+    return newNotification;
+  }
+
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    const userNotifications = await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+    return userNotifications;
+  }
+
+  async markNotificationAsRead(id: string): Promise<Notification | undefined> {
+    const [updatedNotification] = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return updatedNotification || undefined;
+  }
+
+  async markAllNotificationsAsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+  }
+
+  async createSupportTicket(
+    ticket: InsertSupportTicket,
+  ): Promise<SupportTicket> {
+    const requester = await this.getUser(ticket.userId);
+    const target = await this.getSupportSlaTarget(ticket.priority);
+    const assignee = requester?.region ? await this.pickSupportTicketAssignee(requester.region) : undefined;
+    const now = new Date();
+
+    const [newTicket] = await db
+      .insert(supportTickets)
+      .values({
+        ...ticket,
+        assignedTo: assignee?.id ?? null,
+        assignedAt: assignee ? now : null,
+        firstResponseDueAt: addMinutes(now, target.firstResponseMinutes),
+        resolutionDueAt: addMinutes(now, target.resolutionMinutes),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    if (assignee) {
+      await NotificationHelpers.supportTicketAssigned(assignee.id, newTicket.subject, newTicket.priority);
+    }
+    await emitAdminQueueUpdate("tickets", newTicket.userId);
+    return newTicket;
+  }
+
+  // Admin regional con menos tickets activos; en empate, al que hace más tiempo no recibe uno (round-robin)
+  private async pickSupportTicketAssignee(region: Region): Promise<User | undefined> {
+    const regionalAdmins = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.role, "regional-admin"), eq(users.region, region), eq(users.isActive, true)));
+    if (regionalAdmins.length === 0) return undefined;
+
+    const loads = await db
+      .select({
+        adminId: supportTickets.assignedTo,
+        activeCount: sql<number>`count(*) filter (where ${inArray(supportTickets.status, ACTIVE_TICKET_STATUSES)})`.mapWith(Number),
+        lastAssignedAt: sql`max(${supportTickets.assignedAt})`.mapWith(supportTickets.assignedAt),
+      })
+      .from(supportTickets)
+      .where(inArray(supportTickets.assignedTo, regionalAdmins.map((admin) => admin.id)))
+      .groupBy(supportTickets.assignedTo);
+    const loadByAdmin = new Map(loads.map((load) => [load.adminId, load]));
+
+    return regionalAdmins
+      .map((admin) => ({
+        admin,
+        activeCount: loadByAdmin.get(admin.id)?.activeCount ?? 0,
+        lastAssignedAt: loadByAdmin.get(admin.id)?.lastAssignedAt?.getTime() ?? 0,
+      }))
+      .sort((a, b) => a.activeCount - b.activeCount || a.lastAssignedAt - b.lastAssignedAt)[0].admin;
+  }
+
+  async getSupportSlaTargets(): Promise<SupportSlaTarget[]> {
+    const policies = await db.select().from(supportSlaPolicies);
+    return SUPPORT_TICKET_PRIORITIES.map((priority) => {
+      const policy = policies.find((p) => p.priority === priority);
+      return {
+        priority,
+        firstResponseMinutes: policy?.firstResponseMinutes ?? DEFAULT_SUPPORT_SLA_MINUTES[priority].firstResponse,
+        resolutionMinutes: policy?.resolutionMinutes ?? DEFAULT_SUPPORT_SLA_MINUTES[priority].resolution,
+      };
+    });
+  }
+
+  private async getSupportSlaTarget(priority: string): Promise<SupportSlaTarget> {
+    const targets = await this.getSupportSlaTargets();
+    return targets.find((target) => target.priority === priority) ?? targets.find((target) => target.priority === "medium")!;
+  }
+
+  async updateSupportSlaTargets(targets: UpdateSupportSlaPolicies, updatedBy: string): Promise<SupportSlaTarget[]> {
+    for (const target of targets) {
+      if (target.resolutionMinutes < target.firstResponseMinutes) {
+        throw new Error(`The resolution target for ${target.priority} priority must not be shorter than the first response target`);
+      }
+    }
+
+    // Los nuevos objetivos aplican a los tickets creados desde ahora
+    await db.transaction(async (tx) => {
+      for (const target of targets) {
+        await tx
+          .insert(supportSlaPolicies)
+          .values({ ...target, updatedBy })
+          .onConflictDoUpdate({
+            target: supportSlaPolicies.priority,
+            set: {
+              firstResponseMinutes: target.firstResponseMinutes,
+              resolutionMinutes: target.resolutionMinutes,
+              updatedBy,
+              updatedAt: new Date(),
+            },
+          });
+      }
+    });
+    return this.getSupportSlaTargets();
+  }
+
+  async getTicketsBreachingFirstResponse(now: Date): Promise<SupportTicket[]> {
+    return await db
+      .select()
+      .from(supportTickets)
+      .where(
+        and(
+          inArray(supportTickets.status, ACTIVE_TICKET_STATUSES),
+          isNull(supportTickets.firstResponseAt),
+          isNull(supportTickets.escalatedAt),
+          lt(supportTickets.firstResponseDueAt, now),
+        ),
+      )
+      .orderBy(asc(supportTickets.firstResponseDueAt));
+  }
+
+  async markSupportTicketEscalated(id: string): Promise<SupportTicket | undefined> {
+    // Condición sobre escalatedAt para que dos corridas no escalen el mismo ticket
+    const [ticket] = await db
+      .update(supportTickets)
+      .set({ escalatedAt: new Date() })
+      .where(and(eq(supportTickets.id, id), isNull(supportTickets.escalatedAt)))
+      .returning();
+    return ticket || undefined;
+  }
+
+  async getSupportSlaMetrics(regionName?: string, since?: Date): Promise<SupportSlaMetrics> {
+    const tickets = await db
+      .select({
+        priority: supportTickets.priority,
+        status: supportTickets.status,
+        createdAt: supportTickets.createdAt,
+        firstResponseAt: supportTickets.firstResponseAt,
+        firstResponseDueAt: supportTickets.firstResponseDueAt,
+        resolvedAt: supportTickets.resolvedAt,
+        resolutionDueAt: supportTickets.resolutionDueAt,
+        escalatedAt: supportTickets.escalatedAt,
+      })
+      .from(supportTickets)
+      .leftJoin(users, eq(supportTickets.userId, users.id))
+      .where(
+        and(
+          regionName ? eq(users.region, regionName as Region) : undefined,
+          since ? gte(supportTickets.createdAt, since) : undefined,
+        ),
+      );
+
+    const now = Date.now();
+    const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((total, value) => total + value, 0) / values.length) : null;
+    // Un objetivo se incumple si se cumplió tarde o si sigue pendiente con el plazo vencido
+    const isBreached = (doneAt: Date | null, dueAt: Date | null) =>
+      !!dueAt && (doneAt ? doneAt > dueAt : now > dueAt.getTime());
+
+    const summarize = (group: typeof tickets): Omit<SupportSlaPriorityMetrics, "priority"> => ({
+      ticketCount: group.length,
+      avgFirstResponseMinutes: average(
+        group.filter((t) => t.firstResponseAt).map((t) => minutesBetween(t.createdAt, t.firstResponseAt!)),
+      ),
+      avgResolutionMinutes: average(
+        group.filter((t) => t.resolvedAt).map((t) => minutesBetween(t.createdAt, t.resolvedAt!)),
+      ),
+      firstResponseBreaches: group.filter((t) => isBreached(t.firstResponseAt, t.firstResponseDueAt)).length,
+      resolutionBreaches: group.filter((t) => isBreached(t.resolvedAt, t.resolutionDueAt)).length,
+    });
+
+    return {
+      ...summarize(tickets),
+      escalatedOpen: tickets.filter((t) => t.escalatedAt && ACTIVE_TICKET_STATUSES.includes(t.status)).length,
+      byPriority: SUPPORT_TICKET_PRIORITIES.map((priority) => ({
+        priority,
+        ...summarize(tickets.filter((t) => t.priority === priority)),
+      })),
+    };
+  }
+
+  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
+    const [ticket] = await db
+      .select()
+      .from(supportTickets)
+      .where(eq(supportTickets.id, id));
+    return ticket || undefined;
+  }
+
+  async getUserSupportTickets(userId: string): Promise<SupportTicket[]> {
+    const tickets = await db
+      .select()
+      .from(supportTickets)
+      .where(eq(supportTickets.userId, userId))
+      .orderBy(desc(supportTickets.createdAt));
+    return tickets;
+  }
+
+  async getAllSupportTickets(regionName?: string): Promise<SupportTicketWithUser[]> {
+    const assignee = alias(users, "assignee");
+    let query = db
+      .select({
+        id: supportTickets.id,
+        userId: supportTickets.userId,
+        subject: supportTickets.subject,
+        message: supportTickets.message,
+        status: supportTickets.status,
+        priority: supportTickets.priority,
+        assignedTo: supportTickets.assignedTo,
+        adminResponse: supportTickets.adminResponse,
+        respondedAt: supportTickets.respondedAt,
+        respondedBy: supportTickets.respondedBy,
+        assignedAt: supportTickets.assignedAt,
+        firstResponseAt: supportTickets.firstResponseAt,
+        firstResponseDueAt: supportTickets.firstResponseDueAt,
+        resolutionDueAt: supportTickets.resolutionDueAt,
+        resolvedAt: supportTickets.resolvedAt,
+        escalatedAt: supportTickets.escalatedAt,
+        createdAt: supportTickets.createdAt,
+        updatedAt: supportTickets.updatedAt,
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        userName: users.username,
+        userEmail: users.email,
+        assigneeFirstName: assignee.firstName,
+        assigneeLastName: assignee.lastName,
+      })
+      .from(supportTickets)
+      .leftJoin(users, eq(supportTickets.userId, users.id))
+      .leftJoin(assignee, eq(supportTickets.assignedTo, assignee.id))
+      .orderBy(desc(supportTickets.createdAt));
+
+    if (regionName) {
+      // Regional admin: solo ve tickets de usuarios de su REGIÓN
+      const tickets = await query.where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
+      return tickets as SupportTicketWithUser[];
+    }
+
+    const tickets = await query;
+    return tickets as SupportTicketWithUser[];
+  }
+
+  async updateSupportTicket(
+    id: string,
+    updates: UpdateSupportTicket,
+  ): Promise<SupportTicket | undefined> {
+    const current = await this.getSupportTicket(id);
+    if (!current) return undefined;
+
+    const now = new Date();
+    const slaUpdates: Partial<SupportTicket> = {};
+    if (updates.status && updates.status !== current.status) {
+      // El tiempo de resolución se mide hasta la última vez que se resolvió
+      slaUpdates.resolvedAt = updates.status === "resolved" || updates.status === "closed"
+        ? current.resolvedAt ?? now
+        : null;
+    }
+    if (updates.priority && updates.priority !== current.priority) {
+      const target = await this.getSupportSlaTarget(updates.priority);
+      slaUpdates.firstResponseDueAt = addMinutes(current.createdAt, target.firstResponseMinutes);
+      slaUpdates.resolutionDueAt = addMinutes(current.createdAt, target.resolutionMinutes);
+    }
+    const reassigned = updates.assignedTo !== undefined && updates.assignedTo !== current.assignedTo;
+    if (reassigned) {
+      slaUpdates.assignedAt = updates.assignedTo ? now : null;
+    }
+
+    const [ticket] = await db
+      .update(supportTickets)
+      .set({ ...updates, ...slaUpdates, updatedAt: now })
+      .where(eq(supportTickets.id, id))
+      .returning();
+    if (ticket) {
+      if (reassigned && ticket.assignedTo) {
+        await NotificationHelpers.supportTicketAssigned(ticket.assignedTo, ticket.subject, ticket.priority);
+      }
+      await emitAdminQueueUpdate("tickets", ticket.userId);
+    }
+    return ticket || undefined;
+  }
+
+  async getSupportTicketMessages(
+    ticketId: string,
+    includeInternal: boolean,
+  ): Promise<SupportTicketMessageWithAuthor[]> {
+    return await db
+      .select({
+        id: supportTicketMessages.id,
+        ticketId: supportTicketMessages.ticketId,
+        authorId: supportTicketMessages.authorId,
+        body: supportTicketMessages.body,
+        isInternal: supportTicketMessages.isInternal,
+        createdAt: supportTicketMessages.createdAt,
+        updatedAt: supportTicketMessages.updatedAt,
+        authorFirstName: users.firstName,
+        authorLastName: users.lastName,
+        authorUsername: users.username,
+        authorRole: users.role,
+      })
+      .from(supportTicketMessages)
+      .leftJoin(users, eq(supportTicketMessages.authorId, users.id))
+      .where(
+        and(
+          eq(supportTicketMessages.ticketId, ticketId),
+          includeInternal ? undefined : eq(supportTicketMessages.isInternal, false),
+        ),
+      )
+      .orderBy(asc(supportTicketMessages.createdAt));
+  }
+
+  async addSupportTicketMessage(
+    ticketId: string,
+    authorId: string,
+    message: InsertSupportTicketMessage,
+    fromAdmin: boolean,
+  ): Promise<{ ticket: SupportTicket; message: SupportTicketMessage } | undefined> {
+    const ticket = await this.getSupportTicket(ticketId);
+    if (!ticket) return undefined;
+    if (ticket.status === "closed") {
+      throw new Error("This ticket is closed");
+    }
+
+    // Solo el equipo de soporte puede dejar notas internas
+    const isInternal = fromAdmin && !!message.isInternal;
+    const now = new Date();
+
+    const result = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(supportTicketMessages)
+        .values({ ticketId, authorId, body: message.body, isInternal })
+        .returning();
+
+      const ticketUpdates: Partial<SupportTicket> = { updatedAt: now };
+      if (!isInternal) {
+        // Una respuesta sobre un ticket resuelto lo vuelve a abrir
+        if (ticket.status === "resolved") {
+          ticketUpdates.status = "open";
+          ticketUpdates.resolvedAt = null;
+        }
+        // adminResponse conserva la última respuesta del equipo para las vistas y correos existentes
+        if (fromAdmin) {
+          ticketUpdates.adminResponse = message.body;
+          ticketUpdates.respondedAt = now;
+          ticketUpdates.respondedBy = authorId;
+          if (!ticket.firstResponseAt) {
+            ticketUpdates.firstResponseAt = now;
+          }
+        }
+      }
+
+      const [updatedTicket] = await tx
+        .update(supportTickets)
+        .set(ticketUpdates)
+        .where(eq(supportTickets.id, ticketId))
+        .returning();
+
+      return { ticket: updatedTicket, message: created };
+    });
+
+    await emitSupportTicketMessage(ticket.userId, {
+      ticketId,
+      messageId: result.message.id,
+      authorId,
+      isInternal,
+    });
+    if (result.ticket.status !== ticket.status) {
+      await emitAdminQueueUpdate("tickets", ticket.userId);
+    }
+
+    return result;
+  }
+
+  async getPointsConfig(): Promise<PointsConfig | undefined> {
+    const [config] = await db.select().from(pointsConfig).limit(1);
+    return config || undefined;
+  }
+
+  async updatePointsConfig(
+    updates: UpdatePointsConfig,
+    updatedBy: string,
+  ): Promise<PointsConfig | undefined> {
+    const existingConfig = await this.getPointsConfig();
+
+    if (!existingConfig) {
+      const [newConfig] = await db
+        .insert(pointsConfig)
+        .values({
+          ...updates,
+          updatedBy,
+          updatedAt: new Date(),
+        })
+        .returning();
+      return newConfig;
+    }
+
+    const [config] = await db
+      .update(pointsConfig)
+      .set({ ...updates, updatedBy, updatedAt: new Date() })
+      .where(eq(pointsConfig.id, existingConfig.id))
+      .returning();
+    return config || undefined;
+  }
+
+  async getPointsConfigByRegion(region: string): Promise<PointsConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(pointsConfig)
+      .where(eq(pointsConfig.region, region as any))
+      .limit(1);
+    return config || undefined;
+  }
+
+  async updatePointsConfigByRegion(
+    updates: UpdatePointsConfig,
+    updatedBy: string,
+  ): Promise<PointsConfig | undefined> {
+    const existingConfig = await this.getPointsConfigByRegion(updates.region!);
+
+    if (!existingConfig) {
+      // Crear nueva configuración para esta región
+      const [newConfig] = await db
+        .insert(pointsConfig)
+        .values({
+          ...updates,
+          region: updates.region as any,
+          updatedBy,
+          updatedAt: new Date(),
+        })
+        .returning();
+      return newConfig;
+    }
+
+    // Actualizar configuración existente
+    const [config] = await db
+      .update(pointsConfig)
+      .set({ ...updates, updatedBy, updatedAt: new Date() })
+      .where(eq(pointsConfig.id, existingConfig.id))
+      .returning();
+    return config || undefined;
+  }
+
+  // ═══════════════════════════════════════════════
+  // Regions methods
+  // ═══════════════════════════════════════════════
+
+  async getAllRegionConfigs(regionName?: string): Promise<RegionConfig[]> {
+    // Si hay filtro de región, solo traer configs de esa región
+    if (regionName) {
+      const configs = await db
+        .select()
+        .from(regionConfigs)
+        .where(
+          and(
+            eq(regionConfigs.isActive, true),
+            eq(regionConfigs.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
+          )
+        )
+        .orderBy(regionConfigs.region, regionConfigs.category);
+      return configs;
+    }
+
+    // Super-admin: traer todas las configs
+    const configs = await db
+      .select()
+      .from(regionConfigs)
+      .where(eq(regionConfigs.isActive, true))
+      .orderBy(regionConfigs.region, regionConfigs.category);
+    return configs;
+  }
+
+  async getRegionConfig(id: string): Promise<RegionConfig | undefined> {
+    const [config] = await db
+      .select()
+      .from(regionConfigs)
+      .where(eq(regionConfigs.id, id));
+    return config || undefined;
+  }
+
+  async createRegionConfig(config: InsertRegionConfig): Promise<RegionConfig> {
+    console.log("Storage createRegionConfig called with:", config);
+    console.log("RewardId in storage:", config.rewardId, "Type:", typeof config.rewardId);
+
+    // Normalizar rewardId: aceptar null, undefined o cadena vacía como null
+    const normalizedRewardId = config.rewardId && config.rewardId !== "" ? config.rewardId : null;
+
+    // Convertir expirationDate de string a Date si viene como string
+    const processedConfig = {
+      ...config,
+      rewardId: normalizedRewardId,
+      expirationDate: config.expirationDate 
+        ? new Date(config.expirationDate) 
+        : null,
+    };
+
+    console.log("Processed config before insert:", processedConfig);
+
+    const [newConfig] = await db
+      .insert(regionConfigs)
+      .values(processedConfig)
+      .returning();
+
+    console.log("Created region config:", newConfig);
+    return newConfig;
+  }
+
+  async updateRegionConfig(
+    id: string,
+    updates: Partial<RegionConfig>
+  ): Promise<RegionConfig | undefined> {
+    // Normalizar rewardId y convertir expirationDate de string a Date si viene como string
+    const processedUpdates: any = {
+      ...updates,
+      rewardId: updates.rewardId !== undefined ? (updates.rewardId && updates.rewardId !== "" ? updates.rewardId : null) : undefined,
+      expirationDate: updates.expirationDate !== undefined
+        ? (updates.expirationDate ? new Date(updates.expirationDate) : null)
+        : undefined,
+      updatedAt: new Date(),
+    };
+    
+    const [updated] = await db
+      .update(regionConfigs)
+      .set(processedUpdates)
+      .where(eq(regionConfigs.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteRegionConfig(id: string): Promise<RegionConfig | undefined> {
+    // Primero eliminar los cierres mensuales y sus ganadores
+    const draws = await db
+      .select({ id: monthlyPrizeDraws.id })
+      .from(monthlyPrizeDraws)
+      .where(eq(monthlyPrizeDraws.regionConfigId, id));
+    for (const draw of draws) {
+      await db.delete(monthlyPrizeWinners).where(eq(monthlyPrizeWinners.drawId, draw.id));
+    }
+    await db.delete(monthlyPrizeDraws).where(eq(monthlyPrizeDraws.regionConfigId, id));
+
+    // Luego eliminar los premios mensuales asociados
+    await db
+      .delete(monthlyRegionPrizes)
+      .where(eq(monthlyRegionPrizes.regionConfigId, id));
+    
+    // Luego eliminar la configuración de región
+    const [deleted] = await db
+      .delete(regionConfigs)
+      .where(eq(regionConfigs.id, id))
+      .returning();
+    return deleted || undefined;
+  }
+
+  // Desactiva las configuraciones activas cuya fecha de caducidad ya pasó
+  async deactivateExpiredRegionConfigs(now: Date): Promise<RegionConfig[]> {
+    return db
+      .update(regionConfigs)
+      .set({ isActive: false, updatedAt: now })
+      .where(
+        and(
+          eq(regionConfigs.isActive, true),
+          isNotNull(regionConfigs.expirationDate),
+          lte(regionConfigs.expirationDate, now),
+        ),
+      )
+      .returning();
+  }
+
+  async getMonthlyRegionPrizes(
+    regionConfigId: string,
+    month: number,
+    year: number,
+  ): Promise<MonthlyRegionPrize[]> {
+    const prizes = await db
+      .select()
+      .from(monthlyRegionPrizes)
+      .where(
+        and(
+          eq(monthlyRegionPrizes.regionConfigId, regionConfigId),
+          eq(monthlyRegionPrizes.month, month),
+          eq(monthlyRegionPrizes.year, year),
+          eq(monthlyRegionPrizes.isActive, true)
+        )
+      );
+    return prizes;
+  }
+
+  async seedRegions(): Promise<void> {
+    console.log("🌱 Seeding regions...");
+
+    // NOLA Regions
+    const nolaConfigs: InsertRegionConfig[] = [
+      {
+        region: "NOLA",
+        category: "ENTERPRISE",
+        subcategory: "COLOMBIA",
+        name: "NOLA ENTERPRISE COLOMBIA",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 10,
+        isActive: true,
+      },
+      {
+        region: "NOLA",
+        category: "ENTERPRISE",
+        subcategory: "CENTRO AMÉRICA",
+        name: "NOLA ENTERPRISE CENTRO AMÉRICA",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 10,
+        isActive: true,
+      },
+      {
+        region: "NOLA",
+        category: "SMB",
+        subcategory: "COLOMBIA",
+        name: "NOLA SMB COLOMBIA",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 8,
+        isActive: true,
+      },
+      {
+        region: "NOLA",
+        category: "SMB",
+        subcategory: "CENTRO AMÉRICA",
+        name: "NOLA SMB CENTRO AMÉRICA",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 8,
+        isActive: true,
+      },
+      {
+        region: "NOLA",
+        category: "MSSP",
+        subcategory: null,
+        name: "NOLA MSSP",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 5,
+        isActive: true,
+      },
+    ];
+
+    // SOLA Regions
+    const solaConfigs: InsertRegionConfig[] = [
+      {
+        region: "SOLA",
+        category: "ENTERPRISE",
+        subcategory: null,
+        name: "SOLA ENTERPRISE",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 12,
+        isActive: true,
+      },
+      {
+        region: "SOLA",
+        category: "SMB",
+        subcategory: null,
+        name: "SOLA SMB",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 10,
+        isActive: true,
+      },
+    ];
+
+    // BRASIL Regions
+    const brasilConfigs: InsertRegionConfig[] = [
+      {
+        region: "BRASIL",
+        category: "ENTERPRISE",
+        subcategory: null,
+        name: "BRASIL ENTERPRISE",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 15,
+        isActive: true,
+      },
+      {
+        region: "BRASIL",
+        category: "SMB",
+        subcategory: null,
+        name: "BRASIL SMB",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 12,
+        isActive: true,
+      },
+    ];
+
+    // MÉXICO Regions
+    const mexicoConfigs: InsertRegionConfig[] = [
+      {
+        region: "MEXICO",
+        category: "ENTERPRISE",
+        subcategory: "PLATINUM",
+        name: "MÉXICO ENTERPRISE PLATINUM",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 20,
+        isActive: true,
+      },
+      {
+        region: "MEXICO",
+        category: "ENTERPRISE",
+        subcategory: "GOLD",
+        name: "MÉXICO ENTERPRISE GOLD",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 15,
+        isActive: true,
+      },
+      {
+        region: "MEXICO",
+        category: "SMB",
+        subcategory: "PLATINUM",
+        name: "MÉXICO SMB PLATINUM",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 12,
+        isActive: true,
+      },
+      {
+        region: "MEXICO",
+        category: "SMB",
+        subcategory: "GOLD",
+        name: "MÉXICO SMB GOLD",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 10,
+        isActive: true,
+      },
+      {
+        region: "MEXICO",
+        category: "SMB",
+        subcategory: "SILVER & REGISTERED",
+        name: "MÉXICO SMB SILVER & REGISTERED",
+        newCustomerGoalRate: 1000,
+        renewalGoalRate: 2000,
+        monthlyGoalTarget: 8,
+        isActive: true,
+      },
+    ];
+
+    // Insertar todas las configuraciones
+    const allConfigs = [
+      ...nolaConfigs,
+      ...solaConfigs,
+      ...brasilConfigs,
+      ...mexicoConfigs,
+    ];
+
+    const insertedConfigs = await db
+      .insert(regionConfigs)
+      .values(allConfigs)
+      .returning();
+    console.log(`✅ ${insertedConfigs.length} region configs created`);
+
+    // Premios mensuales según el calendario proporcionado
+    const monthlyPrizesData = [
+      { month: 11, monthName: "NOVEMBER", prizeName: "RAPPI BONUS" },
+      { month: 12, monthName: "DECEMBER", prizeName: "WORLD CUP HAT EMBLEM" },
+      { month: 1, monthName: "JANUARY", prizeName: "WORLD CUP SOCCER BALL" },
+      { month: 2, monthName: "FEBRUARY", prizeName: "WORLD CUP T-SHIRT" },
+      { month: 3, monthName: "MARCH", prizeName: "EARBUDS BOSE" },
+      { month: 4, monthName: "APRIL", prizeName: "SPEAKER" },
+    ];
+
+    const currentYear = 2025;
+    const regionPrizes: InsertMonthlyRegionPrize[] = [];
+
+    // Crear premios para cada región y cada mes
+    for (const config of insertedConfigs) {
+      for (const prize of monthlyPrizesData) {
+        regionPrizes.push({
+          regionConfigId: config.id,
+          month: prize.month,
+          year: currentYear,
+          prizeName: prize.prizeName,
+          prizeDescription: `Sorteo mensual de ${prize.monthName} para ${config.name}`,
+          goalTarget: config.monthlyGoalTarget || 10,
+          isActive: true,
+        });
+      }
+    }
+
+    const insertedPrizes = await db
+      .insert(monthlyRegionPrizes)
+      .values(regionPrizes)
+      .returning();
+    console.log(`✅ ${insertedPrizes.length} monthly prizes created`);
+
+    console.log("🎉 Seeding completed successfully!");
+  }
+
+  // ═══════════════════════════════════════════════
+  // Extended Region Config methods
+  // ═══════════════════════════════════════════════
+
+  async getRegionConfigs(): Promise<RegionConfig[]> {
+    const configs = await db
+      .select()
+      .from(regionConfigs)
+      .orderBy(regionConfigs.region, regionConfigs.category);
+    return configs;
+  }
+
+  // ═══════════════════════════════════════════════
+  // Grand Prize methods
+  // ═══════════════════════════════════════════════
+
+  async getActiveGrandPrizeCriteria(region?: string): Promise<GrandPrizeCriteria | undefined> {
+    if (region) {
+      const [criteria] = await db
+        .select()
+        .from(grandPrizeCriteria)
+        .where(and(
+          eq(grandPrizeCriteria.isActive, true),
+          eq(grandPrizeCriteria.region, region)
+        ))
+        .limit(1);
+      return criteria;
+    }
+    
+    const [criteria] = await db
+      .select()
+      .from(grandPrizeCriteria)
+      .where(eq(grandPrizeCriteria.isActive, true))
+      .limit(1);
+    return criteria;
   }
 
-  async getSupportTicket(id: string): Promise<SupportTicket | undefined> {
-    const [ticket] = await db
+  async getAllGrandPrizeCriteria(region?: string): Promise<GrandPrizeCriteria[]> {
+    if (region) {
+      return await db
+        .select()
+        .from(grandPrizeCriteria)
+        .where(eq(grandPrizeCriteria.region, region))
+        .orderBy(desc(grandPrizeCriteria.createdAt));
+    }
+    
+    return await db
       .select()
-      .from(supportTickets)
-      .where(eq(supportTickets.id, id));
-    return ticket || undefined;
+      .from(grandPrizeCriteria)
+      .orderBy(desc(grandPrizeCriteria.createdAt));
   }
 
-  async getUserSupportTickets(userId: string): Promise<SupportTicket[]> {
-    const tickets = await db
+  async getGrandPrizeCriteria(id: string): Promise<GrandPrizeCriteria | undefined> {
+    const [criteria] = await db
       .select()
-      .from(supportTickets)
-      .where(eq(supportTickets.userId, userId))
-      .orderBy(desc(supportTickets.createdAt));
-    return tickets;
+      .from(grandPrizeCriteria)
+      .where(eq(grandPrizeCriteria.id, id));
+    return criteria || undefined;
   }
 
-  async getAllSupportTickets(regionName?: string): Promise<SupportTicketWithUser[]> {
-    let query = db
-      .select({
-        id: supportTickets.id,
-        userId: supportTickets.userId,
-        subject: supportTickets.subject,
-        message: supportTickets.message,
-        status: supportTickets.status,
-        priority: supportTickets.priority,
-        assignedTo: supportTickets.assignedTo,
-        adminResponse: supportTickets.adminResponse,
-        respondedAt: supportTickets.respondedAt,
-        respondedBy: supportTickets.respondedBy,
-        createdAt: supportTickets.createdAt,
-        updatedAt: supportTickets.updatedAt,
-        userFirstName: users.firstName,
-        userLastName: users.lastName,
-        userName: users.username,
-        userEmail: users.email,
-      })
-      .from(supportTickets)
-      .leftJoin(users, eq(supportTickets.userId, users.id))
-      .orderBy(desc(supportTickets.createdAt));
+  async createGrandPrizeCriteria(data: InsertGrandPrizeCriteria): Promise<GrandPrizeCriteria> {
+    // Deactivate all other criteria
+    await db
+      .update(grandPrizeCriteria)
+      .set({ isActive: false })
+      .where(eq(grandPrizeCriteria.isActive, true));
 
-    if (regionName) {
-      // Regional admin: solo ve tickets de usuarios de su REGIÓN
-      const tickets = await query.where(eq(users.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")); // Filtra directamente por región
-      return tickets as SupportTicketWithUser[];
-    }
+    // Convert string dates to Date objects
+    const processedData = {
+      ...data,
+      id: randomUUID(),
+      startDate: data.startDate ? new Date(data.startDate) : null,
+      endDate: data.endDate ? new Date(data.endDate) : null,
+    };
 
-    const tickets = await query;
-    return tickets as SupportTicketWithUser[];
+    const [newCriteria] = await db
+      .insert(grandPrizeCriteria)
+      .values(processedData)
+      .returning();
+    return newCriteria;
   }
 
-  async updateSupportTicket(
+  async updateGrandPrizeCriteria(
     id: string,
-    updates: UpdateSupportTicket,
-  ): Promise<SupportTicket | undefined> {
-    const [ticket] = await db
-      .update(supportTickets)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(supportTickets.id, id))
+    updates: UpdateGrandPrizeCriteria,
+  ): Promise<GrandPrizeCriteria | undefined> {
+    // If activating this criteria, deactivate all others
+    if (updates.isActive === true) {
+      await db
+        .update(grandPrizeCriteria)
+        .set({ isActive: false })
+        .where(eq(grandPrizeCriteria.isActive, true));
+    }
+
+    // Convert string dates to Date objects
+    const processedUpdates: any = {
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    if (updates.startDate !== undefined) {
+      processedUpdates.startDate = updates.startDate ? new Date(updates.startDate) : null;
+    }
+    if (updates.endDate !== undefined) {
+      processedUpdates.endDate = updates.endDate ? new Date(updates.endDate) : null;
+    }
+
+    const [updated] = await db
+      .update(grandPrizeCriteria)
+      .set(processedUpdates)
+      .where(eq(grandPrizeCriteria.id, id))
       .returning();
-    return ticket || undefined;
+    return updated;
   }
 
-  async getPointsConfig(): Promise<PointsConfig | undefined> {
-    const [config] = await db.select().from(pointsConfig).limit(1);
-    return config || undefined;
+  async deleteGrandPrizeCriteria(id: string): Promise<void> {
+    await db
+      .delete(grandPrizeCriteria)
+      .where(eq(grandPrizeCriteria.id, id));
   }
 
-  async updatePointsConfig(
-    updates: UpdatePointsConfig,
-    updatedBy: string,
-  ): Promise<PointsConfig | undefined> {
-    const existingConfig = await this.getPointsConfig();
+  async getGrandPrizeRanking(criteriaId: string): Promise<any[]> {
+    const [criteria] = await db
+      .select()
+      .from(grandPrizeCriteria)
+      .where(eq(grandPrizeCriteria.id, criteriaId));
 
-    if (!existingConfig) {
-      const [newConfig] = await db
-        .insert(pointsConfig)
-        .values({
-          ...updates,
-          updatedBy,
-          updatedAt: new Date(),
-        })
-        .returning();
-      return newConfig;
+    if (!criteria) {
+      return [];
     }
 
-    const [config] = await db
-      .update(pointsConfig)
-      .set({ ...updates, updatedBy, updatedAt: new Date() })
-      .where(eq(pointsConfig.id, existingConfig.id))
-      .returning();
-    return config || undefined;
-  }
+    // Build query filters based on criteria
+    let dealsQuery = db
+      .select({
+        userId: deals.userId,
+        totalPoints: sum(deals.pointsEarned).mapWith(Number).as("totalPoints"),
+        totalDeals: count(deals.id).as("totalDeals"),
+      })
+      .from(deals)
+      .where(eq(deals.status, "approved"))
+      .groupBy(deals.userId)
+      .$dynamic();
 
-  async getPointsConfigByRegion(region: string): Promise<PointsConfig | undefined> {
-    const [config] = await db
-      .select()
-      .from(pointsConfig)
-      .where(eq(pointsConfig.region, region as any))
-      .limit(1);
-    return config || undefined;
-  }
+    // Apply filters
+    const filters = [];
 
-  async updatePointsConfigByRegion(
-    updates: UpdatePointsConfig,
-    updatedBy: string,
-  ): Promise<PointsConfig | undefined> {
-    const existingConfig = await this.getPointsConfigByRegion(updates.region!);
+    if (criteria.startDate) {
+      filters.push(gte(deals.approvedAt, criteria.startDate));
+    }
+    if (criteria.endDate) {
+      filters.push(lte(deals.approvedAt, criteria.endDate));
+    }
 
-    if (!existingConfig) {
-      // Crear nueva configuración para esta región
-      const [newConfig] = await db
-        .insert(pointsConfig)
-        .values({
-          ...updates,
-          region: updates.region as any,
-          updatedBy,
-          updatedAt: new Date(),
-        })
-        .returning();
-      return newConfig;
+    if (filters.length > 0) {
+      dealsQuery = dealsQuery.where(and(...filters));
     }
 
-    // Actualizar configuración existente
-    const [config] = await db
-      .update(pointsConfig)
-      .set({ ...updates, updatedBy, updatedAt: new Date() })
-      .where(eq(pointsConfig.id, existingConfig.id))
-      .returning();
-    return config || undefined;
+    const userStats = await dealsQuery;
+
+    // Join with user data and filter by region
+    const usersWithStats = await Promise.all(
+      userStats.map(async (stat) => {
+        const user = await this.getUser(stat.userId);
+        if (!user) return null;
+
+        // Filter by region if specified
+        if (criteria.region && criteria.region !== "all" && user.region !== criteria.region) {
+          return null;
+        }
+
+        // Filter by minimum requirements
+        if (criteria.minPoints && stat.totalPoints < criteria.minPoints) {
+          return null;
+        }
+        if (criteria.minDeals && stat.totalDeals < criteria.minDeals) {
+          return null;
+        }
+
+        // Calculate score based on criteria type
+        let score = 0;
+        if (criteria.criteriaType === "points") {
+          score = stat.totalPoints;
+        } else if (criteria.criteriaType === "deals") {
+          score = stat.totalDeals;
+        } else if (criteria.criteriaType === "combined") {
+          const pointsWeight = (criteria.pointsWeight || 60) / 100;
+          const dealsWeight = (criteria.dealsWeight || 40) / 100;
+          score = stat.totalPoints * pointsWeight + stat.totalDeals * dealsWeight;
+        }
+
+        return {
+          user,
+          points: stat.totalPoints || 0,
+          deals: stat.totalDeals || 0,
+          score,
+        };
+      }),
+    );
+
+    // Filter out nulls and sort by score
+    const filteredRanking = usersWithStats
+      .filter((entry) => entry !== null)
+      .sort((a, b) => b!.score - a!.score)
+      .map((entry, index) => ({
+        ...entry!,
+        rank: index + 1,
+      }));
+
+    return filteredRanking;
   }
 
-  // ═══════════════════════════════════════════════
-  // Regions methods
-  // ═══════════════════════════════════════════════
+  /**
+   * Congela el top N del ranking actual en grand_prize_winners y bloquea el criterio
+   * para que no pueda editarse ni premiarse de nuevo.
+   */
+  async awardGrandPrizeWinners(
+    criteriaId: string,
+    topN: number,
+    awardedBy: string,
+    notes?: string,
+  ): Promise<GrandPrizeWinner[]> {
+    const criteria = await this.getGrandPrizeCriteria(criteriaId);
+    if (!criteria) throw new Error("Criteria not found");
+    if (criteria.isLocked) {
+      throw new Error("Winners have already been awarded for this criteria");
+    }
 
-  async getAllRegionConfigs(regionName?: string): Promise<RegionConfig[]> {
-    // Si hay filtro de región, solo traer configs de esa región
-    if (regionName) {
-      const configs = await db
-        .select()
-        .from(regionConfigs)
+    const ranking = await this.getGrandPrizeRanking(criteriaId);
+    const topEntries = ranking.slice(0, topN);
+    if (topEntries.length === 0) {
+      throw new Error("No users qualify under this criteria");
+    }
+
+    const winners = await db.transaction(async (tx) => {
+      // Bloqueo condicional: si otro admin premió en paralelo, no se inserta nada
+      const [locked] = await tx
+        .update(grandPrizeCriteria)
+        .set({
+          isLocked: true,
+          lockedAt: new Date(),
+          lockedBy: awardedBy,
+          updatedAt: new Date(),
+        })
         .where(
           and(
-            eq(regionConfigs.isActive, true),
-            eq(regionConfigs.region, regionName as "NOLA" | "SOLA" | "BRASIL" | "MEXICO")
-          )
+            eq(grandPrizeCriteria.id, criteriaId),
+            eq(grandPrizeCriteria.isLocked, false),
+          ),
         )
-        .orderBy(regionConfigs.region, regionConfigs.category);
-      return configs;
+        .returning();
+
+      if (!locked) {
+        throw new Error("Winners have already been awarded for this criteria");
+      }
+
+      return await tx
+        .insert(grandPrizeWinners)
+        .values(
+          topEntries.map((entry) => ({
+            userId: entry.user.id,
+            criteriaId,
+            points: entry.points,
+            deals: entry.deals,
+            score: Number(entry.score).toFixed(2),
+            rank: entry.rank,
+            awardedBy,
+            notes: notes || null,
+          })),
+        )
+        .returning();
+    });
+
+    // Enviar notificación en tiempo real a cada ganador
+    for (const winner of winners) {
+      await NotificationHelpers.grandPrizeWon(
+        winner.userId,
+        criteria.name,
+        winner.rank,
+      );
     }
 
-    // Super-admin: traer todas las configs
-    const configs = await db
-      .select()
-      .from(regionConfigs)
-      .where(eq(regionConfigs.isActive, true))
-      .orderBy(regionConfigs.region, regionConfigs.category);
-    return configs;
+    return winners;
   }
 
-  async getRegionConfig(id: string): Promise<RegionConfig | undefined> {
-    const [config] = await db
-      .select()
-      .from(regionConfigs)
-      .where(eq(regionConfigs.id, id));
-    return config || undefined;
+  private grandPrizeWinnerWithUserColumns() {
+    return {
+      id: grandPrizeWinners.id,
+      userId: grandPrizeWinners.userId,
+      criteriaId: grandPrizeWinners.criteriaId,
+      points: grandPrizeWinners.points,
+      deals: grandPrizeWinners.deals,
+      score: grandPrizeWinners.score,
+      rank: grandPrizeWinners.rank,
+      awardedAt: grandPrizeWinners.awardedAt,
+      awardedBy: grandPrizeWinners.awardedBy,
+      notes: grandPrizeWinners.notes,
+      userFirstName: users.firstName,
+      userLastName: users.lastName,
+      userName: users.username,
+      criteriaName: grandPrizeCriteria.name,
+      region: grandPrizeCriteria.region,
+    };
   }
 
-  async createRegionConfig(config: InsertRegionConfig): Promise<RegionConfig> {
-    console.log("Storage createRegionConfig called with:", config);
-    console.log("RewardId in storage:", config.rewardId, "Type:", typeof config.rewardId);
+  async getGrandPrizeWinners(criteriaId: string): Promise<GrandPrizeWinnerWithUser[]> {
+    const result = await db
+      .select(this.grandPrizeWinnerWithUserColumns())
+      .from(grandPrizeWinners)
+      .innerJoin(users, eq(grandPrizeWinners.userId, users.id))
+      .innerJoin(grandPrizeCriteria, eq(grandPrizeWinners.criteriaId, grandPrizeCriteria.id))
+      .where(eq(grandPrizeWinners.criteriaId, criteriaId))
+      .orderBy(asc(grandPrizeWinners.rank));
+
+    return result as GrandPrizeWinnerWithUser[];
+  }
 
-    // Normalizar rewardId: aceptar null, undefined o cadena vacía como null
-    const normalizedRewardId = config.rewardId && config.rewardId !== "" ? config.rewardId : null;
+  async getPastGrandPrizeWinners(region?: string): Promise<GrandPrizeWinnerWithUser[]> {
+    const result = await db
+      .select(this.grandPrizeWinnerWithUserColumns())
+      .from(grandPrizeWinners)
+      .innerJoin(users, eq(grandPrizeWinners.userId, users.id))
+      .innerJoin(grandPrizeCriteria, eq(grandPrizeWinners.criteriaId, grandPrizeCriteria.id))
+      .where(region ? eq(grandPrizeCriteria.region, region) : undefined)
+      .orderBy(desc(grandPrizeWinners.awardedAt), asc(grandPrizeWinners.rank));
+
+    return result as GrandPrizeWinnerWithUser[];
+  }
 
-    // Convertir expirationDate de string a Date si viene como string
-    const processedConfig = {
-      ...config,
-      rewardId: normalizedRewardId,
-      expirationDate: config.expirationDate 
-        ? new Date(config.expirationDate) 
-        : null,
-    };
+  // Monthly Prizes methods
+  async getMonthlyPrizes(
+    month?: number,
+    year?: number,
+    region?: string,
+  ): Promise<MonthlyRegionPrize[]> {
+    let query = db
+      .select()
+      .from(monthlyRegionPrizes)
+      .leftJoin(regionConfigs, eq(monthlyRegionPrizes.regionConfigId, regionConfigs.id))
+      .orderBy(desc(monthlyRegionPrizes.year), desc(monthlyRegionPrizes.month), asc(monthlyRegionPrizes.rank));
 
-    console.log("Processed config before insert:", processedConfig);
+    const conditions = [];
+    
+    // Filtrar por región si se proporciona
+    if (region) {
+      conditions.push(eq(regionConfigs.region, region as any));
+    }
+    
+    // Filtrar por mes si se proporciona
+    if (month !== undefined) {
+      conditions.push(eq(monthlyRegionPrizes.month, month));
+    }
+    
+    // Filtrar por año si se proporciona
+    if (year !== undefined) {
+      conditions.push(eq(monthlyRegionPrizes.year, year));
+    }
 
-    const [newConfig] = await db
-      .insert(regionConfigs)
-      .values(processedConfig)
-      .returning();
+    if (conditions.length > 0) {
+      const prizes = await query.where(and(...conditions));
+      return prizes.map(row => row.monthly_region_prizes);
+    }
 
-    console.log("Created region config:", newConfig);
-    return newConfig;
+    const allPrizes = await query;
+    return allPrizes.map(row => row.monthly_region_prizes);
   }
 
-  async updateRegionConfig(
-    id: string,
-    updates: Partial<RegionConfig>
-  ): Promise<RegionConfig | undefined> {
-    // Normalizar rewardId y convertir expirationDate de string a Date si viene como string
-    const processedUpdates: any = {
-      ...updates,
-      rewardId: updates.rewardId !== undefined ? (updates.rewardId && updates.rewardId !== "" ? updates.rewardId : null) : undefined,
-      expirationDate: updates.expirationDate !== undefined
-        ? (updates.expirationDate ? new Date(updates.expirationDate) : null)
-        : undefined,
-      updatedAt: new Date(),
-    };
-    
-    const [updated] = await db
-      .update(regionConfigs)
-      .set(processedUpdates)
-      .where(eq(regionConfigs.id, id))
+  async createMonthlyPrize(
+    prize: InsertMonthlyRegionPrize,
+  ): Promise<MonthlyRegionPrize> {
+    const [newPrize] = await db
+      .insert(monthlyRegionPrizes)
+      .values(prize)
       .returning();
-    return updated || undefined;
+    return newPrize;
   }
 
-  async deleteRegionConfig(id: string): Promise<RegionConfig | undefined> {
-    // Primero eliminar los premios mensuales asociados
-    await db
-      .delete(monthlyRegionPrizes)
-      .where(eq(monthlyRegionPrizes.regionConfigId, id));
-    
-    // Luego eliminar la configuración de región
-    const [deleted] = await db
-      .delete(regionConfigs)
-      .where(eq(regionConfigs.id, id))
+  async updateMonthlyPrize(
+    id: string,
+    updates: Partial<MonthlyRegionPrize>,
+  ): Promise<MonthlyRegionPrize | undefined> {
+    const [updatedPrize] = await db
+      .update(monthlyRegionPrizes)
+      .set(updates)
+      .where(eq(monthlyRegionPrizes.id, id))
       .returning();
-    return deleted || undefined;
+    return updatedPrize || undefined;
   }
 
-  async getMonthlyRegionPrizes(
-    regionConfigId: string,
-    month: number,
-    year: number,
-  ): Promise<MonthlyRegionPrize[]> {
-    const prizes = await db
+  async deleteMonthlyPrize(id: string): Promise<void> {
+    await db.delete(monthlyRegionPrizes).where(eq(monthlyRegionPrizes.id, id));
+  }
+
+  async getMonthlyPrize(id: string): Promise<MonthlyRegionPrize | undefined> {
+    const [prize] = await db
       .select()
       .from(monthlyRegionPrizes)
-      .where(
-        and(
-          eq(monthlyRegionPrizes.regionConfigId, regionConfigId),
-          eq(monthlyRegionPrizes.month, month),
-          eq(monthlyRegionPrizes.year, year),
-          eq(monthlyRegionPrizes.isActive, true)
-        )
-      );
-    return prizes;
+      .where(eq(monthlyRegionPrizes.id, id));
+    return prize || undefined;
   }
 
-  async seedRegions(): Promise<void> {
-    console.log("🌱 Seeding regions...");
-
-    // NOLA Regions
-    const nolaConfigs: InsertRegionConfig[] = [
-      {
-        region: "NOLA",
-        category: "ENTERPRISE",
-        subcategory: "COLOMBIA",
-        name: "NOLA ENTERPRISE COLOMBIA",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 10,
-        isActive: true,
-      },
-      {
-        region: "NOLA",
-        category: "ENTERPRISE",
-        subcategory: "CENTRO AMÉRICA",
-        name: "NOLA ENTERPRISE CENTRO AMÉRICA",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 10,
-        isActive: true,
-      },
-      {
-        region: "NOLA",
-        category: "SMB",
-        subcategory: "COLOMBIA",
-        name: "NOLA SMB COLOMBIA",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 8,
-        isActive: true,
-      },
-      {
-        region: "NOLA",
-        category: "SMB",
-        subcategory: "CENTRO AMÉRICA",
-        name: "NOLA SMB CENTRO AMÉRICA",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 8,
-        isActive: true,
-      },
-      {
-        region: "NOLA",
-        category: "MSSP",
-        subcategory: null,
-        name: "NOLA MSSP",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 5,
-        isActive: true,
-      },
-    ];
-
-    // SOLA Regions
-    const solaConfigs: InsertRegionConfig[] = [
-      {
-        region: "SOLA",
-        category: "ENTERPRISE",
-        subcategory: null,
-        name: "SOLA ENTERPRISE",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 12,
-        isActive: true,
-      },
-      {
-        region: "SOLA",
-        category: "SMB",
-        subcategory: null,
-        name: "SOLA SMB",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 10,
-        isActive: true,
-      },
-    ];
+  // Suma de goles por usuario en una configuración de región y mes
+  async getMonthlyGoalsByUser(
+    regionConfigId: string,
+    month: number,
+    year: number,
+  ): Promise<{ userId: string; firstName: string; lastName: string; username: string; goals: number }[]> {
+    const rows = await db
+      .select({
+        userId: goalsHistory.userId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+        goals: sql<string>`COALESCE(SUM(${goalsHistory.goals}), 0)`,
+      })
+      .from(goalsHistory)
+      .innerJoin(users, eq(goalsHistory.userId, users.id))
+      .where(
+        and(
+          eq(goalsHistory.regionConfigId, regionConfigId),
+          eq(goalsHistory.month, month),
+          eq(goalsHistory.year, year),
+          eq(users.isActive, true),
+        ),
+      )
+      .groupBy(goalsHistory.userId, users.firstName, users.lastName, users.username)
+      // Orden estable por userId: es la entrada del sorteo y debe ser reproducible
+      .orderBy(asc(goalsHistory.userId));
 
-    // BRASIL Regions
-    const brasilConfigs: InsertRegionConfig[] = [
-      {
-        region: "BRASIL",
-        category: "ENTERPRISE",
-        subcategory: null,
-        name: "BRASIL ENTERPRISE",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 15,
-        isActive: true,
-      },
-      {
-        region: "BRASIL",
-        category: "SMB",
-        subcategory: null,
-        name: "BRASIL SMB",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 12,
-        isActive: true,
-      },
-    ];
+    return rows.map((row) => ({ ...row, goals: Number(row.goals) }));
+  }
 
-    // MÉXICO Regions
-    const mexicoConfigs: InsertRegionConfig[] = [
-      {
-        region: "MEXICO",
-        category: "ENTERPRISE",
-        subcategory: "PLATINUM",
-        name: "MÉXICO ENTERPRISE PLATINUM",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 20,
-        isActive: true,
-      },
-      {
-        region: "MEXICO",
-        category: "ENTERPRISE",
-        subcategory: "GOLD",
-        name: "MÉXICO ENTERPRISE GOLD",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 15,
-        isActive: true,
-      },
-      {
-        region: "MEXICO",
-        category: "SMB",
-        subcategory: "PLATINUM",
-        name: "MÉXICO SMB PLATINUM",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 12,
-        isActive: true,
-      },
-      {
-        region: "MEXICO",
-        category: "SMB",
-        subcategory: "GOLD",
-        name: "MÉXICO SMB GOLD",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 10,
-        isActive: true,
-      },
-      {
-        region: "MEXICO",
-        category: "SMB",
-        subcategory: "SILVER & REGISTERED",
-        name: "MÉXICO SMB SILVER & REGISTERED",
-        newCustomerGoalRate: 1000,
-        renewalGoalRate: 2000,
-        monthlyGoalTarget: 8,
-        isActive: true,
-      },
-    ];
+  async getMonthlyPrizeDraw(
+    regionConfigId: string,
+    month: number,
+    year: number,
+  ): Promise<MonthlyPrizeDraw | undefined> {
+    const [draw] = await db
+      .select()
+      .from(monthlyPrizeDraws)
+      .where(
+        and(
+          eq(monthlyPrizeDraws.regionConfigId, regionConfigId),
+          eq(monthlyPrizeDraws.month, month),
+          eq(monthlyPrizeDraws.year, year),
+        ),
+      );
+    return draw || undefined;
+  }
 
-    // Insertar todas las configuraciones
-    const allConfigs = [
-      ...nolaConfigs,
-      ...solaConfigs,
-      ...brasilConfigs,
-      ...mexicoConfigs,
-    ];
+  // Índice determinístico en [0, size) derivado de la semilla: HMAC-SHA256(seed, salt)
+  private seededIndex(seed: string, salt: string, size: number): number {
+    const digest = createHmac("sha256", seed).update(salt).digest();
+    return digest.readUIntBE(0, 6) % size;
+  }
 
-    const insertedConfigs = await db
-      .insert(regionConfigs)
-      .values(allConfigs)
-      .returning();
-    console.log(`✅ ${insertedConfigs.length} region configs created`);
+  async runMonthlyPrizeDraw(
+    regionConfigId: string,
+    month: number,
+    year: number,
+    executedBy: string | null,
+    seed?: string,
+  ): Promise<MonthlyPrizeDrawWithWinners> {
+    const regionConfig = await this.getRegionConfig(regionConfigId);
+    if (!regionConfig) throw new Error("Region configuration not found");
+
+    // Solo se puede cerrar un mes que ya terminó
+    if (new Date(year, month, 1) > new Date()) {
+      throw new Error("The month has not ended yet");
+    }
 
-    // Premios mensuales según el calendario proporcionado
-    const monthlyPrizesData = [
-      { month: 11, monthName: "NOVEMBER", prizeName: "RAPPI BONUS" },
-      { month: 12, monthName: "DECEMBER", prizeName: "WORLD CUP HAT EMBLEM" },
-      { month: 1, monthName: "JANUARY", prizeName: "WORLD CUP SOCCER BALL" },
-      { month: 2, monthName: "FEBRUARY", prizeName: "WORLD CUP T-SHIRT" },
-      { month: 3, monthName: "MARCH", prizeName: "EARBUDS BOSE" },
-      { month: 4, monthName: "APRIL", prizeName: "SPEAKER" },
-    ];
+    if (await this.getMonthlyPrizeDraw(regionConfigId, month, year)) {
+      throw new Error("This month has already been closed for this region configuration");
+    }
 
-    const currentYear = 2025;
-    const regionPrizes: InsertMonthlyRegionPrize[] = [];
+    const prizes = (await this.getMonthlyRegionPrizes(regionConfigId, month, year))
+      .sort((a, b) => a.rank - b.rank);
+    if (prizes.length === 0) {
+      throw new Error("No active prizes configured for this month");
+    }
 
-    // Crear premios para cada región y cada mes
-    for (const config of insertedConfigs) {
-      for (const prize of monthlyPrizesData) {
-        regionPrizes.push({
-          regionConfigId: config.id,
-          month: prize.month,
-          year: currentYear,
-          prizeName: prize.prizeName,
-          prizeDescription: `Sorteo mensual de ${prize.monthName} para ${config.name}`,
-          goalTarget: config.monthlyGoalTarget || 10,
-          isActive: true,
-        });
+    const participants = (await this.getMonthlyGoalsByUser(regionConfigId, month, year))
+      .map(({ userId, goals }) => ({ userId, goals }));
+    const drawSeed = seed || randomBytes(16).toString("hex");
+
+    // Cada premio se asigna en orden de rank; un usuario gana como máximo un premio por mes
+    const awarded = new Set<string>();
+    const selections: Omit<typeof monthlyPrizeWinners.$inferInsert, "drawId">[] = [];
+    for (const prize of prizes) {
+      const eligible = participants.filter(
+        (p) => p.goals >= prize.goalTarget && !awarded.has(p.userId),
+      );
+      if (eligible.length === 0) continue;
+
+      const winner = prize.selectionMethod === "ranking"
+        ? [...eligible].sort((a, b) => b.goals - a.goals || a.userId.localeCompare(b.userId))[0]
+        : eligible[this.seededIndex(drawSeed, `${prize.rank}:${prize.id}`, eligible.length)];
+
+      awarded.add(winner.userId);
+      selections.push({
+        prizeId: prize.id,
+        userId: winner.userId,
+        rank: prize.rank,
+        goals: winner.goals.toFixed(2),
+        goalTarget: prize.goalTarget,
+        selectionMethod: prize.selectionMethod,
+        qualifiedCount: eligible.length,
+      });
+    }
+
+    const draw = await db.transaction(async (tx) => {
+      const [newDraw] = await tx
+        .insert(monthlyPrizeDraws)
+        .values({
+          regionConfigId,
+          month,
+          year,
+          seed: drawSeed,
+          participants,
+          executedBy,
+        })
+        .returning();
+
+      if (selections.length > 0) {
+        await tx
+          .insert(monthlyPrizeWinners)
+          .values(selections.map((selection) => ({ ...selection, drawId: newDraw.id })));
       }
+
+      return newDraw;
+    });
+
+    const winners = await this.getMonthlyPrizeWinners([draw.id]);
+
+    // Enviar notificación en tiempo real a cada ganador
+    for (const winner of winners) {
+      await NotificationHelpers.monthlyPrizeWon(
+        winner.userId,
+        winner.prizeName,
+        month,
+        year,
+      );
     }
 
-    const insertedPrizes = await db
-      .insert(monthlyRegionPrizes)
-      .values(regionPrizes)
-      .returning();
-    console.log(`✅ ${insertedPrizes.length} monthly prizes created`);
+    return { ...draw, winners };
+  }
 
-    console.log("🎉 Seeding completed successfully!");
+  private async getMonthlyPrizeWinners(drawIds: string[]): Promise<MonthlyPrizeWinnerWithUser[]> {
+    if (drawIds.length === 0) return [];
+
+    const result = await db
+      .select({
+        id: monthlyPrizeWinners.id,
+        drawId: monthlyPrizeWinners.drawId,
+        prizeId: monthlyPrizeWinners.prizeId,
+        userId: monthlyPrizeWinners.userId,
+        rank: monthlyPrizeWinners.rank,
+        goals: monthlyPrizeWinners.goals,
+        goalTarget: monthlyPrizeWinners.goalTarget,
+        selectionMethod: monthlyPrizeWinners.selectionMethod,
+        qualifiedCount: monthlyPrizeWinners.qualifiedCount,
+        createdAt: monthlyPrizeWinners.createdAt,
+        userFirstName: users.firstName,
+        userLastName: users.lastName,
+        userName: users.username,
+        prizeName: monthlyRegionPrizes.prizeName,
+      })
+      .from(monthlyPrizeWinners)
+      .innerJoin(users, eq(monthlyPrizeWinners.userId, users.id))
+      .innerJoin(monthlyRegionPrizes, eq(monthlyPrizeWinners.prizeId, monthlyRegionPrizes.id))
+      .where(inArray(monthlyPrizeWinners.drawId, drawIds))
+      .orderBy(asc(monthlyPrizeWinners.rank));
+
+    return result as MonthlyPrizeWinnerWithUser[];
   }
 
-  // ═══════════════════════════════════════════════
-  // Extended Region Config methods
-  // ═══════════════════════════════════════════════
+  async getMonthlyPrizeDraws(
+    month: number,
+    year: number,
+    region?: string,
+  ): Promise<MonthlyPrizeDrawWithWinners[]> {
+    const conditions = [
+      eq(monthlyPrizeDraws.month, month),
+      eq(monthlyPrizeDraws.year, year),
+    ];
+    if (region) {
+      conditions.push(eq(regionConfigs.region, region as Region));
+    }
 
-  async getRegionConfigs(): Promise<RegionConfig[]> {
-    const configs = await db
+    const rows = await db
       .select()
-      .from(regionConfigs)
-      .orderBy(regionConfigs.region, regionConfigs.category);
-    return configs;
+      .from(monthlyPrizeDraws)
+      .innerJoin(regionConfigs, eq(monthlyPrizeDraws.regionConfigId, regionConfigs.id))
+      .where(and(...conditions))
+      .orderBy(asc(regionConfigs.name));
+
+    const draws = rows.map((row) => row.monthly_prize_draws);
+    const winners = await this.getMonthlyPrizeWinners(draws.map((draw) => draw.id));
+
+    return draws.map((draw) => ({
+      ...draw,
+      winners: winners.filter((winner) => winner.drawId === draw.id),
+    }));
   }
 
   // ═══════════════════════════════════════════════
-  // Grand Prize methods
+  // Email outbox methods
   // ═══════════════════════════════════════════════
 
-  async getActiveGrandPrizeCriteria(region?: string): Promise<GrandPrizeCriteria | undefined> {
-    if (region) {
-      const [criteria] = await db
-        .select()
-        .from(grandPrizeCriteria)
-        .where(and(
-          eq(grandPrizeCriteria.isActive, true),
-          eq(grandPrizeCriteria.region, region)
-        ))
-        .limit(1);
-      return criteria;
+  async enqueueEmail(entry: InsertEmailOutboxEntry): Promise<EmailOutboxEntry> {
+    const [created] = await db.insert(emailOutbox).values(entry).returning();
+    return created;
+  }
+
+  // Toma los emails pendientes ya vencidos y los marca como "sending" en una sola sentencia;
+  // SKIP LOCKED evita que dos procesos envíen el mismo email
+  async claimDueEmails(now: Date, limit: number): Promise<EmailOutboxEntry[]> {
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(emailOutbox)
+      .set({
+        status: "sending",
+        lockedAt: now,
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  // `redactContent` vacía el cuerpo de los emails que llevan enlaces con token
+  async markEmailSent(id: string, transport: string, providerMessageId?: string, redactContent: boolean = false): Promise<void> {
+    const now = new Date();
+    await db
+      .update(emailOutbox)
+      .set({
+        ...(redactContent ? { htmlContent: "", textContent: null } : {}),
+        status: "sent",
+        transport,
+        providerMessageId: providerMessageId ?? null,
+        sentAt: now,
+        lockedAt: null,
+        lastError: null,
+        updatedAt: now,
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Sin próximo intento el email pasa a "dead" y solo se reenvía a mano desde el panel
+  async markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: nextAttemptAt ? "pending" : "dead",
+        nextAttemptAt: nextAttemptAt ?? undefined,
+        lastError: error,
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Devuelve a la cola los emails que quedaron en "sending" porque el proceso se cayó a mitad del envío
+  async releaseStaleEmailClaims(claimedBefore: Date): Promise<number> {
+    const released = await db
+      .update(emailOutbox)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(emailOutbox.status, "sending"), lt(emailOutbox.lockedAt, claimedBefore)))
+      .returning({ id: emailOutbox.id });
+    return released.length;
+  }
+
+  async getEmailOutbox(status?: EmailOutboxStatus, limit: number = 100): Promise<EmailOutboxSummary[]> {
+    return await db
+      .select(EMAIL_OUTBOX_SUMMARY_COLUMNS)
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.updatedAt))
+      .limit(limit);
+  }
+
+  async getEmailOutboxCounts(): Promise<EmailOutboxCounts> {
+    const rows = await db
+      .select({ status: emailOutbox.status, count: count() })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+
+    const counts: EmailOutboxCounts = { pending: 0, sending: 0, sent: 0, dead: 0 };
+    for (const row of rows) {
+      counts[row.status] = Number(row.count);
     }
-    
-    const [criteria] = await db
-      .select()
-      .from(grandPrizeCriteria)
-      .where(eq(grandPrizeCriteria.isActive, true))
-      .limit(1);
-    return criteria;
+    return counts;
   }
 
-  async getAllGrandPrizeCriteria(region?: string): Promise<GrandPrizeCriteria[]> {
-    if (region) {
-      return await db
-        .select()
-        .from(grandPrizeCriteria)
-        .where(eq(grandPrizeCriteria.region, region))
-        .orderBy(desc(grandPrizeCriteria.createdAt));
+  // Reenvío manual de un email fallido: vuelve a la cola con los intentos en cero
+  async requeueEmail(id: string): Promise<EmailOutboxSummary> {
+    const [entry] = await db
+      .select({ status: emailOutbox.status })
+      .from(emailOutbox)
+      .where(eq(emailOutbox.id, id));
+    if (!entry) {
+      throw new Error("Email not found");
     }
-    
+    if (entry.status !== "dead") {
+      throw new Error("Only failed emails can be resent");
+    }
+
+    const [requeued] = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, "dead")))
+      .returning(EMAIL_OUTBOX_SUMMARY_COLUMNS);
+    if (!requeued) {
+      throw new Error("Only failed emails can be resent");
+    }
+    return requeued;
+  }
+
+  // ═══════════════════════════════════════════════
+  // Email template methods
+  // ═══════════════════════════════════════════════
+
+  async getEmailTemplateOverrides(): Promise<EmailTemplateOverride[]> {
     return await db
       .select()
-      .from(grandPrizeCriteria)
-      .orderBy(desc(grandPrizeCriteria.createdAt));
+      .from(emailTemplateOverrides)
+      .orderBy(asc(emailTemplateOverrides.templateKey), asc(emailTemplateOverrides.region), asc(emailTemplateOverrides.language));
+  }
+
+  async getEmailTemplateOverride(
+    templateKey: string,
+    language: string,
+    region: Region,
+  ): Promise<EmailTemplateOverride | undefined> {
+    const [override] = await db
+      .select()
+      .from(emailTemplateOverrides)
+      .where(and(
+        eq(emailTemplateOverrides.templateKey, templateKey),
+        eq(emailTemplateOverrides.language, language),
+        eq(emailTemplateOverrides.region, region),
+      ));
+    return override;
+  }
+
+  async upsertEmailTemplateOverride(override: UpsertEmailTemplateOverride, updatedBy: string): Promise<EmailTemplateOverride> {
+    const now = new Date();
+    const [saved] = await db
+      .insert(emailTemplateOverrides)
+      .values({ ...override, updatedBy, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [emailTemplateOverrides.templateKey, emailTemplateOverrides.language, emailTemplateOverrides.region],
+        set: { subject: override.subject, body: override.body, updatedBy, updatedAt: now },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteEmailTemplateOverride(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(emailTemplateOverrides)
+      .where(eq(emailTemplateOverrides.id, id))
+      .returning({ id: emailTemplateOverrides.id });
+    return deleted.length > 0;
   }
 
-  async createGrandPrizeCriteria(data: InsertGrandPrizeCriteria): Promise<GrandPrizeCriteria> {
-    // Deactivate all other criteria
-    await db
-      .update(grandPrizeCriteria)
-      .set({ isActive: false })
-      .where(eq(grandPrizeCriteria.isActive, true));
+  // ═══════════════════════════════════════════════
+  // Notification preference methods
+  // ═══════════════════════════════════════════════
 
-    // Convert string dates to Date objects
-    const processedData = {
-      ...data,
-      id: randomUUID(),
-      startDate: data.startDate ? new Date(data.startDate) : null,
-      endDate: data.endDate ? new Date(data.endDate) : null,
-    };
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferenceSetting[]> {
+    const stored = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    const byEvent = new Map(stored.map((preference) => [preference.eventType, preference]));
 
-    const [newCriteria] = await db
-      .insert(grandPrizeCriteria)
-      .values(processedData)
-      .returning();
-    return newCriteria;
+    // Los eventos sin fila guardada usan los canales por defecto
+    return NOTIFICATION_EVENTS.map((eventType) => {
+      const preference = byEvent.get(eventType) ?? DEFAULT_NOTIFICATION_PREFERENCES[eventType];
+      return {
+        eventType,
+        inApp: preference.inApp,
+        email: preference.email,
+        digest: preference.digest,
+      };
+    });
   }
 
-  async updateGrandPrizeCriteria(
-    id: string,
-    updates: UpdateGrandPrizeCriteria,
-  ): Promise<GrandPrizeCriteria | undefined> {
-    // If activating this criteria, deactivate all others
-    if (updates.isActive === true) {
-      await db
-        .update(grandPrizeCriteria)
-        .set({ isActive: false })
-        .where(eq(grandPrizeCriteria.isActive, true));
-    }
+  async updateNotificationPreferences(
+    userId: string,
+    preferences: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferenceSetting[]> {
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      for (const preference of preferences) {
+        const channels = { inApp: preference.inApp, email: preference.email, digest: preference.digest };
+        await tx
+          .insert(notificationPreferences)
+          .values({ userId, eventType: preference.eventType, ...channels, updatedAt: now })
+          .onConflictDoUpdate({
+            target: [notificationPreferences.userId, notificationPreferences.eventType],
+            set: { ...channels, updatedAt: now },
+          });
+      }
+    });
+    return this.getNotificationPreferences(userId);
+  }
 
-    // Convert string dates to Date objects
-    const processedUpdates: any = {
-      ...updates,
-      updatedAt: new Date(),
-    };
+  async addNotificationDigestItem(item: InsertNotificationDigestItem): Promise<NotificationDigestItem> {
+    const [created] = await db.insert(notificationDigestItems).values(item).returning();
+    return created;
+  }
 
-    if (updates.startDate !== undefined) {
-      processedUpdates.startDate = updates.startDate ? new Date(updates.startDate) : null;
-    }
-    if (updates.endDate !== undefined) {
-      processedUpdates.endDate = updates.endDate ? new Date(updates.endDate) : null;
-    }
+  async getPendingDigestItems(userId: string): Promise<NotificationDigestItem[]> {
+    return await db
+      .select()
+      .from(notificationDigestItems)
+      .where(and(eq(notificationDigestItems.userId, userId), isNull(notificationDigestItems.digestedAt)))
+      .orderBy(asc(notificationDigestItems.createdAt));
+  }
 
-    const [updated] = await db
-      .update(grandPrizeCriteria)
-      .set(processedUpdates)
-      .where(eq(grandPrizeCriteria.id, id))
-      .returning();
-    return updated;
+  async markDigestItemsDigested(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(notificationDigestItems)
+      .set({ digestedAt: new Date() })
+      .where(inArray(notificationDigestItems.id, ids));
   }
 
-  async deleteGrandPrizeCriteria(id: string): Promise<void> {
+  // Reserva el envío de la semana para el usuario; false si ya se había enviado
+  async claimWeeklyDigest(userId: string, periodStart: Date, kind: "partner" | "admin"): Promise<boolean> {
+    const claimed = await db
+      .insert(weeklyDigestDeliveries)
+      .values({ userId, periodStart, kind })
+      .onConflictDoNothing({ target: [weeklyDigestDeliveries.userId, weeklyDigestDeliveries.periodStart] })
+      .returning({ id: weeklyDigestDeliveries.id });
+    return claimed.length > 0;
+  }
+
+  async releaseWeeklyDigest(userId: string, periodStart: Date): Promise<void> {
     await db
-      .delete(grandPrizeCriteria)
-      .where(eq(grandPrizeCriteria.id, id));
+      .delete(weeklyDigestDeliveries)
+      .where(and(eq(weeklyDigestDeliveries.userId, userId), eq(weeklyDigestDeliveries.periodStart, periodStart)));
   }
 
-  async getGrandPrizeRanking(criteriaId: string): Promise<any[]> {
-    const [criteria] = await db
-      .select()
-      .from(grandPrizeCriteria)
-      .where(eq(grandPrizeCriteria.id, criteriaId));
+  // ═══════════════════════════════════════════════
+  // Scheduled job methods
+  // ═══════════════════════════════════════════════
 
-    if (!criteria) {
-      return [];
-    }
+  // Registra la tarea con su configuración inicial; si ya existe se respeta lo que cambió un super-admin
+  async ensureScheduledJob(name: string, schedule: string, enabled: boolean, nextRunAt: Date): Promise<ScheduledJob> {
+    await db
+      .insert(scheduledJobs)
+      .values({ name, schedule, enabled, nextRunAt })
+      .onConflictDoNothing({ target: scheduledJobs.name });
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job;
+  }
 
-    // Build query filters based on criteria
-    let dealsQuery = db
-      .select({
-        userId: deals.userId,
-        totalPoints: sum(deals.pointsEarned).mapWith(Number).as("totalPoints"),
-        totalDeals: count(deals.id).as("totalDeals"),
-      })
-      .from(deals)
-      .where(eq(deals.status, "approved"))
-      .groupBy(deals.userId)
-      .$dynamic();
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
 
-    // Apply filters
-    const filters = [];
+  async getScheduledJob(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job;
+  }
 
-    if (criteria.startDate) {
-      filters.push(gte(deals.approvedAt, criteria.startDate));
-    }
-    if (criteria.endDate) {
-      filters.push(lte(deals.approvedAt, criteria.endDate));
-    }
+  async getDueScheduledJobs(now: Date): Promise<ScheduledJob[]> {
+    return await db
+      .select()
+      .from(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.enabled, true),
+          lte(scheduledJobs.nextRunAt, now),
+          or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now)),
+        ),
+      )
+      .orderBy(asc(scheduledJobs.nextRunAt));
+  }
 
-    if (filters.length > 0) {
-      dealsQuery = dealsQuery.where(and(...filters));
-    }
+  async updateScheduledJob(
+    name: string,
+    updates: Partial<Pick<ScheduledJob, "enabled" | "schedule" | "nextRunAt">>,
+    updatedBy: string,
+  ): Promise<ScheduledJob | undefined> {
+    const [job] = await db
+      .update(scheduledJobs)
+      .set({ ...updates, updatedBy, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
+      .returning();
+    return job;
+  }
 
-    const userStats = await dealsQuery;
+  // Toma el bloqueo con un UPDATE condicional: solo una instancia puede ganar mientras no venza
+  async acquireJobLock(
+    name: string,
+    instanceId: string,
+    now: Date,
+    lockedUntil: Date,
+    onlyIfDue: boolean,
+  ): Promise<boolean> {
+    const locked = await db
+      .update(scheduledJobs)
+      .set({ lockedBy: instanceId, lockedUntil })
+      .where(
+        and(
+          eq(scheduledJobs.name, name),
+          or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now)),
+          onlyIfDue ? and(eq(scheduledJobs.enabled, true), lte(scheduledJobs.nextRunAt, now)) : undefined,
+        ),
+      )
+      .returning({ name: scheduledJobs.name });
+    return locked.length > 0;
+  }
 
-    // Join with user data and filter by region
-    const usersWithStats = await Promise.all(
-      userStats.map(async (stat) => {
-        const user = await this.getUser(stat.userId);
-        if (!user) return null;
+  async extendJobLock(name: string, instanceId: string, lockedUntil: Date): Promise<void> {
+    await db
+      .update(scheduledJobs)
+      .set({ lockedUntil })
+      .where(and(eq(scheduledJobs.name, name), eq(scheduledJobs.lockedBy, instanceId)));
+  }
 
-        // Filter by region if specified
-        if (criteria.region && criteria.region !== "all" && user.region !== criteria.region) {
-          return null;
-        }
+  async releaseJobLock(
+    name: string,
+    instanceId: string,
+    outcome: { lastRunAt: Date; lastStatus: JobRunStatus; nextRunAt?: Date },
+  ): Promise<void> {
+    await db
+      .update(scheduledJobs)
+      .set({ ...outcome, lockedBy: null, lockedUntil: null })
+      .where(and(eq(scheduledJobs.name, name), eq(scheduledJobs.lockedBy, instanceId)));
+  }
 
-        // Filter by minimum requirements
-        if (criteria.minPoints && stat.totalPoints < criteria.minPoints) {
-          return null;
-        }
-        if (criteria.minDeals && stat.totalDeals < criteria.minDeals) {
-          return null;
-        }
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [created] = await db.insert(jobRuns).values(run).returning();
+    return created;
+  }
 
-        // Calculate score based on criteria type
-        let score = 0;
-        if (criteria.criteriaType === "points") {
-          score = stat.totalPoints;
-        } else if (criteria.criteriaType === "deals") {
-          score = stat.totalDeals;
-        } else if (criteria.criteriaType === "combined") {
-          const pointsWeight = (criteria.pointsWeight || 60) / 100;
-          const dealsWeight = (criteria.dealsWeight || 40) / 100;
-          score = stat.totalPoints * pointsWeight + stat.totalDeals * dealsWeight;
-        }
+  async getJobRun(id: string): Promise<JobRun | undefined> {
+    const [run] = await db.select().from(jobRuns).where(eq(jobRuns.id, id));
+    return run;
+  }
 
-        return {
-          user,
-          points: stat.totalPoints || 0,
-          deals: stat.totalDeals || 0,
-          score,
-        };
-      }),
-    );
+  async updateJobRunProgress(id: string, progress: JobRunProgress): Promise<void> {
+    await db.update(jobRuns).set({ progress }).where(eq(jobRuns.id, id));
+  }
 
-    // Filter out nulls and sort by score
-    const filteredRanking = usersWithStats
-      .filter((entry) => entry !== null)
-      .sort((a, b) => b!.score - a!.score)
-      .map((entry, index) => ({
-        ...entry!,
-        rank: index + 1,
-      }));
+  async finishJobRun(
+    id: string,
+    status: JobRunStatus,
+    result: Record<string, unknown> | null,
+    error: string | null,
+  ): Promise<JobRun> {
+    const [finished] = await db
+      .update(jobRuns)
+      .set({ status, result, error, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return finished;
+  }
 
-    return filteredRanking;
+  // Ejecuciones que quedaron "running" porque su instancia se cayó; se llama con el bloqueo ya tomado
+  async failInterruptedJobRuns(jobName: string): Promise<number> {
+    const interrupted = await db
+      .update(jobRuns)
+      .set({ status: "failed", error: "Interrupted: the instance stopped before the run finished", finishedAt: new Date() })
+      .where(and(eq(jobRuns.jobName, jobName), eq(jobRuns.status, "running")))
+      .returning({ id: jobRuns.id });
+    return interrupted.length;
   }
 
-  // Monthly Prizes methods
-  async getMonthlyPrizes(
-    month?: number,
-    year?: number,
-    region?: string,
-  ): Promise<MonthlyRegionPrize[]> {
-    let query = db
+  async getJobRuns(jobName?: string, limit = 20): Promise<JobRun[]> {
+    return await db
       .select()
-      .from(monthlyRegionPrizes)
-      .leftJoin(regionConfigs, eq(monthlyRegionPrizes.regionConfigId, regionConfigs.id))
-      .orderBy(desc(monthlyRegionPrizes.year), desc(monthlyRegionPrizes.month), asc(monthlyRegionPrizes.rank));
-
-    const conditions = [];
-    
-    // Filtrar por región si se proporciona
-    if (region) {
-      conditions.push(eq(regionConfigs.region, region as any));
-    }
-    
-    // Filtrar por mes si se proporciona
-    if (month !== undefined) {
-      conditions.push(eq(monthlyRegionPrizes.month, month));
-    }
-    
-    // Filtrar por año si se proporciona
-    if (year !== undefined) {
-      conditions.push(eq(monthlyRegionPrizes.year, year));
-    }
+      .from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
 
-    if (conditions.length > 0) {
-      const prizes = await query.where(and(...conditions));
-      return prizes.map(row => row.monthly_region_prizes);
-    }
+  // ═══════════════════════════════════════════════
+  // Login throttling methods
+  // ═══════════════════════════════════════════════
 
-    const allPrizes = await query;
-    return allPrizes.map(row => row.monthly_region_prizes);
+  async getLoginThrottles(keys: string[]): Promise<LoginThrottle[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(loginThrottles).where(inArray(loginThrottles.key, keys));
   }
 
-  async createMonthlyPrize(
-    prize: InsertMonthlyRegionPrize,
-  ): Promise<MonthlyRegionPrize> {
-    const [newPrize] = await db
-      .insert(monthlyRegionPrizes)
-      .values(prize)
+  // Suma un fallo; el contador vuelve a empezar si el anterior es viejo o si el bloqueo ya venció
+  async recordLoginFailure(
+    key: string,
+    { userId, ipAddress }: { userId: string | null; ipAddress: string | null },
+    now: Date,
+    resetAfterMs: number,
+  ): Promise<LoginThrottle> {
+    const resetBefore = new Date(now.getTime() - resetAfterMs);
+    const restart = sql`(${loginThrottles.lastFailureAt} < ${resetBefore} OR ${loginThrottles.lockedUntil} <= ${now})`;
+
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values({ key, userId, failures: 1, lastFailureAt: now, lastIpAddress: ipAddress })
+      .onConflictDoUpdate({
+        target: loginThrottles.key,
+        set: {
+          failures: sql`CASE WHEN ${restart} THEN 1 ELSE ${loginThrottles.failures} + 1 END`,
+          lockedUntil: sql`CASE WHEN ${restart} THEN NULL ELSE ${loginThrottles.lockedUntil} END`,
+          lastFailureAt: now,
+          lastIpAddress: ipAddress,
+        },
+      })
       .returning();
-    return newPrize;
+    return throttle;
   }
 
-  async updateMonthlyPrize(
-    id: string,
-    updates: Partial<MonthlyRegionPrize>,
-  ): Promise<MonthlyRegionPrize | undefined> {
-    const [updatedPrize] = await db
-      .update(monthlyRegionPrizes)
-      .set(updates)
-      .where(eq(monthlyRegionPrizes.id, id))
-      .returning();
-    return updatedPrize || undefined;
+  // Bloquea solo si no estaba ya bloqueado: el aviso al usuario se envía una vez por bloqueo
+  async lockLoginThrottle(key: string, lockedUntil: Date, now: Date): Promise<boolean> {
+    const locked = await db
+      .update(loginThrottles)
+      .set({ lockedUntil })
+      .where(
+        and(
+          eq(loginThrottles.key, key),
+          or(isNull(loginThrottles.lockedUntil), lte(loginThrottles.lockedUntil, now)),
+        ),
+      )
+      .returning({ key: loginThrottles.key });
+    return locked.length > 0;
   }
 
-  async deleteMonthlyPrize(id: string): Promise<void> {
-    await db.delete(monthlyRegionPrizes).where(eq(monthlyRegionPrizes.id, id));
+  async deleteLoginThrottle(key: string): Promise<boolean> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(eq(loginThrottles.key, key))
+      .returning({ key: loginThrottles.key });
+    return deleted.length > 0;
+  }
+
+  async getLockedAccounts(now: Date, regionName?: string): Promise<LockedAccount[]> {
+    const conditions = [isNotNull(loginThrottles.userId), gt(loginThrottles.lockedUntil, now)];
+    if (regionName) {
+      conditions.push(eq(users.region, regionName as Region));
+    }
+
+    const rows = await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        region: users.region,
+        failures: loginThrottles.failures,
+        lastFailureAt: loginThrottles.lastFailureAt,
+        lastIpAddress: loginThrottles.lastIpAddress,
+        lockedUntil: loginThrottles.lockedUntil,
+      })
+      .from(loginThrottles)
+      .innerJoin(users, eq(loginThrottles.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(loginThrottles.lastFailureAt));
+    return rows.map((row) => ({ ...row, lockedUntil: row.lockedUntil! }));
+  }
+
+  async deleteStaleLoginThrottles(lastFailureBefore: Date, now: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(
+        and(
+          lt(loginThrottles.lastFailureAt, lastFailureBefore),
+          or(isNull(loginThrottles.lockedUntil), lte(loginThrottles.lockedUntil, now)),
+        ),
+      )
+      .returning({ key: loginThrottles.key });
+    return deleted.length;
   }
 }
 
 export const storage = new DatabaseStorage();
-
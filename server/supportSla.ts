@@ -0,0 +1,41 @@
+import { storage } from "./storage";
+import { NotificationHelpers } from "./notifications";
+import { emitAdminQueueUpdate } from "./socket";
+
+export interface SupportSlaEscalationResult {
+  ticketsEscalated: number;
+  notificationsSent: number;
+}
+
+/**
+ * Escala a los super-admins los tickets activos que superaron el plazo de primera
+ * respuesta de su prioridad sin que el equipo respondiera. Cada ticket se escala una vez.
+ */
+export async function runSupportSlaEscalation(now: Date = new Date()): Promise<SupportSlaEscalationResult> {
+  const result: SupportSlaEscalationResult = { ticketsEscalated: 0, notificationsSent: 0 };
+
+  const breached = await storage.getTicketsBreachingFirstResponse(now);
+  if (breached.length === 0) return result;
+
+  const superAdmins = (await storage.getAllUsers())
+    .filter((user) => user.role === "super-admin" && user.isActive);
+
+  for (const ticket of breached) {
+    try {
+      const escalated = await storage.markSupportTicketEscalated(ticket.id);
+      if (!escalated) continue;
+      result.ticketsEscalated++;
+
+      const requester = await storage.getUser(ticket.userId);
+      for (const superAdmin of superAdmins) {
+        await NotificationHelpers.supportTicketEscalated(superAdmin.id, ticket.subject, requester?.region ?? null);
+        result.notificationsSent++;
+      }
+      await emitAdminQueueUpdate("tickets", ticket.userId);
+    } catch (error) {
+      console.error(`Support SLA escalation failed for ticket ${ticket.id}:`, error);
+    }
+  }
+
+  return result;
+}
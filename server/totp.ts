@@ -0,0 +1,107 @@
+// Contraseñas de un solo uso basadas en tiempo (TOTP, RFC 6238) compatibles con Google Authenticator,
+// Authy, 1Password, etc.: HMAC-SHA1, 6 dígitos y pasos de 30 segundos.
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const SECRET_BYTES = 20;
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Pasos aceptados antes y después del actual, para tolerar relojes algo desfasados
+const WINDOW_STEPS = 1;
+
+function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(secret: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of secret.toUpperCase().replace(/=+$/, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", key).update(counter).digest();
+
+  // Truncado dinámico (RFC 4226, sección 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+  return binary.toString().padStart(DIGITS, "0");
+}
+
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Genera un secreto nuevo en base32, el formato que esperan las apps autenticadoras
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(SECRET_BYTES));
+}
+
+/**
+ * URI otpauth:// que se codifica en el QR del alta
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Comprueba un código contra el secreto y devuelve el paso en que es válido (o null).
+ * El llamador guarda el paso para rechazar que el mismo código se use dos veces.
+ */
+export function verifyTotp(secret: string, code: string, now: Date = new Date()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = decodeBase32(secret);
+  const currentStep = getTotpStep(now);
+  for (let offset = -WINDOW_STEPS; offset <= WINDOW_STEPS; offset++) {
+    const step = currentStep + offset;
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,131 @@
+import QRCode from "qrcode";
+import { createHash, randomBytes } from "crypto";
+import type { TwoFactorSetup, TwoFactorStatus, User } from "@shared/schema";
+import { storage } from "./storage";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "./totp";
+
+// Nombre con el que aparece la cuenta en la app autenticadora
+const TOTP_ISSUER = "Loyalty Program";
+const RECOVERY_CODE_COUNT = 10;
+
+// Los roles de admin aprueban tratos y canjes: para ellos el segundo factor es obligatorio
+const TWO_FACTOR_REQUIRED_ROLES: User["role"][] = ["admin", "regional-admin", "super-admin"];
+
+export function isTwoFactorRequired(role: string | undefined): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role as User["role"]);
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+export function getTwoFactorStatus(user: User): TwoFactorStatus {
+  return {
+    enabled: user.twoFactorEnabled,
+    required: isTwoFactorRequired(user.role),
+    enabledAt: user.twoFactorEnabledAt,
+    recoveryCodesRemaining: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes ?? []).length : 0,
+  };
+}
+
+/**
+ * Genera códigos de recuperación nuevos (xxxxx-xxxxx); en la BD solo se guardan sus hashes
+ */
+function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Inicia el alta: guarda un secreto nuevo, aún sin activar, y devuelve el QR para escanearlo
+ */
+export async function startTwoFactorEnrollment(user: User): Promise<TwoFactorSetup> {
+  if (user.twoFactorEnabled) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await storage.updateUser(user.id, { twoFactorSecret: secret, twoFactorLastUsedStep: null });
+
+  const otpauthUri = buildOtpauthUri(secret, user.email || user.username, TOTP_ISSUER);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 220 });
+  return { secret, otpauthUri, qrCodeDataUrl };
+}
+
+/**
+ * Activa el segundo factor si el código corresponde al secreto del alta; devuelve los códigos de recuperación
+ */
+export async function completeTwoFactorEnrollment(user: User, code: string): Promise<string[]> {
+  if (user.twoFactorEnabled) {
+    throw new Error("Two-factor authentication is already enabled");
+  }
+  if (!user.twoFactorSecret) {
+    throw new Error("Start the two-factor setup first");
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) {
+    throw new Error("Invalid verification code");
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(user.id, {
+    twoFactorEnabled: true,
+    twoFactorEnabledAt: new Date(),
+    twoFactorRecoveryCodes: hashes,
+    twoFactorLastUsedStep: step,
+  });
+  return codes;
+}
+
+/**
+ * Comprueba un código de la app (o, si se permite, uno de recuperación) y lo consume
+ */
+export async function verifyTwoFactorCode(
+  user: User,
+  code: string,
+  { allowRecoveryCode = true }: { allowRecoveryCode?: boolean } = {},
+): Promise<boolean> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step !== null) {
+    return await storage.recordTwoFactorStep(user.id, step);
+  }
+
+  if (!allowRecoveryCode) {
+    return false;
+  }
+  return await storage.consumeTwoFactorRecoveryCode(user.id, hashRecoveryCode(code));
+}
+
+/**
+ * Reemplaza los códigos de recuperación del usuario; los anteriores dejan de valer
+ */
+export async function regenerateRecoveryCodes(user: User): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(user.id, { twoFactorRecoveryCodes: hashes });
+  return codes;
+}
+
+/**
+ * Quita el segundo factor (lo desactiva el usuario o lo restablece un super-admin)
+ */
+export async function clearTwoFactor(userId: string): Promise<void> {
+  await storage.updateUser(userId, {
+    twoFactorEnabled: false,
+    twoFactorSecret: null,
+    twoFactorRecoveryCodes: null,
+    twoFactorLastUsedStep: null,
+    twoFactorEnabledAt: null,
+  });
+}
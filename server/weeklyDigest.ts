@@ -0,0 +1,173 @@
+import { storage } from "./storage";
+import { sendAdminDigestEmail, sendPartnerDigestEmail } from "./email";
+import type { User } from "@shared/schema";
+
+// El resumen sale los lunes a las 12:00 UTC (mañana en LATAM); la tarea programada reintenta cada hora
+// durante ese día los envíos pendientes
+const DIGEST_WEEKDAY = 1; // 0 = domingo
+const DIGEST_HOUR_UTC = 12;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Posiciones del ranking que se consultan; fuera de ellas el resumen no muestra el puesto
+const RANKING_DEPTH = 100;
+const MAX_DIGEST_REWARDS = 5;
+const MAX_DIGEST_ACTIVITY = 10;
+
+export interface WeeklyDigestResult {
+  periodStart: Date;
+  partnerDigests: number;
+  adminDigests: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Inicio de la semana de envío vigente: el último lunes a la hora de envío anterior a `now`
+ */
+export function getDigestPeriodStart(now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), DIGEST_HOUR_UTC));
+  const daysSinceDigestDay = (now.getUTCDay() - DIGEST_WEEKDAY + 7) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceDigestDay);
+  if (start > now) {
+    start.setUTCDate(start.getUTCDate() - 7);
+  }
+  return start;
+}
+
+// Quien desactivó el resumen en todos los eventos deja de recibir el email semanal
+async function wantsDigest(userId: string): Promise<boolean> {
+  const preferences = await storage.getNotificationPreferences(userId);
+  return preferences.some((preference) => preference.digest);
+}
+
+interface PartnerDigestContext {
+  periodStart: Date;
+  ranking: Map<string, number>;
+  // Por configuración regional: goles del mes por usuario y premios activos ordenados por meta
+  goalsCache: Map<string, Promise<{ goals: Map<string, number>; prizes: Array<{ prizeName: string; goalTarget: number }> }>>;
+}
+
+async function loadRegionGoals(regionConfigId: string, month: number, year: number) {
+  const [goalsByUser, prizes] = await Promise.all([
+    storage.getMonthlyGoalsByUser(regionConfigId, month, year),
+    storage.getMonthlyRegionPrizes(regionConfigId, month, year),
+  ]);
+  return {
+    goals: new Map(goalsByUser.map((row) => [row.userId, row.goals])),
+    prizes: prizes
+      .map((prize) => ({ prizeName: prize.prizeName, goalTarget: prize.goalTarget }))
+      .sort((a, b) => a.goalTarget - b.goalTarget),
+  };
+}
+
+async function sendPartnerDigest(user: User, context: PartnerDigestContext): Promise<boolean> {
+  const periodEnd = new Date(context.periodStart.getTime() - 1);
+  const weekStart = new Date(context.periodStart.getTime() - WEEK_MS);
+
+  const [pointsEarned, availablePoints, rewards, activity, regionConfig] = await Promise.all([
+    storage.getPointsEarnedBetween(user.id, weekStart, context.periodStart),
+    storage.getUserAvailablePoints(user.id),
+    // El mismo catálogo que ve y puede canjear el partner (asignaciones por país o configuración regional)
+    storage.getRewardsForUser(user),
+    storage.getPendingDigestItems(user.id),
+    storage.findUserRegionConfig(user),
+  ]);
+
+  // Meta del mes en curso: el próximo premio cuya meta aún no alcanzó, o el mayor si ya los alcanzó todos
+  let goal: { goals: number; goalTarget: number; prizeName: string } | undefined;
+  if (regionConfig) {
+    const month = context.periodStart.getUTCMonth() + 1;
+    const year = context.periodStart.getUTCFullYear();
+    const cacheKey = `${regionConfig.id}:${year}-${month}`;
+    if (!context.goalsCache.has(cacheKey)) {
+      context.goalsCache.set(cacheKey, loadRegionGoals(regionConfig.id, month, year));
+    }
+    const regionGoals = await context.goalsCache.get(cacheKey)!;
+    const goals = regionGoals.goals.get(user.id) ?? 0;
+    const prize = regionGoals.prizes.find((candidate) => candidate.goalTarget > goals)
+      ?? regionGoals.prizes[regionGoals.prizes.length - 1];
+    if (prize) {
+      goal = { goals: Math.round(goals * 100) / 100, goalTarget: prize.goalTarget, prizeName: prize.prizeName };
+    }
+  }
+
+  const affordableRewards = rewards
+    .filter((reward) => reward.pointsCost <= availablePoints)
+    .sort((a, b) => b.pointsCost - a.pointsCost)
+    .slice(0, MAX_DIGEST_REWARDS);
+
+  const sent = await sendPartnerDigestEmail(user, {
+    periodStart: weekStart,
+    periodEnd,
+    pointsEarned,
+    availablePoints,
+    rank: context.ranking.get(user.id),
+    goal,
+    rewards: affordableRewards,
+    activity: activity.slice(-MAX_DIGEST_ACTIVITY),
+  });
+  if (sent) {
+    await storage.markDigestItemsDigested(activity.map((item) => item.id));
+  }
+  return sent;
+}
+
+async function sendAdminDigest(admin: User, now: Date): Promise<boolean> {
+  // Igual que en el panel: los regional-admin ven su región, el resto todas
+  const region = admin.role === "regional-admin" && admin.region ? admin.region : undefined;
+  const counts = await storage.getAdminQueueCounts(region);
+  return sendAdminDigestEmail(admin, {
+    region,
+    periodEnd: now,
+    ...counts,
+  });
+}
+
+/**
+ * Envía el resumen semanal de la semana vigente a partners y admins que aún no lo recibieron.
+ * Cada envío se reserva en la BD antes de encolarlo, así un reinicio no lo duplica.
+ */
+export async function runWeeklyDigest(now: Date = new Date()): Promise<WeeklyDigestResult> {
+  const periodStart = getDigestPeriodStart(now);
+  const result: WeeklyDigestResult = { periodStart, partnerDigests: 0, adminDigests: 0, skipped: 0, failed: 0 };
+
+  // Partners y admins de operación; los super-admins no reciben el resumen
+  const recipients = (await storage.getAllUsers())
+    .filter((user) => user.isActive && user.isApproved && user.email && user.role !== "super-admin");
+  const ranking = new Map(
+    (await storage.getTopUsersByPoints(RANKING_DEPTH)).map((entry, index) => [entry.userId, index + 1]),
+  );
+  const context: PartnerDigestContext = { periodStart, ranking, goalsCache: new Map() };
+
+  for (const user of recipients) {
+    const kind = user.role === "user" ? "partner" : "admin";
+    try {
+      if (!(await wantsDigest(user.id))) {
+        result.skipped++;
+        continue;
+      }
+      if (!(await storage.claimWeeklyDigest(user.id, periodStart, kind))) {
+        continue;
+      }
+
+      const sent = kind === "admin"
+        ? await sendAdminDigest(user, now)
+        : await sendPartnerDigest(user, context);
+
+      if (!sent) {
+        // Se libera la reserva para reintentar en la próxima revisión
+        await storage.releaseWeeklyDigest(user.id, periodStart);
+        result.failed++;
+      } else if (kind === "admin") {
+        result.adminDigests++;
+      } else {
+        result.partnerDigests++;
+      }
+    } catch (error) {
+      console.error(`Weekly digest failed for user ${user.id}:`, error);
+      await storage.releaseWeeklyDigest(user.id, periodStart).catch(() => undefined);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
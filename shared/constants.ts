@@ -39,3 +39,74 @@ export type Region = typeof REGIONS[number];
 // Lista de categorías disponibles
 export const CATEGORIES = ["ENTERPRISE", "SMB", "MSSP"] as const;
 export type Category = typeof CATEGORIES[number];
+
+// Comprobantes de venta (facturas, órdenes de compra) adjuntos a un deal
+export const DEAL_ATTACHMENT_CONTENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+] as const;
+export type DealAttachmentContentType = typeof DEAL_ATTACHMENT_CONTENT_TYPES[number];
+export const DEAL_ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024; // 10 MB por archivo
+export const DEAL_ATTACHMENT_MAX_FILES = 5;
+
+// Prioridades de los tickets de soporte y sus objetivos de SLA por defecto (en minutos)
+export const SUPPORT_TICKET_PRIORITIES = ["low", "medium", "high"] as const;
+export type SupportTicketPriority = typeof SUPPORT_TICKET_PRIORITIES[number];
+export const DEFAULT_SUPPORT_SLA_MINUTES: Record<SupportTicketPriority, { firstResponse: number; resolution: number }> = {
+  high: { firstResponse: 2 * 60, resolution: 24 * 60 },
+  medium: { firstResponse: 8 * 60, resolution: 3 * 24 * 60 },
+  low: { firstResponse: 24 * 60, resolution: 7 * 24 * 60 },
+};
+
+// Idiomas de los emails (los mismos de la interfaz) y el que se usa por región si el usuario no eligió uno
+export const EMAIL_LANGUAGES = ["en", "es", "pt"] as const;
+export type EmailLanguage = typeof EMAIL_LANGUAGES[number];
+export const REGION_DEFAULT_LANGUAGE: Record<Region, EmailLanguage> = {
+  NOLA: "es",
+  SOLA: "es",
+  BRASIL: "pt",
+  MEXICO: "es",
+};
+
+// Plantillas de email transaccional; los super-admins pueden sobrescribirlas por región e idioma
+export const EMAIL_TEMPLATE_KEYS = [
+  "invite",
+  "welcome",
+  "account_approved",
+  "deal_approved",
+  "redemption_approved",
+  "redemption_request",
+  "support_ticket",
+  "magic_link",
+  "password_reset",
+  "account_locked",
+  "points_expiring",
+  "partner_digest",
+  "admin_digest",
+  "notification", // Genérica: título y mensaje del aviso in-app para eventos sin email propio
+] as const;
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+// Eventos que el usuario puede configurar y canales por los que recibe cada uno
+export const NOTIFICATION_EVENTS = [
+  "deal_approved",
+  "deal_rejected",
+  "redemption_status",
+  "ticket_reply",
+  "prize_won",
+  "points_expiring",
+] as const;
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export const NOTIFICATION_CHANNELS = ["inApp", "email", "digest"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+// Sin preferencias guardadas: aviso in-app y resumen para todo, email solo en los eventos que ya lo enviaban
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<NotificationEvent, Record<NotificationChannel, boolean>> = {
+  deal_approved: { inApp: true, email: true, digest: true },
+  deal_rejected: { inApp: true, email: false, digest: true },
+  redemption_status: { inApp: true, email: true, digest: true },
+  ticket_reply: { inApp: true, email: false, digest: true },
+  prize_won: { inApp: true, email: false, digest: true },
+  points_expiring: { inApp: true, email: true, digest: true },
+};
@@ -1,7 +1,8 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, pgEnum, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, pgEnum, unique, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { DEAL_ATTACHMENT_CONTENT_TYPES, DEAL_ATTACHMENT_MAX_BYTES, DEAL_ATTACHMENT_MAX_FILES, SUPPORT_TICKET_PRIORITIES, EMAIL_LANGUAGES, EMAIL_TEMPLATE_KEYS, NOTIFICATION_EVENTS, type NotificationEvent } from "./constants";
 
 export const userRoleEnum = pgEnum("user_role", ["user", "admin", "regional-admin", "super-admin"]);
 export const dealStatusEnum = pgEnum("deal_status", ["pending", "approved", "rejected"]);
@@ -13,6 +14,12 @@ export const regionEnum = pgEnum("region", ["NOLA", "SOLA", "BRASIL", "MEXICO"])
 export const regionCategoryEnum = pgEnum("region_category", ["ENTERPRISE", "SMB", "MSSP"]);
 export const dealTypeEnum = pgEnum("deal_type", ["new_customer", "renewal"]);
 export const criteriaTypeEnum = pgEnum("criteria_type", ["points", "deals", "combined"]);
+export const prizeSelectionMethodEnum = pgEnum("prize_selection_method", ["draw", "ranking"]);
+export const dealEventTypeEnum = pgEnum("deal_event_type", ["created", "approved", "rejected", "updated", "resubmitted", "conflicts_resolved"]);
+export const dealConflictReasonEnum = pgEnum("deal_conflict_reason", ["license_agreement", "client_value_date"]);
+export const dealConflictStatusEnum = pgEnum("deal_conflict_status", ["open", "dismissed", "confirmed"]);
+export const emailOutboxStatusEnum = pgEnum("email_outbox_status", ["pending", "sending", "sent", "dead"]);
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
 
 // Types from enums
 export type Region = typeof regionEnum.enumValues[number];
@@ -42,6 +49,12 @@ export const users = pgTable("users", {
   loginTokenExpiry: timestamp("login_token_expiry"), // Expiración del token de login
   resetToken: text("reset_token"),
   resetTokenExpiry: timestamp("reset_token_expiry"),
+  preferredLanguage: text("preferred_language"), // en, es o pt; NULL = idioma por defecto de su región
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false), // Obligatorio para los roles de admin
+  twoFactorSecret: text("two_factor_secret"), // Secreto TOTP en base32; se guarda al iniciar el alta y vale cuando twoFactorEnabled
+  twoFactorRecoveryCodes: jsonb("two_factor_recovery_codes").$type<string[]>(), // Hashes de los códigos de recuperación sin usar
+  twoFactorLastUsedStep: integer("two_factor_last_used_step"), // Último paso TOTP aceptado: impide reutilizar un código
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 }, (table) => ({
@@ -62,6 +75,8 @@ export const deals = pgTable("deals", {
   clientInfo: text("client_info"),
   licenseAgreementNumber: text("license_agreement_number"),
   status: dealStatusEnum("status").notNull().default("pending"),
+  rejectionReason: text("rejection_reason"), // Motivo visible para el partner
+  revision: integer("revision").notNull().default(1), // Se incrementa con cada reenvío tras un rechazo
   pointsEarned: integer("points_earned").default(0),
   goalsEarned: decimal("goals_earned", { precision: 10, scale: 2 }).default("0"), // Goles según la región
   approvedBy: varchar("approved_by").references(() => users.id),
@@ -70,6 +85,45 @@ export const deals = pgTable("deals", {
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+// Historial de auditoría de cada deal: cambios de estado y ediciones con valores antes/después
+export const dealEvents = pgTable("deal_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dealId: varchar("deal_id").notNull().references(() => deals.id),
+  actorId: varchar("actor_id").references(() => users.id),
+  eventType: dealEventTypeEnum("event_type").notNull(),
+  fromStatus: dealStatusEnum("from_status"),
+  toStatus: dealStatusEnum("to_status"),
+  changes: jsonb("changes").notNull().default([]).$type<DealFieldChange[]>(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Posibles duplicados detectados al registrar un deal; el admin debe resolverlos antes de aprobarlo
+export const dealConflicts = pgTable("deal_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dealId: varchar("deal_id").notNull().references(() => deals.id),
+  conflictingDealId: varchar("conflicting_deal_id").notNull().references(() => deals.id),
+  reason: dealConflictReasonEnum("reason").notNull(),
+  status: dealConflictStatusEnum("status").notNull().default("open"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+}, (table) => ({
+  uniqueDealConflict: unique().on(table.dealId, table.conflictingDealId),
+}));
+
+// Comprobantes de venta (factura, orden de compra) subidos por el partner al object storage
+export const dealAttachments = pgTable("deal_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  dealId: varchar("deal_id").notNull().references(() => deals.id),
+  objectPath: text("object_path").notNull(), // Ej: "/objects/deal-attachments/<uuid>.pdf"
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 export const rewards = pgTable("rewards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -99,6 +153,8 @@ export const userRewards = pgTable("user_rewards", {
   deliveryAddress: text("delivery_address"),
   shippedAt: timestamp("shipped_at"),
   shippedBy: varchar("shipped_by").references(() => users.id),
+  heldPoints: integer("held_points").notNull().default(0), // Puntos reservados mientras el canje está pendiente
+  stockReserved: boolean("stock_reserved").notNull().default(false), // Se descontó una unidad del stock del reward
 });
 
 export const pointsHistory = pgTable("points_history", {
@@ -106,11 +162,21 @@ export const pointsHistory = pgTable("points_history", {
   userId: varchar("user_id").notNull().references(() => users.id),
   dealId: varchar("deal_id").references(() => deals.id),
   rewardId: varchar("reward_id").references(() => rewards.id),
+  campaignId: varchar("campaign_id").references(() => campaigns.id), // Campaña cuyo multiplicador se aplicó (si hubo)
   points: integer("points").notNull(),
   description: text("description").notNull(),
+  expirationWarnedAt: timestamp("expiration_warned_at"), // Aviso de vencimiento enviado para este lote
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Saldo materializado por usuario: balance = SUM(points_history.points), heldPoints = reservas de canjes pendientes
+export const userPointsBalances = pgTable("user_points_balances", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  balance: integer("balance").notNull().default(0),
+  heldPoints: integer("held_points").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
 export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -144,6 +210,34 @@ export const supportTickets = pgTable("support_tickets", {
   adminResponse: text("admin_response"),
   respondedAt: timestamp("responded_at"),
   respondedBy: varchar("responded_by").references(() => users.id),
+  // SLA: vencimientos calculados al crear el ticket según su prioridad
+  assignedAt: timestamp("assigned_at"),
+  firstResponseAt: timestamp("first_response_at"), // Primera respuesta pública del equipo
+  firstResponseDueAt: timestamp("first_response_due_at"),
+  resolutionDueAt: timestamp("resolution_due_at"),
+  resolvedAt: timestamp("resolved_at"), // Se limpia si el ticket se reabre
+  escalatedAt: timestamp("escalated_at"), // Escalado a super-admins por incumplir la primera respuesta
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Objetivos de SLA por prioridad; sin fila se usan los valores por defecto
+export const supportSlaPolicies = pgTable("support_sla_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  priority: text("priority").notNull().unique(),
+  firstResponseMinutes: integer("first_response_minutes").notNull(),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  updatedBy: varchar("updated_by").references(() => users.id),
+});
+
+// Conversación de un ticket: respuestas del usuario y del equipo, más notas internas solo para admins
+export const supportTicketMessages = pgTable("support_ticket_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ticketId: varchar("ticket_id").notNull().references(() => supportTickets.id),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  isInternal: boolean("is_internal").notNull().default(false), // Nota interna: el usuario no la ve
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -160,6 +254,9 @@ export const pointsConfig = pgTable("points_config", {
   defaultRenewalGoalRate: integer("default_renewal_goal_rate").notNull().default(2000),
   redemptionStartDate: timestamp("redemption_start_date"),
   redemptionEndDate: timestamp("redemption_end_date"),
+  // Vencimiento de puntos
+  pointsExpirationMonths: integer("points_expiration_months"), // Meses de vigencia de cada lote de puntos (null = no vencen)
+  expirationWarningDays: integer("expiration_warning_days").notNull().default(30), // Días de aviso antes del vencimiento
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
   updatedBy: varchar("updated_by").references(() => users.id),
 });
@@ -177,6 +274,7 @@ export const regionConfigs = pgTable("region_configs", {
   monthlyGoalTarget: integer("monthly_goal_target"), // Meta mensual en goles para sorteo
   isActive: boolean("is_active").notNull().default(true),
   expirationDate: timestamp("expiration_date"), // Fecha de caducidad opcional (null = permanente)
+  attachmentRequiredAboveValue: decimal("attachment_required_above_value", { precision: 12, scale: 2 }), // US$; deals por encima requieren comprobante (null = opcional)
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 }, (table) => ({
@@ -195,10 +293,39 @@ export const monthlyRegionPrizes = pgTable("monthly_region_prizes", {
   prizeDescription: text("prize_description"),
   prizeValue: decimal("prize_value", { precision: 10, scale: 2 }), // Valor monetario del premio (opcional)
   goalTarget: integer("goal_target").notNull(), // Meta en goles para participar en sorteo
+  selectionMethod: prizeSelectionMethodEnum("selection_method").notNull().default("draw"), // Sorteo aleatorio o ranking por goles
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Cierre mensual: un sorteo por configuración de región y mes, con la semilla y los participantes usados
+export const monthlyPrizeDraws = pgTable("monthly_prize_draws", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  regionConfigId: varchar("region_config_id").notNull().references(() => regionConfigs.id),
+  month: integer("month").notNull(), // 1-12
+  year: integer("year").notNull(),
+  seed: text("seed").notNull(), // Semilla del sorteo, permite reproducir el resultado
+  participants: jsonb("participants").notNull().$type<{ userId: string; goals: number }[]>(), // Goles por usuario al momento del cierre
+  executedBy: varchar("executed_by").references(() => users.id),
+  executedAt: timestamp("executed_at").notNull().default(sql`now()`),
+}, (table) => ({
+  // Un solo cierre por configuración de región y mes
+  uniqueMonthlyDraw: unique().on(table.regionConfigId, table.month, table.year),
+}));
+
+export const monthlyPrizeWinners = pgTable("monthly_prize_winners", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  drawId: varchar("draw_id").notNull().references(() => monthlyPrizeDraws.id),
+  prizeId: varchar("prize_id").notNull().references(() => monthlyRegionPrizes.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rank: integer("rank").notNull(),
+  goals: decimal("goals", { precision: 10, scale: 2 }).notNull(),
+  goalTarget: integer("goal_target").notNull(),
+  selectionMethod: prizeSelectionMethodEnum("selection_method").notNull(),
+  qualifiedCount: integer("qualified_count").notNull(), // Participantes elegibles para este premio
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
 // Asociación de rewards a regiones/países
 export const rewardRegionAssignments = pgTable("reward_region_assignments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -235,6 +362,9 @@ export const grandPrizeCriteria = pgTable("grand_prize_criteria", {
   pointsWeight: integer("points_weight").default(60), // Peso en % para criterio combinado
   dealsWeight: integer("deals_weight").default(40), // Peso en % para criterio combinado
   isActive: boolean("is_active").notNull().default(true),
+  isLocked: boolean("is_locked").notNull().default(false), // Bloqueado tras premiar ganadores
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by").references(() => users.id),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
@@ -248,9 +378,130 @@ export const grandPrizeWinners = pgTable("grand_prize_winners", {
   score: decimal("score", { precision: 10, scale: 2 }).notNull(),
   rank: integer("rank").notNull(),
   awardedAt: timestamp("awarded_at").notNull().default(sql`now()`),
+  awardedBy: varchar("awarded_by").references(() => users.id),
   notes: text("notes"),
 });
 
+// Textos de plantillas de email reemplazados por un super-admin para una región e idioma
+export const emailTemplateOverrides = pgTable("email_template_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateKey: text("template_key").notNull(),
+  language: text("language").notNull(),
+  region: regionEnum("region").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // HTML del contenido con {{variables}}; el layout común se aplica igual
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  templateLanguageRegionUnique: unique().on(table.templateKey, table.language, table.region),
+}));
+
+// Cola persistente de emails salientes: se reintenta con backoff y, agotados los intentos, queda en "dead"
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  toEmail: text("to_email").notNull(),
+  toName: text("to_name"),
+  subject: text("subject").notNull(),
+  htmlContent: text("html_content").notNull(),
+  textContent: text("text_content"),
+  category: text("category").notNull(), // invite, magic_link, deal_approved, ...
+  status: emailOutboxStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().default(sql`now()`),
+  lockedAt: timestamp("locked_at"), // Momento en que un worker lo tomó para enviarlo
+  lastError: text("last_error"),
+  transport: text("transport"), // Driver que lo envió: brevo, smtp o file
+  providerMessageId: text("provider_message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Canales elegidos por el usuario para cada evento; sin fila se usan DEFAULT_NOTIFICATION_PREFERENCES
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(), // deal_approved, deal_rejected, redemption_status, ...
+  inApp: boolean("in_app").notNull().default(true),
+  email: boolean("email").notNull().default(true),
+  digest: boolean("digest").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+}, (table) => ({
+  userEventUnique: unique().on(table.userId, table.eventType),
+}));
+
+// Avisos pendientes de incluir en el próximo resumen por email del usuario
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  digestedAt: timestamp("digested_at"), // NULL = todavía no se envió en un resumen
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Resúmenes semanales enviados: una fila por usuario y semana evita duplicados si el proceso se reinicia
+export const weeklyDigestDeliveries = pgTable("weekly_digest_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  periodStart: timestamp("period_start").notNull(), // Inicio de la semana del envío
+  kind: text("kind").notNull(), // partner o admin
+  sentAt: timestamp("sent_at").notNull().default(sql`now()`),
+}, (table) => ({
+  userPeriodUnique: unique().on(table.userId, table.periodStart),
+}));
+
+// Tareas programadas del servidor: una fila por tarea registrada, con su cron y el bloqueo entre instancias
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(), // points-expiration, monthly-close, ...
+  schedule: text("schedule").notNull(), // Cron de 5 campos en UTC
+  enabled: boolean("enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: jobRunStatusEnum("last_status"),
+  lockedBy: text("locked_by"), // Instancia que la está ejecutando
+  lockedUntil: timestamp("locked_until"), // Vencido el plazo, otra instancia puede tomarla
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+});
+
+// Historial de ejecuciones de las tareas programadas
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: text("job_name").notNull().references(() => scheduledJobs.name, { onDelete: "cascade" }),
+  status: jobRunStatusEnum("status").notNull().default("running"),
+  trigger: text("trigger").notNull(), // schedule o manual
+  triggeredBy: varchar("triggered_by").references(() => users.id),
+  instanceId: text("instance_id").notNull(),
+  params: jsonb("params").notNull().default({}).$type<Record<string, unknown>>(), // Opciones de una ejecución manual
+  progress: jsonb("progress").$type<JobRunProgress>(), // Avance informado por la tarea mientras corre
+  result: jsonb("result").$type<Record<string, unknown>>(), // Resumen devuelto por la tarea
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().default(sql`now()`),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Sesiones de express-session guardadas por connect-pg-simple; sess incluye el usuario y los datos del dispositivo
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull().$type<Record<string, unknown>>(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
+// Intentos fallidos de acceso por IP o por cuenta, compartidos entre instancias del servidor
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(), // login-ip:<ip>, account:<userId>, login:<identificador>, ...
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }), // Solo en los contadores de cuenta
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull().default(sql`now()`),
+  lastIpAddress: text("last_ip_address"),
+  lockedUntil: timestamp("locked_until"), // Bloqueo temporal tras demasiados fallos seguidos
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   deals: many(deals),
@@ -314,6 +565,10 @@ export const pointsHistoryRelations = relations(pointsHistory, ({ one }) => ({
     fields: [pointsHistory.rewardId],
     references: [rewards.id],
   }),
+  campaign: one(campaigns, {
+    fields: [pointsHistory.campaignId],
+    references: [campaigns.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ one }) => ({
@@ -323,7 +578,7 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
-export const supportTicketsRelations = relations(supportTickets, ({ one }) => ({
+export const supportTicketsRelations = relations(supportTickets, ({ one, many }) => ({
   user: one(users, {
     fields: [supportTickets.userId],
     references: [users.id],
@@ -336,6 +591,62 @@ export const supportTicketsRelations = relations(supportTickets, ({ one }) => ({
     fields: [supportTickets.respondedBy],
     references: [users.id],
   }),
+  messages: many(supportTicketMessages),
+}));
+
+export const supportTicketMessagesRelations = relations(supportTicketMessages, ({ one }) => ({
+  ticket: one(supportTickets, {
+    fields: [supportTicketMessages.ticketId],
+    references: [supportTickets.id],
+  }),
+  author: one(users, {
+    fields: [supportTicketMessages.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const dealEventsRelations = relations(dealEvents, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealEvents.dealId],
+    references: [deals.id],
+  }),
+  actor: one(users, {
+    fields: [dealEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const dealConflictsRelations = relations(dealConflicts, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealConflicts.dealId],
+    references: [deals.id],
+  }),
+  conflictingDeal: one(deals, {
+    fields: [dealConflicts.conflictingDealId],
+    references: [deals.id],
+  }),
+}));
+
+export const dealAttachmentsRelations = relations(dealAttachments, ({ one }) => ({
+  deal: one(deals, {
+    fields: [dealAttachments.dealId],
+    references: [deals.id],
+  }),
+  uploader: one(users, {
+    fields: [dealAttachments.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+export const grandPrizeWinnersRelations = relations(grandPrizeWinners, ({ one }) => ({
+  user: one(users, {
+    fields: [grandPrizeWinners.userId],
+    references: [users.id],
+  }),
+  criteria: one(grandPrizeCriteria, {
+    fields: [grandPrizeWinners.criteriaId],
+    references: [grandPrizeCriteria.id],
+  }),
 }));
 
 export const regionConfigsRelations = relations(regionConfigs, ({ many }) => ({
@@ -351,6 +662,29 @@ export const monthlyRegionPrizesRelations = relations(monthlyRegionPrizes, ({ on
   }),
 }));
 
+export const monthlyPrizeDrawsRelations = relations(monthlyPrizeDraws, ({ one, many }) => ({
+  regionConfig: one(regionConfigs, {
+    fields: [monthlyPrizeDraws.regionConfigId],
+    references: [regionConfigs.id],
+  }),
+  winners: many(monthlyPrizeWinners),
+}));
+
+export const monthlyPrizeWinnersRelations = relations(monthlyPrizeWinners, ({ one }) => ({
+  draw: one(monthlyPrizeDraws, {
+    fields: [monthlyPrizeWinners.drawId],
+    references: [monthlyPrizeDraws.id],
+  }),
+  prize: one(monthlyRegionPrizes, {
+    fields: [monthlyPrizeWinners.prizeId],
+    references: [monthlyRegionPrizes.id],
+  }),
+  user: one(users, {
+    fields: [monthlyPrizeWinners.userId],
+    references: [users.id],
+  }),
+}));
+
 export const rewardRegionAssignmentsRelations = relations(rewardRegionAssignments, ({ one }) => ({
   reward: one(rewards, {
     fields: [rewardRegionAssignments.rewardId],
@@ -382,6 +716,11 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastUsedStep: true,
+  twoFactorEnabledAt: true,
 });
 
 export const updateUserSchema = createInsertSchema(users).omit({
@@ -394,10 +733,17 @@ export const updateUserSchema = createInsertSchema(users).omit({
   inviteToken: true,
   resetToken: true,
   resetTokenExpiry: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastUsedStep: true,
+  twoFactorEnabledAt: true,
 }).partial();
 
 export const insertDealSchema = createInsertSchema(deals).omit({
   id: true,
+  rejectionReason: true,
+  revision: true,
   pointsEarned: true,
   goalsEarned: true,
   approvedBy: true,
@@ -408,9 +754,13 @@ export const insertDealSchema = createInsertSchema(deals).omit({
   closeDate: z.string().transform((str) => new Date(str)),
 });
 
+// Status changes go through the approve/reject endpoints so they are audited and settle points
 export const updateDealSchema = createInsertSchema(deals).omit({
   id: true,
   userId: true,
+  status: true,
+  rejectionReason: true,
+  revision: true,
   pointsEarned: true,
   goalsEarned: true,
   approvedBy: true,
@@ -421,6 +771,46 @@ export const updateDealSchema = createInsertSchema(deals).omit({
   closeDate: z.string().transform((str) => new Date(str)),
 }).partial();
 
+export const rejectDealSchema = z.object({
+  reason: z.string().trim().min(1, "A rejection reason is required").max(1000),
+});
+
+export const resolveDealConflictsSchema = z.object({
+  resolution: z.enum(["not_duplicate", "duplicate"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Partners correct a rejected deal and send it back to review with a note for the admins
+export const resubmitDealSchema = updateDealSchema.omit({ regionId: true }).extend({
+  note: z.string().trim().min(1, "A note for the reviewer is required").max(1000),
+});
+
+// Proof-of-sale file already uploaded to object storage, sent along with the deal
+export const insertDealAttachmentSchema = createInsertSchema(dealAttachments).omit({
+  id: true,
+  dealId: true,
+  uploadedBy: true,
+  createdAt: true,
+}).extend({
+  objectPath: z.string().startsWith("/objects/deal-attachments/", "Invalid attachment path"),
+  fileName: z.string().trim().min(1).max(255),
+  contentType: z.enum(DEAL_ATTACHMENT_CONTENT_TYPES, {
+    errorMap: () => ({ message: "Only PDF and image files can be attached" }),
+  }),
+  sizeBytes: z.number().int().positive().max(DEAL_ATTACHMENT_MAX_BYTES, "Attachments must be 10 MB or smaller"),
+});
+
+export const dealAttachmentsSchema = z
+  .array(insertDealAttachmentSchema)
+  .max(DEAL_ATTACHMENT_MAX_FILES, `A deal can have at most ${DEAL_ATTACHMENT_MAX_FILES} attachments`)
+  .default([]);
+
+export const dealAttachmentUploadRequestSchema = insertDealAttachmentSchema.pick({
+  fileName: true,
+  contentType: true,
+  sizeBytes: true,
+});
+
 export const insertRewardSchema = createInsertSchema(rewards).omit({
   id: true,
   createdAt: true,
@@ -430,10 +820,13 @@ export const insertRewardSchema = createInsertSchema(rewards).omit({
 export const insertUserRewardSchema = createInsertSchema(userRewards).omit({
   id: true,
   redeemedAt: true,
+  heldPoints: true,
+  stockReserved: true,
 });
 
 export const insertPointsHistorySchema = createInsertSchema(pointsHistory).omit({
   id: true,
+  expirationWarnedAt: true,
   createdAt: true,
 });
 
@@ -447,25 +840,113 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+// SLA timestamps and the assignee are set by the server
+const supportTicketSlaFields = {
+  assignedAt: true,
+  firstResponseAt: true,
+  firstResponseDueAt: true,
+  resolutionDueAt: true,
+  resolvedAt: true,
+  escalatedAt: true,
+} as const;
+
 export const insertSupportTicketSchema = createInsertSchema(supportTickets).omit({
   id: true,
+  assignedTo: true,
+  ...supportTicketSlaFields,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES).default("medium"),
 });
 
 export const updateSupportTicketSchema = createInsertSchema(supportTickets).omit({
   id: true,
   userId: true,
+  ...supportTicketSlaFields,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+}).partial();
+
+export const updateSupportSlaPoliciesSchema = z.array(z.object({
+  priority: z.enum(SUPPORT_TICKET_PRIORITIES),
+  firstResponseMinutes: z.number().int().min(5).max(60 * 24 * 30),
+  resolutionMinutes: z.number().int().min(5).max(60 * 24 * 90),
+})).min(1);
+
+export const upsertEmailTemplateOverrideSchema = createInsertSchema(emailTemplateOverrides).pick({
+  templateKey: true,
+  language: true,
+  region: true,
+  subject: true,
+  body: true,
+}).extend({
+  templateKey: z.enum(EMAIL_TEMPLATE_KEYS),
+  language: z.enum(EMAIL_LANGUAGES),
+  subject: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(50000),
+});
+
+export const updateNotificationPreferencesSchema = z.array(z.object({
+  eventType: z.enum(NOTIFICATION_EVENTS),
+  inApp: z.boolean(),
+  email: z.boolean(),
+  digest: z.boolean(),
+})).min(1);
+
+export const updateScheduledJobSchema = z.object({
+  enabled: z.boolean(),
+  schedule: z.string().trim().min(9).max(100),
 }).partial();
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// Two-factor code: 6 digits from the authenticator app or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(32),
+});
+
+// Points/goals recalculation: dryRun only previews the per-user deltas, otherwise adjustment entries are posted
+export const pointsRecalculationRequestSchema = z.object({
+  region: z.enum(regionEnum.enumValues).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+// Preview with sample data; subject/body are an unsaved draft, otherwise the stored override or the default is used
+export const emailTemplatePreviewSchema = z.object({
+  templateKey: z.enum(EMAIL_TEMPLATE_KEYS),
+  language: z.enum(EMAIL_LANGUAGES),
+  region: z.enum(regionEnum.enumValues).optional(),
+  subject: z.string().max(200).optional(),
+  body: z.string().max(50000).optional(),
+});
+
+// Reply in a ticket thread; only admins may post internal notes (enforced by the route)
+export const insertSupportTicketMessageSchema = createInsertSchema(supportTicketMessages).pick({
+  body: true,
+  isInternal: true,
+}).extend({
+  body: z.string().trim().min(1, "The message cannot be empty").max(5000),
+  isInternal: z.boolean().optional().default(false),
+});
+
 export const updatePointsConfigSchema = createInsertSchema(pointsConfig).omit({
   id: true,
   updatedAt: true,
 }).extend({
   redemptionStartDate: z.string().nullable().optional().transform(val => val ? new Date(val) : null),
   redemptionEndDate: z.string().nullable().optional().transform(val => val ? new Date(val) : null),
+  pointsExpirationMonths: z.number().int().min(1).max(120).nullable().optional(),
+  expirationWarningDays: z.number().int().min(1).max(365).optional(),
 }).partial();
 
 export const insertRegionConfigSchema = createInsertSchema(regionConfigs).omit({
@@ -490,6 +971,20 @@ export const insertRewardRegionAssignmentSchema = createInsertSchema(rewardRegio
   createdAt: true,
 });
 
+// Audience of a reward: every field that is set must match the user (region, country and/or the user's region configuration)
+export const rewardAssignmentInputSchema = z.object({
+  region: z.enum(regionEnum.enumValues).nullable().default(null),
+  country: z.string().trim().max(100).nullable().default(null).transform((country) => country || null),
+  regionConfigId: z.string().nullable().default(null),
+}).refine((assignment) => assignment.region || assignment.country || assignment.regionConfigId, {
+  message: "Choose a region, a country or a region configuration",
+});
+
+// Replaces every assignment of a reward; an empty list makes it visible to its whole region again
+export const updateRewardAssignmentsSchema = z.object({
+  assignments: z.array(rewardAssignmentInputSchema).max(50),
+});
+
 export const insertGoalsHistorySchema = createInsertSchema(goalsHistory).omit({
   id: true,
   createdAt: true,
@@ -497,6 +992,9 @@ export const insertGoalsHistorySchema = createInsertSchema(goalsHistory).omit({
 
 export const insertGrandPrizeCriteriaSchema = createInsertSchema(grandPrizeCriteria).omit({
   id: true,
+  isLocked: true,
+  lockedAt: true,
+  lockedBy: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -515,12 +1013,20 @@ export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type Deal = typeof deals.$inferSelect;
 export type InsertDeal = z.infer<typeof insertDealSchema>;
 export type UpdateDeal = z.infer<typeof updateDealSchema>;
+export type ResubmitDeal = z.infer<typeof resubmitDealSchema>;
+export type DealEvent = typeof dealEvents.$inferSelect;
+export type InsertDealEvent = typeof dealEvents.$inferInsert;
+export type DealFieldChange = { field: string; before: unknown; after: unknown };
+export type DealConflict = typeof dealConflicts.$inferSelect;
+export type DealAttachment = typeof dealAttachments.$inferSelect;
+export type InsertDealAttachment = z.infer<typeof insertDealAttachmentSchema>;
 export type Reward = typeof rewards.$inferSelect;
 export type InsertReward = z.infer<typeof insertRewardSchema>;
 export type UserReward = typeof userRewards.$inferSelect;
 export type InsertUserReward = z.infer<typeof insertUserRewardSchema>;
 export type PointsHistory = typeof pointsHistory.$inferSelect;
 export type InsertPointsHistory = z.infer<typeof insertPointsHistorySchema>;
+export type UserPointsBalance = typeof userPointsBalances.$inferSelect;
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Notification = typeof notifications.$inferSelect;
@@ -528,15 +1034,22 @@ export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type SupportTicket = typeof supportTickets.$inferSelect;
 export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
 export type UpdateSupportTicket = z.infer<typeof updateSupportTicketSchema>;
+export type SupportSlaPolicy = typeof supportSlaPolicies.$inferSelect;
+export type UpdateSupportSlaPolicies = z.infer<typeof updateSupportSlaPoliciesSchema>;
+export type SupportTicketMessage = typeof supportTicketMessages.$inferSelect;
+export type InsertSupportTicketMessage = z.infer<typeof insertSupportTicketMessageSchema>;
 export type PointsConfig = typeof pointsConfig.$inferSelect;
 export type UpdatePointsConfig = z.infer<typeof updatePointsConfigSchema>;
 export type RegionConfig = typeof regionConfigs.$inferSelect;
 export type InsertRegionConfig = z.infer<typeof insertRegionConfigSchema>;
 export type UpdateRegionConfig = z.infer<typeof updateRegionConfigSchema>;
 export type MonthlyRegionPrize = typeof monthlyRegionPrizes.$inferSelect;
+export type MonthlyPrizeDraw = typeof monthlyPrizeDraws.$inferSelect;
+export type MonthlyPrizeWinner = typeof monthlyPrizeWinners.$inferSelect;
 export type InsertMonthlyRegionPrize = z.infer<typeof insertMonthlyRegionPrizeSchema>;
 export type RewardRegionAssignment = typeof rewardRegionAssignments.$inferSelect;
 export type InsertRewardRegionAssignment = z.infer<typeof insertRewardRegionAssignmentSchema>;
+export type RewardAssignmentInput = z.infer<typeof rewardAssignmentInputSchema>;
 export type GoalsHistory = typeof goalsHistory.$inferSelect;
 export type InsertGoalsHistory = z.infer<typeof insertGoalsHistorySchema>;
 export type GrandPrizeCriteria = typeof grandPrizeCriteria.$inferSelect;
@@ -544,6 +1057,28 @@ export type InsertGrandPrizeCriteria = z.infer<typeof insertGrandPrizeCriteriaSc
 export type UpdateGrandPrizeCriteria = z.infer<typeof updateGrandPrizeCriteriaSchema>;
 export type GrandPrizeWinner = typeof grandPrizeWinners.$inferSelect;
 export type InsertGrandPrizeWinner = z.infer<typeof insertGrandPrizeWinnerSchema>;
+export type EmailTemplateOverride = typeof emailTemplateOverrides.$inferSelect;
+export type UpsertEmailTemplateOverride = z.infer<typeof upsertEmailTemplateOverrideSchema>;
+export type EmailTemplatePreviewRequest = z.infer<typeof emailTemplatePreviewSchema>;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = typeof emailOutbox.$inferInsert;
+export type EmailOutboxStatus = typeof emailOutboxStatusEnum.enumValues[number];
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type InsertNotificationDigestItem = typeof notificationDigestItems.$inferInsert;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type WeeklyDigestDelivery = typeof weeklyDigestDeliveries.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+export type JobRunStatus = typeof jobRunStatusEnum.enumValues[number];
+export type UpdateScheduledJob = z.infer<typeof updateScheduledJobSchema>;
+export type PointsRecalculationRequest = z.infer<typeof pointsRecalculationRequestSchema>;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type UserSession = typeof sessions.$inferSelect;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
 
 
 // Deal with user information for admin views
@@ -551,6 +1086,7 @@ export type DealWithUser = Deal & {
   userFirstName: string;
   userLastName: string;
   userName: string;
+  attachmentCount?: number;
 };
 
 // Support ticket with user information for admin views
@@ -559,4 +1095,193 @@ export type SupportTicketWithUser = SupportTicket & {
   userLastName: string;
   userName: string;
   userEmail: string;
+  assigneeFirstName: string | null;
+  assigneeLastName: string | null;
+};
+
+// SLA targets in effect for one priority (stored policy or the default)
+export type SupportSlaTarget = {
+  priority: string;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+};
+
+// Response and resolution times for the support dashboard; averages in minutes
+export type SupportSlaPriorityMetrics = {
+  priority: string;
+  ticketCount: number;
+  avgFirstResponseMinutes: number | null;
+  avgResolutionMinutes: number | null;
+  firstResponseBreaches: number;
+  resolutionBreaches: number;
+};
+
+export type SupportSlaMetrics = Omit<SupportSlaPriorityMetrics, "priority"> & {
+  escalatedOpen: number;
+  byPriority: SupportSlaPriorityMetrics[];
+};
+
+// Ticket thread message with its author, so each side can tell user replies from the support team
+export type SupportTicketMessageWithAuthor = SupportTicketMessage & {
+  authorFirstName: string | null;
+  authorLastName: string | null;
+  authorUsername: string | null;
+  authorRole: User["role"] | null;
+};
+
+// Grand prize winner with user and criteria information for listings
+export type GrandPrizeWinnerWithUser = GrandPrizeWinner & {
+  userFirstName: string;
+  userLastName: string;
+  userName: string;
+  criteriaName: string;
+  region: string;
+};
+
+// Monthly prize draw with its winners for the monthly close results
+export type MonthlyPrizeWinnerWithUser = MonthlyPrizeWinner & {
+  userFirstName: string;
+  userLastName: string;
+  userName: string;
+  prizeName: string;
+};
+
+export type MonthlyPrizeDrawWithWinners = MonthlyPrizeDraw & {
+  winners: MonthlyPrizeWinnerWithUser[];
+};
+
+// Pending items in each admin review queue, shown as badges in the admin navigation
+export type AdminQueueCounts = {
+  pendingDeals: number;
+  pendingRedemptions: number;
+  pendingUsers: number;
+  openTickets: number;
+};
+
+// Deal audit event with the name of who performed it
+export type DealEventWithActor = DealEvent & {
+  actorFirstName: string | null;
+  actorLastName: string | null;
+  actorUsername: string | null;
+};
+
+// Open duplicate conflict with the deal it collides with, for the review queue
+export type DealConflictWithDeal = DealConflict & {
+  conflictingDeal: DealWithUser;
+};
+
+// Outbox size per status for the email delivery admin view
+export type EmailOutboxCounts = Record<EmailOutboxStatus, number>;
+
+// Outbox row without the message body, which may carry invite, sign-in or reset links
+export type EmailOutboxSummary = Omit<EmailOutboxEntry, "htmlContent" | "textContent">;
+
+// Built-in template text for one language, shown to super-admins as the starting point of an override
+export type EmailTemplateContent = {
+  subject: string;
+  body: string;
+};
+
+// Template catalog for the super-admin editor: variables available and default text per language
+export type EmailTemplateSummary = {
+  key: string;
+  variables: string[];
+  defaults: Record<string, EmailTemplateContent>;
+};
+
+export type RenderedEmailPreview = {
+  subject: string;
+  html: string;
+};
+
+// Channels in effect for one event (stored choice or the default), as shown on the profile
+export type NotificationPreferenceSetting = {
+  eventType: NotificationEvent;
+  inApp: boolean;
+  email: boolean;
+  digest: boolean;
+};
+
+// Scheduled job with its registered description and latest runs, for the super-admin jobs view
+export type ScheduledJobWithRuns = ScheduledJob & {
+  description: string;
+  running: boolean;
+  recentRuns: JobRun[];
+};
+
+export type JobRunProgress = {
+  processed: number;
+  total: number;
+};
+
+// Difference between the current ledger of a deal and what the current rules give it
+export type DealRewardsRecalculation = {
+  dealId: string;
+  userId: string;
+  pointsBefore: number;
+  pointsAfter: number;
+  goalsBefore: number;
+  goalsAfter: number;
+};
+
+export type PointsRecalculationUserDelta = {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  username: string;
+  dealsChanged: number;
+  pointsDelta: number;
+  goalsDelta: number;
+};
+
+// Result stored on the recalculation job run; the same shape is returned by the preview and the committed run
+export type PointsRecalculationResult = {
+  dryRun: boolean;
+  region: string | null;
+  dealsScanned: number;
+  dealsChanged: number;
+  pointsDelta: number;
+  goalsDelta: number;
+  users: PointsRecalculationUserDelta[];
+  errors: string[];
+};
+
+// Open session of the current user for the profile device list; id is a hash of the session id, never the id itself
+export type UserSessionInfo = {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ipAddress: string | null;
+  loginAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: Date;
+};
+
+// Two-factor state of the current user for the profile security tab
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean; // Mandatory for admin roles: it cannot be disabled
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+};
+
+// Enrollment data: the QR encodes otpauthUri, the secret is shown for manual entry
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+};
+
+// Account locked after repeated failed sign-ins, for the admin unlock view
+export type LockedAccount = {
+  userId: string;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  region: Region | null;
+  failures: number;
+  lastFailureAt: Date;
+  lastIpAddress: string | null;
+  lockedUntil: Date;
 };